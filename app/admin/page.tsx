@@ -9,6 +9,11 @@ import { Modal, Field, FieldRow, Banner, SubSectionTitle } from "@/lib/ui/driver
 import { MemberCard } from "@/lib/ui/driver/MemberCard";
 import { DriverProfileModal } from "@/lib/ui/driver/DriverProfileModal";
 import type { Member } from "@/lib/ui/driver/types";
+import { axleGeometryFromRows, DEFAULT_AXLE_LIMITS } from "@/app/calculator/utils/axleMath";
+import { bridgeGroupingLabel, evaluateBridge } from "@/app/calculator/utils/bridgeFormula";
+import { estimateTare } from "@/app/calculator/utils/tareEstimate";
+import type { TareSample } from "@/app/calculator/types";
+import type { TankColor } from "@/lib/fuelTempPredictor";
 
 // ─────────────────────────────────────────────────────────────
 // Types
@@ -27,6 +32,9 @@ type Truck = {
   fleet_ins_expiration_date: string | null; hazmat_lic_expiration_date: string | null;
   inner_bridge_expiration_date: string | null;
   notes: string | null;
+  // Axle geometry (inches from steer axle)
+  drive_axle_in?: number | null; fifth_wheel_in?: number | null;
+  drive_axle_count?: number | null; drive_spread_in?: number | null; steer_limit_lbs?: number | null;
 };
 
 type Compartment = { comp_number: number; max_gallons: number; position: number; };
@@ -45,17 +53,23 @@ type Trailer = {
   tank_l_expiration_date: string | null; tank_t_expiration_date: string | null;
   tank_i_expiration_date: string | null; tank_p_expiration_date: string | null;
   tank_uc_expiration_date: string | null; notes: string | null;
+  // Axle geometry (inches from kingpin)
+  trailer_axle_in?: number | null; trailer_axle_count?: number | null; trailer_spread_in?: number | null;
+  tank_front_in?: number | null; tank_rear_in?: number | null;
 };
 
 type Combo = {
   combo_id: string; combo_name: string; truck_id: string; trailer_id: string;
   tare_lbs: number; target_weight: number | null; active: boolean;
+  tare_steer_lbs?: number | null; tare_drive_lbs?: number | null; tare_trailer_lbs?: number | null;
   claimed_by?: string | null;
   truck?: { truck_name: string } | { truck_name: string }[] | null;
   trailer?: { trailer_name: string } | { trailer_name: string }[] | null;
   in_use_by_name?: string | null;
 };
 
+type TerminalTempFitRow = { n_obs: number; rmse_f: number; bias_f: number; baseline_rmse_f: number; fitted_at: string; };
+type TankDraft = { tank_color: TankColor; insulated: boolean; underground: boolean; turnover_days: string; };
 type OtherPermit = { permit_id?: string; label: string; expiration_date: string; };
 type SortField   = "name" | "role" | "division" | "region" | "hire_date";
 type SortDir     = "asc" | "desc";
@@ -106,6 +120,9 @@ type Terminal = {
 // Condensed input — used throughout modals
 const sm: React.CSSProperties = { padding: "4px 8px", fontSize: 12, height: 26 };
 
+// Optional numeric field → number | null for Supabase payloads
+const numOrNull = (v: string) => (v.trim() && Number.isFinite(parseFloat(v)) ? parseFloat(v) : null);
+
 function fmtExpiryInline(dateStr: string | null | undefined, days: number | null): string {
   if (!dateStr) return "—";
   try {
@@ -615,6 +632,12 @@ function TruckModal({ truck, companyId, onClose, onDone }: {
   const [hazLicExp, setHazLicExp] = useState(truck?.hazmat_lic_expiration_date ?? "");
   const [ibExp,     setIbExp]     = useState(truck?.inner_bridge_expiration_date ?? "");
   const [notes,     setNotes]     = useState(truck?.notes ?? "");
+  // Axle geometry
+  const [driveIn,    setDriveIn]    = useState(String(truck?.drive_axle_in ?? ""));
+  const [fifthIn,    setFifthIn]    = useState(String(truck?.fifth_wheel_in ?? ""));
+  const [driveCount, setDriveCount] = useState(String(truck?.drive_axle_count ?? "2"));
+  const [driveSpread, setDriveSpread] = useState(String(truck?.drive_spread_in ?? ""));
+  const [steerLimit, setSteerLimit] = useState(String(truck?.steer_limit_lbs ?? ""));
   // Multiple other permits
   const [otherPermits, setOtherPermits] = useState<OtherPermit[]>([]);
   const [err, setErr] = useState<string | null>(null);
@@ -644,6 +667,9 @@ function TruckModal({ truck, companyId, onClose, onDone }: {
       phmsa_expiration_date: phmsaExp || null, alliance_expiration_date: alliExp || null,
       fleet_ins_expiration_date: fleetExp || null, hazmat_lic_expiration_date: hazLicExp || null,
       inner_bridge_expiration_date: ibExp || null, notes: notes || null,
+      drive_axle_in: numOrNull(driveIn), fifth_wheel_in: numOrNull(fifthIn),
+      drive_axle_count: numOrNull(driveCount) ?? 2, drive_spread_in: numOrNull(driveSpread),
+      steer_limit_lbs: numOrNull(steerLimit),
     };
     let truckId = truck?.truck_id;
     if (isNew) {
@@ -719,6 +745,22 @@ function TruckModal({ truck, companyId, onClose, onDone }: {
 
       <hr style={css.divider} />
 
+      {/* ── Axle Geometry ── */}
+      <SubSectionTitle>Axle Geometry</SubSectionTitle>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: "6px 10px", marginBottom: 4 }}>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Steer → Drive (in)</label>{ti(driveIn, setDriveIn, "e.g. 178", "number")}</div>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Steer → 5th Wheel (in)</label>{ti(fifthIn, setFifthIn, "e.g. 170", "number")}</div>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Drive Axles</label>{ti(driveCount, setDriveCount, "2", "number")}</div>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Drive Spread (in)</label>{ti(driveSpread, setDriveSpread, "52", "number")}</div>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Steer Limit (lbs)</label>{ti(steerLimit, setSteerLimit, "12000", "number")}</div>
+      </div>
+      <div style={{ fontSize: 11, color: T.muted, marginBottom: 10, lineHeight: 1.5 }}>
+        Measured from the steer axle centerline to the drive group center and fifth wheel pivot.
+        Spread = first to last drive axle. Used for per-axle weights and the bridge formula.
+      </div>
+
+      <hr style={css.divider} />
+
       {/* ── Permit Book ── */}
       <SubSectionTitle>Permit Book</SubSectionTitle>
       <PermitEditRow label="Registration"              expVal={regExp}   onExpChange={setRegExp}   enfVal={regEnf}   onEnfChange={setRegEnf} />
@@ -878,6 +920,12 @@ function TrailerModal({ trailer, companyId, onClose, onDone }: {
   );
   const [tankAddOpen, setTankAddOpen] = useState(false);
   const [notes,  setNotes]  = useState(trailer?.notes ?? "");
+  // Axle geometry
+  const [axleIn,    setAxleIn]    = useState(String(trailer?.trailer_axle_in ?? ""));
+  const [axleCount, setAxleCount] = useState(String(trailer?.trailer_axle_count ?? "2"));
+  const [axleSpread, setAxleSpread] = useState(String(trailer?.trailer_spread_in ?? ""));
+  const [tankFront, setTankFront] = useState(String(trailer?.tank_front_in ?? ""));
+  const [tankRear,  setTankRear]  = useState(String(trailer?.tank_rear_in ?? ""));
   const [err, setErr] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
 
@@ -901,6 +949,9 @@ function TrailerModal({ trailer, companyId, onClose, onDone }: {
       tank_p_expiration_date:  tanks.find(t => t.key === "p")?.date  || null,
       tank_uc_expiration_date: tanks.find(t => t.key === "uc")?.date || null,
       notes: notes || null,
+      trailer_axle_in: numOrNull(axleIn), trailer_axle_count: numOrNull(axleCount) ?? 2,
+      trailer_spread_in: numOrNull(axleSpread),
+      tank_front_in: numOrNull(tankFront), tank_rear_in: numOrNull(tankRear),
     };
     let trailerId = trailer?.trailer_id;
     if (isNew) {
@@ -974,6 +1025,20 @@ function TrailerModal({ trailer, companyId, onClose, onDone }: {
         <CompartmentEditor comps={comps} onChange={setComps} />
       </div>
 
+      {/* ── Axle Geometry ── */}
+      <SubSectionTitle>Axle Geometry</SubSectionTitle>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: "6px 10px", marginBottom: 4 }}>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Kingpin → Axles (in)</label>{ti(axleIn, setAxleIn, "e.g. 444", "number")}</div>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Trailer Axles</label>{ti(axleCount, setAxleCount, "2", "number")}</div>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Axle Spread (in)</label>{ti(axleSpread, setAxleSpread, "49", "number")}</div>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Kingpin → Tank Front (in)</label>{ti(tankFront, setTankFront, "e.g. 12", "number")}</div>
+        <div><label style={{ ...css.label, fontSize: 10 }}>Kingpin → Tank Rear (in)</label>{ti(tankRear, setTankRear, "e.g. 480", "number")}</div>
+      </div>
+      <div style={{ fontSize: 11, color: T.muted, marginBottom: 10, lineHeight: 1.5 }}>
+        Measured from the kingpin to the trailer axle group center and to the front/rear tank heads.
+        Spread = first to last trailer axle. Compartments are placed front → rear along the barrel by capacity.
+      </div>
+
       <hr style={css.divider} />
 
       {/* ── Permit Book ── */}
@@ -1072,18 +1137,53 @@ function ComboModal({ combo, companyId, trucks, trailers, onClose, onDone, onDec
   const [trailerId, setTrailerId] = useState(combo?.trailer_id ?? trailers[0]?.trailer_id ?? "");
   const [tareLbs,   setTareLbs]   = useState(String(combo?.tare_lbs ?? ""));
   const [target,    setTarget]    = useState(String(combo?.target_weight ?? "80000"));
+  const [tareSteer,   setTareSteer]   = useState(String(combo?.tare_steer_lbs ?? ""));
+  const [tareDrive,   setTareDrive]   = useState(String(combo?.tare_drive_lbs ?? ""));
+  const [tareTrailer, setTareTrailer] = useState(String(combo?.tare_trailer_lbs ?? ""));
   const [err,       setErr]       = useState<string | null>(null);
   const [saving,    setSaving]    = useState(false);
+  const [tareSamples, setTareSamples] = useState<TareSample[]>([]);
+
+  // Recent scaled loads for this combo → suggested tare
+  useEffect(() => {
+    if (!combo?.combo_id) return;
+    supabase.rpc("get_combo_tare_samples", { p_combo_id: combo.combo_id })
+      .then(({ data }) => {
+        if (!Array.isArray(data)) return;
+        const rows = data as Array<{ load_id: string; at: string | null; scale_gross_lbs: number; actual_total_lbs: number; tare_lbs: number | null }>;
+        setTareSamples(rows.map(r => ({
+          loadId: r.load_id, at: r.at ?? "", scaleGrossLbs: Number(r.scale_gross_lbs), payloadLbs: Number(r.actual_total_lbs),
+          tareLbs: r.tare_lbs != null ? Number(r.tare_lbs) : null,
+        })));
+      });
+  }, [combo?.combo_id]);
+  const tareEst = useMemo(() => estimateTare(tareSamples, combo?.tare_lbs ?? 0), [tareSamples, combo?.tare_lbs]);
+
+  // Bridge formula ceiling for the selected pair (null until both units have axle geometry)
+  const bridge = useMemo(() => {
+    const tk = trucks.find(t => t.truck_id === truckId);
+    const geometry = axleGeometryFromRows(tk, trailers.find(t => t.trailer_id === trailerId));
+    if (!geometry) return null;
+    return evaluateBridge(geometry, { ...DEFAULT_AXLE_LIMITS, steer: tk?.steer_limit_lbs ?? DEFAULT_AXLE_LIMITS.steer });
+  }, [trucks, trailers, truckId, trailerId]);
 
   async function save() {
     if (!truckId || !trailerId) { setErr("Select a truck and trailer."); return; }
     if (!tareLbs || parseFloat(tareLbs) <= 0) { setErr("Tare weight is required."); return; }
+    if (bridge && (parseFloat(target) || 80000) > bridge.grossCeilingLbs) {
+      setErr(`Target exceeds the bridge formula max of ${bridge.grossCeilingLbs.toLocaleString()} lbs` +
+        (bridge.binding ? ` (${bridgeGroupingLabel(bridge.binding)}).` : "."));
+      return;
+    }
     setSaving(true); setErr(null);
     if (isNew) {
       const { error } = await supabase.rpc("couple_combo", { p_truck_id: truckId, p_trailer_id: trailerId, p_tare_lbs: parseFloat(tareLbs), p_target_weight: parseFloat(target) || 80000 });
       if (error) { setErr(error.message); setSaving(false); return; }
     } else {
-      const { error } = await supabase.from("equipment_combos").update({ truck_id: truckId, trailer_id: trailerId, tare_lbs: parseFloat(tareLbs), target_weight: parseFloat(target) || null }).eq("combo_id", combo!.combo_id);
+      const { error } = await supabase.from("equipment_combos").update({
+        truck_id: truckId, trailer_id: trailerId, tare_lbs: parseFloat(tareLbs), target_weight: parseFloat(target) || null,
+        tare_steer_lbs: numOrNull(tareSteer), tare_drive_lbs: numOrNull(tareDrive), tare_trailer_lbs: numOrNull(tareTrailer),
+      }).eq("combo_id", combo!.combo_id);
       if (error) { setErr(error.message); setSaving(false); return; }
     }
     onDone();
@@ -1113,12 +1213,51 @@ function ComboModal({ combo, companyId, trucks, trailers, onClose, onDone, onDec
         <div style={{ flex: 1 }}>
           <label style={css.label}>Tare Weight (lbs)</label>
           <input type="number" value={tareLbs} onChange={e => setTareLbs(e.target.value)} placeholder="e.g. 34000" style={css.input} />
+          {tareEst && (
+            <div style={{ fontSize: 11, color: tareEst.significant ? T.warning : T.muted, marginTop: 4, lineHeight: 1.5 }}>
+              Scale suggests {Math.round(tareEst.tareLbs).toLocaleString()} ± {Math.round((tareEst.ciHighLbs - tareEst.ciLowLbs) / 2).toLocaleString()} lbs
+              {" "}({tareEst.n} load{tareEst.n === 1 ? "" : "s"}{tareEst.rejected > 0 ? `, ${tareEst.rejected} skipped` : ""})
+              {tareEst.significant && String(Math.round(tareEst.tareLbs)) !== tareLbs && (
+                <button type="button" onClick={() => setTareLbs(String(Math.round(tareEst.tareLbs)))}
+                  style={{ marginLeft: 6, background: "none", border: "none", padding: 0, color: T.accent, fontSize: 11, fontWeight: 700, cursor: "pointer" }}>
+                  Accept
+                </button>
+              )}
+            </div>
+          )}
         </div>
         <div style={{ flex: 1 }}>
           <label style={css.label}>Target Gross (lbs)</label>
           <input type="number" value={target} onChange={e => setTarget(e.target.value)} placeholder="e.g. 80000" style={css.input} />
+          {bridge && (
+            <div style={{ fontSize: 11, color: T.muted, marginTop: 4 }}>
+              Bridge max {bridge.grossCeilingLbs.toLocaleString()} lbs{bridge.binding ? ` · ${bridgeGroupingLabel(bridge.binding)}` : ""}
+            </div>
+          )}
         </div>
       </div>
+      {!isNew && (
+        <>
+          <SubSectionTitle>Tare by Axle Group</SubSectionTitle>
+          <div style={{ display: "flex", gap: 10, marginBottom: 6 }}>
+            <div style={{ flex: 1 }}>
+              <label style={css.label}>Steer</label>
+              <input type="number" value={tareSteer} onChange={e => setTareSteer(e.target.value)} placeholder="lbs" style={css.input} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={css.label}>Drive</label>
+              <input type="number" value={tareDrive} onChange={e => setTareDrive(e.target.value)} placeholder="lbs" style={css.input} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={css.label}>Trailer</label>
+              <input type="number" value={tareTrailer} onChange={e => setTareTrailer(e.target.value)} placeholder="lbs" style={css.input} />
+            </div>
+          </div>
+          <div style={{ fontSize: 11, color: T.muted, marginBottom: 20, lineHeight: 1.5 }}>
+            From an empty scale ticket. Leave blank to estimate the split from total tare.
+          </div>
+        </>
+      )}
 
       {/* Equal-width buttons, full-width row, evenly spaced */}
       <div style={{ display: "flex", gap: 8 }}>
@@ -1349,6 +1488,16 @@ function TerminalGroup({ cityState, terminals, onEdit }: {
 // TerminalModal — add/edit terminal with product assignment
 // ─────────────────────────────────────────────────────────────
 
+const DEFAULT_TANK: TankDraft = { tank_color: "white", insulated: false, underground: false, turnover_days: "" };
+const TANK_COLORS: { value: TankColor; label: string }[] = [
+  { value: "white", label: "White" }, { value: "light_gray", label: "Light gray" },
+  { value: "aluminum", label: "Aluminum" }, { value: "dark", label: "Dark" },
+];
+
+function isDefaultTank(t: TankDraft): boolean {
+  return t.tank_color === "white" && !t.insulated && !t.underground && !t.turnover_days.trim();
+}
+
 function TerminalModal({ terminal, companyId, allProducts, onClose, onDone }: {
   terminal: Terminal | null; companyId: string; allProducts: Product[];
   onClose: () => void; onDone: () => void;
@@ -1371,6 +1520,54 @@ function TerminalModal({ terminal, companyId, allProducts, onClose, onDone }: {
   const [catalogSearch, setCatalogSearch] = useState("");
   const [saving,        setSaving]        = useState(false);
   const [err,           setErr]           = useState<string | null>(null);
+  const [tempFit,       setTempFit]       = useState<TerminalTempFitRow | null>(null);
+  const [refitting,     setRefitting]     = useState(false);
+  // Storage tank per product, keyed by product_id — only non-default tanks are stored
+  const [tanks,         setTanks]         = useState<Record<string, TankDraft>>({});
+
+  useEffect(() => {
+    if (!terminal?.terminal_id) return;
+    supabase.from("terminal_product_tanks")
+      .select("product_id, tank_color, insulated, underground, turnover_days")
+      .eq("terminal_id", terminal.terminal_id)
+      .then(({ data }) => {
+        const rows = (data ?? []) as { product_id: string; tank_color: TankColor; insulated: boolean; underground: boolean; turnover_days: number | null }[];
+        setTanks(Object.fromEntries(rows.map(r => [r.product_id, {
+          tank_color: r.tank_color, insulated: r.insulated, underground: r.underground,
+          turnover_days: r.turnover_days != null ? String(r.turnover_days) : "",
+        }])));
+      });
+  }, [terminal?.terminal_id]);
+
+  function setTank(productId: string, patch: Partial<TankDraft>) {
+    setTanks(prev => ({ ...prev, [productId]: { ...(prev[productId] ?? DEFAULT_TANK), ...patch } }));
+  }
+
+  useEffect(() => {
+    if (!terminal?.terminal_id) return;
+    supabase.from("terminal_temp_params")
+      .select("n_obs, rmse_f, bias_f, baseline_rmse_f, fitted_at")
+      .eq("terminal_id", terminal.terminal_id)
+      .maybeSingle()
+      .then(({ data }) => { if (data) setTempFit(data as TerminalTempFitRow); });
+  }, [terminal?.terminal_id]);
+
+  async function refitTemp() {
+    setRefitting(true); setErr(null);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const res = await fetch("/api/fuel-temp/calibrate", { method: "POST",
+        headers: { "Content-Type": "application/json", "Authorization": `Bearer ${session?.access_token ?? ""}` },
+        body: JSON.stringify({ terminalId: terminal!.terminal_id }) });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error ?? `Refit failed (${res.status}).`);
+      const r = json?.results?.[0];
+      if (!r) throw new Error("Terminal has no coordinates yet — open it in the planner once.");
+      if (r.skipped) throw new Error(`Not enough data to fit: ${r.skipped}.`);
+      setTempFit({ n_obs: r.nObs, rmse_f: r.rmseF, bias_f: r.biasF, baseline_rmse_f: r.baselineRmseF, fitted_at: new Date().toISOString() });
+    } catch (e: unknown) { setErr((e as { message?: string })?.message ?? String(e)); }
+    finally { setRefitting(false); }
+  }
 
   function addFromCatalog(productId: string) {
     setAssigned(prev => [...prev, productId]);
@@ -1418,6 +1615,26 @@ function TerminalModal({ terminal, companyId, allProducts, onClose, onDone }: {
         );
         if (pErr) throw pErr;
       }
+
+      // Sync terminal_product_tanks — same pattern, non-default tanks of assigned products only
+      const tankRows = [...new Set(assigned)]
+        .filter(productId => tanks[productId] && !isDefaultTank(tanks[productId]))
+        .map(productId => {
+          const t = tanks[productId];
+          const days = parseFloat(t.turnover_days);
+          return {
+            terminal_id: tid!, product_id: productId, tank_color: t.tank_color,
+            insulated: t.insulated, underground: t.underground,
+            turnover_days: Number.isFinite(days) && days > 0 ? days : null,
+          };
+        });
+      await supabase.from("terminal_product_tanks").delete().eq("terminal_id", tid!);
+      if (tankRows.length > 0) {
+        const { error: kErr } = await supabase.from("terminal_product_tanks").insert(tankRows);
+        // RLS: tanks are editable only at terminals someone in the company uses
+        if (kErr?.code === "42501") throw new Error("Tank profiles can only be set at terminals your drivers use.");
+        if (kErr) throw kErr;
+      }
       onDone();
     } catch (e: any) { setErr(e?.message ?? "Save failed."); }
     finally { setSaving(false); }
@@ -1455,6 +1672,19 @@ function TerminalModal({ terminal, companyId, allProducts, onClose, onDone }: {
         The <em>Deactivate</em> button below hides it without revoking access.
       </div>
 
+      {!isNew && (
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, marginBottom: 10 }}>
+          <div style={{ fontSize: 11, color: T.muted, lineHeight: 1.5 }}>
+            <strong style={{ color: T.text }}>Product temp model</strong>{" "}
+            {tempFit
+              ? <>fitted to {tempFit.n_obs} loads · ±{Number(tempFit.rmse_f).toFixed(1)}°F (default ±{Number(tempFit.baseline_rmse_f).toFixed(1)}°F) · bias {Number(tempFit.bias_f) > 0 ? "+" : ""}{Number(tempFit.bias_f).toFixed(1)}°F · {fmtDate(tempFit.fitted_at.slice(0, 10))}</>
+              : "not calibrated — using the default large-tank model"}
+          </div>
+          <button type="button" style={{ ...css.btn("subtle"), fontSize: 11, padding: "2px 10px", flexShrink: 0 }}
+            onClick={refitTemp} disabled={refitting}>{refitting ? "Fitting…" : "Refit"}</button>
+        </div>
+      )}
+
       <hr style={css.divider} />
 
       {/* ── Products ── */}
@@ -1502,6 +1732,9 @@ function TerminalModal({ terminal, companyId, allProducts, onClose, onDone }: {
         : assigned.map((productId, i) => {
           const p = allProducts.find(x => x.product_id === productId);
           if (!p) return null;
+          // One tank per product — duplicates share the first row's editor
+          const firstOfProduct = assigned.indexOf(productId) === i;
+          const tank = tanks[productId] ?? DEFAULT_TANK;
           return (
             <div key={`${productId}-${i}`}
               style={{ display: "flex", alignItems: "center", gap: 8, padding: "4px 0",
@@ -1510,6 +1743,31 @@ function TerminalModal({ terminal, companyId, allProducts, onClose, onDone }: {
               <div style={{ flex: 1, minWidth: 0 }}>
                 <div style={{ fontSize: 12, fontWeight: 700, color: T.text }}>{p.product_name}</div>
                 {p.description && <div style={{ fontSize: 10, color: T.muted, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" as const }}>{p.description}</div>}
+                {firstOfProduct && (
+                  <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" as const, marginTop: 3, fontSize: 10, color: T.muted }}>
+                    <span>Tank</span>
+                    <select value={tank.tank_color} disabled={tank.underground}
+                      onChange={e => setTank(productId, { tank_color: e.target.value as TankColor })}
+                      style={{ ...css.input, fontSize: 10, padding: "1px 4px", width: "auto" }}>
+                      {TANK_COLORS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                    </select>
+                    <label style={{ display: "flex", alignItems: "center", gap: 3, cursor: "pointer" }}>
+                      <input type="checkbox" checked={tank.insulated} disabled={tank.underground}
+                        onChange={e => setTank(productId, { insulated: e.target.checked })} />Insulated
+                    </label>
+                    <label style={{ display: "flex", alignItems: "center", gap: 3, cursor: "pointer" }}>
+                      <input type="checkbox" checked={tank.underground}
+                        onChange={e => setTank(productId, { underground: e.target.checked })} />Underground
+                    </label>
+                    <label style={{ display: "flex", alignItems: "center", gap: 3 }}>
+                      Turnover
+                      <input type="number" min={0} step={0.5} value={tank.turnover_days} placeholder="—"
+                        onChange={e => setTank(productId, { turnover_days: e.target.value })}
+                        style={{ ...css.input, fontSize: 10, padding: "1px 4px", width: 48 }} />
+                      days
+                    </label>
+                  </div>
+                )}
               </div>
               <button type="button" onClick={() => removeAssigned(i)}
                 style={{ background: "none", border: "none", cursor: "pointer", color: T.danger,
@@ -1545,6 +1803,52 @@ function TerminalModal({ terminal, companyId, allProducts, onClose, onDone }: {
   );
 }
 
+// ─────────────────────────────────────────────────────────────
+// Shipping papers — 24-hour emergency response contact (172.604)
+// ─────────────────────────────────────────────────────────────
+
+function ShippingPaperSettings({ companyId }: { companyId: string }) {
+  const [phone,    setPhone]    = useState("");
+  const [contract, setContract] = useState("");
+  const [saving,   setSaving]   = useState(false);
+  const [status,   setStatus]   = useState<{ msg: string; type: "error" | "success" } | null>(null);
+
+  useEffect(() => {
+    supabase.from("companies").select("emergency_response_phone, emergency_response_contract").eq("company_id", companyId).maybeSingle()
+      .then(({ data }) => {
+        setPhone(data?.emergency_response_phone ?? "");
+        setContract(data?.emergency_response_contract ?? "");
+      });
+  }, [companyId]);
+
+  async function save() {
+    setSaving(true); setStatus(null);
+    const { error } = await supabase.from("companies").update({
+      emergency_response_phone: phone.trim() || null,
+      emergency_response_contract: contract.trim() || null,
+    }).eq("company_id", companyId);
+    setSaving(false);
+    setStatus(error ? { msg: error.message, type: "error" } : { msg: "Saved.", type: "success" });
+  }
+
+  return (
+    <div style={css.card}>
+      {status && <Banner msg={status.msg} type={status.type} />}
+      <FieldRow>
+        <Field label="24-hour emergency phone" half>
+          <input value={phone} onChange={e => setPhone(e.target.value)} placeholder="1-800-424-9300" style={css.input} />
+        </Field>
+        <Field label="ERI provider / contract holder" half>
+          <input value={contract} onChange={e => setContract(e.target.value)} placeholder="Optional — e.g. CHEMTREC CCN 12345" style={css.input} />
+        </Field>
+      </FieldRow>
+      <div style={{ display: "flex", justifyContent: "flex-end" }}>
+        <button style={{ ...css.btn("primary"), opacity: saving ? 0.6 : 1 }} disabled={saving} onClick={save}>{saving ? "Saving…" : "Save"}</button>
+      </div>
+    </div>
+  );
+}
+
 // ─────────────────────────────────────────────────────────────
 // Main AdminPage
 // ─────────────────────────────────────────────────────────────
@@ -1657,7 +1961,7 @@ export default function AdminPage() {
 
       // Active combos
       const { data: comboRows } = await supabase.from("equipment_combos")
-        .select("combo_id, combo_name, truck_id, trailer_id, tare_lbs, target_weight, active, claimed_by, truck:trucks(truck_name), trailer:trailers(trailer_name)")
+        .select("combo_id, combo_name, truck_id, trailer_id, tare_lbs, target_weight, tare_steer_lbs, tare_drive_lbs, tare_trailer_lbs, active, claimed_by, truck:trucks(truck_name), trailer:trailers(trailer_name)")
         .eq("company_id", cid).eq("active", true).order("combo_name");
 
       const claimedIds = [...new Set((comboRows ?? []).map((c: any) => c.claimed_by).filter(Boolean))];
@@ -1950,6 +2254,14 @@ export default function AdminPage() {
         )}
       </section>
 
+      <hr style={css.divider} />
+
+      {/* ── SHIPPING PAPERS ── */}
+      <section style={{ marginBottom: 32, marginTop: 28 }}>
+        <div style={css.sectionHead}><h2 style={css.sectionTitle}>Shipping papers</h2></div>
+        <ShippingPaperSettings companyId={companyId!} />
+      </section>
+
       {/* ── Modals ── */}
       {inviteModal  && <InviteModal companyId={companyId!} onClose={() => setInviteModal(false)} onDone={() => { setInviteModal(false); loadAll(); }} />}
       {profileModal && <DriverProfileModal member={profileModal.member} companyId={companyId!} onClose={() => setProfileModal(null)} onDone={(u) => { profileModal.onSaved(u); setProfileModal(null); }} onRemove={() => { setProfileModal(null); loadAll(); }} />}
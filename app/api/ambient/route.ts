@@ -0,0 +1,61 @@
+// app/api/ambient/route.ts
+// Current air temp for a city — keeps the weather key on the server.
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getWeatherProvider, type Coords } from "@/lib/weather";
+
+export const runtime = "nodejs";
+
+/**
+ * Coordinates for a city when the provider has no geocoder (NWS): any active
+ * terminal in that city that has already back-filled its lat/lon.
+ */
+async function terminalCoords(city: string, state: string): Promise<Coords | null> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+
+  const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+  const { data } = await supabase
+    .from("terminals")
+    .select("lat, lon")
+    .ilike("city", city.trim())
+    .ilike("state", state.trim())
+    .not("lat", "is", null)
+    .not("lon", "is", null)
+    .limit(1)
+    .maybeSingle();
+  return data ? { lat: Number(data.lat), lon: Number(data.lon) } : null;
+}
+
+export async function POST(req: Request) {
+  try {
+    const { city, state, lat, lon } = (await req.json()) as {
+      city: string;
+      state: string;
+      lat?: number | null;
+      lon?: number | null;
+    };
+
+    if (!city || !state) {
+      return NextResponse.json({ error: "city and state are required." }, { status: 400 });
+    }
+
+    const provider = getWeatherProvider();
+
+    const at: Coords | null =
+      typeof lat === "number" && typeof lon === "number"
+        ? { lat, lon }
+        : (await provider.geocode(city, state)) ?? (await terminalCoords(city, state));
+    if (!at) {
+      return NextResponse.json({ error: `No coordinates for ${city}, ${state}.` }, { status: 404 });
+    }
+
+    const wx = await provider.ambient(at);
+    return NextResponse.json({ city, state, tempF: wx.tempF, lat: wx.lat, lon: wx.lon, provider: provider.name });
+  } catch (e: unknown) {
+    const msg = (e as { message?: string })?.message ?? String(e);
+    console.error("[ambient]", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,141 @@
+// app/api/fuel-temp/calibrate/route.ts
+// Refit the storage tank model per terminal from completed loads.
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { makeCityKey } from "@/lib/weather/cityKey";
+import type { HourlyWx } from "@/lib/fuelTempPredictor";
+import {
+  calibrationQuality, fitTerminalTempParams, CALIBRATION_LOOKBACK_HOURS, CALIBRATION_MIN_OBS,
+  type TempObservation,
+} from "@/lib/fuelTempCalibration";
+
+export const runtime = "nodejs";
+
+// Most recent completed loads considered per terminal
+const MAX_LOADS = 120;
+const PAGE = 1000;
+
+type LoadRow = {
+  loaded_at: string | null;
+  completed_at: string | null;
+  load_lines: { actual_temp_f: number | null }[] | null;
+};
+
+type WxRow = { ts: string; temp_f: number; wind_mph: number; cloud_pct: number };
+
+export async function POST(req: NextRequest) {
+  try {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceKey) {
+      return NextResponse.json({ error: "Server misconfiguration: SUPABASE_SERVICE_ROLE_KEY is not set." }, { status: 500 });
+    }
+
+    const body = (await req.json().catch(() => ({}))) as { terminalId?: string };
+
+    // Any company admin may refit — terminals are shared across companies
+    const jwt = (req.headers.get("authorization") ?? "").replace("Bearer ", "").trim();
+    if (!jwt) return NextResponse.json({ error: "Not authenticated." }, { status: 401 });
+
+    const supabase = createClient(url, serviceKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+    const { data: { user: caller }, error: callerErr } = await supabase.auth.getUser(jwt);
+    if (callerErr || !caller) return NextResponse.json({ error: "Not authenticated." }, { status: 401 });
+
+    const { data: adminRows } = await supabase
+      .from("user_companies")
+      .select("company_id")
+      .eq("user_id", caller.id)
+      .eq("role", "admin")
+      .limit(1);
+    if (!adminRows?.length) return NextResponse.json({ error: "Admin access required." }, { status: 403 });
+
+    let tq = supabase
+      .from("terminals")
+      .select("terminal_id, terminal_name, city, state, lat, lon")
+      .eq("active", true)
+      .not("lat", "is", null)
+      .not("lon", "is", null);
+    if (body.terminalId) tq = tq.eq("terminal_id", body.terminalId);
+    const { data: terminals, error: tErr } = await tq;
+    if (tErr) throw tErr;
+
+    const results = [];
+    for (const t of terminals ?? []) {
+      // ── Observations: one per load, mean of its recorded line temps ────────
+      const { data: loads, error: lErr } = await supabase
+        .from("load_log")
+        .select("loaded_at, completed_at, load_lines(actual_temp_f)")
+        .eq("terminal_id", t.terminal_id)
+        .in("status", ["loaded", "completed"])
+        .order("completed_at", { ascending: false })
+        .limit(MAX_LOADS);
+      if (lErr) throw lErr;
+
+      const points = ((loads ?? []) as LoadRow[]).flatMap((l) => {
+        const at = l.loaded_at ?? l.completed_at;
+        const temps = (l.load_lines ?? []).map((x) => Number(x.actual_temp_f)).filter((x) => x > -60 && x < 200);
+        if (!at || temps.length === 0) return [];
+        return [{ ts: Math.floor(new Date(at).getTime() / 1000), actualTempF: temps.reduce((s, x) => s + x, 0) / temps.length }];
+      });
+
+      if (points.length < CALIBRATION_MIN_OBS) {
+        results.push({ terminalId: t.terminal_id, terminalName: t.terminal_name, skipped: `${points.length} loads with temps` });
+        continue;
+      }
+
+      // ── Weather covering every observation's lookback ──────────────────────
+      const fromIso = new Date((Math.min(...points.map((p) => p.ts)) - CALIBRATION_LOOKBACK_HOURS * 3600) * 1000).toISOString();
+      const toIso = new Date(Math.max(...points.map((p) => p.ts)) * 1000).toISOString();
+      const wx: HourlyWx[] = [];
+      for (let from = 0; ; from += PAGE) {
+        const { data: rows, error: wErr } = await supabase
+          .from("weather_hourly")
+          .select("ts, temp_f, wind_mph, cloud_pct")
+          .eq("city_key", makeCityKey(t.city ?? "", t.state ?? ""))
+          .gte("ts", fromIso)
+          .lte("ts", toIso)
+          .order("ts")
+          .range(from, from + PAGE - 1);
+        if (wErr) throw wErr;
+        for (const r of (rows ?? []) as WxRow[]) {
+          wx.push({ ts: Math.floor(new Date(r.ts).getTime() / 1000), tempF: Number(r.temp_f), windMph: Number(r.wind_mph), cloudPct: Number(r.cloud_pct) });
+        }
+        if (!rows || rows.length < PAGE) break;
+      }
+
+      const observations: TempObservation[] = points.map((p) => ({
+        ...p,
+        hourlies: wx.filter((h) => h.ts <= p.ts && h.ts >= p.ts - CALIBRATION_LOOKBACK_HOURS * 3600),
+      }));
+
+      const fit = fitTerminalTempParams(observations, Number(t.lat), Number(t.lon));
+      if (!fit) {
+        results.push({ terminalId: t.terminal_id, terminalName: t.terminal_name, skipped: "not enough weather history" });
+        continue;
+      }
+
+      const { error: uErr } = await supabase
+        .from("terminal_temp_params")
+        .upsert({
+          terminal_id: t.terminal_id,
+          k0: fit.k0,
+          beta_sun: fit.betaSun,
+          n_obs: fit.nObs,
+          rmse_f: fit.rmseF,
+          bias_f: fit.biasF,
+          baseline_rmse_f: fit.baselineRmseF,
+          fitted_at: new Date().toISOString(),
+        }, { onConflict: "terminal_id" });
+      if (uErr) throw uErr;
+
+      results.push({ terminalId: t.terminal_id, terminalName: t.terminal_name, ...fit, quality: calibrationQuality(fit) });
+    }
+
+    return NextResponse.json({ results });
+  } catch (e: unknown) {
+    const msg = (e as { message?: string })?.message ?? String(e);
+    console.error("[fuel-temp/calibrate]", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -1,11 +1,24 @@
 // app/api/fuel-temp/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { fetchHourlyWeather24h } from "@/lib/weather/openWeather";
-import { predictFuelTempNow } from "@/lib/fuelTempPredictor";
+import { getWeatherProvider } from "@/lib/weather";
+import { makeCityKey } from "@/lib/weather/cityKey";
+import {
+  NOW_MIN_PAST_HOURS, predictCargoTempMax, predictFuelTempAt, predictFuelTempNow,
+  type PredictorParams, type TankColor, type TankProfile,
+} from "@/lib/fuelTempPredictor";
+import { calibrationQuality, shouldUseFit, CALIBRATION_LOOKBACK_HOURS } from "@/lib/fuelTempCalibration";
 
 export const runtime = "nodejs";
 
+// Loading → last drop. Sizes the thermal headspace window.
+const DELIVERY_WINDOW_HOURS = 12;
+
+// A target closer than this is treated as "now".
+const TARGET_MIN_AHEAD_SEC = 10 * 60;
+
+type WxRow = { ts: string; temp_f: number; wind_mph: number; cloud_pct: number };
+
 function getSupabaseAdmin() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -14,9 +27,27 @@ function getSupabaseAdmin() {
   return createClient(url, serviceKey, { auth: { persistSession: false } });
 }
 
-// Normalize city/state into a stable cache key
-function makeCityKey(city: string, state: string): string {
-  return `${city.trim().toLowerCase().replace(/\s+/g, "_")}|${state.trim().toLowerCase()}`;
+/** Active products at the terminal with their storage tank profile, if one is set. */
+async function productTanks(
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  terminalId: string
+): Promise<Array<{ productId: string; tank: TankProfile | null }>> {
+  const [{ data: tps }, { data: tanks }] = await Promise.all([
+    supabase.from("terminal_products").select("product_id").eq("terminal_id", terminalId).eq("active", true),
+    supabase.from("terminal_product_tanks")
+      .select("product_id, tank_color, insulated, underground, turnover_days")
+      .eq("terminal_id", terminalId),
+  ]);
+
+  const tankById = new Map((tanks ?? []).map((t) => [t.product_id as string, {
+    color: t.tank_color as TankColor,
+    insulated: !!t.insulated,
+    underground: !!t.underground,
+    turnoverDays: t.turnover_days != null ? Number(t.turnover_days) : null,
+  }]));
+
+  const ids = [...new Set((tps ?? []).map((r) => r.product_id as string))];
+  return ids.map((productId) => ({ productId, tank: tankById.get(productId) ?? null }));
 }
 
 export async function POST(req: Request) {
@@ -30,6 +61,7 @@ export async function POST(req: Request) {
       lon,
       ambientNowF,
       terminalId,   // optional — used to back-fill lat/lon on terminals table
+      targetTs,     // optional — unix seconds of the planned load; omitted = now
     } = body as {
       city: string;
       state: string;
@@ -37,6 +69,7 @@ export async function POST(req: Request) {
       lon: number;
       ambientNowF: number;
       terminalId?: string;
+      targetTs?: number | null;
     };
 
     if (!city || !state) {
@@ -48,9 +81,11 @@ export async function POST(req: Request) {
     if (typeof ambientNowF !== "number") {
       return NextResponse.json({ error: "ambientNowF is required number." }, { status: 400 });
     }
+    if (targetTs != null && (typeof targetTs !== "number" || !Number.isFinite(targetTs))) {
+      return NextResponse.json({ error: "targetTs must be unix seconds." }, { status: 400 });
+    }
 
-    const owKey = process.env.OPENWEATHER_API_KEY!;
-    if (!owKey) return NextResponse.json({ error: "OPENWEATHER_API_KEY not set." }, { status: 500 });
+    const provider = getWeatherProvider();
 
     const supabase = getSupabaseAdmin();
     const cityKey = makeCityKey(city, state);
@@ -58,11 +93,14 @@ export async function POST(req: Request) {
     const nowTs = Math.floor(nowMs / 1000);
 
     // ── Check city-level cache ─────────────────────────────────────────────
-    const { data: cached } = await supabase
-      .from("fuel_temp_cache")
-      .select("hourly, updated_at")
-      .eq("city_key", cityKey)
-      .maybeSingle();
+    // Fixture data never reads or writes the cache / calibration history.
+    const { data: cached } = provider.live
+      ? await supabase
+          .from("fuel_temp_cache")
+          .select("hourly, updated_at")
+          .eq("city_key", cityKey)
+          .maybeSingle()
+      : { data: null };
 
     const cacheAgeMin = cached?.updated_at
       ? (nowMs - new Date(cached.updated_at).getTime()) / 60000
@@ -74,38 +112,167 @@ export async function POST(req: Request) {
       // Cache is fresh — reuse hourly data, just recompute with latest ambient
       hourlies = cached.hourly as any;
     } else {
-      // Fetch fresh hourly forecast from OpenWeather One Call 3.0
-      hourlies = await fetchHourlyWeather24h({ lat, lon, apiKey: owKey });
+      // Fetch fresh hourly forecast from the configured provider
+      hourlies = await provider.hourly({ lat, lon });
 
-      // Upsert into city-keyed cache
-      await supabase
-        .from("fuel_temp_cache")
-        .upsert(
-          {
-            city_key: cityKey,
-            lat,
-            lon,
-            hourly: hourlies,
-            updated_at: new Date().toISOString(),
-          },
-          { onConflict: "city_key" }
-        );
+      if (provider.live) {
+        // Upsert into city-keyed cache
+        await supabase
+          .from("fuel_temp_cache")
+          .upsert(
+            {
+              city_key: cityKey,
+              lat,
+              lon,
+              hourly: hourlies,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: "city_key" }
+          );
+
+        // Keep the hours for calibration — later fetches overwrite with fresher values
+        await supabase
+          .from("weather_hourly")
+          .upsert(
+            hourlies.map((h) => ({
+              city_key: cityKey,
+              ts: new Date(h.ts * 1000).toISOString(),
+              temp_f: h.tempF,
+              wind_mph: h.windMph,
+              cloud_pct: h.cloudPct,
+              updated_at: new Date().toISOString(),
+            })),
+            { onConflict: "city_key,ts" }
+          );
+      }
+    }
+
+    // ── Lookback ───────────────────────────────────────────────────────────
+    // The "now" state is simulated from past hours only, and the forecast
+    // starts at the current hour. weather_hourly keeps every hour this route
+    // has fetched, so the day before comes from there.
+    if (provider.live && hourlies.length > 0) {
+      const { data: past } = await supabase
+        .from("weather_hourly")
+        .select("ts, temp_f, wind_mph, cloud_pct")
+        .eq("city_key", cityKey)
+        .gte("ts", new Date((nowTs - CALIBRATION_LOOKBACK_HOURS * 3600) * 1000).toISOString())
+        .lt("ts", new Date(hourlies[0].ts * 1000).toISOString())
+        .order("ts");
+      hourlies = [
+        ...((past ?? []) as WxRow[]).map((r) => ({
+          ts: Math.floor(new Date(r.ts).getTime() / 1000),
+          tempF: Number(r.temp_f),
+          windMph: Number(r.wind_mph),
+          cloudPct: Number(r.cloud_pct),
+        })),
+        ...hourlies,
+      ];
+
+      // No route call for this city in the last day or so leaves the lookback
+      // empty. Fill it from the provider's observations rather than let the
+      // predictor fall back to ambient − 2, and keep them for next time.
+      const pastCount = hourlies.filter((h) => h.ts <= nowTs).length;
+      if (pastCount < NOW_MIN_PAST_HOURS && provider.recent) {
+        try {
+          const firstTs = hourlies[0].ts;
+          const observed = (await provider.recent({ lat, lon }, CALIBRATION_LOOKBACK_HOURS)).filter((h) => h.ts < firstTs);
+          if (observed.length > 0) {
+            hourlies = [...observed, ...hourlies];
+            await supabase
+              .from("weather_hourly")
+              .upsert(
+                observed.map((h) => ({
+                  city_key: cityKey,
+                  ts: new Date(h.ts * 1000).toISOString(),
+                  temp_f: h.tempF,
+                  wind_mph: h.windMph,
+                  cloud_pct: h.cloudPct,
+                  updated_at: new Date().toISOString(),
+                })),
+                { onConflict: "city_key,ts" }
+              );
+          }
+        } catch (e) {
+          console.warn("[fuel-temp] history", (e as { message?: string })?.message);
+        }
+      }
     }
 
+    // ── Terminal calibration ───────────────────────────────────────────────
+    const { data: fit } = terminalId
+      ? await supabase
+          .from("terminal_temp_params")
+          .select("k0, beta_sun, n_obs, rmse_f, bias_f, baseline_rmse_f, fitted_at")
+          .eq("terminal_id", terminalId)
+          .maybeSingle()
+      : { data: null };
+
+    const calibration = fit
+      ? {
+          nObs: Number(fit.n_obs),
+          rmseF: Number(fit.rmse_f),
+          biasF: Number(fit.bias_f),
+          baselineRmseF: Number(fit.baseline_rmse_f),
+          fittedAt: fit.fitted_at as string,
+        }
+      : null;
+    const useFit = calibration != null && shouldUseFit(calibration);
+
     // ── Run the predictor ──────────────────────────────────────────────────
-    // "large" tank = k0=0.03 = slowest thermal response = coldest prediction
-    // This is intentionally conservative to avoid overweight loads.
-    const result = predictFuelTempNow(hourlies, lat, lon, ambientNowF, nowTs, {
-      tankPreset: "large",
-      betaSun: 2.0,
-      cwWind: 0.04,
-      maxWindMultiplier: 2.5,
+    // Uncalibrated: "large" tank = k0=0.03 = slowest thermal response = coldest
+    // prediction. Intentionally conservative to avoid overweight loads.
+    // Calibrated: the terminal's fitted k0 / betaSun, once they beat the preset.
+    const params: PredictorParams = useFit
+      ? { k0: Number(fit!.k0), betaSun: Number(fit!.beta_sun), cwWind: 0.04, maxWindMultiplier: 2.5 }
+      : { tankPreset: "large", betaSun: 2.0, cwWind: 0.04, maxWindMultiplier: 2.5 };
+    const baseBandF = useFit ? calibration!.rmseF : undefined;
+
+    const predictFor = (p: PredictorParams) => {
+      const now = predictFuelTempNow(hourlies, lat, lon, ambientNowF, nowTs, p);
+      const nowBand = predictFuelTempAt(hourlies, lat, lon, now, nowTs, nowTs, p, baseBandF);
+
+      // Planning ahead: keep stepping through the forecast to the load time.
+      // Anything within the next few minutes is just "now".
+      const target = targetTs != null && targetTs > nowTs + TARGET_MIN_AHEAD_SEC
+        ? predictFuelTempAt(hourlies, lat, lon, now, nowTs, Math.floor(targetTs), p, baseBandF)
+        : null;
+
+      // Hottest the product should get in the trailer before it's delivered —
+      // drives the per-compartment thermal outage on the planner. Starts at
+      // the planned load time when there is one.
+      const cargoMax = predictCargoTempMax(
+        hourlies, lat, lon,
+        target?.predictedFuelTempF ?? now.predictedFuelTempF,
+        target?.targetTs ?? nowTs,
+        DELIVERY_WINDOW_HOURS
+      );
+
+      return { now, nowBand, target, cargoMax };
+    };
+
+    const result = predictFor(params);
+
+    // ── Per product: each sits in its own tank ─────────────────────────────
+    const products = terminalId ? await productTanks(supabase, terminalId) : [];
+    const byProduct = products.map(({ productId, tank }) => {
+      const r = predictFor({ ...params, tank: tank ?? undefined });
+      return {
+        productId,
+        tank,
+        predictedFuelTempF: r.now.predictedFuelTempF,
+        confidence: r.now.confidence,
+        lowF: r.nowBand.lowF,
+        highF: r.nowBand.highF,
+        target: r.target,
+        forecastMaxFuelTempF: r.cargoMax.maxTempF,
+      };
     });
 
     // ── Back-fill lat/lon on terminals table if provided ──────────────────
     // Only writes if the terminal doesn't have coordinates yet.
     // This way terminals self-populate on first use, no manual data entry.
-    if (terminalId) {
+    if (terminalId && provider.live) {
       await supabase
         .from("terminals")
         .update({ lat, lon })
@@ -117,8 +284,17 @@ export async function POST(req: Request) {
       city,
       state,
       cityKey,
-      predictedFuelTempF: result.predictedFuelTempF,
-      confidence: result.confidence,
+      predictedFuelTempF: result.now.predictedFuelTempF,
+      confidence: result.now.confidence,
+      lowF: result.nowBand.lowF,
+      highF: result.nowBand.highF,
+      target: result.target,
+      forecastMaxFuelTempF: result.cargoMax.maxTempF,
+      products: byProduct,
+      provider: provider.name,
+      calibration: calibration
+        ? { ...calibration, applied: useFit, quality: calibrationQuality(calibration) }
+        : null,
     });
   } catch (e: any) {
     console.error("[fuel-temp]", e?.message);
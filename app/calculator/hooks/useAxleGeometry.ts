@@ -0,0 +1,63 @@
+"use client";
+// hooks/useAxleGeometry.ts
+// Owns: truck + trailer axle geometry fetch for the selected combo.
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import { axleGeometryFromRows } from "../utils/axleMath";
+import type { AxleGeometry, TrailerAxleRow, TruckAxleRow } from "../types";
+
+type Fetched = {
+  key: string;
+  geometry: AxleGeometry | null;
+  steerLimitLbs: number | null;
+  error: string | null;
+};
+
+/**
+ * Geometry is optional per unit — null until every distance is entered in admin.
+ * Results are keyed by truck|trailer so a stale response never shows for a new combo.
+ */
+export function useAxleGeometry(truckId: string | null, trailerId: string | null) {
+  const key = truckId && trailerId ? `${truckId}|${trailerId}` : "";
+  const [fetched, setFetched] = useState<Fetched | null>(null);
+
+  useEffect(() => {
+    if (!truckId || !trailerId) return;
+
+    let cancelled = false;
+    (async () => {
+      const [truckRes, trailerRes] = await Promise.all([
+        supabase.from("trucks")
+          .select("drive_axle_in, fifth_wheel_in, drive_axle_count, drive_spread_in, steer_limit_lbs")
+          .eq("truck_id", truckId).maybeSingle<TruckAxleRow>(),
+        supabase.from("trailers")
+          .select("trailer_axle_in, trailer_axle_count, trailer_spread_in, tank_front_in, tank_rear_in")
+          .eq("trailer_id", trailerId).maybeSingle<TrailerAxleRow>(),
+      ]);
+      if (cancelled) return;
+
+      const fetchKey = `${truckId}|${trailerId}`;
+      const err = truckRes.error ?? trailerRes.error;
+      if (err) { setFetched({ key: fetchKey, geometry: null, steerLimitLbs: null, error: err.message }); return; }
+
+      const steerLimit = Number(truckRes.data?.steer_limit_lbs);
+      setFetched({
+        key: fetchKey,
+        geometry: axleGeometryFromRows(truckRes.data, trailerRes.data),
+        steerLimitLbs: truckRes.data?.steer_limit_lbs != null && Number.isFinite(steerLimit) ? steerLimit : null,
+        error: null,
+      });
+    })();
+
+    return () => { cancelled = true; };
+  }, [truckId, trailerId]);
+
+  const current = fetched && fetched.key === key ? fetched : null;
+  return {
+    geometry: current?.geometry ?? null,
+    steerLimitLbs: current?.steerLimitLbs ?? null,
+    loading: !!key && !current,
+    error: current?.error ?? null,
+  };
+}
@@ -0,0 +1,110 @@
+"use client";
+// hooks/useCompartmentState.ts
+// What each compartment of the selected trailer last held, from
+// trailer_compartment_state. Shared by every driver and device on the trailer;
+// complete_load and "mark cleaned" keep it current.
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import { markCompartmentsCleaned } from "@/lib/supabase/load";
+import type { CleanMethod } from "@/lib/supabase/load";
+import type { CompartmentLastLoad } from "../utils/placardUtils";
+import type { ProductFamily } from "../types";
+
+export type CompartmentState = {
+  comp_number: number;
+  product_id: string | null;
+  product_name: string | null;
+  un_number: string | null;
+  load_id: string | null;
+  loaded_at: string | null;
+  cleaned_at: string | null;
+  clean_method: CleanMethod | null;
+  product_family: ProductFamily | null;
+  dyed: boolean | null;
+};
+
+type StateRow = Omit<CompartmentState, "product_name" | "product_family" | "dyed"> & {
+  products: {
+    product_name: string | null;
+    display_name: string | null;
+    product_family: ProductFamily | null;
+    dyed: boolean | null;
+  } | null;
+};
+
+/** Residue is the last product, until a clean or purge after it. */
+export function hasResidue(s: CompartmentState): boolean {
+  if (!s.product_id) return false;
+  if (!s.cleaned_at) return true;
+  return s.loaded_at != null && Date.parse(s.cleaned_at) < Date.parse(s.loaded_at);
+}
+
+export function useCompartmentState(trailerId: string | null) {
+  const [rows, setRows] = useState<CompartmentState[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!trailerId) { setRows([]); return; }
+    const { data, error: err } = await supabase
+      .from("trailer_compartment_state")
+      .select("comp_number, product_id, un_number, load_id, loaded_at, cleaned_at, clean_method, products(product_name, display_name, product_family, dyed)")
+      .eq("trailer_id", trailerId);
+    if (err) { setError(err.message); return; }
+    setError(null);
+    setRows(((data ?? []) as unknown as StateRow[]).map((r) => ({
+      comp_number: Number(r.comp_number),
+      product_id: r.product_id ? String(r.product_id) : null,
+      product_name: r.products?.product_name ?? r.products?.display_name ?? null,
+      un_number: r.un_number ? String(r.un_number) : null,
+      load_id: r.load_id ? String(r.load_id) : null,
+      loaded_at: r.loaded_at ?? null,
+      cleaned_at: r.cleaned_at ?? null,
+      clean_method: r.clean_method ?? null,
+      product_family: r.products?.product_family ?? null,
+      dyed: r.products?.dyed ?? null,
+    })));
+  }, [trailerId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const byComp = useMemo(() => {
+    const m: Record<number, CompartmentState> = {};
+    for (const r of rows) m[r.comp_number] = r;
+    return m;
+  }, [rows]);
+
+  /** Residue compartments in the shape residueCompartments() takes. */
+  const residueLines = useMemo<CompartmentLastLoad[]>(
+    () => rows.filter(hasResidue).map((r) => ({
+      comp_number: r.comp_number,
+      product_id: r.product_id,
+      product_name: r.product_name,
+      un_number: r.un_number,
+      planned_gallons: 0,
+      empty: true,
+      product_family: r.product_family,
+      dyed: r.dyed,
+    })),
+    [rows]
+  );
+
+  const markCleaned = useCallback(async (compNumbers: number[], method: CleanMethod = "cleaned") => {
+    if (!trailerId || compNumbers.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await markCompartmentsCleaned(trailerId, compNumbers, method);
+      await refresh();
+    } catch (e) {
+      setError((e as { message?: string })?.message ?? "Could not mark compartments cleaned.");
+    } finally {
+      setBusy(false);
+    }
+  }, [trailerId, refresh]);
+
+  return { byComp, residueLines, error, busy, refresh, markCleaned };
+}
@@ -55,7 +55,8 @@ export function useEquipment(authUserId: string) {
     const res = await supabase
       .from("equipment_combos")
       .select(
-        "combo_id, combo_name, truck_id, trailer_id, tare_lbs, target_weight, active, claimed_by, claimed_at"
+        "combo_id, combo_name, truck_id, trailer_id, tare_lbs, target_weight, active, claimed_by, claimed_at, " +
+        "tare_steer_lbs, tare_drive_lbs, tare_trailer_lbs"
       )
       .order("combo_name", { ascending: true })
       .order("combo_id", { ascending: true })
@@ -2,9 +2,48 @@
 // app/calculator/hooks/useFuelTempPrediction.ts
 
 import { useEffect, useRef, useState } from "react";
+import type { TankProfile } from "@/lib/fuelTempPredictor";
 
 export type FuelTempConfidence = "high" | "medium" | "low";
 
+export type FuelTempBand = {
+  lowF: number;
+  highF: number;
+  targetTs: number | null;     // null = now
+  horizonHours: number;
+  beyondForecast: boolean;     // planned time is past the forecast — held at its last hour
+};
+
+/** One product's own tank — temps are for the planned load time when one is set. */
+export type ProductFuelTemp = {
+  predictedFuelTempF: number;
+  forecastMaxFuelTempF: number | null;
+  lowF: number;
+  highF: number;
+  tank: TankProfile | null;
+};
+
+type ProductResponse = {
+  productId: string;
+  tank: TankProfile | null;
+  predictedFuelTempF: number;
+  lowF: number;
+  highF: number;
+  target: { predictedFuelTempF: number; lowF: number; highF: number } | null;
+  forecastMaxFuelTempF: number | null;
+};
+
+/** Fit of the tank model at this terminal — see lib/fuelTempCalibration. */
+export type FuelTempCalibration = {
+  nObs: number;
+  rmseF: number;
+  biasF: number;
+  baselineRmseF: number;
+  fittedAt: string;
+  applied: boolean;                  // false = fit exists but doesn't beat the preset yet
+  quality: "good" | "fair" | "poor";
+};
+
 export function useFuelTempPrediction(input: {
   city?: string | null;
   state?: string | null;
@@ -12,16 +51,23 @@ export function useFuelTempPrediction(input: {
   lon?: number | null;
   ambientNowF?: number | null;
   terminalId?: string | null;  // optional — used to back-fill lat/lon on terminals
+  targetTs?: number | null;    // optional — planned load time, unix seconds; null = now
 }) {
-  const { city, state, lat, lon, ambientNowF, terminalId } = input;
+  const { city, state, lat, lon, ambientNowF, terminalId, targetTs } = input;
 
+  // predictedFuelTempF / band are for the planned load time when one is set, else now
   const [predictedFuelTempF, setPredictedFuelTempF] = useState<number | null>(null);
+  const [nowFuelTempF, setNowFuelTempF] = useState<number | null>(null);
+  const [band, setBand] = useState<FuelTempBand | null>(null);
+  const [forecastMaxFuelTempF, setForecastMaxFuelTempF] = useState<number | null>(null);
   const [confidence, setConfidence] = useState<FuelTempConfidence | null>(null);
+  const [calibration, setCalibration] = useState<FuelTempCalibration | null>(null);
+  const [byProduct, setByProduct] = useState<Record<string, ProductFuelTemp>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const lastCallAtRef = useRef<number>(0);
-  const lastCityKeyRef = useRef<string>("");
+  const lastKeyRef = useRef<string>("");
 
   useEffect(() => {
     const ready =
@@ -32,19 +78,24 @@ export function useFuelTempPrediction(input: {
 
     if (!ready) {
       setPredictedFuelTempF(null);
+      setNowFuelTempF(null);
+      setBand(null);
+      setForecastMaxFuelTempF(null);
       setConfidence(null);
+      setCalibration(null);
+      setByProduct({});
       return;
     }
 
-    const cityKey = `${city}|${state}`;
+    const requestKey = `${city}|${state}|${targetTs ?? "now"}`;
     const now = Date.now();
 
-    // Re-fetch if: city changed, or ambient changed and it's been > 30s
-    const cityChanged = cityKey !== lastCityKeyRef.current;
+    // Re-fetch if: city or target changed, or ambient changed and it's been > 30s
+    const keyChanged = requestKey !== lastKeyRef.current;
     const tooSoon = (now - lastCallAtRef.current) < 30_000;
-    if (!cityChanged && tooSoon) return;
+    if (!keyChanged && tooSoon) return;
 
-    lastCityKeyRef.current = cityKey;
+    lastKeyRef.current = requestKey;
     lastCallAtRef.current = now;
 
     let cancelled = false;
@@ -56,22 +107,46 @@ export function useFuelTempPrediction(input: {
         const res = await fetch("/api/fuel-temp", {
           method: "POST",
           headers: { "content-type": "application/json" },
-          body: JSON.stringify({ city, state, lat, lon, ambientNowF, terminalId }),
+          body: JSON.stringify({ city, state, lat, lon, ambientNowF, terminalId, targetTs: targetTs ?? null }),
         });
 
         const json = await res.json();
         if (!res.ok) throw new Error(json?.error ?? "Fuel temp prediction failed.");
 
         if (!cancelled) {
-          setPredictedFuelTempF(
-            typeof json.predictedFuelTempF === "number" ? json.predictedFuelTempF : null
+          const nowTemp = typeof json.predictedFuelTempF === "number" ? json.predictedFuelTempF : null;
+          const t = json.target;
+          setNowFuelTempF(nowTemp);
+          setPredictedFuelTempF(typeof t?.predictedFuelTempF === "number" ? t.predictedFuelTempF : nowTemp);
+          setBand(
+            t ? { lowF: t.lowF, highF: t.highF, targetTs: t.targetTs, horizonHours: t.horizonHours, beyondForecast: !!t.beyondForecast }
+            : typeof json.lowF === "number" ? { lowF: json.lowF, highF: json.highF, targetTs: null, horizonHours: 0, beyondForecast: false }
+            : null
+          );
+          setForecastMaxFuelTempF(
+            typeof json.forecastMaxFuelTempF === "number" ? json.forecastMaxFuelTempF : null
           );
           setConfidence(json.confidence ?? null);
+          setCalibration(json.calibration ?? null);
+          setByProduct(Object.fromEntries(((json.products ?? []) as ProductResponse[]).map((p) => {
+            const at = p.target ?? p;
+            return [p.productId, {
+              predictedFuelTempF: at.predictedFuelTempF,
+              forecastMaxFuelTempF: p.forecastMaxFuelTempF ?? null,
+              lowF: at.lowF,
+              highF: at.highF,
+              tank: p.tank ?? null,
+            }];
+          })));
         }
       } catch (e: any) {
         if (!cancelled) {
           setError(e?.message ?? "Error");
           setPredictedFuelTempF(null);
+          setNowFuelTempF(null);
+          setBand(null);
+          setForecastMaxFuelTempF(null);
+          setByProduct({});
         }
       } finally {
         if (!cancelled) setLoading(false);
@@ -80,7 +155,7 @@ export function useFuelTempPrediction(input: {
 
     run();
     return () => { cancelled = true; };
-  }, [city, state, lat, lon, ambientNowF, terminalId]);
+  }, [city, state, lat, lon, ambientNowF, terminalId, targetTs]);
 
-  return { predictedFuelTempF, confidence, loading, error };
+  return { predictedFuelTempF, nowFuelTempF, band, forecastMaxFuelTempF, byProduct, confidence, calibration, loading, error };
 }
@@ -34,6 +34,11 @@ export type LoadHistoryLine = {
   actual_gallons: number | null;
   planned_lbs: number | null;
   actual_lbs: number | null;
+  // Gallons above are gross at load temp; net is corrected to 60°F with the VCF
+  planned_net_gallons: number | null;
+  actual_net_gallons: number | null;
+  planned_vcf: number | null;
+  actual_vcf: number | null;
   planned_temp_f: number | null;
   actual_temp_f: number | null;
   planned_api: number | null;
@@ -134,6 +139,7 @@ export function useLoadHistory(authUserId: string) {
         .select(`
           comp_number, product_id, planned_gallons, actual_gallons,
           planned_lbs, actual_lbs, temp_f, actual_temp_f, actual_api,
+          planned_net_gallons, actual_net_gallons, planned_vcf, actual_vcf,
           products(product_name, display_name)
         `)
         .eq("load_id", loadId)
@@ -152,7 +158,11 @@ export function useLoadHistory(authUserId: string) {
             actual_gallons:  l.actual_gallons  != null ? Number(l.actual_gallons)  : null,
             planned_lbs:     l.planned_lbs     != null ? Number(l.planned_lbs)     : null,
             actual_lbs:      l.actual_lbs      != null ? Number(l.actual_lbs)      : null,
-            // Planned temp: snapshot first, then load_log.product_temp_f (same for all comps on this load),
+            planned_net_gallons: l.planned_net_gallons != null ? Number(l.planned_net_gallons) : null,
+            actual_net_gallons:  l.actual_net_gallons  != null ? Number(l.actual_net_gallons)  : null,
+            planned_vcf:         l.planned_vcf         != null ? Number(l.planned_vcf)         : null,
+            actual_vcf:          l.actual_vcf          != null ? Number(l.actual_vcf)          : null,
+            // Planned temp: snapshot first, then load_log.product_temp_f (the load's gallon-weighted mean),
             // fallback to DB temp_f only for incomplete loads
             planned_temp_f: snap.temp_f != null
               ? Number(snap.temp_f)
@@ -1,15 +1,24 @@
 "use client";
 // hooks/useLoadWorkflow.ts
-// Owns: begin_load, complete_load RPCs, load state machine, load report.
+// Owns: begin_load, complete_load, record_scale_ticket RPCs, load state machine, load report.
 
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabase/client";
-import { beginLoad, completeLoad } from "@/lib/supabase/load";
-import { lbsPerGallonAtTemp } from "../utils/planMath";
-import type { LoadReport, PlanRow, ProductRow } from "../types";
+import { beginLoad, completeLoad, recordScaleTicket } from "@/lib/supabase/load";
+import { bolActualLines, bolHasValues, reconcileBol } from "../utils/bolReconcile";
+import { backCorrectApiTo60, bestApi60, forwardCorrectApiFrom60, lbsPerGallonAtTemp, vcfForProduct } from "../utils/planMath";
+import { STATE_WEIGHT_TABLE_VERSION } from "../utils/stateWeightLimits";
+import { weightedPlanTempF } from "../utils/plannedTemps";
+import type { CompartmentLastLoad } from "../utils/placardUtils";
+import type {
+  BolEntry, BolEstimateLine, BolPlanProduct, CompatAcknowledgement, CompatCheck, DeliveryStop, ScaleCheck, ScaleTicket, EffectiveWeightLimit, LoadReport, PlanRow, ProductRow, ResolvedStateLimits, StopWeightState,
+} from "../types";
 
 // ─── Hook ─────────────────────────────────────────────────────────────────────
 
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
 type Props = {
   authUserId: string | null;
   selectedComboId: string;
@@ -20,10 +29,20 @@ type Props = {
   tare: number;
   cgBias: number;
   ambientTempF: number | null;
-  tempF: number;
+  tempF: number;                   // slider baseline — each plan row carries its own planned tempF
   planRows: PlanRow[];
   plannedGallonsTotal: number;
   plannedWeightLbs: number;
+  axleWarnings: string[];          // groups over their legal limit — confirm before begin_load
+  compatChecks: CompatCheck[];     // planned product vs. residue per comp — forbidden blocks, the rest confirm
+  residueLines: CompartmentLastLoad[];  // residue per comp — snapshotted for the shipping paper
+  weightLimit: EffectiveWeightLimit;
+  stateLimits: ResolvedStateLimits;
+  stops: DeliveryStop[];
+  stopStates: StopWeightState[];   // [0] = leaving the rack, [i + 1] = after stops[i]
+  headspaceForComp: (compNumber: number) => { pct: number; source: "manual" | "thermal" };
+  hotTempF: number;                // hottest expected product temp before delivery
+  vcfForProductId: (productId: string, atTempF?: number) => number | null;  // net ÷ gross, at tempF by default
   terminalProducts: ProductRow[];
   productNameById: Map<string, string>;
   productInputs: Record<string, { api?: string; tempF?: number }>;
@@ -39,7 +58,8 @@ export function useLoadWorkflow({
   selectedComboId, selectedTerminalId, selectedState, selectedCity, selectedCityId,
   tare, cgBias, ambientTempF, tempF,
   planRows, plannedGallonsTotal, plannedWeightLbs,
-  terminalProducts, productNameById,
+  axleWarnings, compatChecks, residueLines, weightLimit, stateLimits, stops, stopStates, headspaceForComp, hotTempF,
+  vcfForProductId, terminalProducts, productNameById,
   productInputs, setProductInputs,
   onRefreshTerminalProducts,
   onRefreshTerminalAccess,
@@ -54,12 +74,16 @@ export function useLoadWorkflow({
   const [completeBusy, setCompleteBusy] = useState(false);
   const [completeError, setCompleteError] = useState<string | null>(null);
 
-  const [actualByComp, setActualByComp] = useState<
-    Record<number, { actual_gallons: number | null; actual_lbs: number | null; temp_f: number | null }>
-  >({});
+  const [actualByComp, setActualByComp] = useState<Record<number, BolEstimateLine>>({});
 
   const [loadReport, setLoadReport] = useState<LoadReport | null>(null);
 
+  const [scaleOpen, setScaleOpen] = useState(false);
+  const [scaleBusy, setScaleBusy] = useState(false);
+  const [scaleError, setScaleError] = useState<string | null>(null);
+  const [scaleTicket, setScaleTicket] = useState<ScaleTicket | null>(null);
+  const [scaleCheck, setScaleCheck] = useState<ScaleCheck | null>(null);
+
   const PLAN_SNAPSHOT_VERSION = 1;
 
   // ── Helpers ───────────────────────────────────────────────────────────────
@@ -71,10 +95,10 @@ export function useLoadWorkflow({
     return Number.isFinite(v) ? v : null;
   }
 
-  function computePlannedGrossLbs(): number | null {
+  const computePlannedGrossLbs = useCallback((): number | null => {
     if (![tare, plannedWeightLbs].every((x) => Number.isFinite(x))) return null;
     return tare + plannedWeightLbs;
-  }
+  }, [tare, plannedWeightLbs]);
 
   // ── Begin load ────────────────────────────────────────────────────────────
 
@@ -87,6 +111,28 @@ export function useLoadWorkflow({
       if (!selectedState || !selectedCity) throw new Error("Select location first.");
       if (!selectedCityId) throw new Error("City ID not found.");
       if (!planRows || planRows.length === 0) throw new Error("No plan to load.");
+      if (axleWarnings.length > 0 &&
+          !confirm(`Over axle limit:\n${axleWarnings.join("\n")}\n\nBegin load anyway?`)) return;
+
+      // Switch loading: forbidden assignments stop here; the rest are confirmed
+      // and recorded on the load as acknowledged.
+      const forbidden = compatChecks.filter((c) => c.level === "forbidden");
+      if (forbidden.length > 0) {
+        throw new Error(forbidden.map((c) => `Comp ${c.compNumber}: ${c.reasons.join(" ")}`).join("\n")
+          + "\n\nMark the compartment cleaned or change the product.");
+      }
+      const compatWarnings = compatChecks.filter((c) => c.level !== "ok");
+      if (compatWarnings.length > 0 &&
+          !confirm(`Compartment residue:\n${compatWarnings.map((c) => `Comp ${c.compNumber}: ${c.reasons.join(" ")}`).join("\n")}\n\nBegin load anyway?`)) return;
+      const acknowledgedAt = new Date().toISOString();
+      const compat_acknowledgements: CompatAcknowledgement[] = compatWarnings.map((c) => ({
+        comp_number: c.compNumber,
+        product_id: c.productId,
+        residue_product_id: c.residueProductId,
+        level: c.level as CompatAcknowledgement["level"],
+        reasons: c.reasons,
+        acknowledged_at: acknowledgedAt,
+      }));
 
       const lines = (planRows as any[])
         .filter((r) => r.productId && Number(r.planned_gallons ?? 0) > 0)
@@ -94,6 +140,9 @@ export function useLoadWorkflow({
           const gallons = Number(r.planned_gallons ?? 0);
           const lbs = gallons * Number(r.lbsPerGal ?? 0);
           const prod = terminalProducts.find((p) => p.product_id === r.productId);
+          const headspace = headspaceForComp(Number(r.comp_number));
+          const lineTempF = Number.isFinite(Number(r.tempF)) ? Number(r.tempF) : tempF;
+          const vcf = vcfForProductId(String(r.productId), lineTempF);
           return {
             comp_number: Number(r.comp_number),
             product_id: String(r.productId),
@@ -101,7 +150,11 @@ export function useLoadWorkflow({
             un_number: (prod as any)?.un_number ?? null,  // for placard residue logic
             planned_gallons: Number.isFinite(gallons) ? gallons : null,
             planned_lbs: Number.isFinite(lbs) ? lbs : null,
-            temp_f: tempF ?? null,
+            planned_net_gallons: vcf != null && Number.isFinite(gallons) ? round2(gallons * vcf) : null,
+            planned_vcf: vcf,
+            temp_f: lineTempF ?? null,
+            headspace_pct: Math.round(headspace.pct * 10000) / 10000,
+            headspace_source: headspace.source,
           };
         });
 
@@ -112,6 +165,11 @@ export function useLoadWorkflow({
       const planned_gross_lbs =
         Number.isFinite(tare) && Number.isFinite(plannedWeightLbs)
           ? tare + plannedWeightLbs : null;
+      const planned_net_gal = lines.every((l) => l.planned_net_gallons != null)
+        ? round2(lines.reduce((s, l) => s + (l.planned_net_gallons ?? 0), 0)) : null;
+      // load_log keeps one temp — the gallon-weighted mean; each line has its own.
+      const plannedTempF = weightedPlanTempF(planRows, tempF);
+      const product_temp_f = plannedTempF != null ? round2(plannedTempF) : null;
 
       const result = await beginLoad({
         combo_id: selectedComboId,
@@ -120,15 +178,48 @@ export function useLoadWorkflow({
         city_id: selectedCityId,
         cg_bias: Number.isFinite(cgBias) ? cgBias : null,
         ambient_temp_f: ambientTempF ?? null,
-        product_temp_f: tempF ?? null,
+        product_temp_f,
         planned_totals: { planned_total_gal, planned_total_lbs, planned_gross_lbs },
         planned_snapshot: {
           v: PLAN_SNAPSHOT_VERSION,
           created_at: new Date().toISOString(),
-          totals: { planned_total_gal, planned_total_lbs, planned_gross_lbs },
+          totals: { planned_total_gal, planned_total_lbs, planned_gross_lbs, planned_net_gal },
+          weight_limit: {
+            gross_lbs: weightLimit.grossLbs,
+            source: weightLimit.source,
+            source_label: weightLimit.sourceLabel,
+            state_code: stateLimits.stateCode,
+            road: stateLimits.road,
+            state_gross_lbs: stateLimits.grossLbs,
+            state_axle: stateLimits.axle,
+            seasonal: stateLimits.seasonal?.label ?? null,
+            permit: stateLimits.permit?.id ?? null,
+            table_v: STATE_WEIGHT_TABLE_VERSION,
+          },
+          thermal: { load_temp_f: product_temp_f, slider_temp_f: tempF ?? null, hot_temp_f: Number.isFinite(hotTempF) ? hotTempF : null },
+          stops: stops.map((stop, i) => {
+            const after = stopStates[i + 1];
+            return {
+              seq: i + 1,
+              label: stop.label || `Stop ${i + 1}`,
+              comps: [...stop.compNumbers].sort((a, b) => a - b),
+              after: after ? {
+                gross_lbs: Math.round(after.grossLbs),
+                remaining_gal: Math.round(after.remainingGallons),
+                axles: after.axles ? Object.fromEntries(after.axles.map((g) => [g.key, Math.round(g.lbs)])) : null,
+                cg_pct: after.cgPct != null ? Math.round(after.cgPct * 1000) / 10 : null,
+                warnings: after.warnings,
+              } : null,
+            };
+          }),
           lines,
+          // Emptied compartments still holding residue — "RESIDUE: Last Contained" on the shipping paper
+          residue: residueLines
+            .filter((r) => !lines.some((l) => l.comp_number === r.comp_number))
+            .map((r) => ({ comp_number: r.comp_number, product_id: r.product_id, product_name: r.product_name, un_number: r.un_number })),
         },
         lines,
+        compat_acknowledgements,
       });
 
       setActiveLoadId(result.load_id);
@@ -163,7 +254,7 @@ export function useLoadWorkflow({
           const prefilledApi = product?.last_api != null && Number.isFinite(Number(product.last_api))
             ? String(product.last_api)
             : "";
-          nextInputs[pid] = { api: prefilledApi, tempF: Number(tempF) };
+          nextInputs[pid] = { api: prefilledApi, tempF: Number.isFinite(Number(r.tempF)) ? Number(r.tempF) : Number(tempF) };
         }
       }
       setProductInputs(nextInputs);
@@ -177,13 +268,14 @@ export function useLoadWorkflow({
     }
   }, [
     beginLoadBusy, selectedComboId, selectedTerminalId, selectedState, selectedCity,
-    selectedCityId, planRows, plannedGallonsTotal, plannedWeightLbs,
+    selectedCityId, planRows, plannedGallonsTotal, plannedWeightLbs, axleWarnings, compatChecks, residueLines, weightLimit, stateLimits, stops, stopStates, headspaceForComp, hotTempF, vcfForProductId,
     tare, cgBias, ambientTempF, tempF, setProductInputs, onRefreshTerminalAccess, authUserId,
   ]);
 
   // ── On loaded (from loading modal) ────────────────────────────────────────
 
-  const onLoadedFromLoadingModal = useCallback(async () => {
+  // Driver's readings become the estimate the BOL step starts from.
+  const onLoadedFromLoadingModal = useCallback(() => {
     if (!activeLoadId) return;
 
     const requiredProductIds = Array.from(new Set(
@@ -203,8 +295,7 @@ export function useLoadWorkflow({
       }
     }
 
-    const nextActualByComp: Record<number, { actual_gallons: number | null; actual_lbs: number | null; temp_f: number | null }> = {};
-    let actualPayloadLbs = 0;
+    const nextActualByComp: Record<number, BolEstimateLine> = {};
 
     for (const r of planRows as any[]) {
       const comp = Number(r?.comp_number ?? 0);
@@ -219,43 +310,145 @@ export function useLoadWorkflow({
       if (!Number.isFinite(apiNum) || !Number.isFinite(tempVal) || alpha == null) {
         const lpgPlanned = Number(r?.lbsPerGal ?? 0);
         const lbsPlanned = gallons * (Number.isFinite(lpgPlanned) ? lpgPlanned : 0);
-        nextActualByComp[comp] = { actual_gallons: gallons, actual_lbs: Number.isFinite(lbsPlanned) ? lbsPlanned : null, temp_f: tempVal };
-        actualPayloadLbs += Number.isFinite(lbsPlanned) ? lbsPlanned : 0;
+        nextActualByComp[comp] = {
+          actual_gallons: gallons, actual_lbs: Number.isFinite(lbsPlanned) ? lbsPlanned : null, temp_f: tempVal,
+          net_gallons: null, vcf: null,
+        };
         continue;
       }
 
-      const lpg = lbsPerGallonAtTemp(apiNum, alpha, tempVal);
+      // Same VCF table the terminal uses, so actual lbs and net gallons match the BOL.
+      // The driver reads API at the loaded temp; the table wants it at 60°F.
+      const commodity = terminalProducts.find((p) => p.product_id === pid)?.vcf_commodity ?? null;
+      const api60 = backCorrectApiTo60(apiNum, tempVal, alpha, commodity);
+      const lpg = lbsPerGallonAtTemp(api60, alpha, tempVal, commodity);
+      const vcf = vcfForProduct(api60, alpha, tempVal, commodity);
       const lbs = gallons * lpg;
-      nextActualByComp[comp] = { actual_gallons: gallons, actual_lbs: Number.isFinite(lbs) ? lbs : null, temp_f: tempVal };
-      if (Number.isFinite(lbs)) actualPayloadLbs += lbs;
+      nextActualByComp[comp] = {
+        actual_gallons: gallons, actual_lbs: Number.isFinite(lbs) ? lbs : null, temp_f: tempVal,
+        net_gallons: round2(gallons * vcf), vcf,
+      };
     }
 
     setActualByComp(nextActualByComp);
+    setCompleteError(null);
+    setLoadingOpen(false);
+    setCompleteOpen(true);
+  }, [activeLoadId, planRows, productInputs, productNameById, terminalProducts]);
+
+  // ── BOL reconciliation ────────────────────────────────────────────────────
+
+  // What each product was planned at — the side the BOL is checked against.
+  const bolPlan = useMemo<BolPlanProduct[]>(() => {
+    const byProduct = new Map<string, BolPlanProduct>();
+    for (const r of planRows) {
+      const gallons = Number(r.planned_gallons ?? 0);
+      if (!r.productId || !(gallons > 0)) continue;
+      let p = byProduct.get(r.productId);
+      if (!p) {
+        const prod = terminalProducts.find((x) => x.product_id === r.productId);
+        const alpha = prod?.alpha_per_f != null && Number.isFinite(Number(prod.alpha_per_f)) ? Number(prod.alpha_per_f) : null;
+        p = {
+          productId: r.productId,
+          label: productNameById.get(r.productId) ?? r.productId,
+          plannedGallons: 0,
+          plannedNetGallons: 0,
+          plannedApi60: prod?.api_60 != null
+            ? bestApi60(
+                Number(prod.api_60), alpha ?? 0,
+                prod.last_api != null ? Number(prod.last_api) : null,
+                prod.last_temp_f != null ? Number(prod.last_temp_f) : null,
+                prod.vcf_commodity ?? null,
+              )
+            : null,
+          plannedTempF: weightedPlanTempF(planRows.filter((x) => x.productId === r.productId), tempF),
+          alphaPerF: alpha,
+          commodity: prod?.vcf_commodity ?? null,
+          comps: [],
+        };
+        byProduct.set(r.productId, p);
+      }
+      const vcf = vcfForProductId(r.productId, r.tempF);
+      p.plannedGallons += gallons;
+      p.plannedNetGallons = p.plannedNetGallons != null && vcf != null ? p.plannedNetGallons + gallons * vcf : null;
+      p.comps.push({ compNumber: Number(r.comp_number), plannedGallons: gallons });
+    }
+    return Array.from(byProduct.values());
+  }, [planRows, terminalProducts, productNameById, tempF, vcfForProductId]);
+
+  // ── Complete load ─────────────────────────────────────────────────────────
+
+  /**
+   * BOL values, where entered, are the load's actuals and replace the driver's
+   * API as the terminal's last_api. Anything the BOL leaves blank falls back
+   * to the readings taken in the loading modal.
+   */
+  const completeLoadWithBol = useCallback(async (bol: BolEntry) => {
+    if (!activeLoadId || completeBusy) return;
+
+    const discrepancies = reconcileBol(bolPlan, bol);
+    const errors = discrepancies.filter((d) => d.severity === "error");
+    if (errors.length > 0 &&
+        !confirm(`BOL doesn't add up:\n${errors.map((d) => d.message).join("\n")}\n\nSave anyway?`)) return;
+
+    const fromBol = bolHasValues(bol);
+    const actual = bolActualLines(bolPlan, bol, actualByComp);
 
     try {
       setCompleteBusy(true);
       setCompleteError(null);
 
-      const lines = Object.entries(nextActualByComp).map(([compStr, a]) => ({
-        comp_number: Number(compStr),
-        actual_gallons: a.actual_gallons ?? null,
-        actual_lbs: a.actual_lbs ?? null,
-        temp_f: a.temp_f ?? null,
+      const lines = actual.map((a) => ({
+        comp_number: a.compNumber,
+        actual_gallons: round2(a.grossGallons),
+        actual_lbs: a.lbs != null ? round2(a.lbs) : null,
+        actual_net_gallons: a.netGallons != null ? round2(a.netGallons) : null,
+        actual_vcf: a.vcf != null ? Math.round(a.vcf * 1e5) / 1e5 : null,
+        temp_f: a.tempF,
       }));
 
-      const product_updates = requiredProductIds.map((pid) => ({
-        product_id: pid,
-        api: Number(String(productInputs[pid]?.api ?? "").trim()),
-        temp_f: (productInputs[pid]?.tempF ?? null) as number | null,
-      }));
+      // api_temp_f is the temperature last_api was read at — the RPC stores it
+      // as last_temp_f, which bestApi60 back-corrects from on the next plan and
+      // the planner offers as "last loaded here". BOL API is at 60°F, so with a
+      // BOL temp it goes in as the reading at that temp; without one it stays at 60.
+      const product_updates = bolPlan.map((p) => {
+        const b = bol.products[p.productId];
+        if (b?.api60 != null) {
+          if (b.tempF != null && Number.isFinite(b.tempF)) {
+            const api = forwardCorrectApiFrom60(b.api60, b.tempF, p.alphaPerF ?? 0, p.commodity);
+            return { product_id: p.productId, api: Math.round(api * 100) / 100, temp_f: b.tempF, api_temp_f: b.tempF, source: "bol" as const };
+          }
+          return { product_id: p.productId, api: b.api60, temp_f: null, api_temp_f: 60, source: "bol" as const };
+        }
+        const tempF = (productInputs[p.productId]?.tempF ?? null) as number | null;
+        return {
+          product_id: p.productId,
+          api: Number(String(productInputs[p.productId]?.api ?? "").trim()),
+          temp_f: tempF,
+          api_temp_f: tempF != null && Number.isFinite(Number(tempF)) ? Number(tempF) : undefined,
+          source: "driver" as const,
+        };
+      });
 
       const res = await completeLoad({
         load_id: activeLoadId,
         lines,
         completed_at: new Date().toISOString(),
         product_updates,
+        bol_number: bol.bolNumber.trim() || null,
+        actuals_source: fromBol ? "bol" : "driver",
+        bol_discrepancies: fromBol ? discrepancies.map((d) => ({
+          product_id: d.productId, comp_number: d.compNumber, field: d.field,
+          expected: round2(d.expected), bol: round2(d.bol), severity: d.severity, message: d.message,
+        })) : [],
       });
 
+      const actualPayloadLbs = actual.reduce((s, a) => s + (a.lbs ?? 0), 0);
+      const actualNetGal = actual.every((a) => a.netGallons != null)
+        ? actual.reduce((s, a) => s + (a.netGallons ?? 0), 0) : null;
+      const plannedNetGal = bolPlan.every((p) => p.plannedNetGallons != null)
+        ? bolPlan.reduce((s, p) => s + (p.plannedNetGallons ?? 0), 0) : null;
+
       const plannedGross = computePlannedGrossLbs();
       const actualGross =
         Number.isFinite(tare) && Number.isFinite(actualPayloadLbs)
@@ -269,8 +462,14 @@ export function useLoadWorkflow({
         planned_gross_lbs: plannedGross,
         actual_gross_lbs: actualGross,
         diff_lbs: diff,
+        planned_net_gal: plannedNetGal != null ? round2(plannedNetGal) : null,
+        actual_net_gal: actualNetGal != null ? round2(actualNetGal) : null,
+        scale_gross_lbs: null,
+        scale_location: null,
       });
-      setLoadingOpen(false);
+      setScaleTicket(null);
+      setScaleCheck(null);
+      setCompleteOpen(false);
 
       // ── Post-load refresh (don't reset loadReport — it's set above) ─────────
       // Fire in parallel — neither touches loadReport state
@@ -287,8 +486,60 @@ export function useLoadWorkflow({
     } finally {
       setCompleteBusy(false);
     }
-  }, [activeLoadId, planRows, productInputs, productNameById, tare, plannedGallonsTotal, terminalProducts,
-      selectedTerminalId, tempF, onRefreshTerminalProducts, onRefreshTerminalAccess, onPostLoadComplete]);
+  }, [activeLoadId, completeBusy, bolPlan, actualByComp, productInputs, tare, plannedGallonsTotal, computePlannedGrossLbs,
+      onRefreshTerminalProducts, onRefreshTerminalAccess, onPostLoadComplete]);
+
+  // ── Scale ticket ──────────────────────────────────────────────────────────
+
+  /** Scale gross replaces the computed actual — diff_lbs becomes scale vs planned gross. */
+  const recordScaleTicketToSupabase = useCallback(async (ticket: ScaleTicket, check: ScaleCheck) => {
+    if (!activeLoadId || scaleBusy) return;
+    try {
+      setScaleBusy(true);
+      setScaleError(null);
+
+      const res = await recordScaleTicket({
+        load_id: activeLoadId,
+        weighed_at: new Date().toISOString(),
+        scale_location: ticket.location.trim() || null,
+        gross_lbs: ticket.grossLbs,
+        steer_lbs: ticket.steerLbs,
+        drive_lbs: ticket.driveLbs,
+        trailer_lbs: ticket.trailerLbs,
+        detail: {
+          gross_limit_lbs: check.grossLimitLbs,
+          over_gross_lbs: check.overGrossLbs,
+          axles: check.axles.map((a) => ({
+            key: a.key, scale_lbs: a.scaleLbs, predicted_lbs: a.predictedLbs != null ? Math.round(a.predictedLbs) : null,
+            limit_lbs: a.limitLbs, diff_lbs: a.diffLbs != null ? Math.round(a.diffLbs) : null, over_lbs: a.overLbs,
+          })),
+          offload: check.offload ? {
+            feasible: check.offload.feasible,
+            reason: check.offload.reason,
+            lines: check.offload.lines.map((l) => ({ comp_number: l.compNumber, product_id: l.productId, gallons: l.gallons, lbs: Math.round(l.lbs) })),
+          } : null,
+        },
+      });
+
+      const diff = res?.diff_lbs != null && Number.isFinite(Number(res.diff_lbs)) ? Number(res.diff_lbs) : check.diffLbs;
+      setLoadReport((prev) => prev ? {
+        ...prev,
+        actual_gross_lbs: ticket.grossLbs,
+        diff_lbs: diff,
+        scale_gross_lbs: ticket.grossLbs,
+        scale_location: ticket.location.trim() || null,
+      } : prev);
+      setScaleTicket(ticket);
+      setScaleCheck(check);
+      setScaleOpen(false);
+      await Promise.resolve(onPostLoadComplete?.());
+    } catch (e) {
+      console.error("record_scale_ticket failed:", e);
+      setScaleError((e as { message?: string })?.message ?? String(e));
+    } finally {
+      setScaleBusy(false);
+    }
+  }, [activeLoadId, scaleBusy, onPostLoadComplete]);
 
   return {
     activeLoadId,
@@ -299,8 +550,16 @@ export function useLoadWorkflow({
     completeBusy,
     completeError,
     actualByComp,
+    bolPlan,
     loadReport,
     beginLoadToSupabase,
     onLoadedFromLoadingModal,
+    completeLoadWithBol,
+    scaleOpen, setScaleOpen,
+    scaleBusy,
+    scaleError,
+    scaleTicket,
+    scaleCheck,
+    recordScaleTicketToSupabase,
   };
 }
@@ -16,51 +16,31 @@ function ambientKey(state: string, city: string) {
   return `${normState(state)}|${normCity(city)}`;
 }
 
+/** Current ambient via /api/ambient — the weather provider and its key live server-side. */
 async function fetchAmbientTempF(args: {
   state: string;
   city: string;
-  apiKey: string;
   signal: AbortSignal;
   onLatLon?: (lat: number, lon: number) => void;
 }): Promise<number | null> {
-  const { state, city, apiKey, signal, onLatLon } = args;
+  const { state, city, signal, onLatLon } = args;
   const qCity = city.trim();
   const qState = state.trim();
-  if (!qCity || !qState || !apiKey) return null;
+  if (!qCity || !qState) return null;
 
   try {
-    const url = `https://api.openweathermap.org/data/2.5/weather?q=${encodeURIComponent(qCity)},${encodeURIComponent(qState)},US&units=imperial&appid=${encodeURIComponent(apiKey)}`;
-    const res = await fetch(url, { signal, cache: "no-store" });
-    if (res.ok) {
-      const json: any = await res.json();
-      const temp = Number(json?.main?.temp);
-      // Capture lat/lon from the current weather response
-      if (json?.coord?.lat && json?.coord?.lon) {
-        onLatLon?.(Number(json.coord.lat), Number(json.coord.lon));
-      }
-      if (Number.isFinite(temp)) return temp;
-    }
-  } catch {}
-
-  try {
-    const geoUrl = `https://api.openweathermap.org/geo/1.0/direct?q=${encodeURIComponent(qCity)},${encodeURIComponent(qState)},US&limit=1&appid=${encodeURIComponent(apiKey)}`;
-    const geoRes = await fetch(geoUrl, { signal, cache: "no-store" });
-    if (!geoRes.ok) return null;
-    const geoJson: any = await geoRes.json();
-    const item = Array.isArray(geoJson) ? geoJson[0] : null;
-    const lat = Number(item?.lat);
-    const lon = Number(item?.lon);
-    if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
-
-    // Capture lat/lon from geo lookup
-    onLatLon?.(lat, lon);
-
-    const wUrl = `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lon}&units=imperial&appid=${encodeURIComponent(apiKey)}`;
-    const wRes = await fetch(wUrl, { signal, cache: "no-store" });
-    if (!wRes.ok) return null;
-    const wJson: any = await wRes.json();
-    const temp2 = Number(wJson?.main?.temp);
-    return Number.isFinite(temp2) ? temp2 : null;
+    const res = await fetch("/api/ambient", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ city: qCity, state: qState }),
+      signal,
+      cache: "no-store",
+    });
+    if (!res.ok) return null;
+    const json = (await res.json()) as { tempF?: number; lat?: number; lon?: number };
+    if (typeof json.lat === "number" && typeof json.lon === "number") onLatLon?.(json.lat, json.lon);
+    const temp = Number(json.tempF);
+    return Number.isFinite(temp) ? temp : null;
   } catch {
     return null;
   }
@@ -266,9 +246,6 @@ type AmbientCacheEntry = {
       return;
     }
 
-    const apiKey = (process.env.NEXT_PUBLIC_OPENWEATHER_KEY || "").trim();
-    if (!apiKey) { setAmbientTempF(null); return; }
-
     const cacheKey = ambientKey(selectedState, selectedCity);
     const cached = AMBIENT_CACHE.get(cacheKey) as AmbientCacheEntry | undefined;
     if (cached && Date.now() - cached.ts < AMBIENT_TTL_MS) {
@@ -284,7 +261,7 @@ type AmbientCacheEntry = {
     (async () => {
       try {
         const temp = await fetchAmbientTempF({
-          state: selectedState, city: selectedCity, apiKey, signal: ac.signal,
+          state: selectedState, city: selectedCity, signal: ac.signal,
           onLatLon: (lat, lon) => {
             setLocationLat(lat);
             setLocationLon(lon);
@@ -325,8 +302,6 @@ type AmbientCacheEntry = {
   // Re-fetches even if cache is fresh so the UI stays current without reload.
   useEffect(() => {
     if (!selectedState || !selectedCity) return;
-    const apiKey = (process.env.NEXT_PUBLIC_OPENWEATHER_KEY || "").trim();
-    if (!apiKey) return;
 
     const HEARTBEAT_MS = 7 * 60 * 1000; // 7 minutes
 
@@ -46,8 +46,10 @@ type Props = {
   tempF: number;
   cgSlider: number;
   compPlan: Record<number, CompPlanInput>;
+  productTempF: Record<string, number>;
   setCgSlider: (v: number) => void;
   setCompPlan: (v: Record<number, CompPlanInput>) => void;
+  setProductTempF: (v: Record<string, number>) => void;
   compartmentsLoaded: boolean;
   // Called by useLoadWorkflow after completeLoad — writes slot 0 as equipment-scoped
   onSaveLastLoad?: (payload: any) => Promise<void>;
@@ -55,8 +57,8 @@ type Props = {
 
 export function usePlanSlots({
   authUserId, selectedTerminalId, selectedComboId,
-  tempF, cgSlider, compPlan,
-  setCgSlider, setCompPlan,
+  tempF, cgSlider, compPlan, productTempF,
+  setCgSlider, setCompPlan, setProductTempF,
   compartmentsLoaded,
   onSaveLastLoad,
 }: Props) {
@@ -152,55 +154,8 @@ export function usePlanSlots({
   // ── Last load from load_log (equipment-scoped, any driver on this combo sees it) ──
   // Reads planned_snapshot from the most recent completed load for this combo.
   // planned_snapshot.lines contains { comp_number, product_id, un_number, ... }
-  // which is all we need to restore slot 0 and compute placard residue.
-
-  // For each empty compartment, find the last product loaded into it for this combo.
-  async function fetchLastProductPerComp(emptyComps: number[]): Promise<Record<number, { product_id: string; un_number: string | null }>> {
-    if (!selectedComboId || emptyComps.length === 0) return {};
-
-    // Step 1: get all completed load_ids for this combo, ordered newest first
-    const { data: logRows, error: logErr } = await supabase
-      .from("load_log")
-      .select("load_id")
-      .eq("combo_id", selectedComboId)
-      .order("started_at", { ascending: false })
-      .limit(50);
-
-    if (logErr || !logRows?.length) return {};
-    const loadIds = logRows.map((r: any) => r.load_id);
-
-    // Step 2: for each empty comp, find the most recent load_line from those loads
-    const result: Record<number, { product_id: string; un_number: string | null }> = {};
-
-    await Promise.all(emptyComps.map(async (compNum) => {
-      const { data, error } = await supabase
-        .from("load_lines")
-        .select("product_id, load_id, products(un_number)")
-        .in("load_id", loadIds)
-        .eq("comp_number", compNum)
-        .gt("planned_gallons", 0)
-        // Order by the position in loadIds array (newest load first)
-        // We can't order by started_at here, so we fetch all and pick the one
-        // whose load_id appears earliest in loadIds
-        .limit(50);
-
-      if (!error && data?.length) {
-        // Pick the row whose load_id is earliest in loadIds (= most recent load)
-        const sorted = data.sort((a: any, b: any) =>
-          loadIds.indexOf(a.load_id) - loadIds.indexOf(b.load_id)
-        );
-        const best = sorted[0];
-        if (best?.product_id) {
-          result[compNum] = {
-            product_id: String(best.product_id),
-            un_number: (best.products as any)?.un_number ?? null,
-          };
-        }
-      }
-    }));
-
-    return result;
-  }
+  // which is all we need to restore slot 0. Placard residue comes from
+  // trailer_compartment_state (hooks/useCompartmentState.ts).
 
   async function fetchLastLoadFromLog(): Promise<any | null> {
     console.log("[planSlots] fetchLastLoadFromLog — comboId:", selectedComboId);
@@ -285,17 +240,20 @@ export function usePlanSlots({
       tempF: Number(tempF) || 60,
       cgSlider: Number(cgSlider) || 0.25,
       compPlan,
+      productTempF,
     }),
-    [tempF, cgSlider, compPlan]
+    [tempF, cgSlider, compPlan, productTempF]
   );
 
   const applySnapshot = useCallback((snap: PlanSnapshot) => {
     // NOTE: tempF is intentionally NOT restored from any snapshot.
     // The fuel temp prediction always owns tempF. Restoring it from saved state
     // would override the prediction every time a slot is switched or the page reloads.
+    // Per-product and per-comp temps are the driver's own overrides, so they do come back.
     setCgSlider(Number(snap.cgSlider) || 0.25);
     setCompPlan(snap.compPlan || {});
-  }, [setCgSlider, setCompPlan]);
+    setProductTempF(snap.productTempF || {});
+  }, [setCgSlider, setCompPlan, setProductTempF]);
 
   // ── Server pull (once per scope) ──────────────────────────────────────────
 
@@ -336,6 +294,7 @@ export function usePlanSlots({
             // tempF is only ever set by the prediction hook or manually by the user.
             if (typeof local0.cgSlider === "number") setCgSlider(local0.cgSlider);
             if (local0.compPlan && typeof local0.compPlan === "object") setCompPlan(local0.compPlan);
+            if (local0.productTempF && typeof local0.productTempF === "object") setProductTempF(local0.productTempF);
             planDirtyRef.current = false;
             lastAppliedScopeRef.current = planScopeKey;
           }
@@ -406,7 +365,7 @@ export function usePlanSlots({
     if (!selectedTerminalId) return;
     if (planRestoreReadyRef.current) return;
     planDirtyRef.current = true;
-  }, [selectedTerminalId, tempF, cgSlider, compPlan]);
+  }, [selectedTerminalId, tempF, cgSlider, compPlan, productTempF]);
 
   // ── Debounced autosave slot 0 ─────────────────────────────────────────────
 
@@ -422,7 +381,7 @@ export function usePlanSlots({
       refreshSlotHas();
     }, 350);
     return () => { if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current); };
-  }, [selectedTerminalId, tempF, cgSlider, compPlan, buildSnapshot, planStoreKey, safeWrite, refreshSlotHas]);
+  }, [selectedTerminalId, tempF, cgSlider, compPlan, productTempF, buildSnapshot, planStoreKey, safeWrite, refreshSlotHas]);
 
   // ── Server sync helpers ───────────────────────────────────────────────────
 
@@ -490,7 +449,6 @@ export function usePlanSlots({
     PLAN_SLOTS,
     slotHas,
     lastLoadLines,
-    fetchLastProductPerComp,
     saveToSlot,
     loadFromSlot,
     refreshLastLoad,
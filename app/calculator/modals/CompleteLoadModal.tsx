@@ -1,200 +1,211 @@
 "use client";
+// modals/CompleteLoadModal.tsx
+// Owns: Bill of Lading entry + reconciliation against the plan. Saving happens in useLoadWorkflow.
 
-import React, { useMemo } from "react";
+import React, { useState } from "react";
 import { FullscreenModal } from "@/lib/ui/FullscreenModal";
+import { bolActualLines, bolHasValues, reconcileBol } from "../utils/bolReconcile";
+import type { BolEntry, BolEstimateLine, BolPlanProduct } from "../types";
 
 type Styles = {
   table: React.CSSProperties;
   th: React.CSSProperties;
   td: React.CSSProperties;
   help: React.CSSProperties;
+  input: React.CSSProperties;
   smallBtn: React.CSSProperties;
   doneBtn: React.CSSProperties;
   error: React.CSSProperties;
 };
 
-type PlanRow = any;
+type ProductField = "grossGallons" | "netGallons" | "api60" | "tempF";
+type LineField = "grossGallons" | "netGallons";
 
-export type ActualByComp = Record<
-  number,
-  {
-    actual_gallons: number | null;
-    actual_lbs: number | null;
-    temp_f: number | null;
-  }
->;
+const PRODUCT_FIELDS: Array<{ key: ProductField; label: string }> = [
+  { key: "grossGallons", label: "Gross gal" },
+  { key: "netGallons", label: "Net gal" },
+  { key: "api60", label: "API @ 60°F" },
+  { key: "tempF", label: "Temp °F" },
+];
 
+const cellInput: React.CSSProperties = { width: 90, textAlign: "right" };
+
+function num(raw: string | undefined): number | null {
+  const t = String(raw ?? "").replace(/,/g, "").trim();
+  if (!t) return null;
+  const n = Number(t);
+  return Number.isFinite(n) ? n : null;
+}
+
+const fmtGal = (n: number | null | undefined) => (n == null ? "—" : Math.round(n).toLocaleString());
+
+/**
+ * Mount only while open — the BOL draft starts blank each time, and anything
+ * left blank falls back to the driver's readings in `estimate`.
+ */
 export default function CompleteLoadModal(props: {
-  open: boolean;
   onClose: () => void;
 
   styles: Styles;
 
   loadId: string;
-  planRows: PlanRow[];
-
-  actualByComp: ActualByComp;
-  setActualByComp: React.Dispatch<React.SetStateAction<ActualByComp>>;
+  plan: BolPlanProduct[];
+  estimate: Record<number, BolEstimateLine>;
 
   busy?: boolean;
   error?: string | null;
 
-  onSubmit: () => void;
+  onSubmit: (bol: BolEntry) => void;
 }) {
-  const { open, onClose, styles, loadId, planRows, actualByComp, setActualByComp, busy, error, onSubmit } = props;
-
-  const rows = useMemo(() => {
-    const out: Array<{
-      comp: number;
-      productLabel: string;
-      planned_gal: number | null;
-      planned_lbs: number | null;
-      planned_temp: number | null;
-    }> = [];
-
-    for (const r of planRows ?? []) {
-      const comp = Number((r as any).comp_number ?? (r as any).compNumber ?? 0);
-      if (!Number.isFinite(comp) || comp <= 0) continue;
-
-      const productLabel =
-        String((r as any).product_name ?? (r as any).productName ?? (r as any).product_id ?? (r as any).productId ?? "")
-          .trim() || "—";
-
-      const planned_gal = (() => {
-        const v = (r as any).planned_gallons ?? (r as any).plannedGallons ?? null;
-        const n = v == null ? null : Number(v);
-        return Number.isFinite(n as number) ? (n as number) : null;
-      })();
-
-      const planned_lbs = (() => {
-        const v = (r as any).planned_lbs ?? (r as any).plannedLbs ?? null;
-        const n = v == null ? null : Number(v);
-        return Number.isFinite(n as number) ? (n as number) : null;
-      })();
-
-      const planned_temp = (() => {
-        const v = (r as any).temp_f ?? (r as any).tempF ?? (r as any).planned_temp_f ?? null;
-        const n = v == null ? null : Number(v);
-        return Number.isFinite(n as number) ? (n as number) : null;
-      })();
-
-      out.push({ comp, productLabel, planned_gal, planned_lbs, planned_temp });
-    }
-
-    // stable sort by compartment number
-    out.sort((a, b) => a.comp - b.comp);
-    return out;
-  }, [planRows]);
-
-  const setField = (comp: number, key: "actual_gallons" | "actual_lbs" | "temp_f", raw: string) => {
-    const trimmed = raw.trim();
-    const val = trimmed === "" ? null : Number(trimmed);
-    setActualByComp((prev) => {
-      const next = { ...prev };
-      const cur = next[comp] ?? { actual_gallons: null, actual_lbs: null, temp_f: null };
-      next[comp] = { ...cur, [key]: Number.isFinite(val as number) ? (val as number) : null };
-      return next;
-    });
+  const { onClose, styles, loadId, plan, estimate, busy, error, onSubmit } = props;
+
+  const [bolNumber, setBolNumber] = useState("");
+  const [productDraft, setProductDraft] = useState<Record<string, Partial<Record<ProductField, string>>>>({});
+  const [lineDraft, setLineDraft] = useState<Record<number, Partial<Record<LineField, string>>>>({});
+
+  const bol: BolEntry = {
+    bolNumber,
+    products: Object.fromEntries(plan.map((p) => {
+      const d = productDraft[p.productId] ?? {};
+      return [p.productId, { grossGallons: num(d.grossGallons), netGallons: num(d.netGallons), api60: num(d.api60), tempF: num(d.tempF) }];
+    })),
+    lines: Object.fromEntries(plan.flatMap((p) => p.comps).map((c) => {
+      const d = lineDraft[c.compNumber] ?? {};
+      return [c.compNumber, { grossGallons: num(d.grossGallons), netGallons: num(d.netGallons) }];
+    })),
   };
 
-  const prefillFromPlanned = () => {
-    setActualByComp((prev) => {
-      const next = { ...prev };
-      for (const r of rows) {
-        const cur = next[r.comp] ?? { actual_gallons: null, actual_lbs: null, temp_f: null };
-        next[r.comp] = {
-          actual_gallons: cur.actual_gallons ?? r.planned_gal ?? null,
-          actual_lbs: cur.actual_lbs ?? r.planned_lbs ?? null,
-          temp_f: cur.temp_f ?? r.planned_temp ?? null,
-        };
-      }
-      return next;
-    });
-  };
+  const entered = bolHasValues(bol);
+  const discrepancies = entered ? reconcileBol(plan, bol) : [];
+  const actual = bolActualLines(plan, bol, estimate);
+  const actualByComp = new Map(actual.map((a) => [a.compNumber, a]));
+  const labelById = new Map(plan.map((p) => [p.productId, p.label]));
+
+  const setProductField = (pid: string, key: ProductField, raw: string) =>
+    setProductDraft((prev) => ({ ...prev, [pid]: { ...(prev[pid] ?? {}), [key]: raw } }));
+  const setLineField = (comp: number, key: LineField, raw: string) =>
+    setLineDraft((prev) => ({ ...prev, [comp]: { ...(prev[comp] ?? {}), [key]: raw } }));
+
+  const footer = (
+    <div style={{ display: "flex", gap: 10 }}>
+      <button type="button" style={{ ...styles.smallBtn, flex: 1 }} onClick={onClose} disabled={busy}>
+        Back
+      </button>
+      <button type="button" style={{ ...styles.doneBtn, flex: 2 }} onClick={() => onSubmit(bol)} disabled={busy}>
+        {busy ? "Completing…" : entered ? "Complete with BOL" : "Complete without BOL"}
+      </button>
+    </div>
+  );
 
   return (
-    <FullscreenModal open={open} title="Complete Load" onClose={onClose}>
+    <FullscreenModal open title="Bill of Lading" onClose={onClose} footer={footer}>
       <div style={{ display: "grid", gap: 12 }}>
-        <div style={styles.help}>
+        <div style={{ ...styles.help, marginTop: 0 }}>
           Load ID: <span style={{ fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace" }}>{loadId}</span>
         </div>
+        <div style={{ ...styles.help, marginTop: 0 }}>
+          Enter the BOL as printed. BOL values are saved as the load&apos;s actuals; blanks use your own readings.
+        </div>
 
         {error ? <div style={styles.error}>{error}</div> : null}
 
-        <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-          <button type="button" style={styles.smallBtn} onClick={prefillFromPlanned} disabled={busy}>
-            Prefill from planned
-          </button>
-        </div>
-
+        <input
+          type="text"
+          placeholder="BOL #"
+          value={bolNumber}
+          onChange={(e) => setBolNumber(e.target.value)}
+          style={styles.input}
+          disabled={busy}
+        />
+
+        {/* Per product, as the BOL prints it */}
+        {plan.map((p) => {
+          const d = productDraft[p.productId] ?? {};
+          return (
+            <div key={p.productId} style={{ display: "grid", gap: 8, padding: "10px 12px", borderRadius: 12, border: "1px solid rgba(255,255,255,0.10)", background: "rgba(255,255,255,0.03)" }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+                <div style={{ fontWeight: 800, fontSize: 15 }}>{p.label}</div>
+                <div style={{ fontSize: 12, color: "rgba(255,255,255,0.45)", whiteSpace: "nowrap" }}>
+                  Planned {fmtGal(p.plannedGallons)} gal{p.plannedNetGallons != null ? ` · ${fmtGal(p.plannedNetGallons)} net` : ""}
+                </div>
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(110px, 1fr))", gap: 8 }}>
+                {PRODUCT_FIELDS.map((f) => (
+                  <label key={f.key} style={{ display: "grid", gap: 3, fontSize: 11, fontWeight: 700, color: "rgba(255,255,255,0.45)" }}>
+                    {f.label}
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={d[f.key] ?? ""}
+                      onChange={(e) => setProductField(p.productId, f.key, e.target.value)}
+                      style={{ ...styles.input, textAlign: "right" }}
+                      disabled={busy}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Per compartment — optional, for BOLs / meter tickets that break it out */}
         <table style={styles.table}>
           <thead>
             <tr>
               <th style={styles.th}>Comp</th>
               <th style={styles.th}>Product</th>
               <th style={styles.th}>Planned gal</th>
-              <th style={styles.th}>Actual gal</th>
-              <th style={styles.th}>Planned lbs</th>
-              <th style={styles.th}>Actual lbs</th>
-              <th style={styles.th}>Temp °F</th>
+              <th style={styles.th}>BOL gross</th>
+              <th style={styles.th}>BOL net</th>
+              <th style={styles.th}>VCF</th>
+              <th style={styles.th}>Lbs</th>
             </tr>
           </thead>
           <tbody>
-            {rows.map((r) => {
-              const a = actualByComp[r.comp] ?? { actual_gallons: null, actual_lbs: null, temp_f: null };
-              return (
-                <tr key={r.comp}>
-                  <td style={styles.td}>{r.comp}</td>
-                  <td style={styles.td}>{r.productLabel}</td>
-                  <td style={styles.td}>{r.planned_gal == null ? "—" : Math.round(r.planned_gal * 10) / 10}</td>
-                  <td style={styles.td}>
-                    <input
-                      type="number"
-                      inputMode="decimal"
-                      value={a.actual_gallons ?? ""}
-                      onChange={(e) => setField(r.comp, "actual_gallons", e.target.value)}
-                      style={{ width: 110 }}
-                      className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-white"
-                      disabled={busy}
-                    />
-                  </td>
-                  <td style={styles.td}>{r.planned_lbs == null ? "—" : Math.round(r.planned_lbs)}</td>
-                  <td style={styles.td}>
-                    <input
-                      type="number"
-                      inputMode="decimal"
-                      value={a.actual_lbs ?? ""}
-                      onChange={(e) => setField(r.comp, "actual_lbs", e.target.value)}
-                      style={{ width: 110 }}
-                      className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-white"
-                      disabled={busy}
-                    />
-                  </td>
-                  <td style={styles.td}>
-                    <input
-                      type="number"
-                      inputMode="decimal"
-                      value={a.temp_f ?? ""}
-                      onChange={(e) => setField(r.comp, "temp_f", e.target.value)}
-                      style={{ width: 90 }}
-                      className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-white"
-                      disabled={busy}
-                    />
-                  </td>
-                </tr>
-              );
-            })}
+            {plan.flatMap((p) => p.comps.map((c) => ({ ...c, productId: p.productId })))
+              .sort((a, b) => a.compNumber - b.compNumber)
+              .map((c) => {
+                const a = actualByComp.get(c.compNumber);
+                const d = lineDraft[c.compNumber] ?? {};
+                return (
+                  <tr key={c.compNumber}>
+                    <td style={styles.td}>{c.compNumber}</td>
+                    <td style={styles.td}>{labelById.get(c.productId) ?? "—"}</td>
+                    <td style={styles.td}>{fmtGal(c.plannedGallons)}</td>
+                    <td style={styles.td}>
+                      <input type="text" inputMode="decimal" value={d.grossGallons ?? ""} placeholder={fmtGal(a?.grossGallons)}
+                        onChange={(e) => setLineField(c.compNumber, "grossGallons", e.target.value)}
+                        style={{ ...styles.input, ...cellInput }} disabled={busy} />
+                    </td>
+                    <td style={styles.td}>
+                      <input type="text" inputMode="decimal" value={d.netGallons ?? ""} placeholder={fmtGal(a?.netGallons)}
+                        onChange={(e) => setLineField(c.compNumber, "netGallons", e.target.value)}
+                        style={{ ...styles.input, ...cellInput }} disabled={busy} />
+                    </td>
+                    <td style={styles.td}>{a?.vcf != null ? a.vcf.toFixed(5) : "—"}</td>
+                    <td style={{ ...styles.td, color: a?.fromBol ? "rgba(255,255,255,0.9)" : "rgba(255,255,255,0.45)" }}>
+                      {a?.lbs != null ? Math.round(a.lbs).toLocaleString() : "—"}
+                    </td>
+                  </tr>
+                );
+              })}
           </tbody>
         </table>
 
-        <div style={{ display: "flex", justifyContent: "flex-end", gap: 10 }}>
-          <button type="button" style={styles.smallBtn} onClick={onClose} disabled={busy}>
-            Cancel
-          </button>
-          <button type="button" style={styles.doneBtn} onClick={onSubmit} disabled={busy}>
-            {busy ? "Completing…" : "Complete Load"}
-          </button>
-        </div>
+        {/* Reconciliation */}
+        {entered && (
+          discrepancies.length === 0 ? (
+            <div style={{ fontSize: 13, fontWeight: 700, color: "#4ade80" }}>BOL matches the plan within tolerance</div>
+          ) : (
+            <div style={{ display: "grid", gap: 4 }}>
+              {discrepancies.map((d, i) => (
+                <div key={i} style={{ fontSize: 12, fontWeight: 700, color: d.severity === "error" ? "#ef4444" : "#fbbf24" }}>
+                  ⚠️ {d.message}
+                </div>
+              ))}
+            </div>
+          )
+        )}
       </div>
     </FullscreenModal>
   );
@@ -28,6 +28,9 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { supabase } from "@/lib/supabase/client";
 import { FullscreenModal } from "@/lib/ui/FullscreenModal";
 import DecoupleModal from "./DecoupleModal";
+import { useAxleGeometry } from "../hooks/useAxleGeometry";
+import { DEFAULT_AXLE_LIMITS } from "../utils/axleMath";
+import { bridgeGroupingLabel, evaluateBridge, FEDERAL_GROSS_MAX } from "../utils/bridgeFormula";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -780,6 +783,15 @@ export default function EquipmentModal({
   const [newTareLbs,    setNewTareLbs]    = useState("");
   const [newTargetLbs,  setNewTargetLbs]  = useState("80000");
 
+  // Bridge formula ceiling for the picked pair — a target above it can never be legally reached
+  const pickGeometry = useAxleGeometry(pickTruckId || null, pickTrailerId || null);
+  const pickBridge = useMemo(() => {
+    if (!pickGeometry.geometry) return null;
+    const limits = { ...DEFAULT_AXLE_LIMITS, steer: pickGeometry.steerLimitLbs ?? DEFAULT_AXLE_LIMITS.steer };
+    return evaluateBridge(pickGeometry.geometry, limits);
+  }, [pickGeometry.geometry, pickGeometry.steerLimitLbs]);
+  const legalMaxLbs = pickBridge?.grossCeilingLbs ?? FEDERAL_GROSS_MAX;
+
   // ── Loaders ────────────────────────────────────────────────────────────────
 
   const loadEquipment = useCallback(async () => {
@@ -1048,6 +1060,11 @@ export default function EquipmentModal({
   }
 
   async function doCouple(tareLbs: number | null, targetLbs?: number) {
+    if (targetLbs != null && targetLbs > legalMaxLbs) {
+      const why = pickBridge?.binding ? ` (${bridgeGroupingLabel(pickBridge.binding)})` : "";
+      setLocalErr(`Target exceeds the bridge formula max of ${legalMaxLbs.toLocaleString()} lbs for this pair${why}.`);
+      return;
+    }
     setBusy(true); setLocalErr(null);
     try {
       const params: Record<string, any> = { p_truck_id: pickTruckId, p_trailer_id: pickTrailerId };
@@ -1081,13 +1098,20 @@ export default function EquipmentModal({
     </div>
   ) : null;
 
+  const bridgeHint = pickBridge ? (
+    <div style={{ fontSize: 11, fontWeight: 700, color: "rgba(255,255,255,0.40)", margin: "2px 0 8px" }}>
+      Bridge formula max for this pair: {legalMaxLbs.toLocaleString()} lbs
+      {pickBridge.binding ? ` · ${bridgeGroupingLabel(pickBridge.binding)}` : ""}
+    </div>
+  ) : null;
+
   // ── View: Confirm target weight (existing combo re-couple) ─────────────────
 
   if (view === "confirm_target") {
     const tName  = trucks.find((t) => t.truck_id === pickTruckId)?.truck_name ?? pickTruckId;
     const trName = trailers.find((t) => t.trailer_id === pickTrailerId)?.trailer_name ?? pickTrailerId;
     const targetNum = Number(newTargetLbs) || 0;
-    const tooClose  = targetNum > 0 && targetNum >= 79500;
+    const tooClose  = targetNum > 0 && targetNum >= legalMaxLbs - 500;
     return (
       <ModalShell open={open} onClose={onClose} title="Equipment">
         <button type="button" style={{ ...S.btn, background: "transparent", margin: "12px 0 16px" }}
@@ -1104,6 +1128,7 @@ export default function EquipmentModal({
             value={newTargetLbs} onChange={(e) => setNewTargetLbs(e.target.value)}
             style={S.input} disabled={busy} autoFocus />
         </div>
+        {bridgeHint}
         <div style={{ padding: "10px 12px", borderRadius: 10, marginBottom: 24,
           background: tooClose ? "rgba(180,50,20,0.12)" : "rgba(255,255,255,0.04)",
           border: tooClose ? "1px solid rgba(220,80,40,0.35)" : "1px solid rgba(255,255,255,0.08)" }}>
@@ -1135,7 +1160,7 @@ export default function EquipmentModal({
     const tName  = trucks.find((t) => t.truck_id === pickTruckId)?.truck_name ?? pickTruckId;
     const trName = trailers.find((t) => t.trailer_id === pickTrailerId)?.trailer_name ?? pickTrailerId;
     const targetNum = Number(newTargetLbs) || 0;
-    const tooClose  = targetNum > 0 && targetNum >= 79500;
+    const tooClose  = targetNum > 0 && targetNum >= legalMaxLbs - 500;
     return (
       <ModalShell open={open} onClose={onClose} title="Equipment">
         <button type="button" style={{ ...S.btn, background: "transparent", margin: "12px 0 16px" }}
@@ -1167,6 +1192,7 @@ export default function EquipmentModal({
             value={newTargetLbs} onChange={(e) => setNewTargetLbs(e.target.value)}
             style={S.input} disabled={busy} />
         </div>
+        {bridgeHint}
         <div style={{ padding: "10px 12px", borderRadius: 10, marginBottom: 20,
           background: tooClose ? "rgba(180,50,20,0.12)" : "rgba(255,255,255,0.04)",
           border: tooClose ? "1px solid rgba(220,80,40,0.35)" : "1px solid rgba(255,255,255,0.08)" }}>
@@ -103,6 +103,18 @@ function fmtLastApiLine_(args: {
   return `API was ${api}`;
 }
 
+const paperBtnStyle: React.CSSProperties = {
+  height: 40,
+  borderRadius: 10,
+  border: "1px solid rgba(255,255,255,0.14)",
+  background: "rgba(255,255,255,0.05)",
+  color: "rgba(255,255,255,0.75)",
+  fontWeight: 800,
+  fontSize: 13,
+  letterSpacing: 0.4,
+  cursor: "pointer",
+};
+
 export default function LoadingModal(props: {
   open: boolean;
   onClose: () => void;
@@ -121,6 +133,8 @@ export default function LoadingModal(props: {
 
   onOpenTempDial: (productId: string) => void;
   onLoaded: () => void;
+  onPrintShippingPaper?: () => void;  // set once begin_load has a load_id
+  onDownloadShippingPaper?: () => void;  // same, as a PDF file
 
   loadedDisabled?: boolean;
   loadedLabel?: string;
@@ -144,6 +158,8 @@ export default function LoadingModal(props: {
     setProductApi,
     onOpenTempDial,
     onLoaded,
+    onPrintShippingPaper,
+    onDownloadShippingPaper,
     loadedDisabled,
     loadedLabel,
     lastProductInfoById,
@@ -353,6 +369,19 @@ useEffect(() => {
             </div>
           )}
 
+          {onPrintShippingPaper && (
+            <div style={{ display: "flex", gap: 8, width: "100%" }}>
+              <button type="button" onClick={onPrintShippingPaper} style={{ ...paperBtnStyle, flex: 1 }}>
+                SHIPPING PAPER
+              </button>
+              {onDownloadShippingPaper && (
+                <button type="button" onClick={onDownloadShippingPaper} style={{ ...paperBtnStyle, width: 72 }}>
+                  PDF
+                </button>
+              )}
+            </div>
+          )}
+
           <div style={{ display: "flex", width: "100%", marginTop: 6 }}>
             <button
               type="button"
@@ -3,6 +3,7 @@
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
+import { downloadShippingPaperPdf, printShippingPaper } from "@/lib/supabase/shippingPaper";
 import type { LoadHistoryRow, LoadHistoryLine } from "../hooks/useLoadHistory";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -45,6 +46,18 @@ function fmtTemp(v: number | null | undefined): string {
   return `${Math.round(Number(v))}°F`;
 }
 
+/** "3,512 gal gross · 3,480 net @ 60°F (VCF 0.99087)" — actual when loaded, else planned. */
+function fmtGrossNet(l: LoadHistoryLine): string {
+  const loaded = l.actual_gallons != null;
+  const gross = loaded ? l.actual_gallons : l.planned_gallons;
+  const net = loaded ? l.actual_net_gallons : l.planned_net_gallons;
+  const vcf = loaded ? l.actual_vcf : l.planned_vcf;
+  if (gross == null) return "—";
+  const netTxt = net == null ? "" : ` · ${Math.round(net).toLocaleString()} net @ 60°F`;
+  const vcfTxt = vcf == null ? "" : ` (VCF ${vcf.toFixed(5)})`;
+  return `${Math.round(gross).toLocaleString()} gal gross${netTxt}${vcfTxt}`;
+}
+
 function lineOverUnder(l: LoadHistoryLine): { text: string; color: string } | null {
   if (l.actual_lbs == null || l.planned_lbs == null) return null;
   const diff = Math.round(l.actual_lbs - l.planned_lbs);
@@ -108,6 +121,7 @@ function buildShareText(row: LoadHistoryRow, lines: LoadHistoryLine[] | undefine
         `C${l.comp_number}  ${l.product_name ?? "—"}`,
         `  Planned:  ${fmtLbs(l.planned_lbs)}  ${fmtTemp(l.planned_temp_f)}  API ${l.planned_api?.toFixed(1) ?? "—"}`,
         `  Actual:   ${fmtLbs(l.actual_lbs)}  ${fmtTemp(l.actual_temp_f)}  API ${l.actual_api?.toFixed(1) ?? "—"}  ${ou?.text ?? "—"}${ouTag}`,
+        `  Volume:   ${fmtGrossNet(l)}`,
       ];
       return rows.join("\n");
     }).join("\n\n");
@@ -118,11 +132,19 @@ function buildShareText(row: LoadHistoryRow, lines: LoadHistoryLine[] | undefine
       Math.abs(totalDiff) < 50 ? "  ✓ ON WEIGHT" :
       totalDiff > 0 ? "  ▲ OVER" : "  ▼ UNDER";
 
+    // Net total only when every line has one — a partial sum would understate the bill
+    const loaded = lines.some((l) => l.actual_gallons != null);
+    const grossTotal = lines.reduce((s, l) => s + ((loaded ? l.actual_gallons : l.planned_gallons) ?? 0), 0);
+    const netVals = lines.map((l) => (loaded ? l.actual_net_gallons : l.planned_net_gallons));
+    const netTotal = netVals.every((v) => v != null) ? netVals.reduce((s: number, v) => s + (v ?? 0), 0) : null;
+
     lineBlock += `\n\n${divider}\n`;
     lineBlock += `TOTAL  ${fmtGal(lines.reduce((s,l)=>s+(l.planned_gallons??0),0))}\n`;
+    lineBlock += `  Gross:   ${fmtGal(grossTotal)}${loaded ? "" : " (planned)"}\n`;
+    lineBlock += `  Net:     ${netTotal == null ? "—" : `${fmtGal(netTotal)} @ 60°F`}\n`;
     lineBlock += `  Planned: ${fmtLbs(totalPlanned)}\n`;
     lineBlock += `  Actual:  ${hasActual ? fmtLbs(totalActual) : "—"}\n`;
-    lineBlock += `  Net:     ${totalDiffTxt}${totalTag}`;
+    lineBlock += `  Diff:    ${totalDiffTxt}${totalTag}`;
   }
 
   const body = lineBlock ? `${header}\n\n${lineBlock}` : header;
@@ -267,6 +289,44 @@ function LineRows({ lines, loading }: { lines: LoadHistoryLine[] | undefined; lo
   );
 }
 
+// ─── Delivery stops (from planned_snapshot) ───────────────────────────────────
+
+type SnapshotStop = {
+  seq: number;
+  label: string;
+  comps: number[];
+  after: { gross_lbs: number; remaining_gal: number; cg_pct: number | null; warnings: string[] } | null;
+};
+
+function snapshotStops(row: LoadHistoryRow): SnapshotStop[] {
+  const stops = row.planned_snapshot?.stops;
+  return Array.isArray(stops) ? (stops as SnapshotStop[]) : [];
+}
+
+function StopRows({ stops }: { stops: SnapshotStop[] }) {
+  return (
+    <div style={{ padding: "0 18px 14px", display: "grid", gap: 6 }}>
+      <div style={{ fontSize: 10, fontWeight: 900, color: "rgba(255,255,255,0.25)", letterSpacing: 0.6 }}>STOPS</div>
+      {stops.map((st) => (
+        <div key={st.seq} style={{ display: "grid", gridTemplateColumns: "20px 1fr auto", gap: 8, alignItems: "baseline" }}>
+          <div style={{ fontSize: 13, fontWeight: 800, color: "rgba(255,255,255,0.45)" }}>{st.seq}</div>
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontSize: 13, fontWeight: 600, color: "rgba(255,255,255,0.85)", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+              {st.label} <span style={{ color: "rgba(255,255,255,0.35)", fontWeight: 500 }}>· C{st.comps.join(", C")}</span>
+            </div>
+            {st.after?.warnings?.map((w) => (
+              <div key={w} style={{ fontSize: 11, fontWeight: 700, color: "#ef4444" }}>{w}</div>
+            ))}
+          </div>
+          <div style={{ fontSize: 12, color: "rgba(255,255,255,0.45)", whiteSpace: "nowrap" }}>
+            {st.after ? `then ${fmtLbs(st.after.gross_lbs)}` : "—"}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // ─── Single load row ──────────────────────────────────────────────────────────
 
 function shareBtnStyle(color?: string): React.CSSProperties {
@@ -286,6 +346,7 @@ function LoadRow({ row, expanded, onToggle, lines, linesLoading }: {
 }) {
   const [shareOpen, setShareOpen] = React.useState(false);
   const [copied, setCopied] = React.useState(false);
+  const [paperBusy, setPaperBusy] = React.useState(false);
 
   function handleCopy(e: React.MouseEvent) {
     e.stopPropagation();
@@ -304,6 +365,20 @@ function LoadRow({ row, expanded, onToggle, lines, linesLoading }: {
     shareViaEmail(row, lines);
     setShareOpen(false);
   }
+  function handleShippingPaper(e: React.MouseEvent) {
+    e.stopPropagation();
+    setPaperBusy(true);
+    printShippingPaper(row.load_id)
+      .catch((err) => alert((err as { message?: string })?.message ?? "Could not build the shipping paper."))
+      .finally(() => setPaperBusy(false));
+  }
+  function handleShippingPaperPdf(e: React.MouseEvent) {
+    e.stopPropagation();
+    setPaperBusy(true);
+    downloadShippingPaperPdf(row.load_id)
+      .catch((err) => alert((err as { message?: string })?.message ?? "Could not build the shipping paper."))
+      .finally(() => setPaperBusy(false));
+  }
 
   const cityState = [row.city_name, row.state_code].filter(Boolean).join(", ");
   const summaryParts: string[] = [
@@ -383,10 +458,25 @@ function LoadRow({ row, expanded, onToggle, lines, linesLoading }: {
             </svg>
             EMAIL
           </button>
+
+          {/* Hazmat shipping paper — print, or download as PDF */}
+          <button onClick={handleShippingPaper} disabled={paperBusy} style={{ ...shareBtnStyle(), opacity: paperBusy ? 0.55 : 1 }}>
+            <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="6 9 6 2 18 2 18 9"/><path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2"/><rect x="6" y="14" width="12" height="8"/>
+            </svg>
+            {paperBusy ? "…" : "SHIPPING PAPER"}
+          </button>
+          <button onClick={handleShippingPaperPdf} disabled={paperBusy} style={{ ...shareBtnStyle(), opacity: paperBusy ? 0.55 : 1 }}>
+            <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/>
+            </svg>
+            PDF
+          </button>
         </div>
       )}
 
       {expanded && <LineRows lines={lines} loading={linesLoading} />}
+      {expanded && snapshotStops(row).length > 0 && <StopRows stops={snapshotStops(row)} />}
     </div>
   );
 }
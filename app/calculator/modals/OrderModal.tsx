@@ -0,0 +1,92 @@
+"use client";
+// modals/OrderModal.tsx
+// Owns: ordered gallons per product entry. Assignment to compartments happens in page.tsx.
+
+import React, { useState } from "react";
+import { FullscreenModal } from "@/lib/ui/FullscreenModal";
+import type { OrderLine, ProductRow } from "../types";
+
+type Styles = {
+  help: React.CSSProperties;
+  input: React.CSSProperties;
+  smallBtn: React.CSSProperties;
+  doneBtn: React.CSSProperties;
+};
+
+/**
+ * Mount only while open — the draft is seeded from `order` on mount, so
+ * reopening always starts from the order currently being planned.
+ */
+export default function OrderModal(props: {
+  onClose: () => void;
+  styles: Styles;
+  products: ProductRow[];
+  order: OrderLine[] | null;
+  capacityGallons: number;
+  onApply: (order: OrderLine[]) => void;
+  onClear: () => void;
+}) {
+  const { onClose, styles, products, order, capacityGallons, onApply, onClear } = props;
+
+  const [draft, setDraft] = useState<Record<string, string>>(() => {
+    const d: Record<string, string> = {};
+    for (const l of order ?? []) d[l.productId] = String(Math.round(l.gallons));
+    return d;
+  });
+
+  const lines: OrderLine[] = Object.entries(draft)
+    .map(([productId, raw]) => ({ productId, gallons: Number(raw.replace(/,/g, "")) }))
+    .filter((l) => Number.isFinite(l.gallons) && l.gallons > 0);
+  const total = lines.reduce((s, l) => s + l.gallons, 0);
+  const overCapacity = capacityGallons > 0 && total > capacityGallons;
+
+  const footer = (
+    <div style={{ display: "flex", gap: 10 }}>
+      <button type="button" style={{ ...styles.smallBtn, flex: 1 }} onClick={() => { onClear(); onClose(); }}>
+        Clear order
+      </button>
+      <button type="button" style={{ ...styles.doneBtn, flex: 2 }} disabled={lines.length === 0}
+        onClick={() => { onApply(lines); onClose(); }}>
+        Plan order
+      </button>
+    </div>
+  );
+
+  return (
+    <FullscreenModal open title="Order" onClose={onClose} footer={footer}>
+      <div style={{ display: "grid", gap: 10 }}>
+        <div style={{ ...styles.help, marginTop: 0 }}>
+          Enter ordered gallons per product. Compartments are picked by capacity, order and last product held.
+        </div>
+
+        {products.map((p) => (
+          <div key={p.product_id} style={{ display: "flex", alignItems: "center", gap: 12 }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontWeight: 800, fontSize: 15, color: p.hex_code || "rgba(255,255,255,0.9)" }}>
+                {p.button_code || p.product_code || p.product_name || p.product_id}
+              </div>
+              <div style={{ fontSize: 12, color: "rgba(255,255,255,0.45)", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {p.product_name ?? ""}
+              </div>
+            </div>
+            <input
+              type="text"
+              inputMode="numeric"
+              placeholder="gal"
+              value={draft[p.product_id] ?? ""}
+              onChange={(e) => setDraft((prev) => ({ ...prev, [p.product_id]: e.target.value }))}
+              style={{ ...styles.input, width: 120, textAlign: "right" }}
+            />
+          </div>
+        ))}
+
+        <div style={{ display: "flex", justifyContent: "space-between", fontSize: 13, fontWeight: 700, marginTop: 4 }}>
+          <span style={{ color: "rgba(255,255,255,0.55)" }}>Total {Math.round(total).toLocaleString()} gal</span>
+          <span style={{ color: overCapacity ? "#fbbf24" : "rgba(255,255,255,0.35)" }}>
+            Capacity {Math.round(capacityGallons).toLocaleString()} gal
+          </span>
+        </div>
+      </div>
+    </FullscreenModal>
+  );
+}
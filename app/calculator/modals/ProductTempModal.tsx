@@ -3,7 +3,10 @@
 
 import React from "react";
 import { FullscreenModal } from "@/lib/ui/FullscreenModal";
-import type { FuelTempConfidence } from "../hooks/useFuelTempPrediction";
+import { describeTank } from "@/lib/fuelTempPredictor";
+import { PLANNED_TEMP_SOURCE_LABEL } from "../utils/plannedTemps";
+import type { FuelTempBand, FuelTempCalibration, FuelTempConfidence, ProductFuelTemp } from "../hooks/useFuelTempPrediction";
+import type { PlannedTemp } from "../types";
 
 type Styles = {
   smallBtn: React.CSSProperties;
@@ -34,13 +37,54 @@ function ConfidenceDot({ confidence }: { confidence: FuelTempConfidence | null }
   );
 }
 
+const fmtLoadTime = (ts: number) =>
+  new Date(ts * 1000).toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" });
+
+function toHhmm(ts: number): string {
+  const d = new Date(ts * 1000);
+  return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+/** Next time the clock reads hh:mm — later today, else tomorrow. Unix seconds. */
+function nextOccurrenceTs(hhmm: string): number | null {
+  const [h, m] = hhmm.split(":").map(Number);
+  if (!Number.isFinite(h) || !Number.isFinite(m)) return null;
+  const d = new Date();
+  d.setHours(h, m, 0, 0);
+  if (d.getTime() < Date.now() - 5 * 60_000) d.setDate(d.getDate() + 1);
+  return Math.floor(d.getTime() / 1000);
+}
+
+function LoadTimeRow({ plannedLoadTs, setPlannedLoadTs, smallBtn }: {
+  plannedLoadTs: number | null;
+  setPlannedLoadTs: (ts: number | null) => void;
+  smallBtn: React.CSSProperties;
+}) {
+  const active = { color: "#67e8f9", borderColor: "rgba(103,232,249,0.3)" };
+  return (
+    <div style={{ display: "flex", alignItems: "center", justifyContent: "center", gap: 8, flexWrap: "wrap" }}>
+      <span style={{ fontSize: 11, fontWeight: 800, color: "rgba(255,255,255,0.4)", letterSpacing: 0.6 }}>LOADING</span>
+      <button type="button" style={{ ...smallBtn, ...(plannedLoadTs == null ? active : {}) }}
+        onClick={() => setPlannedLoadTs(null)}>Now</button>
+      <input type="time" value={plannedLoadTs != null ? toHhmm(plannedLoadTs) : ""}
+        onChange={(e) => setPlannedLoadTs(e.target.value ? nextOccurrenceTs(e.target.value) : null)}
+        style={{ ...smallBtn, ...(plannedLoadTs != null ? active : {}), colorScheme: "dark" }} />
+      {plannedLoadTs != null && (
+        <span style={{ fontSize: 12, fontWeight: 700, color: "rgba(255,255,255,0.55)" }}>{fmtLoadTime(plannedLoadTs)}</span>
+      )}
+    </div>
+  );
+}
+
 function PredictionBanner({
-  loading, error, predictedTempF, confidence, currentTempF, onAccept,
+  loading, error, predictedTempF, confidence, calibration, band, currentTempF, onAccept,
 }: {
   loading: boolean;
   error: string | null;
   predictedTempF: number | null;
   confidence: FuelTempConfidence | null;
+  calibration: FuelTempCalibration | null;
+  band: FuelTempBand | null;
   currentTempF: number;
   onAccept: (v: number) => void;
 }) {
@@ -84,7 +128,7 @@ function PredictionBanner({
       <div style={{ flex: 1 }}>
         <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4 }}>
           <span style={{ fontSize: 10, fontWeight: 800, color: "rgba(255,255,255,0.4)", letterSpacing: 0.6 }}>
-            PREDICTED PRODUCT TEMP
+            {band?.targetTs != null ? `PREDICTED FOR ${fmtLoadTime(band.targetTs).toUpperCase()}` : "PREDICTED PRODUCT TEMP"}
           </span>
           <ConfidenceDot confidence={confidence} />
         </div>
@@ -93,9 +137,27 @@ function PredictionBanner({
             {predictedTempF.toFixed(1)}°F
           </span>
           <span style={{ fontSize: 11, color: "rgba(255,255,255,0.35)" }}>
-            conservative · errs cold
+            {calibration?.applied ? `calibrated · ±${calibration.rmseF.toFixed(1)}°F` : "conservative · errs cold"}
           </span>
         </div>
+        {band && (
+          <div style={{ fontSize: 11, color: "rgba(255,255,255,0.45)", marginTop: 4, fontVariantNumeric: "tabular-nums" }}>
+            Likely {band.lowF.toFixed(1)}–{band.highF.toFixed(1)}°F
+            {band.targetTs != null ? ` · ${band.horizonHours.toFixed(1)} h ahead` : ""}
+          </div>
+        )}
+        {band?.beyondForecast && (
+          <div style={{ fontSize: 11, fontWeight: 700, color: "#fbbf24", marginTop: 2 }}>
+            Past the end of the hourly forecast — held at its last hour
+          </div>
+        )}
+        {calibration && (
+          <div style={{ fontSize: 11, color: calibration.quality === "good" ? "#4ade80" : calibration.quality === "fair" ? "#fbbf24" : "rgba(255,255,255,0.35)", marginTop: 4 }}>
+            {calibration.applied
+              ? `Fitted to ${calibration.nObs} loads at this terminal (was ±${calibration.baselineRmseF.toFixed(1)}°F)`
+              : `${calibration.nObs} loads recorded here — not yet better than the default model`}
+          </div>
+        )}
       </div>
       {isAccepted ? (
         <div style={{ fontSize: 12, fontWeight: 800, color: "#4ade80", display: "flex", alignItems: "center", gap: 5, flexShrink: 0 }}>
@@ -115,7 +177,61 @@ function PredictionBanner({
   );
 }
 
-function HowWePredictSection({ confidence }: { confidence: FuelTempConfidence | null }) {
+/** Load temp per planned product — the slider unless the product has its own. */
+function PlannedProductTemps({ planned, byProduct, productNameById, productTempF, setProductTempF }: {
+  planned: Array<{ productId: string; temp: PlannedTemp }>;
+  byProduct: Record<string, ProductFuelTemp>;
+  productNameById: Map<string, string>;
+  productTempF: Record<string, number>;
+  setProductTempF: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+}) {
+  const setOverride = (productId: string, raw: string) =>
+    setProductTempF((prev) => {
+      const next = { ...prev };
+      const v = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(v)) delete next[productId];
+      else next[productId] = v;
+      return next;
+    });
+
+  return (
+    <div style={{ display: "grid", gap: 8, padding: "10px 12px", borderRadius: 12, border: "1px solid rgba(255,255,255,0.10)", background: "rgba(255,255,255,0.03)" }}>
+      <div style={{ fontSize: 10, fontWeight: 800, color: "rgba(255,255,255,0.4)", letterSpacing: 0.6 }}>PLANNED BY PRODUCT</div>
+      {planned.map(({ productId, temp }) => {
+        const own = byProduct[productId];
+        const manual = productTempF[productId];
+        return (
+          <div key={productId} style={{ display: "grid", gridTemplateColumns: "1fr auto", gap: 8, alignItems: "center" }}>
+            <div style={{ minWidth: 0 }}>
+              <div style={{ fontSize: 13, fontWeight: 800 }}>
+                {productNameById.get(productId) ?? productId}{" "}
+                <span style={{ color: temp.source === "global" ? "rgba(255,255,255,0.55)" : "#67e8f9", fontVariantNumeric: "tabular-nums" }}>
+                  {temp.tempF.toFixed(1)}°F
+                </span>
+              </div>
+              <div style={{ fontSize: 11, color: "rgba(255,255,255,0.4)" }}>
+                {PLANNED_TEMP_SOURCE_LABEL[temp.source]}
+                {own?.tank ? ` · ${describeTank(own.tank) ?? "standard tank"} · likely ${own.lowF.toFixed(1)}–${own.highF.toFixed(1)}°F` : ""}
+              </div>
+            </div>
+            <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              <input type="number" inputMode="decimal" step={0.1} placeholder="auto"
+                value={manual != null ? String(manual) : ""}
+                onChange={(e) => setOverride(productId, e.target.value)}
+                style={{ width: 72, padding: "6px 8px", borderRadius: 8, border: "1px solid rgba(255,255,255,0.14)", background: "rgba(0,0,0,0.25)", color: "white", textAlign: "right" }} />
+              <span style={{ fontSize: 12, color: "rgba(255,255,255,0.45)" }}>°F</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function HowWePredictSection({ confidence, calibration }: {
+  confidence: FuelTempConfidence | null;
+  calibration: FuelTempCalibration | null;
+}) {
   const card = (emoji: string, title: string, body: React.ReactNode) => (
     <div style={{ padding: "10px 12px", borderRadius: 12, border: "1px solid rgba(255,255,255,0.08)", background: "rgba(255,255,255,0.03)" }}>
       <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.7)", marginBottom: 4 }}>
@@ -132,7 +248,7 @@ function HowWePredictSection({ confidence }: { confidence: FuelTempConfidence |
       </div>
 
       {card("🌤", "30 hours of weather history",
-        "We pull hourly temperature, wind speed, and cloud cover from OpenWeather for the past 24–30 hours at this terminal's location. This gives the model a full picture of how the environment has been heating or cooling the storage tank."
+        "We pull hourly temperature, wind speed, and cloud cover from the weather service for the past 24–30 hours at this terminal's location. This gives the model a full picture of how the environment has been heating or cooling the storage tank."
       )}
 
       {card("☀️", "Solar gain calculation",
@@ -147,6 +263,10 @@ function HowWePredictSection({ confidence }: { confidence: FuelTempConfidence |
         <>We model a large above-ground storage tank (~1 million gallons). Large tanks have enormous thermal mass — they heat and cool very slowly, lagging well behind ambient swings. This is <strong style={{ color: "rgba(255,255,255,0.65)" }}>intentional</strong>: we'd rather predict the product is colder and denser than it turns out to be, which keeps you safely under your weight limit.</>
       )}
 
+      {calibration?.applied && card("🎯", "Calibrated to this terminal",
+        <>Past loads here have been replayed against the weather that preceded them, and the tank&apos;s heating and cooling rates fitted to the temps drivers recorded. Across {calibration.nObs} loads the fitted model is off by about <strong style={{ color: "rgba(255,255,255,0.65)" }}>±{calibration.rmseF.toFixed(1)}°F</strong>, and replaces the large-tank default above.</>
+      )}
+
       {card("🌡", "Live ambient blending",
         <>The <strong style={{ color: "rgba(255,255,255,0.65)" }}>current ambient temp</strong> shown at the top is gently blended into the final result to account for the last few minutes of temperature change. This keeps the prediction current without overreacting to short-term spikes.</>
       )}
@@ -200,7 +320,16 @@ export default function ProductTempModal(props: {
   setTempF: React.Dispatch<React.SetStateAction<number>>;
   predictedFuelTempF?: number | null;
   fuelTempConfidence?: FuelTempConfidence | null;
+  fuelTempCalibration?: FuelTempCalibration | null;
+  fuelTempBand?: FuelTempBand | null;
+  fuelTempByProduct?: Record<string, ProductFuelTemp>;
+  productNameById?: Map<string, string>;
+  plannedProductTemps?: Array<{ productId: string; temp: PlannedTemp }>;
+  productTempF?: Record<string, number>;
+  setProductTempF?: React.Dispatch<React.SetStateAction<Record<string, number>>>;
   fuelTempLoading?: boolean;
+  plannedLoadTs: number | null;
+  setPlannedLoadTs: (ts: number | null) => void;
   TempDial: React.ComponentType<TempDialProps>;
 }) {
   const {
@@ -210,7 +339,15 @@ export default function ProductTempModal(props: {
     tempF, setTempF, TempDial,
     predictedFuelTempF = null,
     fuelTempConfidence = null,
+    fuelTempCalibration = null,
+    fuelTempBand = null,
+    fuelTempByProduct = {},
+    productNameById,
+    plannedProductTemps = [],
+    productTempF = {},
+    setProductTempF,
     fuelTempLoading = false,
+    plannedLoadTs, setPlannedLoadTs,
   } = props;
 
   // Auto-apply is fully handled by page.tsx.
@@ -231,11 +368,15 @@ export default function ProductTempModal(props: {
           </span>
         </div>
 
+        <LoadTimeRow plannedLoadTs={plannedLoadTs} setPlannedLoadTs={setPlannedLoadTs} smallBtn={styles.smallBtn} />
+
         <PredictionBanner
           loading={fuelTempLoading}
           error={null}
           predictedTempF={predictedFuelTempF}
           confidence={fuelTempConfidence}
+          calibration={fuelTempCalibration}
+          band={fuelTempBand}
           currentTempF={tempF}
           onAccept={(v) => setTempF(v)}
         />
@@ -263,7 +404,12 @@ export default function ProductTempModal(props: {
             onClick={() => setTempF((v) => Math.round((Number(v) + 0.5) * 10) / 10)}>+0.5</button>
         </div>
 
-        <HowWePredictSection confidence={fuelTempConfidence} />
+        {plannedProductTemps.length > 0 && productNameById && setProductTempF && (
+          <PlannedProductTemps planned={plannedProductTemps} byProduct={fuelTempByProduct} productNameById={productNameById}
+            productTempF={productTempF} setProductTempF={setProductTempF} />
+        )}
+
+        <HowWePredictSection confidence={fuelTempConfidence} calibration={fuelTempCalibration} />
 
       </div>
     </FullscreenModal>
@@ -0,0 +1,175 @@
+"use client";
+// modals/ScaleTicketModal.tsx
+// Owns: scale ticket entry, scale vs plan per axle, offload proposal when over.
+
+import React, { useState } from "react";
+import { FullscreenModal } from "@/lib/ui/FullscreenModal";
+import { scaleTicketCheck } from "../utils/scaleTicket";
+import type { AxleGroupWeight, OffloadComp, ScaleCheck, ScaleTicket } from "../types";
+
+type Styles = {
+  help: React.CSSProperties;
+  input: React.CSSProperties;
+  smallBtn: React.CSSProperties;
+  doneBtn: React.CSSProperties;
+  error: React.CSSProperties;
+};
+
+type Field = "grossLbs" | "steerLbs" | "driveLbs" | "trailerLbs";
+
+const FIELDS: Array<{ key: Field; label: string }> = [
+  { key: "grossLbs", label: "Gross" },
+  { key: "steerLbs", label: "Steer" },
+  { key: "driveLbs", label: "Drive" },
+  { key: "trailerLbs", label: "Trailer" },
+];
+
+function num(raw: string | undefined): number | null {
+  const t = String(raw ?? "").replace(/,/g, "").trim();
+  if (!t) return null;
+  const n = Number(t);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+const lbs = (n: number) => `${Math.round(n).toLocaleString()} lbs`;
+const signed = (n: number) => `${n >= 0 ? "+" : ""}${Math.round(n).toLocaleString()}`;
+
+/** Mount only while open — the draft starts from the last ticket saved for this load, if any. */
+export default function ScaleTicketModal(props: {
+  onClose: () => void;
+  styles: Styles;
+  plannedGrossLbs: number | null;
+  grossLimitLbs: number;                // legal gross — state / permit or bridge
+  comboTargetLbs?: number | null;       // the combo's own target; over it is a warning, not an offload
+  predicted: AxleGroupWeight[] | null;
+  comps: OffloadComp[];
+  productNameById: Map<string, string>;
+  initial: ScaleTicket | null;
+  busy?: boolean;
+  error?: string | null;
+  onSave: (ticket: ScaleTicket, check: ScaleCheck) => void;
+}) {
+  const { onClose, styles, plannedGrossLbs, grossLimitLbs, comboTargetLbs, predicted, comps, productNameById, initial, busy, error, onSave } = props;
+
+  const [draft, setDraft] = useState<Record<Field, string>>(() => ({
+    grossLbs: initial ? String(initial.grossLbs) : "",
+    steerLbs: initial?.steerLbs != null ? String(initial.steerLbs) : "",
+    driveLbs: initial?.driveLbs != null ? String(initial.driveLbs) : "",
+    trailerLbs: initial?.trailerLbs != null ? String(initial.trailerLbs) : "",
+  }));
+  const [location, setLocation] = useState(initial?.location ?? "");
+
+  const gross = num(draft.grossLbs);
+  const ticket: ScaleTicket | null = gross == null ? null : {
+    grossLbs: gross,
+    steerLbs: num(draft.steerLbs),
+    driveLbs: num(draft.driveLbs),
+    trailerLbs: num(draft.trailerLbs),
+    location,
+  };
+  const check = ticket ? scaleTicketCheck({ ticket, plannedGrossLbs, grossLimitLbs, predicted, comps }) : null;
+
+  // Axle groups that don't add up to the gross usually mean a typo (or a split weigh).
+  const axleSum = ticket && ticket.steerLbs != null && ticket.driveLbs != null && ticket.trailerLbs != null
+    ? ticket.steerLbs + ticket.driveLbs + ticket.trailerLbs : null;
+  const axleSumOff = ticket && axleSum != null && Math.abs(axleSum - ticket.grossLbs) > 100;
+
+  const overComboLbs = check && comboTargetLbs != null && comboTargetLbs < grossLimitLbs && check.overGrossLbs <= 0
+    ? check.grossLbs - comboTargetLbs : 0;
+
+  const footer = (
+    <div style={{ display: "flex", gap: 10 }}>
+      <button type="button" style={{ ...styles.smallBtn, flex: 1 }} onClick={onClose} disabled={busy}>Cancel</button>
+      <button type="button" style={{ ...styles.doneBtn, flex: 2 }} disabled={busy || !ticket || !check}
+        onClick={() => { if (ticket && check) onSave(ticket, check); }}>
+        {busy ? "Saving…" : "Save ticket"}
+      </button>
+    </div>
+  );
+
+  return (
+    <FullscreenModal open title="Scale Ticket" onClose={onClose} footer={footer}>
+      <div style={{ display: "grid", gap: 12 }}>
+        <div style={{ ...styles.help, marginTop: 0 }}>
+          Enter the certified weights as printed. Leave axle groups blank if the scale only gave a gross.
+        </div>
+
+        {error ? <div style={styles.error}>{error}</div> : null}
+
+        <input type="text" placeholder="Scale location" value={location}
+          onChange={(e) => setLocation(e.target.value)} style={styles.input} disabled={busy} />
+
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(110px, 1fr))", gap: 8 }}>
+          {FIELDS.map((f) => (
+            <label key={f.key} style={{ display: "grid", gap: 3, fontSize: 11, fontWeight: 700, color: "rgba(255,255,255,0.45)" }}>
+              {f.label}
+              <input type="text" inputMode="numeric" value={draft[f.key]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [f.key]: e.target.value }))}
+                style={{ ...styles.input, textAlign: "right" }} disabled={busy} />
+            </label>
+          ))}
+        </div>
+
+        {axleSumOff && axleSum != null && (
+          <div style={{ fontSize: 12, fontWeight: 700, color: "#fbbf24" }}>
+            Axle groups add up to {lbs(axleSum)}, not the gross
+          </div>
+        )}
+
+        {check && (
+          <div style={{ display: "grid", gap: 6, padding: "10px 12px", borderRadius: 12, border: "1px solid rgba(255,255,255,0.10)", background: "rgba(255,255,255,0.03)" }}>
+            <div style={{ display: "flex", justifyContent: "space-between", fontSize: 13, fontWeight: 800 }}>
+              <span>Gross {lbs(check.grossLbs)}</span>
+              <span style={{ color: check.overGrossLbs > 0 ? "#ef4444" : "#4ade80" }}>
+                {check.overGrossLbs > 0 ? `${signed(check.overGrossLbs)} over` : `${Math.round(-check.overGrossLbs).toLocaleString()} under`} {Math.round(check.grossLimitLbs).toLocaleString()}
+              </span>
+            </div>
+            {overComboLbs > 0 && (
+              <div style={{ fontSize: 12, fontWeight: 700, color: "#fbbf24" }}>
+                {signed(overComboLbs)} over the combo target {Math.round(comboTargetLbs ?? 0).toLocaleString()} — still legal
+              </div>
+            )}
+            {check.diffLbs != null && (
+              <div style={{ fontSize: 12, color: "rgba(255,255,255,0.55)" }}>
+                {signed(check.diffLbs)} lbs vs planned {lbs(check.plannedGrossLbs ?? 0)}
+              </div>
+            )}
+            {check.axles.map((a) => (
+              <div key={a.key} style={{ display: "grid", gridTemplateColumns: "64px 1fr auto", gap: 8, fontSize: 12, fontVariantNumeric: "tabular-nums" }}>
+                <span style={{ color: "rgba(255,255,255,0.55)", fontWeight: 800 }}>{a.label}</span>
+                <span style={{ color: "rgba(255,255,255,0.45)" }}>
+                  {a.scaleLbs != null ? Math.round(a.scaleLbs).toLocaleString() : "—"}
+                  {a.diffLbs != null ? ` (${signed(a.diffLbs)} vs plan)` : ""}
+                </span>
+                <span style={{ fontWeight: 800, color: a.overLbs == null ? "rgba(255,255,255,0.35)" : a.overLbs > 0 ? "#ef4444" : "#4ade80" }}>
+                  / {Math.round(a.limitLbs).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {check?.offload && (
+          <div style={{ display: "grid", gap: 6, padding: "10px 12px", borderRadius: 12, border: "1px solid rgba(239,68,68,0.35)", background: "rgba(239,68,68,0.06)" }}>
+            <div style={{ fontSize: 12, fontWeight: 900, letterSpacing: 0.4, color: "#ef4444" }}>OFFLOAD</div>
+            {check.offload.feasible ? (
+              <>
+                {check.offload.lines.map((l) => (
+                  <div key={l.compNumber} style={{ display: "flex", justifyContent: "space-between", fontSize: 14, fontWeight: 800 }}>
+                    <span>C{l.compNumber} · {productNameById.get(l.productId) ?? l.productId}</span>
+                    <span style={{ fontVariantNumeric: "tabular-nums" }}>{l.gallons.toLocaleString()} gal</span>
+                  </div>
+                ))}
+                <div style={{ fontSize: 12, color: "rgba(255,255,255,0.55)" }}>
+                  {check.offload.totalGallons.toLocaleString()} gal · about {lbs(check.offload.totalLbs)} off
+                </div>
+              </>
+            ) : (
+              <div style={{ fontSize: 13, fontWeight: 700, color: "#ef4444" }}>{check.offload.reason}</div>
+            )}
+          </div>
+        )}
+      </div>
+    </FullscreenModal>
+  );
+}
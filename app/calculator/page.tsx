@@ -12,7 +12,18 @@ import NavMenu from "@/lib/ui/NavMenu";
  *   hooks/usePlanSlots.ts   — plan snapshot save/load, Supabase sync
  *   hooks/useLoadWorkflow.ts — begin_load / complete_load RPCs
  *   hooks/usePlanRows.ts    — binary search for weight-constrained max gallons
- *   utils/planMath.ts       — lbsPerGallonAtTemp, planForGallons, allocateWithCaps
+ *   hooks/useAxleGeometry.ts — truck/trailer axle geometry for the selected combo
+ *   hooks/useCompartmentState.ts — per-compartment last product / residue for the trailer
+ *   utils/vcf.ts            — API MPMS 11.1 volume correction factors
+ *   utils/planMath.ts       — lbsPerGallonAtTemp, planForGallons, allocateWithCaps, optimizePlan
+ *   utils/axleMath.ts       — compartment stations, per-axle group weights
+ *   utils/bridgeFormula.ts  — Federal Bridge Formula gross ceiling
+ *   utils/stateWeightLimits.ts — per-state gross/axle profiles, seasonal + permit tiers
+ *   utils/orderPlan.ts      — ordered gallons per product → compartment assignment
+ *   utils/stopMath.ts       — gross / axle / CG after each delivery stop
+ *   utils/placarding.ts     — 172.504 placards for everything on board
+ *   utils/placardSheet.ts   — print-ready placard + orange panel set, all four sides
+ *   utils/compatibility.ts  — product vs. compartment residue, switch loading
  *   types.ts                — all shared types
  */
 
@@ -21,6 +32,8 @@ import NavMenu from "@/lib/ui/NavMenu";
 import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
 import { createPortal } from "react-dom";
 import { supabase } from "@/lib/supabase/client";
+import { downloadShippingPaperPdf, printShippingPaper } from "@/lib/supabase/shippingPaper";
+import { openPrintWindow, printHtml } from "@/lib/ui/print";
 
 // ── Hooks ──────────────────────────────────────────────────────────────────────
 import { useEquipment } from "./hooks/useEquipment";
@@ -32,10 +45,14 @@ import { usePlanRows } from "./hooks/usePlanRows";
 import { useTerminalFilters } from "./hooks/useTerminalFilters";
 import { useFuelTempPrediction } from "./hooks/useFuelTempPrediction";
 import { useLoadHistory } from "./hooks/useLoadHistory";
+import { useAxleGeometry } from "./hooks/useAxleGeometry";
+import { useCompartmentState } from "./hooks/useCompartmentState";
 
 // ── Sections ───────────────────────────────────────────────────────────────────
 import LocationBar from "./sections/LocationBar";
 import PlannerControls from "./sections/PlannerControls";
+import AxleWeights from "./sections/AxleWeights";
+import DeliveryStops from "./sections/DeliveryStops";
 
 // ── Modals ─────────────────────────────────────────────────────────────────────
 import EquipmentModal from "./modals/EquipmentModal";
@@ -43,9 +60,12 @@ import LocationModal from "./modals/LocationModal";
 import MyTerminalsModal from "./modals/MyTerminalsModal";
 import TerminalCatalogModal from "./modals/TerminalCatalogModal";
 import LoadingModal from "./modals/LoadingModal";
+import CompleteLoadModal from "./modals/CompleteLoadModal";
+import ScaleTicketModal from "./modals/ScaleTicketModal";
 import MyLoadsModal from "./modals/MyLoadsModal";
 import ProductTempModal from "./modals/ProductTempModal";
 import TempDialModal from "./modals/TempDialModal";
+import OrderModal from "./modals/OrderModal";
 
 // ── UI ─────────────────────────────────────────────────────────────────────────
 import { styles } from "./ui/styles";
@@ -53,23 +73,32 @@ import { styles } from "./ui/styles";
 // ── Utils ──────────────────────────────────────────────────────────────────────
 import { addDaysISO_, formatMDYWithCountdown_, isPastISO_ } from "./utils/dates";
 import { normCity, normState } from "./utils/normalize";
-import { cgSliderToBias, bestLbsPerGallon, planForGallons, CG_NEUTRAL } from "./utils/planMath";
-import { worstCasePlacard, svgToDataUri, generatePlacardSvg } from "./utils/placardUtils";
+import {
+  cgSliderToBias, bestApi60, bestLbsPerGallon, optimizePlan, planForGallons, thermalOutagePct, vcfForProduct,
+  CG_NEUTRAL, HEADSPACE_MAX_PCT, THERMAL_FALLBACK_RISE_F,
+} from "./utils/planMath";
+import { svgToDataUri, generatePlacardSvg, residueCompartments } from "./utils/placardUtils";
+import { vehiclePlacards } from "./utils/placarding";
+import { placardSheetHtml } from "./utils/placardSheet";
+import type { PlacardSheetSize } from "./utils/placardSheet";
+import type { PlacardMaterial } from "./utils/placarding";
+import { ergCard } from "@/lib/hazmat";
+import type { PackingGroup } from "@/lib/hazmat";
+import {
+  axleLoadFactors, axleOverWarnings, axleTareForCombo, compartmentStations, optimizerAxleGroups, planRowAxleLoads,
+  predictAxleWeights, DEFAULT_AXLE_LIMITS,
+} from "./utils/axleMath";
+import { evaluateBridge } from "./utils/bridgeFormula";
+import { effectiveGrossLimit, legalGrossLimit, resolveStateLimits, STATE_WEIGHT_PROFILES } from "./utils/stateWeightLimits";
+import { assignOrder, orderShortfall } from "./utils/orderPlan";
+import { lastTempIsFresh, resolvePlannedTemp } from "./utils/plannedTemps";
+import { compartmentCompatChecks, compatibility, productTraits } from "./utils/compatibility";
+import { stopWeightStates, undroppedComps } from "./utils/stopMath";
 
 // ── Types ──────────────────────────────────────────────────────────────────────
-import type { ActiveComp, CompPlanInput, CompRow, ProductRow, TerminalProductMetaRow } from "./types";
-
-// ── ERG 2024 + DOT proper shipping descriptions (49 CFR 172.101) ─────────────
-const ERG_DATA: Record<string, { guide: number; name: string; shipping: string; fire: string; health: string; isolation_small: string; isolation_large: string }> = {
-  "UN1203": { guide: 128, name: "Gasoline",              shipping: "Gasoline, 3, UN1203, PG II",                                 fire: "Highly flammable. Vapors may travel to ignition source and flash back.", health: "Vapors may cause dizziness or suffocation. Low toxicity.",        isolation_small: "60 m (200 ft) all directions",  isolation_large: "300 m (1000 ft) all directions" },
-  "UN1202": { guide: 128, name: "Diesel Fuel",           shipping: "Diesel fuel, 3, UN1202, PG III",                              fire: "Flammable liquid. Flash point 52–96°C (126–205°F).",                 health: "Low acute toxicity. Vapors may cause irritation.",               isolation_small: "60 m (200 ft) all directions",  isolation_large: "300 m (1000 ft) all directions" },
-  "UN1993": { guide: 128, name: "Flammable Liquid NOS",  shipping: "Flammable liquid, n.o.s., 3, UN1993, PG II",                  fire: "Highly flammable. Vapors heavier than air — may accumulate in low areas.", health: "Vapors may cause dizziness. Avoid prolonged skin contact.",  isolation_small: "60 m (200 ft) all directions",  isolation_large: "300 m (1000 ft) all directions" },
-  "NA1993": { guide: 128, name: "Combustible Liquid NOS",shipping: "Combustible liquid, n.o.s., Combustible liquid, NA1993, PG III",fire: "Combustible. May ignite if heated above flash point.",             health: "Low hazard at ambient temps. Vapors may cause irritation.",      isolation_small: "60 m (200 ft) all directions",  isolation_large: "300 m (1000 ft) all directions" },
-  "UN1863": { guide: 128, name: "Aviation Turbine Fuel", shipping: "Fuel, aviation, turbine engine, 3, UN1863, PG I/II/III",      fire: "Flammable. Vapors may travel to ignition source and flash back.",    health: "Vapors may cause CNS depression. Low acute oral toxicity.",      isolation_small: "60 m (200 ft) all directions",  isolation_large: "300 m (1000 ft) all directions" },
-  "UN1075": { guide: 115, name: "Petroleum Gases",       shipping: "Petroleum gases, liquefied, 2.1, UN1075",                     fire: "Extremely flammable gas. May form explosive mixtures with air.",     health: "Asphyxiant. High concentrations may cause rapid suffocation.",   isolation_small: "100 m (330 ft) all directions", isolation_large: "800 m (0.5 mi) all directions"  },
-  "UN1978": { guide: 115, name: "Propane",               shipping: "Propane, 2.1, UN1978",                                        fire: "Extremely flammable gas. May explode if container heated.",          health: "Simple asphyxiant. No significant toxicity.",                   isolation_small: "100 m (330 ft) all directions", isolation_large: "800 m (0.5 mi) all directions"  },
-};
-
+import type {
+  ActiveComp, CompatCheck, CompPlanInput, CompRow, DeliveryStop, OffloadComp, OptimizerProductVolume, OptimizerResult, OrderLine, PlannedTemp, ProductRow, RoadType, TerminalProductMetaRow,
+} from "./types";
 
 // ─── Local UI helpers ─────────────────────────────────────────────────────────
 
@@ -286,6 +315,7 @@ export default function CalculatorPage() {
   const [compError, setCompError] = useState<string | null>(null);
 
   const selectedTrailerId = equipment.selectedCombo?.trailer_id ?? null;
+  const compartmentState = useCompartmentState(selectedTrailerId);
 
   useEffect(() => {
     (async () => {
@@ -314,7 +344,7 @@ export default function CalculatorPage() {
     const { data, error } = await supabase
       .from("terminal_products")
       .select(`active, last_api, last_api_updated_at, last_temp_f, last_loaded_at,
-        products (product_id, product_name, display_name, description, product_code, button_code, hex_code, api_60, alpha_per_f, un_number)`)
+        products (product_id, product_name, display_name, description, product_code, button_code, hex_code, api_60, alpha_per_f, un_number, packing_group, vcf_commodity, product_family, dyed)`)
       .eq("terminal_id", location.selectedTerminalId);
     if (error) { setTerminalProducts([]); return; }
     const products = (data ?? []).filter((row: any) => row.active !== false)
@@ -347,14 +377,20 @@ export default function CalculatorPage() {
   const [compHeadspacePct, setCompHeadspacePct] = useState<Record<number, number>>({});
   const [productInputs, setProductInputs] = useState<Record<string, { api?: string; tempF?: number }>>({});
 
-  // Fuel temp prediction — drives temp button border color and pre-fills ProductTempModal
-  const { predictedFuelTempF, confidence: fuelTempConfidence, loading: fuelTempLoading } = useFuelTempPrediction({
+  // Fuel temp prediction — drives temp button border color and pre-fills ProductTempModal.
+  // plannedLoadTs (unix seconds) predicts for a later load time; null = now.
+  const [plannedLoadTs, setPlannedLoadTs] = useState<number | null>(null);
+  const {
+    predictedFuelTempF, forecastMaxFuelTempF, band: fuelTempBand, byProduct: fuelTempByProduct,
+    confidence: fuelTempConfidence, calibration: fuelTempCalibration, loading: fuelTempLoading,
+  } = useFuelTempPrediction({
     city: location.selectedCity || null,
     state: location.selectedState || null,
     lat: location.locationLat ?? null,
     lon: location.locationLon ?? null,
     ambientNowF: location.ambientTempF ?? null,
     terminalId: location.selectedTerminalId || null,
+    targetTs: plannedLoadTs,
   });
 
   // Auto-apply prediction to the slider when it first arrives.
@@ -375,22 +411,46 @@ export default function CalculatorPage() {
     prevTempFRef.current = tempF;
   }, [tempF]);
 
-  // Reset on city/state change
+  // Reset on city/state or planned load time change
   useEffect(() => {
     predAppliedForRef.current = "";
     userAdjustedTempRef.current = false;
     prevTempFRef.current = tempF;
-  }, [location.selectedCity, location.selectedState]);
+  }, [location.selectedCity, location.selectedState, plannedLoadTs]);
 
   // Apply prediction to slider when it arrives — skip if user already adjusted
   useEffect(() => {
     if (predictedFuelTempF == null) return;
-    const key = `${location.selectedCity}|${location.selectedState}`;
+    const key = `${location.selectedCity}|${location.selectedState}|${fuelTempBand?.targetTs ?? "now"}`;
     if (predAppliedForRef.current === key) return;
     if (userAdjustedTempRef.current) return;
     setTempF(predictedFuelTempF);
     predAppliedForRef.current = key;
-  }, [predictedFuelTempF, location.selectedCity, location.selectedState]);
+  }, [predictedFuelTempF, fuelTempBand?.targetTs, location.selectedCity, location.selectedState]);
+
+  // ── Planned temps ──────────────────────────────────────────────────────────
+  // Each compartment is planned at its own temp: comp override → product override
+  // → prediction for the product's own tank → last observed (no prediction only) → slider.
+  const [productTempF, setProductTempF] = useState<Record<string, number>>({});
+  const [tempsAsOfMs] = useState(() => Date.now()); // fixed at page load
+
+  const plannedTempFor = useCallback((productId: string, compNumber?: number): PlannedTemp => {
+    const own = fuelTempByProduct[productId];
+    const p = predictedFuelTempF == null ? terminalProducts.find((x) => x.product_id === productId) : null;
+    return resolvePlannedTemp({
+      compTempF: compNumber != null ? compPlan[compNumber]?.tempF : null,
+      productTempF: productTempF[productId],
+      predictedTempF: own?.tank ? own.predictedFuelTempF : null,
+      lastTempF: p?.last_temp_f != null && lastTempIsFresh(p.last_loaded_at, tempsAsOfMs) ? Number(p.last_temp_f) : null,
+      globalTempF: tempF,
+    });
+  }, [fuelTempByProduct, predictedFuelTempF, terminalProducts, compPlan, productTempF, tempsAsOfMs, tempF]);
+
+  // Product-level temps (no comp override) for every product in the plan, for the temp modal.
+  const plannedProductTemps = useMemo(() => {
+    const ids = [...new Set(Object.values(compPlan).filter((c) => !c.empty && c.productId).map((c) => c.productId))];
+    return ids.map((productId) => ({ productId, temp: plannedTempFor(productId) }));
+  }, [compPlan, plannedTempFor]);
 
   // Initialize compPlan entries when compartments change
   useEffect(() => {
@@ -414,17 +474,41 @@ export default function CalculatorPage() {
   const unstableLoad = cgSlider < CG_NEUTRAL;
 
   // ── Headspace helpers ──────────────────────────────────────────────────────
-  const headspacePctForComp = useCallback((compNumber: number) => {
-    const raw = Number(compHeadspacePct[compNumber] ?? 0);
-    return Number.isFinite(raw) ? Math.max(0, Math.min(0.3, raw)) : 0;
-  }, [compHeadspacePct]);
+  // Thermal outage from load temp → hottest forecast temp before delivery, per product alpha.
+  // compHeadspacePct holds manual overrides only; a missing entry means "auto".
+  const hotTempF = forecastMaxFuelTempF != null
+    ? Math.max(tempF, forecastMaxFuelTempF)
+    : tempF + THERMAL_FALLBACK_RISE_F;
+
+  // Same, for one compartment at its own planned temp (and its own tank's forecast).
+  const thermalRangeForComp = useCallback((compNumber: number): { loadF: number; hotF: number } | null => {
+    const sel = compPlan[compNumber];
+    if (!sel || sel.empty || !sel.productId) return null;
+    const loadF = plannedTempFor(sel.productId, compNumber).tempF;
+    const maxF = fuelTempByProduct[sel.productId]?.forecastMaxFuelTempF ?? forecastMaxFuelTempF;
+    return { loadF, hotF: maxF != null ? Math.max(loadF, maxF) : loadF + THERMAL_FALLBACK_RISE_F };
+  }, [compPlan, plannedTempFor, fuelTempByProduct, forecastMaxFuelTempF]);
+
+  const headspaceForComp = useCallback((compNumber: number): { pct: number; source: "manual" | "thermal" } => {
+    const manual = compHeadspacePct[compNumber];
+    if (manual != null && Number.isFinite(Number(manual))) {
+      return { pct: Math.max(0, Math.min(HEADSPACE_MAX_PCT, Number(manual))), source: "manual" };
+    }
+    const sel = compPlan[compNumber];
+    const p = sel && !sel.empty && sel.productId ? terminalProducts.find((x) => x.product_id === sel.productId) : null;
+    const range = thermalRangeForComp(compNumber);
+    if (!p || p.alpha_per_f == null || !range) return { pct: 0, source: "thermal" };
+    return { pct: thermalOutagePct(Number(p.alpha_per_f), range.loadF, range.hotF), source: "thermal" };
+  }, [compHeadspacePct, compPlan, terminalProducts, thermalRangeForComp]);
+
+  const headspacePctForComp = useCallback((compNumber: number) => headspaceForComp(compNumber).pct, [headspaceForComp]);
 
   const effectiveMaxGallonsForComp = useCallback((compNumber: number, trueMaxGallons: number) => {
     return Math.max(0, Math.floor(trueMaxGallons * (1 - headspacePctForComp(compNumber))));
   }, [headspacePctForComp]);
 
   // ── lbs/gal helper ────────────────────────────────────────────────────────
-  const lbsPerGalForProductId = useCallback((productId: string): number | null => {
+  const lbsPerGalForProductId = useCallback((productId: string, atTempF: number = tempF): number | null => {
     const p = terminalProducts.find((x) => x.product_id === productId);
     if (!p || p.api_60 == null || p.alpha_per_f == null) return null;
     // Use driver-observed API (last_api @ last_temp_f) when available — more accurate
@@ -432,12 +516,28 @@ export default function CalculatorPage() {
     return bestLbsPerGallon(
       Number(p.api_60),
       Number(p.alpha_per_f),
-      tempF,
+      atTempF,
       p.last_api     != null ? Number(p.last_api)     : null,
       p.last_temp_f  != null ? Number(p.last_temp_f)  : null,
+      p.vcf_commodity ?? null,
     );
   }, [terminalProducts, tempF]);
 
+  // Net ÷ gross at the load temp, from the same API_60 the lbs/gal uses.
+  const vcfForProductId = useCallback((productId: string, atTempF: number = tempF): number | null => {
+    const p = terminalProducts.find((x) => x.product_id === productId);
+    if (!p || p.api_60 == null || p.alpha_per_f == null) return null;
+    const alpha = Number(p.alpha_per_f);
+    const api60 = bestApi60(
+      Number(p.api_60),
+      alpha,
+      p.last_api     != null ? Number(p.last_api)     : null,
+      p.last_temp_f  != null ? Number(p.last_temp_f)  : null,
+      p.vcf_commodity ?? null,
+    );
+    return vcfForProduct(api60, alpha, atTempF, p.vcf_commodity ?? null);
+  }, [terminalProducts, tempF]);
+
   // ── Active compartments ────────────────────────────────────────────────────
   const activeComps = useMemo<ActiveComp[]>(() => {
     if (!selectedTrailerId || compartments.length === 0 || terminalProducts.length === 0) return [];
@@ -450,17 +550,63 @@ export default function CalculatorPage() {
       if (!Number.isFinite(compNumber) || maxGallons <= 0) continue;
       const sel = compPlan[compNumber];
       if (!sel || sel.empty || !sel.productId) continue;
-      const lbsPerGal = lbsPerGalForProductId(sel.productId);
+      const compTempF = plannedTempFor(sel.productId, compNumber).tempF;
+      const lbsPerGal = lbsPerGalForProductId(sel.productId, compTempF);
       if (lbsPerGal == null || !(lbsPerGal > 0)) continue;
-      out.push({ compNumber, maxGallons, position: Number.isFinite(position) ? position : 0, productId: sel.productId, lbsPerGal });
+      out.push({ compNumber, maxGallons, position: Number.isFinite(position) ? position : 0, productId: sel.productId, lbsPerGal, tempF: compTempF });
     }
     out.sort((a, b) => a.position - b.position);
     return out;
-  }, [selectedTrailerId, compartments, terminalProducts, compPlan, tempF]);
+  }, [selectedTrailerId, compartments, terminalProducts, compPlan, plannedTempFor, lbsPerGalForProductId, effectiveMaxGallonsForComp]);
+
+  // ── Axle geometry + bridge formula ─────────────────────────────────────────
+  const axleGeometry = useAxleGeometry(equipment.selectedCombo?.truck_id ?? null, selectedTrailerId);
+
+  // ── State weight profile ───────────────────────────────────────────────────
+  // Re-resolved whenever the state, road type or the driver's permit pick changes.
+  // Seasonal windows are day-granular: the date is the planned load time, else
+  // today — re-read at each midnight so an open page doesn't keep yesterday's.
+  const [todayMs, setTodayMs] = useState(() => Date.now());
+  useEffect(() => {
+    const midnight = new Date(todayMs);
+    midnight.setHours(24, 0, 0, 0);
+    const id = setTimeout(() => setTodayMs(Date.now()), midnight.getTime() - Date.now() + 1000);
+    return () => clearTimeout(id);
+  }, [todayMs]);
+  const limitDate = useMemo(
+    () => new Date(plannedLoadTs != null ? plannedLoadTs * 1000 : todayMs),
+    [plannedLoadTs, todayMs]
+  );
+  const [roadType, setRoadType] = useState<RoadType>("interstate");
+  const [permitByState, setPermitByState] = useState<Record<string, string>>({});
+  const selectedStateCode = normState(location.selectedState);
+
+  const stateLimits = useMemo(
+    () => resolveStateLimits(selectedStateCode, limitDate, permitByState[selectedStateCode] ?? null, roadType),
+    [selectedStateCode, limitDate, permitByState, roadType]
+  );
+  const statePermitTiers = roadType === "state" ? STATE_WEIGHT_PROFILES[selectedStateCode]?.permits ?? [] : [];
+
+  const axleLimits = useMemo(
+    () => ({ ...stateLimits.axle, steer: axleGeometry.steerLimitLbs ?? DEFAULT_AXLE_LIMITS.steer }),
+    [stateLimits.axle, axleGeometry.steerLimitLbs]
+  );
+
+  const bridge = useMemo(
+    () => (axleGeometry.geometry ? evaluateBridge(axleGeometry.geometry, axleLimits, stateLimits.grossLbs) : null),
+    [axleGeometry.geometry, axleLimits, stateLimits.grossLbs]
+  );
 
   // ── Weight limits ──────────────────────────────────────────────────────────
   // target_weight = the gross weight the driver is trying to hit (renamed from gross_limit_lbs)
-  const targetWeight = Number((equipment.selectedCombo as any)?.target_weight ?? 0);
+  // Capped by the state profile and the bridge formula — whichever is lowest wins and is shown on the tile.
+  const comboTargetWeight = Number(equipment.selectedCombo?.target_weight ?? 0);
+  const weightLimit = useMemo(
+    () => effectiveGrossLimit({ comboTargetLbs: comboTargetWeight, state: stateLimits, bridge }),
+    [comboTargetWeight, stateLimits, bridge]
+  );
+  const legalLimit = useMemo(() => legalGrossLimit({ state: stateLimits, bridge }), [stateLimits, bridge]);
+  const targetWeight = weightLimit.grossLbs;
   const tare = Number(equipment.selectedCombo?.tare_lbs ?? 0);
   const allowedLbs = Math.max(0, targetWeight - tare);  // payload = target - tare
 
@@ -469,9 +615,78 @@ export default function CalculatorPage() {
     [activeComps]
   );
 
-  // ── Plan rows (binary search) ──────────────────────────────────────────────
+  const axleTare = useMemo(() => {
+    const c = equipment.selectedCombo;
+    return axleTareForCombo(tare, c?.tare_steer_lbs, c?.tare_drive_lbs, c?.tare_trailer_lbs);
+  }, [equipment.selectedCombo, tare]);
+
+  // ── Order ──────────────────────────────────────────────────────────────────
+  // An order replaces per-compartment product picks: assignOrder writes compPlan once
+  // when the driver applies it, and the optimizer then caps each product at its ordered volume.
+  const [order, setOrder] = useState<{ lines: OrderLine[]; unassigned: OrderLine[] } | null>(null);
+  const [orderOpen, setOrderOpen] = useState(false);
+
+  const orderProducts = useMemo<OptimizerProductVolume[] | null>(() => {
+    if (!order) return null;
+    return order.lines.map((l) => {
+      const p = terminalProducts.find((x) => x.product_id === l.productId);
+      return { productId: l.productId, label: p?.button_code || p?.product_name || l.productId, minGallons: l.gallons, maxGallons: l.gallons };
+    });
+  }, [order, terminalProducts]);
+
+  // ── Plan rows (binary search, or constraint optimizer) ─────────────────────
+  const [planMode, setPlanMode] = useState<"cg" | "optimize">("cg");
   const plannedResult = usePlanRows({ selectedTrailerId, activeComps, allowedLbs, cgBias, capacityGallonsActive, planForGallons });
-  const planRows = plannedResult.planRows;
+
+  // With an order, the full ordered volumes are tried first; if they don't fit,
+  // the order's minimums are dropped so the plan still maxes out, and the strict
+  // run's explanation is kept for the status line.
+  const optimizer = useMemo<{ result: OptimizerResult; orderBlockedBy: string | null } | null>(() => {
+    if ((planMode !== "optimize" && !orderProducts) || activeComps.length === 0) return null;
+    const g = axleGeometry.geometry;
+    const stations = g ? compartmentStations(compartments, g.tankFrontIn, g.tankRearIn) : {};
+    const base = {
+      comps: activeComps.map((c) => ({
+        ...c,
+        axleFactors: g && stations[c.compNumber] != null ? axleLoadFactors(g, stations[c.compNumber]) : null,
+      })),
+      payloadLbsMax: allowedLbs,
+      bias: cgBias,
+      axleGroups: g ? optimizerAxleGroups(g, axleTare, axleLimits) : [],
+    };
+    if (!orderProducts) return { result: optimizePlan(base), orderBlockedBy: null };
+
+    const strict = optimizePlan({ ...base, products: orderProducts });
+    if (strict.feasible) return { result: strict, orderBlockedBy: null };
+    const relaxed = optimizePlan({ ...base, products: orderProducts.map((p) => ({ ...p, minGallons: 0 })) });
+    return { result: relaxed.feasible ? relaxed : strict, orderBlockedBy: strict.reason };
+  }, [planMode, orderProducts, activeComps, axleGeometry.geometry, compartments, allowedLbs, cgBias, axleTare, axleLimits]);
+  const optimizerResult = optimizer?.result ?? null;
+
+  const planRows = optimizerResult ? optimizerResult.rows : plannedResult.planRows;
+
+  const orderShort = useMemo(
+    () => (order ? orderShortfall(order.lines, planRows, order.unassigned) : []),
+    [order, planRows]
+  );
+
+  const applyOrder = (lines: OrderLine[]) => {
+    const residue: Record<number, string> = {};
+    for (const r of residueCompartments(compartmentState.residueLines, {})) {
+      if (r.product_id) residue[r.comp_number] = r.product_id;
+    }
+    const assignment = assignOrder(lines, compartments.map((c) => {
+      const n = Number(c.comp_number);
+      return {
+        compNumber: n,
+        maxGallons: effectiveMaxGallonsForComp(n, Number(c.max_gallons ?? 0)),
+        position: Number(c.position ?? 0),
+        residueProductId: residue[n] ?? null,
+      };
+    }));
+    setCompPlan(assignment.compPlan);
+    setOrder({ lines, unassigned: assignment.unassigned });
+  };
 
   const plannedGallonsByComp = useMemo<Record<number, number>>(() => {
     const m: Record<number, number> = {};
@@ -489,6 +704,55 @@ export default function CalculatorPage() {
 
   const plannedGallonsTotal = planRows.reduce((s, r) => s + r.planned_gallons, 0);
 
+  // Net (60°F) gallons — what the terminal bills. Null if any loaded product lacks a VCF.
+  const plannedNetGallonsTotal = useMemo(() => {
+    let net = 0;
+    for (const r of planRows) {
+      if (!(r.planned_gallons > 0)) continue;
+      const vcf = r.productId ? vcfForProductId(r.productId, r.tempF) : null;
+      if (vcf == null) return null;
+      net += r.planned_gallons * vcf;
+    }
+    return net;
+  }, [planRows, vcfForProductId]);
+
+  // ── Axle weights ───────────────────────────────────────────────────────────
+  const axleWeights = useMemo(() => {
+    const g = axleGeometry.geometry;
+    if (!g) return null;
+    const stations = compartmentStations(compartments, g.tankFrontIn, g.tankRearIn);
+    return predictAxleWeights(g, axleTare, planRowAxleLoads(planRows, stations), axleLimits);
+  }, [axleGeometry.geometry, axleLimits, axleTare, compartments, planRows]);
+
+  const axleWarnings = useMemo(() => axleOverWarnings(axleWeights), [axleWeights]);
+
+  // Where each loaded compartment's weight lands — what the post-scale offload works from.
+  const offloadComps = useMemo<OffloadComp[]>(() => {
+    const g = axleGeometry.geometry;
+    const stations = g ? compartmentStations(compartments, g.tankFrontIn, g.tankRearIn) : {};
+    return planRows
+      .filter((r) => r.productId && r.planned_gallons > 0 && Number(r.lbsPerGal ?? 0) > 0)
+      .map((r) => ({
+        compNumber: r.comp_number,
+        productId: String(r.productId),
+        gallons: r.planned_gallons,
+        lbsPerGal: Number(r.lbsPerGal),
+        axleFactors: g && stations[r.comp_number] != null ? axleLoadFactors(g, stations[r.comp_number]) : null,
+      }));
+  }, [axleGeometry.geometry, compartments, planRows]);
+
+  // ── Delivery stops ─────────────────────────────────────────────────────────
+  const [stops, setStops] = useState<DeliveryStop[]>([]);
+
+  const stopStates = useMemo(
+    () => stopWeightStates({
+      stops, planRows, compartments, tareLbs: tare, grossLimitLbs: targetWeight,
+      geometry: axleGeometry.geometry, axleTare, axleLimits,
+    }),
+    [stops, planRows, compartments, tare, targetWeight, axleGeometry.geometry, axleTare, axleLimits]
+  );
+  const stopsUndropped = useMemo(() => undroppedComps(stops, planRows), [stops, planRows]);
+
   // Ref for placard diamond portal positioning
   const placardAnchorRef = useRef<HTMLDivElement | null>(null);
 
@@ -496,7 +760,7 @@ export default function CalculatorPage() {
   // Must be declared BEFORE loadWorkflow so planSlots.refreshLastLoad is defined
   const planSlots = usePlanSlots({
     authUserId, selectedTerminalId: location.selectedTerminalId, selectedComboId: equipment.selectedComboId,
-    tempF, cgSlider, compPlan, setCgSlider, setCompPlan,
+    tempF, cgSlider, compPlan, productTempF, setCgSlider, setCompPlan, setProductTempF,
     compartmentsLoaded: compartments.length > 0,
   });
 
@@ -507,6 +771,26 @@ export default function CalculatorPage() {
     return m;
   }, [terminalProducts]);
 
+  // ── Switch loading ─────────────────────────────────────────────────────────
+  // Planned product vs. compartment residue; warned per comp, confirmed at begin_load.
+  const compatChecks = useMemo(
+    () => compartmentCompatChecks(compartmentState.residueLines, compPlan, terminalProducts),
+    [compartmentState.residueLines, compPlan, terminalProducts]
+  );
+  const compatByComp = useMemo(() => {
+    const m: Record<number, CompatCheck> = {};
+    for (const c of compatChecks) m[c.compNumber] = c;
+    return m;
+  }, [compatChecks]);
+
+  // What loading `productId` into `compNumber` would mean, for the product picker.
+  const compatFor = useCallback((compNumber: number, productId: string) => {
+    const residue = compartmentState.residueLines.find((r) => r.comp_number === compNumber);
+    const next = terminalProducts.find((p) => p.product_id === productId);
+    if (!residue || !next || residue.product_id === productId) return null;
+    return compatibility(productTraits(residue), productTraits(next));
+  }, [compartmentState.residueLines, terminalProducts]);
+
   const loadWorkflow = useLoadWorkflow({
     authUserId: authUserId ?? null,
     selectedComboId: equipment.selectedComboId,
@@ -517,11 +801,12 @@ export default function CalculatorPage() {
     tare, cgBias,
     ambientTempF: location.ambientTempF,
     tempF, planRows, plannedGallonsTotal, plannedWeightLbs,
-    terminalProducts, productNameById,
+    axleWarnings, compatChecks, residueLines: compartmentState.residueLines, weightLimit, stateLimits, stops, stopStates, headspaceForComp, hotTempF,
+    vcfForProductId, terminalProducts, productNameById,
     productInputs, setProductInputs,
     onRefreshTerminalProducts: fetchTerminalProducts,
     onRefreshTerminalAccess: terminals.refreshTerminalAccessForUser,
-    onPostLoadComplete: planSlots.refreshLastLoad,
+    onPostLoadComplete: async () => { await Promise.all([planSlots.refreshLastLoad(), compartmentState.refresh()]); },
   });
 
   // ── Terminal filters ───────────────────────────────────────────────────────
@@ -586,50 +871,70 @@ export default function CalculatorPage() {
   }, [terminalProductMetaRows]);
 
   // ── Placard data ──────────────────────────────────────────────────────────
-  const productUnNumberById = useMemo(() => {
-    const rec: Record<string, string | null> = {};
+  // The name and packing group pick the table row when a UN number has several
+  const productHazmatById = useMemo(() => {
+    const rec: Record<string, { unNumber: string | null; name: string | null; pg: PackingGroup | null }> = {};
     for (const p of terminalProducts) {
-      if (p.product_id) rec[p.product_id] = (p as any).un_number ?? null;
+      if (p.product_id) {
+        rec[p.product_id] = {
+          unNumber: p.un_number ?? null,
+          name: p.product_name ?? p.display_name ?? null,
+          pg: p.packing_group ?? null,
+        };
+      }
     }
     return rec;
   }, [terminalProducts]);
 
 
-  // Residue: for each empty compartment, track the last known product via DB lookup
-  const [residueByComp, setResidueByComp] = useState<Record<number, { product_id: string; un_number: string | null }>>({});
-
-  useEffect(() => {
-    if (!equipment.selectedComboId) { setResidueByComp({}); return; }
-    const emptyComps = Object.entries(compPlan)
-      .filter(([, v]) => v.empty || !v.productId)
-      .map(([k]) => Number(k));
-    if (emptyComps.length === 0) { setResidueByComp({}); return; }
-    planSlots.fetchLastProductPerComp(emptyComps).then(setResidueByComp);
-  }, [compPlan, equipment.selectedComboId]);
-
-  const { placardDef, placardIsResidue } = useMemo(() => {
-    const activeUns = new Set<string>();
-    const residueUns = new Set<string>();
-
-    // Current loaded compartments
-    for (const [, plan] of Object.entries(compPlan)) {
+  // Residue: empty compartments still holding their last product (trailer_compartment_state)
+  const residueByComp = useMemo(() => {
+    const out: Record<number, { product_id: string; product_name: string | null; un_number: string | null }> = {};
+    for (const r of compartmentState.residueLines) {
+      const plan = compPlan[r.comp_number];
+      if (plan && !plan.empty && plan.productId) continue;
+      if (r.product_id) out[r.comp_number] = { product_id: r.product_id, product_name: r.product_name ?? null, un_number: r.un_number };
+    }
+    return out;
+  }, [compPlan, compartmentState.residueLines]);
+
+  // Every material on board — planned compartments plus residue in the empty
+  // ones — through the 172.504 engine. The card shows its first placard.
+  const placarding = useMemo(() => {
+    const materials: PlacardMaterial[] = [];
+    const rowByComp = new Map(planRows.map((r) => [Number(r.comp_number), r]));
+    for (const [comp, plan] of Object.entries(compPlan)) {
       if (plan.empty || !plan.productId) continue;
-      const un = productUnNumberById[plan.productId];
-      if (un) activeUns.add(un.toUpperCase());
+      const hz = productHazmatById[plan.productId];
+      if (!hz?.unNumber) continue;
+      const row = rowByComp.get(Number(comp));
+      const lbsPerGal = row?.lbsPerGal ?? lbsPerGalForProductId(plan.productId) ?? 0;
+      materials.push({
+        unNumber: hz.unNumber, name: hz.name, pg: hz.pg,
+        lbs: Number(row?.planned_gallons ?? 0) * lbsPerGal, bulk: true, compNumber: Number(comp),
+      });
     }
-    // Empty compartments — residue from last known product
-    for (const [, residue] of Object.entries(residueByComp)) {
-      if (residue.un_number) residueUns.add(residue.un_number.toUpperCase());
+    for (const [comp, residue] of Object.entries(residueByComp)) {
+      if (!residue.un_number) continue;
+      materials.push({
+        unNumber: residue.un_number, name: residue.product_name, pg: productHazmatById[residue.product_id]?.pg ?? null,
+        lbs: 0, bulk: true, residue: true, compNumber: Number(comp),
+      });
     }
+    return materials.length > 0 ? vehiclePlacards(materials) : null;
+  }, [compPlan, planRows, productHazmatById, residueByComp, lbsPerGalForProductId]);
 
-    const allUns = Array.from(new Set([...activeUns, ...residueUns]));
-    if (allUns.length === 0) return { placardDef: null, placardIsResidue: false };
+  const placardDef = placarding?.placards[0] ?? null;
+  const unknownHazmatIds = placarding?.unknown ?? [];
 
-    const def = worstCasePlacard(allUns);
-    // Residue-driven: the worst-case placard UN comes from a residue comp, not active load
-    const isResidue = !!def && !activeUns.has(def.unNumber.toUpperCase()) && residueUns.has(def.unNumber.toUpperCase());
-    return { placardDef: def, placardIsResidue: isResidue };
-  }, [compPlan, productUnNumberById, residueByComp]);
+  // Every placard and orange panel on all four sides, as a print-ready set
+  const printPlacardSet = useCallback((size: PlacardSheetSize) => {
+    if (!placarding) return;
+    const win = openPrintWindow();
+    if (!win) { alert("Allow pop-ups to print the placard set."); return; }
+    printHtml(win, placardSheetHtml(placarding, { size, title: "Placards for this load" }));
+  }, [placarding]);
+  const placardIsResidue = placardDef?.residueOnly ?? false;
 
   const placardSvgUri = useMemo(() => {
     if (!placardDef) return null;
@@ -838,6 +1143,12 @@ export default function CalculatorPage() {
         compartments={compartments}
         compError={compError}
         headspacePctForComp={headspacePctForComp}
+        headspaceForComp={headspaceForComp}
+        compHeadspacePct={compHeadspacePct}
+        tempF={tempF}
+        hotTempF={hotTempF}
+        plannedTempFor={plannedTempFor}
+        thermalRangeForComp={thermalRangeForComp}
         effectiveMaxGallonsForComp={effectiveMaxGallonsForComp}
         plannedGallonsByComp={plannedGallonsByComp}
         compPlan={compPlan}
@@ -848,6 +1159,12 @@ export default function CalculatorPage() {
         setCompHeadspacePct={setCompHeadspacePct}
         compModalOpen={compModalOpen}
         compModalComp={compModalComp}
+        compartmentState={compartmentState.byComp}
+        onMarkCompCleaned={compartmentState.markCleaned}
+        compCleanBusy={compartmentState.busy}
+        compCleanError={compartmentState.error}
+        compatByComp={compatByComp}
+        compatFor={compatFor}
         snapshotSlots={SnapshotSlots}
       />
 
@@ -874,6 +1191,46 @@ export default function CalculatorPage() {
               </button>
             </div>
 
+            {/* Optimizer toggle — max gallons within weight / axle / volume limits */}
+            <div style={{ display: "flex", justifyContent: "center", alignItems: "center", gap: 10, marginTop: 6 }}>
+              <button type="button" onClick={() => setPlanMode((m) => (m === "optimize" ? "cg" : "optimize"))}
+                disabled={!equipment.selectedCombo}
+                style={{ ...styles.smallBtn, minWidth: 0, padding: "6px 12px", fontSize: 12, borderColor: planMode === "optimize" ? "#67e8f9" : undefined, color: planMode === "optimize" ? "#67e8f9" : undefined }}>
+                {planMode === "optimize" ? "Optimizer on" : "Optimize"}
+              </button>
+              <button type="button" onClick={() => setOrderOpen(true)}
+                disabled={!equipment.selectedCombo || compartments.length === 0}
+                style={{ ...styles.smallBtn, minWidth: 0, padding: "6px 12px", fontSize: 12, borderColor: order ? "#67e8f9" : undefined, color: order ? "#67e8f9" : undefined }}>
+                {order ? "Order on" : "Order"}
+              </button>
+              {optimizerResult && !order && (
+                <div style={{ fontSize: 12, fontWeight: 700, color: optimizerResult.feasible ? "rgba(255,255,255,0.55)" : "#ef4444" }}>
+                  {optimizerResult.feasible
+                    ? (optimizerResult.reason ? `Limited by ${optimizerResult.reason}` : "Optimized")
+                    : `No plan — ${optimizerResult.reason}`}
+                </div>
+              )}
+            </div>
+
+            {/* Order status — ordered volume that didn't make the plan, and why */}
+            {order && (
+              <div style={{ marginTop: 6, display: "grid", gap: 2, textAlign: "center", fontSize: 12, fontWeight: 700 }}>
+                {orderShort.length === 0 ? (
+                  <div style={{ color: "#4ade80" }}>Order fits — {Math.round(plannedGallonsTotal).toLocaleString()} gal planned</div>
+                ) : (
+                  orderShort.map((s) => (
+                    <div key={s.productId} style={{ color: s.cause === "capacity" ? "#ef4444" : "#fbbf24" }}>
+                      {productNameById.get(s.productId) ?? s.productId}: {Math.round(s.shortGallons).toLocaleString()} gal unassigned
+                      {s.cause === "capacity" ? " — no compartment room" : " — over weight"}
+                    </div>
+                  ))
+                )}
+                {optimizer?.orderBlockedBy && (
+                  <div style={{ color: "rgba(255,255,255,0.45)", fontWeight: 600 }}>{optimizer.orderBlockedBy}</div>
+                )}
+              </div>
+            )}
+
             {/* Temp Slider */}
             <div style={{ marginTop: 14 }}>
               <style jsx global>{`
@@ -941,7 +1298,16 @@ export default function CalculatorPage() {
                 setTempF={setTempF}
                 predictedFuelTempF={predictedFuelTempF}
                 fuelTempConfidence={fuelTempConfidence}
+                fuelTempCalibration={fuelTempCalibration}
+                fuelTempBand={fuelTempBand}
+                fuelTempByProduct={fuelTempByProduct}
+                productNameById={productNameById}
+                plannedProductTemps={plannedProductTemps}
+                productTempF={productTempF}
+                setProductTempF={setProductTempF}
                 fuelTempLoading={fuelTempLoading}
+                plannedLoadTs={plannedLoadTs}
+                setPlannedLoadTs={setPlannedLoadTs}
                 TempDial={TempDial}
               />
             </div>
@@ -949,11 +1315,30 @@ export default function CalculatorPage() {
         </>
       )}
 
+      {axleWeights && planRows.length > 0 && (
+        <AxleWeights
+          groups={axleWeights}
+          tareEstimated={!axleTare.measured}
+          bridge={bridge}
+        />
+      )}
+
+      {planRows.length > 0 && (
+        <DeliveryStops
+          stops={stops}
+          setStops={setStops}
+          planRows={planRows}
+          states={stopStates}
+          undropped={stopsUndropped}
+        />
+      )}
+
       {/* 2×2 action grid */}
       {(() => {
         const { loadReport } = loadWorkflow;
         const plannedGal = loadReport?.planned_total_gal ?? (planRows.length ? plannedGallonsTotal : null);
         const plannedGalText = plannedGal == null ? "—" : `${Math.round(plannedGal).toLocaleString()} gal`;
+        const netGal = loadReport ? loadReport.actual_net_gal ?? loadReport.planned_net_gal : planRows.length ? plannedNetGallonsTotal : null;
         const targetText = loadReport?.planned_gross_lbs == null ? "—" : `${Math.round(loadReport.planned_gross_lbs).toLocaleString()} lbs`;
         const actualText = loadReport?.actual_gross_lbs == null ? "—" : `${Math.round(loadReport.actual_gross_lbs).toLocaleString()} lbs`;
         const diff = loadReport?.diff_lbs ?? null;
@@ -1016,16 +1401,53 @@ export default function CalculatorPage() {
               {/* Planned / Target / Actual */}
               <div style={{ ...cardBase, gap: 10 }}>
                 {row("Planned", plannedGalText, bigNum)}
+                {netGal != null && (
+                  <div style={{ marginTop: -8, textAlign: "right", color: "rgba(255,255,255,0.40)", fontWeight: 700, fontSize: "clamp(9px, 2.2vw, 11px)", fontVariantNumeric: "tabular-nums" }}>
+                    {Math.round(netGal).toLocaleString()} net gal @ 60°F
+                  </div>
+                )}
                 <div style={{ display: "grid", gap: 8 }}>
                   {row("Target", targetText)}
-                  {row("Actual", actualText)}
+                  {row(loadReport?.scale_gross_lbs != null ? "Scale" : "Actual", actualText)}
+                </div>
+                {loadReport && loadWorkflow.activeLoadId && (
+                  <button type="button" onClick={() => loadWorkflow.setScaleOpen(true)}
+                    style={{ background: "transparent", border: "1px solid rgba(255,255,255,0.12)", borderRadius: 8, padding: "3px 8px", cursor: "pointer", fontSize: "clamp(9px, 2.2vw, 11px)", fontWeight: 800, textAlign: "left",
+                      color: loadWorkflow.scaleCheck?.offload ? "#ef4444" : loadReport.scale_gross_lbs != null ? "#4ade80" : "#67e8f9" }}>
+                    {loadReport.scale_gross_lbs == null ? "⚖ Enter scale ticket"
+                      : loadWorkflow.scaleCheck?.offload ? `⚖ Over — offload ${loadWorkflow.scaleCheck.offload.totalGallons.toLocaleString()} gal`
+                      : `⚖ Scaled${loadReport.scale_location ? ` · ${loadReport.scale_location}` : ""}`}
+                  </button>
+                )}
+                {/* Effective gross limit + where it came from */}
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 6, minWidth: 0 }}>
+                  <div style={{ color: weightLimit.source === "combo" || weightLimit.source === "state" ? "rgba(255,255,255,0.40)" : "#fbbf24", fontWeight: 700, fontSize: "clamp(9px, 2.2vw, 11px)", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" as const }}
+                    title={stateLimits.sourceLabel}>
+                    Limit {Math.round(weightLimit.grossLbs).toLocaleString()} · {weightLimit.sourceLabel}
+                  </div>
+                  {STATE_WEIGHT_PROFILES[selectedStateCode] && (
+                    <select value={roadType} onChange={(e) => setRoadType(e.target.value as RoadType)}
+                      title="State axle values apply on state roads only; the interstate is held to federal limits"
+                      style={{ background: "transparent", color: "rgba(255,255,255,0.55)", border: "1px solid rgba(255,255,255,0.12)", borderRadius: 8, fontSize: 10, padding: "2px 4px", flexShrink: 0 }}>
+                      <option value="interstate">Interstate</option>
+                      <option value="state">State roads</option>
+                    </select>
+                  )}
+                  {statePermitTiers.length > 0 && (
+                    <select value={permitByState[selectedStateCode] ?? ""}
+                      onChange={(e) => setPermitByState((prev) => ({ ...prev, [selectedStateCode]: e.target.value }))}
+                      style={{ background: "transparent", color: "rgba(255,255,255,0.55)", border: "1px solid rgba(255,255,255,0.12)", borderRadius: 8, fontSize: 10, padding: "2px 4px", flexShrink: 0 }}>
+                      <option value="">No permit</option>
+                      {statePermitTiers.map((t) => <option key={t.id} value={t.id}>{t.label}</option>)}
+                    </select>
+                  )}
                 </div>
               </div>
 
               {/* Placard card — ref used by PlacardDiamond portal for positioning */}
               <div ref={placardAnchorRef} onClick={() => setErgModalOpen(true)} style={{ cursor: "pointer", ...cardBase, flexDirection: "row", alignItems: "center", gap: 10, overflow: "hidden" }}>
                 {placardDef ? (() => {
-                  const erg = ERG_DATA[placardDef.unNumber.toUpperCase()] ?? null;
+                  const erg = ergCard(placardDef.unNumber);
                   return (
                   <div style={{ display: "flex", flexDirection: "column", justifyContent: "center", gap: 3, minWidth: 0 }}>
                     <div style={{ color: placardIsResidue ? "#ffb400" : "rgba(255,255,255,0.92)", fontWeight: 1000, fontSize: "clamp(14px, 4vw, 26px)", lineHeight: 1.1, letterSpacing: placardIsResidue ? 1.5 : 1, whiteSpace: "nowrap" as const }}>
@@ -1049,9 +1471,19 @@ export default function CalculatorPage() {
                         49 CFR §172.504 ↗
                       </a>
                     </div>
+                    {unknownHazmatIds.length > 0 && (
+                      <div style={{ color: "#ffb400", fontSize: "clamp(8px, 2vw, 10px)", fontWeight: 700, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" as const }}>
+                        ⚠ Placard by hand: {unknownHazmatIds.join(", ")}
+                      </div>
+                    )}
                   </div>
                   );
-                })() : (
+                })() : unknownHazmatIds.length > 0 ? (
+                  // Not in our table doesn't mean unregulated — never say "no placard"
+                  <div style={{ color: "#ffb400", fontWeight: 700, fontSize: 12, lineHeight: 1.3 }}>
+                    ⚠ {unknownHazmatIds.join(", ")} not in the Hazardous Materials Table — placard by hand
+                  </div>
+                ) : (
                   <div style={{ color: "rgba(255,255,255,0.20)", fontWeight: 700, fontSize: 13, letterSpacing: 0.4 }}>
                     {location.selectedTerminalId ? "No placard required" : "Placard"}
                   </div>
@@ -1083,7 +1515,7 @@ export default function CalculatorPage() {
 
       {/* ERG Emergency Info Modal */}
       {ergModalOpen && placardDef && (() => {
-        const erg = ERG_DATA[placardDef.unNumber.toUpperCase()] ?? null;
+        const erg = ergCard(placardDef.unNumber);
         return createPortal(
           <div onClick={() => setErgModalOpen(false)} style={{ position: "fixed", inset: 0, zIndex: 10000, background: "rgba(0,0,0,0.8)", display: "flex", alignItems: "center", justifyContent: "center", padding: 16 }}>
             <div onClick={e => e.stopPropagation()} style={{ background: "#1a1a1a", borderRadius: 20, width: "100%", maxWidth: 460, border: "1px solid rgba(255,255,255,0.1)", overflow: "hidden" }}>
@@ -1116,12 +1548,12 @@ export default function CalculatorPage() {
                     <div style={{ fontSize: 10, fontWeight: 900, color: "rgba(255,255,255,0.45)", textTransform: "uppercase", letterSpacing: 1, marginBottom: 8 }}>📍 Initial Isolation</div>
                     <div style={{ display: "flex", gap: 8 }}>
                       <div style={{ flex: 1, background: "rgba(255,255,255,0.05)", borderRadius: 8, padding: "8px 10px" }}>
-                        <div style={{ fontSize: 10, color: "rgba(255,255,255,0.4)", marginBottom: 3 }}>SMALL SPILL</div>
-                        <div style={{ fontSize: 13, fontWeight: 700, color: "#fff" }}>{erg.isolation_small}</div>
+                        <div style={{ fontSize: 10, color: "rgba(255,255,255,0.4)", marginBottom: 3 }}>IMMEDIATE</div>
+                        <div style={{ fontSize: 13, fontWeight: 700, color: "#fff" }}>{erg.isolation}</div>
                       </div>
                       <div style={{ flex: 1, background: "rgba(255,255,255,0.05)", borderRadius: 8, padding: "8px 10px" }}>
                         <div style={{ fontSize: 10, color: "rgba(255,255,255,0.4)", marginBottom: 3 }}>LARGE SPILL</div>
-                        <div style={{ fontSize: 13, fontWeight: 700, color: "#fff" }}>{erg.isolation_large}</div>
+                        <div style={{ fontSize: 13, fontWeight: 700, color: "#fff" }}>{erg.largeSpill}</div>
                       </div>
                     </div>
                   </div>
@@ -1138,6 +1570,19 @@ export default function CalculatorPage() {
                     <div style={{ fontSize: 13, fontWeight: 700, color: "rgba(255,255,255,0.8)" }}>{erg ? `Guide #${erg.guide} ↗` : "ERG 2024 ↗"}</div>
                   </a>
                 </div>
+
+                {/* Placard set — every placard and orange panel, all four sides */}
+                <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                  <div style={{ flex: 1, fontSize: 10, fontWeight: 900, color: "rgba(255,255,255,0.45)", textTransform: "uppercase", letterSpacing: 1 }}>
+                    Print placard set
+                  </div>
+                  {([["letter", "Letter"], ["actual", "Actual 10.75\""]] as const).map(([size, label]) => (
+                    <button key={size} onClick={() => printPlacardSet(size)}
+                      style={{ background: "rgba(255,255,255,0.06)", border: "1px solid rgba(255,255,255,0.12)", borderRadius: 8, padding: "7px 10px", color: "rgba(255,255,255,0.8)", fontSize: 12, fontWeight: 800, cursor: "pointer", whiteSpace: "nowrap" }}>
+                      {label}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
           </div>,
@@ -1169,6 +1614,18 @@ export default function CalculatorPage() {
         combos={equipment.combos ?? []}
       />
 
+      {orderOpen && (
+        <OrderModal
+          onClose={() => setOrderOpen(false)}
+          styles={styles}
+          products={terminalProducts}
+          order={order?.lines ?? null}
+          capacityGallons={compartments.reduce((s, c) => s + effectiveMaxGallonsForComp(Number(c.comp_number), Number(c.max_gallons ?? 0)), 0)}
+          onApply={applyOrder}
+          onClear={() => setOrder(null)}
+        />
+      )}
+
       <LoadingModal
         open={loadWorkflow.loadingOpen} onClose={() => loadWorkflow.setLoadingOpen(false)}
         styles={styles}
@@ -1182,10 +1639,48 @@ export default function CalculatorPage() {
         setProductApi={(productId, api) => setProductInputs((prev) => ({ ...prev, [productId]: { ...(prev[productId] ?? {}), api } }))}
         onOpenTempDial={(productId) => { setTempDial2ProductId(productId); setTempDial2Open(true); }}
         onLoaded={loadWorkflow.onLoadedFromLoadingModal}
+        onPrintShippingPaper={loadWorkflow.activeLoadId ? () => {
+          printShippingPaper(loadWorkflow.activeLoadId!)
+            .catch((e) => alert((e as { message?: string })?.message ?? "Could not build the shipping paper."));
+        } : undefined}
+        onDownloadShippingPaper={loadWorkflow.activeLoadId ? () => {
+          downloadShippingPaperPdf(loadWorkflow.activeLoadId!)
+            .catch((e) => alert((e as { message?: string })?.message ?? "Could not build the shipping paper."));
+        } : undefined}
         loadedDisabled={loadWorkflow.completeBusy}
         loadedLabel={loadWorkflow.completeBusy ? "Saving…" : "LOADED"}
       />
 
+      {loadWorkflow.scaleOpen && (
+        <ScaleTicketModal
+          onClose={() => loadWorkflow.setScaleOpen(false)}
+          styles={styles}
+          plannedGrossLbs={loadWorkflow.loadReport?.planned_gross_lbs ?? null}
+          grossLimitLbs={legalLimit.grossLbs}
+          comboTargetLbs={comboTargetWeight > 0 ? comboTargetWeight : null}
+          predicted={axleWeights}
+          comps={offloadComps}
+          productNameById={productNameById}
+          initial={loadWorkflow.scaleTicket}
+          busy={loadWorkflow.scaleBusy}
+          error={loadWorkflow.scaleError}
+          onSave={loadWorkflow.recordScaleTicketToSupabase}
+        />
+      )}
+
+      {loadWorkflow.completeOpen && loadWorkflow.activeLoadId && (
+        <CompleteLoadModal
+          onClose={() => { loadWorkflow.setCompleteOpen(false); loadWorkflow.setLoadingOpen(true); }}
+          styles={styles}
+          loadId={loadWorkflow.activeLoadId}
+          plan={loadWorkflow.bolPlan}
+          estimate={loadWorkflow.actualByComp}
+          busy={loadWorkflow.completeBusy}
+          error={loadWorkflow.completeError}
+          onSubmit={loadWorkflow.completeLoadWithBol}
+        />
+      )}
+
       <TempDialModal
         open={tempDial2Open} onClose={() => setTempDial2Open(false)} title="Temp"
         value={tempDial2ProductId ? Number(productInputs[tempDial2ProductId]?.tempF ?? 60) : 60}
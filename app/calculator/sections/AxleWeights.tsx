@@ -0,0 +1,55 @@
+"use client";
+// sections/AxleWeights.tsx
+// Owns: steer / drive / trailer predicted weight bars vs. legal limit, bridge formula ceiling.
+
+import React from "react";
+import { bridgeGroupingLabel } from "../utils/bridgeFormula";
+import type { AxleGroupWeight, BridgeResult } from "../types";
+
+function groupColor(g: AxleGroupWeight): string {
+  if (g.overLbs > 0) return "#ef4444";
+  if (g.overLbs > -500) return "#fbbf24";
+  return "#4ade80";
+}
+
+export default function AxleWeights(props: {
+  groups: AxleGroupWeight[];
+  tareEstimated: boolean;
+  bridge: BridgeResult | null;
+}) {
+  const { groups, tareEstimated, bridge } = props;
+
+  return (
+    <div style={{ marginTop: 14, borderRadius: 16, border: "1px solid rgba(255,255,255,0.10)", background: "rgba(255,255,255,0.03)", padding: "10px 14px", display: "grid", gap: 8 }}>
+      {groups.map((g) => {
+        const pct = g.limitLbs > 0 ? Math.max(0, Math.min(1, g.lbs / g.limitLbs)) : 0;
+        const color = groupColor(g);
+        return (
+          <div key={g.key} style={{ display: "grid", gridTemplateColumns: "64px 1fr auto", alignItems: "center", gap: 10 }}>
+            <div style={{ color: "rgba(255,255,255,0.55)", fontWeight: 900, fontSize: 12, letterSpacing: 0.4 }}>
+              {g.label}{g.axleCount > 1 ? ` ×${g.axleCount}` : ""}
+            </div>
+            <div style={{ height: 8, borderRadius: 999, background: "rgba(255,255,255,0.08)", overflow: "hidden" }}>
+              <div style={{ width: `${pct * 100}%`, height: "100%", background: color, transition: "width 200ms ease" }} />
+            </div>
+            <div style={{ color, fontWeight: 800, fontSize: 12, whiteSpace: "nowrap", fontVariantNumeric: "tabular-nums" }}>
+              {Math.round(g.lbs).toLocaleString()}
+              <span style={{ color: "rgba(255,255,255,0.35)", fontWeight: 600 }}> / {Math.round(g.limitLbs).toLocaleString()}</span>
+            </div>
+          </div>
+        );
+      })}
+      {bridge && (
+        <div style={{ fontSize: 11, fontWeight: 700, color: "rgba(255,255,255,0.45)" }}>
+          Bridge max {Math.round(bridge.grossCeilingLbs).toLocaleString()} lbs
+          {bridge.binding ? ` · ${bridgeGroupingLabel(bridge.binding)}` : " · gross cap"}
+        </div>
+      )}
+      {tareEstimated && (
+        <div style={{ fontSize: 10, color: "rgba(255,255,255,0.30)", letterSpacing: 0.3 }}>
+          Axle tare estimated — weigh empty combo per axle for exact numbers
+        </div>
+      )}
+    </div>
+  );
+}
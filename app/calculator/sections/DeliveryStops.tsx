@@ -0,0 +1,131 @@
+"use client";
+// sections/DeliveryStops.tsx
+// Owns: delivery stop list, compartment → stop assignment, weights after each drop.
+
+import React from "react";
+import type { DeliveryStop, PlanRow, StopWeightState } from "../types";
+
+const chipBase: React.CSSProperties = {
+  minWidth: 34, padding: "4px 8px", borderRadius: 8, fontSize: 12, fontWeight: 800,
+  border: "1px solid rgba(255,255,255,0.14)", background: "transparent", cursor: "pointer",
+};
+
+const iconBtn: React.CSSProperties = {
+  background: "none", border: "none", padding: "2px 6px", cursor: "pointer",
+  color: "rgba(255,255,255,0.45)", fontSize: 13, fontWeight: 800,
+};
+
+function StateLine({ s }: { s: StopWeightState }) {
+  const parts = [
+    `${Math.round(s.grossLbs).toLocaleString()} lbs gross`,
+    `${Math.round(s.remainingGallons).toLocaleString()} gal aboard`,
+  ];
+  if (s.axles) parts.push(s.axles.map((g) => `${g.label} ${(g.lbs / 1000).toFixed(1)}k`).join(" · "));
+  if (s.cgPct != null) parts.push(`CG ${Math.round(s.cgPct * 100)}%`);
+
+  return (
+    <div style={{ display: "grid", gap: 2 }}>
+      <div style={{ fontSize: 11, fontWeight: 700, color: "rgba(255,255,255,0.45)", fontVariantNumeric: "tabular-nums" }}>
+        {parts.join("  ·  ")}
+      </div>
+      {s.warnings.map((w) => (
+        <div key={w} style={{ fontSize: 11, fontWeight: 800, color: "#ef4444" }}>⚠️ {w}</div>
+      ))}
+    </div>
+  );
+}
+
+export default function DeliveryStops(props: {
+  stops: DeliveryStop[];
+  setStops: React.Dispatch<React.SetStateAction<DeliveryStop[]>>;
+  planRows: PlanRow[];
+  states: StopWeightState[];
+  undropped: number[];
+}) {
+  const { stops, setStops, planRows, states, undropped } = props;
+
+  const loadedComps = planRows
+    .filter((r) => Number(r.planned_gallons ?? 0) > 0)
+    .map((r) => Number(r.comp_number))
+    .sort((a, b) => a - b);
+
+  const addStop = () =>
+    setStops((prev) => [...prev, { id: `s${Date.now().toString(36)}`, label: "", compNumbers: [] }]);
+
+  const updateStop = (id: string, patch: Partial<DeliveryStop>) =>
+    setStops((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+
+  const moveStop = (i: number, dir: -1 | 1) =>
+    setStops((prev) => {
+      const j = i + dir;
+      if (j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+
+  // A compartment drops at one stop only — picking it here takes it off any other stop.
+  const toggleComp = (id: string, comp: number) =>
+    setStops((prev) => prev.map((s) => {
+      if (s.id === id) {
+        const has = s.compNumbers.includes(comp);
+        return { ...s, compNumbers: has ? s.compNumbers.filter((c) => c !== comp) : [...s.compNumbers, comp] };
+      }
+      return s.compNumbers.includes(comp) ? { ...s, compNumbers: s.compNumbers.filter((c) => c !== comp) } : s;
+    }));
+
+  return (
+    <div style={{ marginTop: 14, borderRadius: 16, border: "1px solid rgba(255,255,255,0.10)", background: "rgba(255,255,255,0.03)", padding: "10px 14px", display: "grid", gap: 10 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div style={{ color: "rgba(255,255,255,0.55)", fontWeight: 900, fontSize: 12, letterSpacing: 0.4 }}>DELIVERY STOPS</div>
+        <button type="button" onClick={addStop} style={{ ...chipBase, color: "#67e8f9", borderColor: "rgba(103,232,249,0.35)" }}>+ Stop</button>
+      </div>
+
+      {stops.length > 0 && states[0] && <StateLine s={states[0]} />}
+
+      {stops.map((stop, i) => {
+        const after = states[i + 1];
+        return (
+          <div key={stop.id} style={{ display: "grid", gap: 6, paddingTop: 8, borderTop: "1px solid rgba(255,255,255,0.06)" }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <div style={{ fontSize: 12, fontWeight: 900, color: "rgba(255,255,255,0.35)", width: 18 }}>{i + 1}</div>
+              <input
+                value={stop.label}
+                placeholder={`Stop ${i + 1}`}
+                onChange={(e) => updateStop(stop.id, { label: e.target.value })}
+                style={{ flex: 1, minWidth: 0, background: "transparent", border: "1px solid rgba(255,255,255,0.12)", borderRadius: 8, color: "white", padding: "5px 8px", fontSize: 13 }}
+              />
+              <button type="button" style={iconBtn} onClick={() => moveStop(i, -1)} disabled={i === 0} aria-label="Move up">▲</button>
+              <button type="button" style={iconBtn} onClick={() => moveStop(i, 1)} disabled={i === stops.length - 1} aria-label="Move down">▼</button>
+              <button type="button" style={iconBtn} onClick={() => setStops((prev) => prev.filter((s) => s.id !== stop.id))} aria-label="Remove stop">✕</button>
+            </div>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 6, paddingLeft: 26 }}>
+              {loadedComps.map((comp) => {
+                const here = stop.compNumbers.includes(comp);
+                const elsewhere = !here && stops.some((s) => s.compNumbers.includes(comp));
+                return (
+                  <button key={comp} type="button" onClick={() => toggleComp(stop.id, comp)}
+                    style={{
+                      ...chipBase,
+                      color: here ? "#0b0b0b" : elsewhere ? "rgba(255,255,255,0.25)" : "rgba(255,255,255,0.75)",
+                      background: here ? "#67e8f9" : "transparent",
+                      borderColor: here ? "#67e8f9" : "rgba(255,255,255,0.14)",
+                    }}>
+                    {comp}
+                  </button>
+                );
+              })}
+            </div>
+            {after && <div style={{ paddingLeft: 26 }}><StateLine s={after} /></div>}
+          </div>
+        );
+      })}
+
+      {stops.length > 0 && undropped.length > 0 && (
+        <div style={{ fontSize: 11, fontWeight: 700, color: "#fbbf24" }}>
+          Comp {undropped.join(", ")} not dropped at any stop
+        </div>
+      )}
+    </div>
+  );
+}
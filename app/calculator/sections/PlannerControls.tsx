@@ -2,12 +2,24 @@
 
 import React from "react";
 import { FullscreenModal } from "@/lib/ui/FullscreenModal";
+import { PLANNED_TEMP_SOURCE_LABEL } from "../utils/plannedTemps";
+import { hasResidue } from "../hooks/useCompartmentState";
+import { COMPAT_LEVEL_LABEL } from "../utils/compatibility";
+import type { CompartmentState } from "../hooks/useCompartmentState";
+import type { CompatCheck, CompatLevel, CompPlanInput, PlannedTempSource } from "../types";
 
 /**
  * PlannerControls
  * - Receives state + setters from parent (page.tsx)
  * - Keeps this file build-safe (Turbopack friendly)
  */
+const COMPAT_COLOR: Record<CompatLevel, string> = {
+  ok: "#4ade80",
+  drain: "#fbbf24",
+  switch_load: "#ffb020",
+  forbidden: "#ef4444",
+};
+
 export default function PlannerControls(props: any) {
   const {
     styles,
@@ -20,6 +32,12 @@ export default function PlannerControls(props: any) {
 
     // computed helpers + plan state
     headspacePctForComp,
+    headspaceForComp,        // (comp) => { pct, source: "manual" | "thermal" }
+    compHeadspacePct,        // manual overrides only
+    tempF,
+    hotTempF,
+    plannedTempFor,          // (productId, comp?) => { tempF, source }
+    thermalRangeForComp,     // (comp) => { loadF, hotF } | null
     effectiveMaxGallonsForComp,
     plannedGallonsByComp,
     compPlan,
@@ -29,11 +47,20 @@ export default function PlannerControls(props: any) {
     setCompModalComp,
     setCompModalOpen,
     setCompPlan,
+    setCompHeadspacePct,
 
     // modal state
     compModalOpen,
     compModalComp,
 
+    // residue (trailer_compartment_state) + clean/purge
+    compartmentState,        // Record<comp, CompartmentState>
+    onMarkCompCleaned,       // (comps, "cleaned" | "purged") => Promise<void>
+    compCleanBusy,
+    compCleanError,
+    compatByComp,            // Record<comp, CompatCheck> — planned product vs. residue
+    compatFor,               // (comp, productId) => { level, reasons } | null
+
     // plan slots UI (built in page.tsx)
     snapshotSlots,
   } = props;
@@ -106,6 +133,17 @@ export default function PlannerControls(props: any) {
             {compNumber}
           </div>
 
+          {(() => {
+            const cc: CompatCheck | undefined = compatByComp?.[compNumber];
+            if (!cc || cc.level === "ok") return null;
+            return (
+              <div title={cc.reasons.join("\n")}
+                style={{ fontSize: 10, fontWeight: 900, letterSpacing: 0.3, color: COMPAT_COLOR[cc.level as CompatLevel], marginTop: -4, marginBottom: 6, whiteSpace: "nowrap" }}>
+                {COMPAT_LEVEL_LABEL[cc.level as CompatLevel].toUpperCase()}
+              </div>
+            );
+          })()}
+
           {/* Tank */}
           <div
             style={{
@@ -175,6 +213,138 @@ export default function PlannerControls(props: any) {
           Select product for <strong>Comp {compNumber}</strong>
         </div>
 
+        {/* Headspace — thermal by default, manual % overrides */}
+        {(() => {
+          const hs = headspaceForComp?.(compNumber) ?? { pct: 0, source: "thermal" };
+          const manual = compHeadspacePct?.[compNumber];
+          const setManual = (raw: string) => {
+            setCompHeadspacePct?.((prev: Record<number, number>) => {
+              const next = { ...prev };
+              const v = Number(raw);
+              if (raw.trim() === "" || !Number.isFinite(v)) delete next[compNumber];
+              else next[compNumber] = Math.max(0, Math.min(30, v)) / 100;
+              return next;
+            });
+          };
+          return (
+            <div style={{ display: "flex", alignItems: "center", gap: 10, padding: 14, borderRadius: 16, border: "1px solid rgba(255,255,255,0.14)", background: "rgba(255,255,255,0.04)" }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 800 }}>Headspace {(hs.pct * 100).toFixed(1)}%</div>
+                <div style={{ opacity: 0.7, fontSize: 13 }}>
+                  {hs.source === "manual"
+                    ? "Manual override"
+                    : (() => {
+                        const r = thermalRangeForComp?.(compNumber);
+                        const loadF = r ? r.loadF : tempF;
+                        const hotF = r ? r.hotF : hotTempF;
+                        return `Thermal · ${Math.round(Number(loadF))}°F load → ${Math.round(Number(hotF))}°F max`;
+                      })()}
+                </div>
+              </div>
+              <input
+                type="number" inputMode="decimal" min={0} max={30} step={0.1} placeholder="auto"
+                value={manual != null ? String(Math.round(manual * 1000) / 10) : ""}
+                onChange={(e) => setManual(e.target.value)}
+                style={{ width: 76, padding: "8px 10px", borderRadius: 10, border: "1px solid rgba(255,255,255,0.14)", background: "rgba(0,0,0,0.25)", color: "white", textAlign: "right" }}
+              />
+              <span style={{ opacity: 0.6 }}>%</span>
+              {manual != null && (
+                <button type="button" onClick={() => setManual("")}
+                  style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid rgba(255,255,255,0.14)", background: "transparent", color: "#67e8f9", cursor: "pointer", fontWeight: 800, fontSize: 12 }}>
+                  Auto
+                </button>
+              )}
+            </div>
+          );
+        })()}
+
+        {/* Planned temp — the product's unless overridden for this comp */}
+        {!isEmpty && plannedTempFor && (() => {
+          const t = plannedTempFor(sel.productId, compNumber);
+          const own = sel?.tempF;
+          const setOwn = (raw: string) => {
+            const v = Number(raw);
+            setCompPlan?.((prev: Record<number, CompPlanInput>) => ({
+              ...prev,
+              [compNumber]: { ...prev[compNumber], tempF: raw.trim() === "" || !Number.isFinite(v) ? null : v },
+            }));
+          };
+          return (
+            <div style={{ display: "flex", alignItems: "center", gap: 10, padding: 14, borderRadius: 16, border: "1px solid rgba(255,255,255,0.14)", background: "rgba(255,255,255,0.04)" }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 800 }}>Load temp {Number(t.tempF).toFixed(1)}°F</div>
+                <div style={{ opacity: 0.7, fontSize: 13 }}>{PLANNED_TEMP_SOURCE_LABEL[t.source as PlannedTempSource]}</div>
+              </div>
+              <input
+                type="number" inputMode="decimal" step={0.1} placeholder="auto"
+                value={own != null ? String(own) : ""}
+                onChange={(e) => setOwn(e.target.value)}
+                style={{ width: 76, padding: "8px 10px", borderRadius: 10, border: "1px solid rgba(255,255,255,0.14)", background: "rgba(0,0,0,0.25)", color: "white", textAlign: "right" }}
+              />
+              <span style={{ opacity: 0.6 }}>°F</span>
+              {own != null && (
+                <button type="button" onClick={() => setOwn("")}
+                  style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid rgba(255,255,255,0.14)", background: "transparent", color: "#67e8f9", cursor: "pointer", fontWeight: 800, fontSize: 12 }}>
+                  Auto
+                </button>
+              )}
+            </div>
+          );
+        })()}
+
+        {/* Residue — last product until cleaned or purged */}
+        {(() => {
+          const st: CompartmentState | undefined = compartmentState?.[compNumber];
+          if (!st) return null;
+          const residue = hasResidue(st);
+          const when = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString() : "");
+          const btn: React.CSSProperties = { padding: "8px 10px", borderRadius: 10, border: "1px solid rgba(255,255,255,0.14)", background: "transparent", color: "#67e8f9", cursor: "pointer", fontWeight: 800, fontSize: 12 };
+          return (
+            <div style={{ display: "flex", alignItems: "center", gap: 10, padding: 14, borderRadius: 16, border: `1px solid ${residue ? "rgba(251,191,36,0.35)" : "rgba(255,255,255,0.14)"}`, background: "rgba(255,255,255,0.04)" }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 800, color: residue ? "#fbbf24" : undefined }}>
+                  {residue
+                    ? `Residue: ${st.product_name ?? "last product"}${st.un_number ? ` · ${st.un_number}` : ""}`
+                    : st.clean_method === "purged" ? "Purged" : "Clean"}
+                </div>
+                <div style={{ opacity: 0.7, fontSize: 13 }}>
+                  {residue
+                    ? `Loaded ${when(st.loaded_at)}`
+                    : `${st.clean_method === "purged" ? "Purged" : "Cleaned"} ${when(st.cleaned_at)}`}
+                </div>
+                {compCleanError ? <div style={{ color: "#ef4444", fontSize: 12, marginTop: 4 }}>{compCleanError}</div> : null}
+              </div>
+              {residue && (
+                <>
+                  <button type="button" style={btn} disabled={compCleanBusy}
+                    onClick={() => onMarkCompCleaned?.([compNumber], "cleaned")}>
+                    Cleaned
+                  </button>
+                  <button type="button" style={btn} disabled={compCleanBusy}
+                    onClick={() => onMarkCompCleaned?.([compNumber], "purged")}>
+                    Purged
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })()}
+
+        {/* Switch loading — planned product vs. residue */}
+        {(() => {
+          const cc: CompatCheck | undefined = compatByComp?.[compNumber];
+          if (!cc || cc.level === "ok") return null;
+          const color = COMPAT_COLOR[cc.level as CompatLevel];
+          return (
+            <div style={{ display: "grid", gap: 4, padding: 14, borderRadius: 16, border: `1px solid ${color}`, background: "rgba(255,255,255,0.04)" }}>
+              <div style={{ fontWeight: 900, color }}>{COMPAT_LEVEL_LABEL[cc.level as CompatLevel]}</div>
+              {cc.reasons.map((r, i) => (
+                <div key={i} style={{ fontSize: 13, opacity: 0.85 }}>{r}</div>
+              ))}
+            </div>
+          );
+        })()}
+
         {/* MT / Empty */}
         <button
           style={{
@@ -205,6 +375,7 @@ export default function PlannerControls(props: any) {
             const name = (p.product_name ?? p.display_name ?? p.product_code ?? "Product").toString();
             const sub = (p.description ?? "").toString();
             const btnCode = ((p.button_code ?? p.product_code ?? "PRD").toString().trim() || "PRD").toUpperCase();
+            const compat = compatFor?.(compNumber, p.product_id) ?? null;
 
             return (
               <button
@@ -252,6 +423,11 @@ export default function PlannerControls(props: any) {
                       {name}
                     </div>
                     <div style={{ opacity: 0.7, fontSize: 13, lineHeight: 1.25 }}>{sub || "\u00A0"}</div>
+                    {compat && compat.level !== "ok" && (
+                      <div style={{ fontSize: 12, fontWeight: 800, color: COMPAT_COLOR[compat.level as CompatLevel] }}>
+                        {COMPAT_LEVEL_LABEL[compat.level as CompatLevel]} · {compat.reasons[0]}
+                      </div>
+                    )}
                   </div>
                 </div>
               </button>
@@ -1,9 +1,12 @@
 // types.ts — shared types for the calculator feature
 // Extracted from page.tsx. Import from here, not from page.tsx.
 
+import type { PackingGroup } from "@/lib/hazmat";
+
 export type CompPlanInput = {
   empty: boolean;
   productId: string; // "" means none selected
+  tempF?: number | null; // planned load temp for this comp only; unset = the product's
 };
 
 export type PlanRow = {
@@ -13,6 +16,7 @@ export type PlanRow = {
   productId?: string;
   lbsPerGal?: number;
   position?: number;
+  tempF?: number;     // planned load temp lbsPerGal was computed at
 };
 
 export type PlanCalcRow = PlanRow & { lbsPerGal: number; position: number };
@@ -28,6 +32,10 @@ export type ComboRow = {
   claimed_by?: string | null;
   claimed_at?: string | null;
   active: boolean | null;
+  // Scale-measured empty weight per axle group (sum ≈ tare_lbs). Null = not weighed yet.
+  tare_steer_lbs?: number | null;
+  tare_drive_lbs?: number | null;
+  tare_trailer_lbs?: number | null;
 };
 
 export type TerminalRow = {
@@ -86,8 +94,15 @@ export type ProductRow = {
   last_temp_f?: number | null;   // observed temp when last_api was recorded
   last_loaded_at?: string | null;
   un_number?: string | null;     // DOT UN number e.g. "UN1203" for placard logic
+  packing_group?: PackingGroup | null;  // picks the table row when the UN number has several; null = from the name
+  vcf_commodity?: VcfCommodity | null;  // API MPMS 11.1 commodity group; null = legacy alpha approximation
+  product_family?: ProductFamily | null; // switch-loading rules; null = inferred from name / UN number
+  dyed?: boolean | null;                 // red-dyed off-road / heating; null = inferred from name
 };
 
+/** API MPMS 11.1 commodity group — picks the thermal expansion constants. */
+export type VcfCommodity = "crude" | "refined" | "lube";
+
 export type TerminalProductMetaRow = {
   terminal_id: string;
   product_id: string;
@@ -103,6 +118,7 @@ export type ActiveComp = {
   position: number;
   productId: string;
   lbsPerGal: number;
+  tempF: number;
 };
 
 export type PlanSnapshot = {
@@ -112,6 +128,17 @@ export type PlanSnapshot = {
   tempF: number;
   cgSlider: number;
   compPlan: Record<number, CompPlanInput>;
+  productTempF?: Record<string, number>;  // per-product planned temp overrides
+};
+
+// ─── Planned temps ────────────────────────────────────────────────────────────
+
+/** Where a compartment's planned temp came from — see resolvePlannedTemp. */
+export type PlannedTempSource = "comp" | "product" | "predicted" | "last" | "global";
+
+export type PlannedTemp = {
+  tempF: number;
+  source: PlannedTempSource;
 };
 
 export type LoadReport = {
@@ -119,4 +146,431 @@ export type LoadReport = {
   planned_gross_lbs: number | null;
   actual_gross_lbs: number | null;
   diff_lbs: number | null;
+  planned_net_gal: number | null;   // 60°F — what the terminal bills
+  actual_net_gal: number | null;
+  scale_gross_lbs: number | null;   // set once a scale ticket is entered; diff_lbs then compares to it
+  scale_location: string | null;
+};
+
+// ─── Axle weights ─────────────────────────────────────────────────────────────
+
+/**
+ * Combo geometry in inches.
+ * Truck datum = steer axle centerline; trailer datum = kingpin. +x = rearward.
+ */
+export type AxleGeometry = {
+  driveAxleIn: number;       // steer axle → drive group centre
+  fifthWheelIn: number;      // steer axle → fifth wheel / kingpin
+  driveAxleCount: number;
+  driveSpreadIn: number;     // first → last drive axle
+  trailerAxleIn: number;     // kingpin → trailer group centre
+  trailerAxleCount: number;
+  trailerSpreadIn: number;   // first → last trailer axle
+  tankFrontIn: number;       // kingpin → front head of barrel
+  tankRearIn: number;        // kingpin → rear head of barrel
+};
+
+export type TruckAxleRow = {
+  drive_axle_in: number | null;
+  fifth_wheel_in: number | null;
+  drive_axle_count: number | null;
+  drive_spread_in: number | null;
+  steer_limit_lbs: number | null;
+};
+
+export type TrailerAxleRow = {
+  trailer_axle_in: number | null;
+  trailer_axle_count: number | null;
+  trailer_spread_in: number | null;
+  tank_front_in: number | null;
+  tank_rear_in: number | null;
+};
+
+export type AxleTare = {
+  steer: number;
+  drive: number;
+  trailer: number;
+  measured: boolean;         // false = split estimated from tare_lbs
+};
+
+export type AxleLimits = {
+  steer: number;
+  single: number;
+  tandem: number;
+  tridem: number;
+};
+
+export type AxleGroupKey = "steer" | "drive" | "trailer";
+
+export type AxleGroupWeight = {
+  key: AxleGroupKey;
+  label: string;
+  axleCount: number;
+  lbs: number;
+  limitLbs: number;
+  overLbs: number;           // lbs - limitLbs (> 0 = over)
+};
+
+// ─── Bridge formula ───────────────────────────────────────────────────────────
+
+export type BridgeGrouping = {
+  firstAxle: number;         // 1-based, front → rear
+  lastAxle: number;
+  axleCount: number;
+  lengthFt: number;
+  formulaLbs: number;        // W for the axles in the grouping
+  grossCeilingLbs: number;   // W + legal max on every axle outside the grouping
+};
+
+export type BridgeResult = {
+  groupings: BridgeGrouping[];
+  grossCeilingLbs: number;
+  binding: BridgeGrouping | null;  // null = the federal gross cap is tighter than any grouping
+};
+
+// ─── State weight limits ──────────────────────────────────────────────────────
+
+export type StateAxleLimits = Omit<AxleLimits, "steer">;
+
+export type SeasonalWeightRule = {
+  kind: "winter" | "frost";
+  label: string;             // e.g. "Winter load increase"
+  start: string;             // "MM-DD", inclusive; may wrap past Dec 31
+  end: string;               // "MM-DD", inclusive; "02-29" ends February in any year
+  factor: number;            // multiplier on the base limits (1.10 = +10%, 0.75 = frost law)
+  axlesOnly?: boolean;       // frost laws restrict axle loads, not the gross cap
+};
+
+export type PermitWeightTier = {
+  id: string;
+  label: string;
+  grossLbs: number;
+  axle?: Partial<StateAxleLimits>;
+};
+
+export type StateWeightProfile = {
+  stateCode: string;
+  grossLbs: number;
+  axle: StateAxleLimits;
+  seasonal?: SeasonalWeightRule[];
+  permits?: PermitWeightTier[];
+  note?: string;
+};
+
+export type WeightLimitSource = "federal" | "state" | "seasonal" | "permit" | "bridge" | "combo";
+
+/** Interstate travel is held to the federal numbers; state profiles apply off it. */
+export type RoadType = "interstate" | "state";
+
+export type ResolvedStateLimits = {
+  stateCode: string | null;  // null = no state selected, federal defaults
+  road: RoadType;
+  grossLbs: number;
+  axle: StateAxleLimits;
+  seasonal: SeasonalWeightRule | null;
+  permit: PermitWeightTier | null;
+  source: Extract<WeightLimitSource, "federal" | "state" | "seasonal" | "permit">;
+  sourceLabel: string;
+};
+
+export type EffectiveWeightLimit = {
+  grossLbs: number;
+  source: WeightLimitSource;
+  sourceLabel: string;
+};
+
+// ─── Plan optimizer ───────────────────────────────────────────────────────────
+
+/** Share of one payload lb that lands on each axle group. Sums to 1. */
+export type AxleLoadFactors = Record<AxleGroupKey, number>;
+
+export type OptimizerComp = {
+  compNumber: number;
+  maxGallons: number;
+  minGallons?: number;         // 0 when omitted
+  position: number;            // same sign convention as ActiveComp (+ = front)
+  productId: string;
+  lbsPerGal: number;
+  tempF?: number;
+  axleFactors?: AxleLoadFactors | null;  // null = no geometry, axle groups ignored for this comp
+};
+
+/** Ordered volume for one product across every compartment assigned to it. */
+export type OptimizerProductVolume = {
+  productId: string;
+  label?: string;
+  minGallons: number;
+  maxGallons?: number | null;  // null = deliver as much as fits
+};
+
+export type OptimizerAxleGroup = {
+  key: AxleGroupKey;
+  label: string;
+  tareLbs: number;
+  limitLbs: number;
+};
+
+export type OptimizerInput = {
+  comps: OptimizerComp[];
+  payloadLbsMax: number;       // target gross - tare
+  bias?: number;               // CG bias — shapes the spread among equally good plans
+  products?: OptimizerProductVolume[];
+  axleGroups?: OptimizerAxleGroup[];
+};
+
+export type OptimizerConstraintKind =
+  | "payload" | "axle" | "comp_max" | "comp_min" | "product_min" | "product_max" | "unassigned";
+
+export type OptimizerConstraint = {
+  kind: OptimizerConstraintKind;
+  key: string;                 // "payload", "axle:drive", "comp:3", "product:<id>"
+  label: string;               // e.g. "Drive axles", "Comp 3", "Diesel"
+  overBy?: number;             // infeasible only — lbs (payload/axle) or gallons (volumes) short
+  message: string;
+};
+
+export type OptimizerResult = {
+  feasible: boolean;
+  rows: Array<PlanCalcRow & { productId: string }>;
+  totalGallons: number;
+  totalLbs: number;
+  binding: OptimizerConstraint[];  // feasible: what stopped more gallons; infeasible: what can't be met
+  reason: string | null;           // first binding message, for a one-line status
+};
+
+// ─── Order-driven planning ────────────────────────────────────────────────────
+
+export type OrderLine = {
+  productId: string;
+  gallons: number;
+};
+
+export type OrderComp = {
+  compNumber: number;
+  maxGallons: number;          // effective (after headspace)
+  position: number;            // DB position — 0 = front, + = rearward
+  residueProductId: string | null;
+};
+
+export type OrderCompAssignment = {
+  compNumber: number;
+  productId: string;
+  gallons: number;
+  residueMatch: boolean;       // comp last held this same product
+};
+
+export type OrderAssignment = {
+  compPlan: Record<number, CompPlanInput>;
+  assignments: OrderCompAssignment[];
+  unassigned: OrderLine[];     // volume no compartment had room for
+};
+
+export type OrderShortfall = {
+  productId: string;
+  orderedGallons: number;
+  plannedGallons: number;
+  shortGallons: number;
+  cause: "capacity" | "weight";
+};
+
+// ─── Delivery stops ───────────────────────────────────────────────────────────
+
+export type DeliveryStop = {
+  id: string;
+  label: string;               // station / customer name
+  compNumbers: number[];       // compartments dropped at this stop
+};
+
+/** Weights on the road after a given drop. stopIndex -1 = leaving the rack. */
+export type StopWeightState = {
+  stopIndex: number;
+  label: string;
+  droppedComps: number[];
+  remainingGallons: number;
+  payloadLbs: number;
+  grossLbs: number;
+  axles: AxleGroupWeight[] | null;   // null = no axle geometry for this combo
+  cgPct: number | null;              // remaining payload centroid, 0 = front head, 1 = rear head
+  warnings: string[];
+};
+
+// ─── Bill of Lading reconciliation ────────────────────────────────────────────
+
+/** BOL values for one product. Null = not on the BOL / not entered. API is at 60°F. */
+export type BolProduct = {
+  grossGallons: number | null;
+  netGallons: number | null;
+  api60: number | null;
+  tempF: number | null;
+};
+
+/** Per-compartment gallons, when the BOL or meter ticket breaks them out. */
+export type BolLine = {
+  grossGallons: number | null;
+  netGallons: number | null;
+};
+
+export type BolEntry = {
+  bolNumber: string;
+  products: Record<string, BolProduct>;   // keyed by product_id
+  lines: Record<number, BolLine>;         // keyed by comp_number
+};
+
+/** What the plan expected for one product — the side the BOL is reconciled against. */
+export type BolPlanProduct = {
+  productId: string;
+  label: string;
+  plannedGallons: number;
+  plannedNetGallons: number | null;
+  plannedApi60: number | null;
+  plannedTempF: number | null;
+  alphaPerF: number | null;
+  commodity: VcfCommodity | null;
+  comps: Array<{ compNumber: number; plannedGallons: number }>;
+};
+
+/** Driver's own reading for a compartment — used wherever the BOL is silent. */
+export type BolEstimateLine = {
+  actual_gallons: number | null;
+  actual_lbs: number | null;
+  temp_f: number | null;
+  net_gallons: number | null;
+  vcf: number | null;
+};
+
+export type BolDiscrepancy = {
+  productId: string;
+  compNumber: number | null;   // null = product-level
+  field: "gross_gallons" | "net_gallons" | "api" | "temp_f";
+  expected: number;
+  bol: number;
+  tolerance: number;
+  severity: "warn" | "error";  // error = the BOL doesn't agree with itself
+  message: string;
+};
+
+export type BolActualLine = {
+  compNumber: number;
+  productId: string;
+  grossGallons: number;
+  netGallons: number | null;
+  vcf: number | null;
+  lbs: number | null;
+  tempF: number | null;
+  api60: number | null;
+  fromBol: boolean;
+};
+
+// ─── Scale ticket ─────────────────────────────────────────────────────────────
+
+/** Certified scale weights. Axle groups are null when the scale only printed gross. */
+export type ScaleTicket = {
+  grossLbs: number;
+  steerLbs: number | null;
+  driveLbs: number | null;
+  trailerLbs: number | null;
+  location: string;
+};
+
+export type ScaleAxleDetail = {
+  key: AxleGroupKey;
+  label: string;
+  scaleLbs: number | null;
+  predictedLbs: number | null;
+  limitLbs: number;
+  diffLbs: number | null;      // scale - predicted
+  overLbs: number | null;      // scale - limit (> 0 = over)
+};
+
+/** A compartment that can give product back, and where its weight sits. */
+export type OffloadComp = {
+  compNumber: number;
+  productId: string;
+  gallons: number;             // aboard now
+  lbsPerGal: number;
+  axleFactors: AxleLoadFactors | null;
+};
+
+export type OffloadInput = {
+  comps: OffloadComp[];
+  overGrossLbs: number;        // <= 0 = no gross reduction needed
+  axleGroups: Array<{ key: AxleGroupKey; label: string; overLbs: number }>;  // negative = headroom
+};
+
+export type OffloadLine = {
+  compNumber: number;
+  productId: string;
+  gallons: number;
+  lbs: number;
+};
+
+export type OffloadProposal = {
+  feasible: boolean;
+  lines: OffloadLine[];
+  totalGallons: number;
+  totalLbs: number;
+  reason: string | null;       // infeasible only
+};
+
+export type ScaleCheck = {
+  grossLbs: number;
+  plannedGrossLbs: number | null;
+  diffLbs: number | null;      // scale - planned gross
+  grossLimitLbs: number;
+  overGrossLbs: number;        // scale - limit (> 0 = over)
+  axles: ScaleAxleDetail[];
+  offload: OffloadProposal | null;  // null = legal as weighed
+};
+
+// ─── Tare calibration ─────────────────────────────────────────────────────────
+
+/** One scaled load: what the scale saw vs. what the planner computed aboard. */
+export type TareSample = {
+  loadId: string;
+  at: string;                  // ISO — scaled_at, else completed_at
+  scaleGrossLbs: number;
+  payloadLbs: number;          // computed product weight (actual_total_lbs)
+  tareLbs: number | null;      // tare the load was planned with
+};
+
+export type TareEstimate = {
+  tareLbs: number;             // mean implied tare over the window
+  ciLowLbs: number;            // 95% confidence interval on the mean
+  ciHighLbs: number;
+  stdDevLbs: number;
+  n: number;                   // samples used
+  rejected: number;            // outliers dropped from the window
+  currentTareLbs: number;
+  deltaLbs: number;            // suggested - current
+  significant: boolean;        // CI excludes the current tare by more than the floor
+};
+
+// ─── Switch loading ───────────────────────────────────────────────────────────
+
+/** What a product is, as far as compartment residue is concerned. */
+export type ProductFamily =
+  | "gasoline" | "avgas" | "ethanol"                          // high vapor pressure
+  | "jet" | "kerosene" | "diesel" | "biodiesel" | "fuel_oil"  // low vapor pressure, static accumulators
+  | "other";
+
+/** Worst first: forbidden > switch_load > drain > ok. */
+export type CompatLevel = "ok" | "drain" | "switch_load" | "forbidden";
+
+/** One compartment: the product planned into it against the residue it holds. */
+export type CompatCheck = {
+  compNumber: number;
+  productId: string;
+  residueProductId: string;
+  level: CompatLevel;
+  reasons: string[];
+};
+
+/** A warning the driver accepted at begin_load — stored on load_log. */
+export type CompatAcknowledgement = {
+  comp_number: number;
+  product_id: string;
+  residue_product_id: string;
+  level: Exclude<CompatLevel, "ok" | "forbidden">;
+  reasons: string[];
+  acknowledged_at: string;     // ISO
 };
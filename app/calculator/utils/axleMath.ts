@@ -0,0 +1,245 @@
+// utils/axleMath.ts
+// Pure axle-weight math — no React, no Supabase. Easy to unit test.
+
+import type {
+  AxleGeometry, AxleGroupWeight, AxleLimits, AxleLoadFactors, AxleTare, CompRow, OptimizerAxleGroup, PlanRow,
+  TrailerAxleRow, TruckAxleRow,
+} from "../types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/**
+ * Federal interstate axle limits (23 CFR 658.17).
+ * Steer is not a federal number — 12,000 is the usual steer tire/axle rating
+ * on a day-cab tanker tractor and is overridden per truck (trucks.steer_limit_lbs).
+ * Tridem has no fixed federal number; 42,000 is the common bridge-table value.
+ */
+export const DEFAULT_AXLE_LIMITS: AxleLimits = {
+  steer: 12_000,
+  single: 20_000,
+  tandem: 34_000,
+  tridem: 42_000,
+};
+
+/**
+ * Fallback tare split when the combo has never been weighed axle-by-axle.
+ * Typical day-cab tractor + aluminum tank trailer, empty.
+ */
+export const DEFAULT_TARE_SPLIT = { steer: 0.33, drive: 0.38, trailer: 0.29 };
+
+/**
+ * Default first→last axle spread when a unit has no measured spacing.
+ * 52" is a standard tractor tandem; tridems are roughly two tandem spreads.
+ */
+export const DEFAULT_SPREAD_IN: Record<number, number> = { 1: 0, 2: 52, 3: 104 };
+
+// ─── Geometry ─────────────────────────────────────────────────────────────────
+
+function num(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function spreadFor(count: number, measured: unknown): number {
+  return num(measured) ?? DEFAULT_SPREAD_IN[Math.min(3, Math.max(1, count))];
+}
+
+/**
+ * Build AxleGeometry from truck + trailer rows.
+ * Returns null until every distance needed for statics is entered in admin;
+ * axle counts and spreads fall back to tandem defaults.
+ */
+export function axleGeometryFromRows(
+  tk: Partial<TruckAxleRow> | null | undefined,
+  tr: Partial<TrailerAxleRow> | null | undefined
+): AxleGeometry | null {
+  const driveAxleIn   = num(tk?.drive_axle_in);
+  const fifthWheelIn  = num(tk?.fifth_wheel_in);
+  const trailerAxleIn = num(tr?.trailer_axle_in);
+  const tankFrontIn   = num(tr?.tank_front_in);
+  const tankRearIn    = num(tr?.tank_rear_in);
+  if (driveAxleIn == null || fifthWheelIn == null || trailerAxleIn == null ||
+      tankFrontIn == null || tankRearIn == null) return null;
+
+  const driveAxleCount   = num(tk?.drive_axle_count) ?? 2;
+  const trailerAxleCount = num(tr?.trailer_axle_count) ?? 2;
+  return {
+    driveAxleIn, fifthWheelIn, trailerAxleIn, tankFrontIn, tankRearIn,
+    driveAxleCount, trailerAxleCount,
+    driveSpreadIn: spreadFor(driveAxleCount, tk?.drive_spread_in),
+    trailerSpreadIn: spreadFor(trailerAxleCount, tr?.trailer_spread_in),
+  };
+}
+
+// ─── Tare ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Per-group tare from the combo row.
+ * Uses the scale-measured split when all three groups are present, otherwise
+ * splits tare_lbs with DEFAULT_TARE_SPLIT and flags the result as estimated.
+ */
+export function axleTareForCombo(
+  tareLbs: number,
+  steer?: number | null,
+  drive?: number | null,
+  trailer?: number | null
+): AxleTare {
+  const measured = [steer, drive, trailer].every((v) => v != null && Number.isFinite(Number(v)) && Number(v) > 0);
+  if (measured) {
+    return { steer: Number(steer), drive: Number(drive), trailer: Number(trailer), measured: true };
+  }
+  const t = Math.max(0, Number(tareLbs) || 0);
+  return {
+    steer: t * DEFAULT_TARE_SPLIT.steer,
+    drive: t * DEFAULT_TARE_SPLIT.drive,
+    trailer: t * DEFAULT_TARE_SPLIT.trailer,
+    measured: false,
+  };
+}
+
+// ─── Compartment stations ─────────────────────────────────────────────────────
+
+/**
+ * Longitudinal centroid of each compartment, inches aft of the kingpin.
+ *
+ * Compartments are laid front→rear by DB position (0 = front) and each one
+ * gets a slice of the barrel proportional to its true capacity — a uniform
+ * cross-section assumption that holds well for single-conical petroleum tanks.
+ * A partially filled compartment still spans its full slice, so the centroid
+ * does not move with fill level.
+ */
+export function compartmentStations(
+  comps: Pick<CompRow, "comp_number" | "max_gallons" | "position">[],
+  tankFrontIn: number,
+  tankRearIn: number
+): Record<number, number> {
+  const sorted = [...comps]
+    .filter((c) => Number(c.max_gallons ?? 0) > 0)
+    .sort((a, b) => Number(a.position ?? 0) - Number(b.position ?? 0) || a.comp_number - b.comp_number);
+
+  const total = sorted.reduce((s, c) => s + Number(c.max_gallons ?? 0), 0);
+  const length = tankRearIn - tankFrontIn;
+  const out: Record<number, number> = {};
+  if (!(total > 0) || !(length > 0)) return out;
+
+  let cum = 0;
+  for (const c of sorted) {
+    const cap = Number(c.max_gallons ?? 0);
+    const mid = (cum + cap / 2) / total;
+    out[c.comp_number] = tankFrontIn + length * mid;
+    cum += cap;
+  }
+  return out;
+}
+
+// ─── Axle groups ──────────────────────────────────────────────────────────────
+
+export function axleLimitForCount(axleCount: number, limits: AxleLimits): number {
+  if (axleCount <= 1) return limits.single;
+  if (axleCount === 2) return limits.tandem;
+  return limits.tridem;
+}
+
+/**
+ * Fraction of a payload lb at stationIn (inches aft of the kingpin) carried by
+ * each group — the statics below with W = 1. Linear in load, so the optimizer
+ * can use these as constraint coefficients.
+ */
+export function axleLoadFactors(geometry: AxleGeometry, stationIn: number): AxleLoadFactors {
+  const { driveAxleIn: d, fifthWheelIn: f, trailerAxleIn: lt } = geometry;
+  const trailer = stationIn / lt;
+  const kingpin = 1 - trailer;
+  const drive = (kingpin * f) / d;
+  return { steer: kingpin - drive, drive, trailer };
+}
+
+/**
+ * Predict steer / drive / trailer group weights for a set of payload point loads.
+ *
+ * Statics (two simply-supported beams):
+ *   Trailer — supports at kingpin (x=0) and trailer group (x=Lt):
+ *     R_trailer = W * x / Lt
+ *     R_kingpin = W - R_trailer
+ *   Tractor — kingpin load K at fifth wheel f, supports at steer (0) and drive (d):
+ *     R_drive = K * f / d
+ *     R_steer = K - R_drive
+ *
+ * Tare is added per group as measured (or estimated) on the empty combo.
+ * Returns null when the geometry is unusable.
+ */
+export function predictAxleWeights(
+  geometry: AxleGeometry,
+  tare: AxleTare,
+  loads: { stationIn: number; lbs: number }[],
+  limits: AxleLimits = DEFAULT_AXLE_LIMITS
+): AxleGroupWeight[] | null {
+  const { driveAxleIn: d, fifthWheelIn: f, trailerAxleIn: lt } = geometry;
+  if (!(d > 0) || !(lt > 0) || !Number.isFinite(f)) return null;
+
+  let steerLbs = 0;
+  let driveLbs = 0;
+  let trailerLbs = 0;
+  for (const l of loads) {
+    const w = Number(l.lbs);
+    if (!Number.isFinite(w) || w === 0 || !Number.isFinite(l.stationIn)) continue;
+    const k = axleLoadFactors(geometry, l.stationIn);
+    steerLbs += w * k.steer;
+    driveLbs += w * k.drive;
+    trailerLbs += w * k.trailer;
+  }
+
+  const group = (
+    key: AxleGroupWeight["key"], label: string, axleCount: number, lbs: number, limitLbs: number
+  ): AxleGroupWeight => ({ key, label, axleCount, lbs, limitLbs, overLbs: lbs - limitLbs });
+
+  return [
+    group("steer", "Steer", 1, tare.steer + steerLbs, limits.steer),
+    group("drive", "Drive", geometry.driveAxleCount, tare.drive + driveLbs,
+      axleLimitForCount(geometry.driveAxleCount, limits)),
+    group("trailer", "Trailer", geometry.trailerAxleCount, tare.trailer + trailerLbs,
+      axleLimitForCount(geometry.trailerAxleCount, limits)),
+  ];
+}
+
+/**
+ * Point loads from plan rows: planned_gallons * lbsPerGal at each compartment's station.
+ * Rows without a station (comp not in the geometry) are skipped.
+ */
+export function planRowAxleLoads(
+  rows: PlanRow[],
+  stations: Record<number, number>
+): { stationIn: number; lbs: number }[] {
+  const out: { stationIn: number; lbs: number }[] = [];
+  for (const r of rows) {
+    const station = stations[Number(r.comp_number)];
+    const lbs = Number(r.planned_gallons ?? 0) * Number(r.lbsPerGal ?? 0);
+    if (station == null || !Number.isFinite(lbs) || lbs <= 0) continue;
+    out.push({ stationIn: station, lbs });
+  }
+  return out;
+}
+
+/** Axle group limits net of tare, in the shape optimizePlan expects. */
+export function optimizerAxleGroups(
+  geometry: AxleGeometry,
+  tare: AxleTare,
+  limits: AxleLimits = DEFAULT_AXLE_LIMITS
+): OptimizerAxleGroup[] {
+  return [
+    { key: "steer", label: "Steer", tareLbs: tare.steer, limitLbs: limits.steer },
+    { key: "drive", label: "Drive axles", tareLbs: tare.drive, limitLbs: axleLimitForCount(geometry.driveAxleCount, limits) },
+    { key: "trailer", label: "Trailer axles", tareLbs: tare.trailer, limitLbs: axleLimitForCount(geometry.trailerAxleCount, limits) },
+  ];
+}
+
+/** Human-readable lines for groups over their limit — used for the Begin Load warning. */
+export function axleOverWarnings(groups: AxleGroupWeight[] | null): string[] {
+  if (!groups) return [];
+  return groups
+    .filter((g) => g.overLbs > 0)
+    .map((g) =>
+      `${g.label}: ${Math.round(g.lbs).toLocaleString()} / ${Math.round(g.limitLbs).toLocaleString()} lbs ` +
+      `(+${Math.round(g.overLbs).toLocaleString()})`
+    );
+}
@@ -0,0 +1,206 @@
+// utils/bolReconcile.ts
+// Bill of Lading reconciliation — pure, no React, no Supabase.
+//
+// The BOL is the terminal's meter + VCF record, so once entered it replaces
+// the driver's own API / temp readings as the load's actuals.
+
+import { lbsPerGallonAtTemp, vcfForProduct } from "./planMath";
+import type {
+  BolActualLine, BolDiscrepancy, BolEntry, BolEstimateLine, BolPlanProduct, BolProduct,
+} from "../types";
+
+// ─── Tolerances ───────────────────────────────────────────────────────────────
+
+export const BOL_TOLERANCE = {
+  grossPct: 0.005,     // BOL gross vs planned gross, fraction of planned…
+  grossMinGal: 10,     // …but never tighter than this
+  netGal: 2,           // BOL net vs BOL gross × VCF(BOL API, BOL temp)
+  lineSumGal: 1,       // per-comp BOL gallons vs the product total
+  api: 1.0,            // BOL API vs the API the plan used
+  tempF: 10,           // BOL temp vs planned load temp
+};
+
+const EMPTY_PRODUCT: BolProduct = { grossGallons: null, netGallons: null, api60: null, tempF: null };
+
+const fmt = (n: number, d = 0) => n.toLocaleString(undefined, { minimumFractionDigits: d, maximumFractionDigits: d });
+
+/** Gross tolerance for a planned volume. */
+function grossTolerance(plannedGallons: number): number {
+  return Math.max(BOL_TOLERANCE.grossMinGal, plannedGallons * BOL_TOLERANCE.grossPct);
+}
+
+/** VCF from BOL API + temp, if both are on the ticket. */
+function bolVcf(p: BolPlanProduct, b: BolProduct): number | null {
+  if (b.api60 == null || b.tempF == null) return null;
+  if (p.alphaPerF == null && !p.commodity) return null;
+  return vcfForProduct(b.api60, p.alphaPerF ?? 0, b.tempF, p.commodity);
+}
+
+// ─── Reconciliation ───────────────────────────────────────────────────────────
+
+/**
+ * Compare BOL values to the plan, and to themselves.
+ *
+ * "warn"  — the BOL differs from the plan by more than the tolerance
+ *           (short load, different API at the rack, hot product…).
+ * "error" — the BOL is internally inconsistent: net ≠ gross × VCF, or the
+ *           per-compartment gallons don't add up to the product total.
+ *           Almost always a typo.
+ */
+export function reconcileBol(plan: BolPlanProduct[], bol: BolEntry): BolDiscrepancy[] {
+  const out: BolDiscrepancy[] = [];
+
+  for (const p of plan) {
+    const b = bol.products[p.productId] ?? EMPTY_PRODUCT;
+
+    if (b.grossGallons != null) {
+      const tol = grossTolerance(p.plannedGallons);
+      const diff = b.grossGallons - p.plannedGallons;
+      if (Math.abs(diff) > tol) {
+        out.push({
+          productId: p.productId, compNumber: null, field: "gross_gallons",
+          expected: p.plannedGallons, bol: b.grossGallons, tolerance: tol, severity: "warn",
+          message: `${p.label}: BOL ${fmt(b.grossGallons)} gal vs ${fmt(p.plannedGallons)} planned (${diff > 0 ? "+" : ""}${fmt(diff)})`,
+        });
+      }
+    }
+
+    const vcf = bolVcf(p, b);
+    if (b.grossGallons != null && b.netGallons != null && vcf != null) {
+      const expected = b.grossGallons * vcf;
+      if (Math.abs(b.netGallons - expected) > BOL_TOLERANCE.netGal) {
+        out.push({
+          productId: p.productId, compNumber: null, field: "net_gallons",
+          expected, bol: b.netGallons, tolerance: BOL_TOLERANCE.netGal, severity: "error",
+          message: `${p.label}: BOL net ${fmt(b.netGallons)} ≠ ${fmt(b.grossGallons)} × VCF ${vcf.toFixed(5)} = ${fmt(expected)} — check API / temp`,
+        });
+      }
+    }
+
+    if (b.api60 != null && p.plannedApi60 != null && Math.abs(b.api60 - p.plannedApi60) > BOL_TOLERANCE.api) {
+      out.push({
+        productId: p.productId, compNumber: null, field: "api",
+        expected: p.plannedApi60, bol: b.api60, tolerance: BOL_TOLERANCE.api, severity: "warn",
+        message: `${p.label}: BOL API ${b.api60.toFixed(1)} vs ${p.plannedApi60.toFixed(1)} planned`,
+      });
+    }
+
+    if (b.tempF != null && p.plannedTempF != null && Math.abs(b.tempF - p.plannedTempF) > BOL_TOLERANCE.tempF) {
+      out.push({
+        productId: p.productId, compNumber: null, field: "temp_f",
+        expected: p.plannedTempF, bol: b.tempF, tolerance: BOL_TOLERANCE.tempF, severity: "warn",
+        message: `${p.label}: BOL ${fmt(b.tempF, 1)}°F vs ${fmt(p.plannedTempF)}°F planned`,
+      });
+    }
+
+    // Per-compartment gallons: each vs its plan, and the set vs the product total.
+    let lineSum = 0;
+    let allLines = p.comps.length > 0;
+    for (const c of p.comps) {
+      const l = bol.lines[c.compNumber];
+      if (l?.grossGallons == null) { allLines = false; continue; }
+      lineSum += l.grossGallons;
+      const tol = grossTolerance(c.plannedGallons);
+      if (Math.abs(l.grossGallons - c.plannedGallons) > tol) {
+        out.push({
+          productId: p.productId, compNumber: c.compNumber, field: "gross_gallons",
+          expected: c.plannedGallons, bol: l.grossGallons, tolerance: tol, severity: "warn",
+          message: `C${c.compNumber}: BOL ${fmt(l.grossGallons)} gal vs ${fmt(c.plannedGallons)} planned`,
+        });
+      }
+    }
+    if (allLines && b.grossGallons != null && Math.abs(lineSum - b.grossGallons) > BOL_TOLERANCE.lineSumGal) {
+      out.push({
+        productId: p.productId, compNumber: null, field: "gross_gallons",
+        expected: b.grossGallons, bol: lineSum, tolerance: BOL_TOLERANCE.lineSumGal, severity: "error",
+        message: `${p.label}: compartments add up to ${fmt(lineSum)} gal, BOL total is ${fmt(b.grossGallons)}`,
+      });
+    }
+  }
+
+  return out;
+}
+
+// ─── Actuals ──────────────────────────────────────────────────────────────────
+
+/**
+ * Per-compartment actuals with the BOL taking precedence over the driver's estimate.
+ *
+ *   gross — the comp's own BOL gallons, else the product's BOL gross split by
+ *           planned share, else the estimate
+ *   net   — the comp's own BOL net, else the product's BOL net split by gross
+ *           share (so the lines add up to the ticket exactly), else gross × VCF
+ *   VCF   — net ÷ gross when net came off the BOL, else from BOL API + temp,
+ *           else the estimate
+ *   lbs   — net × lbs/gal at 60°F when the BOL API is known, else the
+ *           estimate's lbs/gal × gross
+ */
+export function bolActualLines(
+  plan: BolPlanProduct[],
+  bol: BolEntry,
+  estimate: Record<number, BolEstimateLine>
+): BolActualLine[] {
+  const out: BolActualLine[] = [];
+
+  for (const p of plan) {
+    const b = bol.products[p.productId] ?? EMPTY_PRODUCT;
+    const plannedTotal = p.comps.reduce((s, c) => s + c.plannedGallons, 0);
+
+    const gross = p.comps.map((c) => {
+      const own = bol.lines[c.compNumber]?.grossGallons;
+      if (own != null) return { value: own, fromBol: true };
+      if (b.grossGallons != null && plannedTotal > 0) {
+        return { value: b.grossGallons * (c.plannedGallons / plannedTotal), fromBol: true };
+      }
+      return { value: estimate[c.compNumber]?.actual_gallons ?? c.plannedGallons, fromBol: false };
+    });
+    const grossTotal = gross.reduce((s, g) => s + g.value, 0);
+
+    const ticketVcf = bolVcf(p, b)
+      ?? (b.netGallons != null && b.grossGallons ? b.netGallons / b.grossGallons : null);
+    const lbsPerGal60 = b.api60 != null && (p.alphaPerF != null || p.commodity)
+      ? lbsPerGallonAtTemp(b.api60, p.alphaPerF ?? 0, 60, p.commodity)
+      : null;
+
+    p.comps.forEach((c, i) => {
+      const est = estimate[c.compNumber];
+      const g = gross[i];
+      const ownNet = bol.lines[c.compNumber]?.netGallons;
+      const vcf = ticketVcf ?? est?.vcf ?? null;
+
+      let net: number | null;
+      if (ownNet != null) net = ownNet;
+      else if (b.netGallons != null && grossTotal > 0) net = b.netGallons * (g.value / grossTotal);
+      else net = vcf != null ? g.value * vcf : null;
+      const netFromBol = ownNet != null || b.netGallons != null;
+
+      let lbs: number | null;
+      if (lbsPerGal60 != null && net != null) lbs = net * lbsPerGal60;
+      else if (est?.actual_lbs != null && est.actual_gallons) lbs = est.actual_lbs * (g.value / est.actual_gallons);
+      else lbs = null;
+
+      const fromBol = g.fromBol || netFromBol || b.api60 != null || b.tempF != null;
+      out.push({
+        compNumber: c.compNumber,
+        productId: p.productId,
+        grossGallons: g.value,
+        netGallons: net,
+        vcf: netFromBol && net != null && g.value > 0 ? net / g.value : vcf,
+        lbs,
+        tempF: b.tempF ?? est?.temp_f ?? null,
+        api60: b.api60,
+        fromBol,
+      });
+    });
+  }
+
+  return out.sort((a, b) => a.compNumber - b.compNumber);
+}
+
+/** True once anything has been typed in — an empty BOL means "use my readings". */
+export function bolHasValues(bol: BolEntry): boolean {
+  const anyProduct = Object.values(bol.products).some((b) =>
+    b.grossGallons != null || b.netGallons != null || b.api60 != null || b.tempF != null);
+  const anyLine = Object.values(bol.lines).some((l) => l.grossGallons != null || l.netGallons != null);
+  return anyProduct || anyLine;
+}
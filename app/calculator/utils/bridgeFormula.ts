@@ -0,0 +1,129 @@
+// utils/bridgeFormula.ts
+// Federal Bridge Formula (23 CFR 658.17) — pure, no React, no Supabase.
+
+import { axleLimitForCount } from "./axleMath";
+import type { AxleGeometry, AxleGroupKey, AxleLimits, BridgeGrouping, BridgeResult } from "../types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Federal interstate gross vehicle weight cap. */
+export const FEDERAL_GROSS_MAX = 80_000;
+
+/**
+ * Two consecutive tandems may carry 34,000 lbs each (68,000 total) when the
+ * first and last axles of those tandems are at least 36 ft apart,
+ * even though the formula gives slightly less at 36–38 ft.
+ */
+const TANDEM_PAIR_EXCEPTION_FT = 36;
+const TANDEM_PAIR_EXCEPTION_LBS = 68_000;
+
+// ─── Formula ──────────────────────────────────────────────────────────────────
+
+/**
+ * W = 500 * (L*N / (N-1) + 12*N + 36)
+ *
+ *   W — max weight in lbs on any group of 2+ consecutive axles
+ *   L — distance in feet between the outer axles of the group
+ *   N — number of axles in the group
+ *
+ * Rounded to the nearest 500 lbs, matching the FHWA bridge table.
+ */
+export function bridgeFormulaLbs(lengthFt: number, axleCount: number): number {
+  const n = Math.max(2, Math.floor(axleCount));
+  const w = 500 * ((lengthFt * n) / (n - 1) + 12 * n + 36);
+  return Math.round(w / 500) * 500;
+}
+
+// ─── Combo axles ──────────────────────────────────────────────────────────────
+
+export type ComboAxle = { group: AxleGroupKey; positionIn: number };
+
+/**
+ * Every axle on the combo, front → rear, in inches from the steer axle.
+ * Group centres come from AxleGeometry; axles within a group are evenly
+ * spaced across its spread.
+ */
+export function comboAxles(g: AxleGeometry): ComboAxle[] {
+  const spreadOut = (group: AxleGroupKey, centreIn: number, count: number, spreadIn: number): ComboAxle[] => {
+    const n = Math.max(1, Math.floor(count));
+    if (n === 1) return [{ group, positionIn: centreIn }];
+    const step = spreadIn / (n - 1);
+    return Array.from({ length: n }, (_, i) => ({ group, positionIn: centreIn - spreadIn / 2 + i * step }));
+  };
+
+  return [
+    { group: "steer", positionIn: 0 },
+    ...spreadOut("drive", g.driveAxleIn, g.driveAxleCount, g.driveSpreadIn),
+    ...spreadOut("trailer", g.fifthWheelIn + g.trailerAxleIn, g.trailerAxleCount, g.trailerSpreadIn),
+  ];
+}
+
+// ─── Evaluation ───────────────────────────────────────────────────────────────
+
+/**
+ * Evaluate every grouping of 2+ consecutive axles.
+ *
+ * W only bounds the weight on the axles inside a grouping, so each one is
+ * turned into a gross ceiling by adding the legal max of the axles outside it
+ * (steer limit, or an equal share of the drive/trailer group limit).
+ * The combo's gross ceiling is the tightest of those, the sum of the group
+ * limits, and the federal 80,000 lb cap.
+ */
+export function evaluateBridge(
+  g: AxleGeometry,
+  limits: AxleLimits,
+  grossCapLbs: number = FEDERAL_GROSS_MAX
+): BridgeResult {
+  const axles = comboAxles(g);
+  const counts: Record<AxleGroupKey, number> = { steer: 1, drive: g.driveAxleCount, trailer: g.trailerAxleCount };
+  const groupLimit: Record<AxleGroupKey, number> = {
+    steer: limits.steer,
+    drive: axleLimitForCount(g.driveAxleCount, limits),
+    trailer: axleLimitForCount(g.trailerAxleCount, limits),
+  };
+  const perAxleLimit = (a: ComboAxle) => groupLimit[a.group] / Math.max(1, counts[a.group]);
+
+  const isTandemPair = (slice: ComboAxle[]) =>
+    slice.length === 4 &&
+    slice[0].group === slice[1].group && slice[2].group === slice[3].group &&
+    slice[1].group !== slice[2].group &&
+    counts[slice[0].group] === 2 && counts[slice[2].group] === 2;
+
+  const groupings: BridgeGrouping[] = [];
+  for (let i = 0; i < axles.length - 1; i++) {
+    for (let j = i + 1; j < axles.length; j++) {
+      const slice = axles.slice(i, j + 1);
+      const lengthFt = Math.round((axles[j].positionIn - axles[i].positionIn) / 12);
+      let formulaLbs = bridgeFormulaLbs(lengthFt, slice.length);
+      if (isTandemPair(slice) && lengthFt >= TANDEM_PAIR_EXCEPTION_FT) {
+        formulaLbs = Math.max(formulaLbs, TANDEM_PAIR_EXCEPTION_LBS);
+      }
+      const outsideLbs = axles.reduce((s, a, k) => (k < i || k > j ? s + perAxleLimit(a) : s), 0);
+      groupings.push({
+        firstAxle: i + 1,
+        lastAxle: j + 1,
+        axleCount: slice.length,
+        lengthFt,
+        formulaLbs,
+        grossCeilingLbs: formulaLbs + outsideLbs,
+      });
+    }
+  }
+
+  const groupSum = groupLimit.steer + groupLimit.drive + groupLimit.trailer;
+  let grossCeilingLbs = Math.min(grossCapLbs, groupSum);
+  let binding: BridgeGrouping | null = null;
+  for (const gr of groupings) {
+    if (gr.grossCeilingLbs < grossCeilingLbs) {
+      grossCeilingLbs = gr.grossCeilingLbs;
+      binding = gr;
+    }
+  }
+
+  return { groupings, grossCeilingLbs, binding };
+}
+
+/** e.g. "Axles 2–5 · 33 ft" */
+export function bridgeGroupingLabel(gr: BridgeGrouping): string {
+  return `Axles ${gr.firstAxle}–${gr.lastAxle} · ${gr.lengthFt} ft`;
+}
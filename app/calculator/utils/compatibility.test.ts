@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { compatibility, productTraits } from "./compatibility";
+import type { ProductTraits } from "./compatibility";
+
+const clear: ProductTraits = { family: "diesel", dyed: false };
+const dyed: ProductTraits = { family: "diesel", dyed: true };
+const gasoline: ProductTraits = { family: "gasoline", dyed: false };
+const jet: ProductTraits = { family: "jet", dyed: false };
+
+describe("compatibility", () => {
+  it("allows dyed diesel after clear", () => {
+    expect(compatibility(clear, dyed)).toEqual({ level: "ok", reasons: [] });
+  });
+
+  it("drains before clear diesel after dyed", () => {
+    const r = compatibility(dyed, clear);
+    expect(r.level).toBe("drain");
+    expect(r.reasons[0]).toMatch(/red dye/);
+  });
+
+  it("classifies the header's examples", () => {
+    expect(compatibility(gasoline, jet).level).toBe("forbidden");
+    expect(compatibility(gasoline, clear).level).toBe("switch_load");
+    expect(compatibility(clear, gasoline).level).toBe("drain");
+    expect(compatibility(clear, { family: "avgas", dyed: false }).level).toBe("forbidden");
+  });
+
+  it("keeps the worst level when several rules fire", () => {
+    const r = compatibility({ family: "gasoline", dyed: true }, clear);
+    expect(r.level).toBe("switch_load");
+    expect(r.reasons).toHaveLength(2);
+  });
+});
+
+describe("productTraits", () => {
+  it("reads dye from the name when the row doesn't say", () => {
+    expect(productTraits({ product_name: "Dyed ULSD" })).toEqual(dyed);
+    expect(productTraits({ product_name: "ULSD #2", dyed: false })).toEqual(clear);
+  });
+});
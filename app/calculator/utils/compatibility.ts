@@ -0,0 +1,140 @@
+// utils/compatibility.ts
+// Product compatibility / switch loading per compartment — pure, no React, no Supabase.
+//
+// Compares the product planned into a compartment with the residue it holds
+// (residueCompartments) and classifies the assignment:
+//   ok           nothing to do
+//   drain        drain dry (and inspect) before loading
+//   switch_load  low-vapor-pressure product over gasoline vapor — static
+//                ignition risk; bond, drain, and slow the initial fill
+//   forbidden    contaminates a product that has no tolerance for it
+//
+// Examples:
+//   jet after gasoline        forbidden   (flash point; gasoline in jet fails spec)
+//   diesel after gasoline     switch_load
+//   gasoline after diesel     drain
+//   clear diesel after dyed   drain       (red dye in clear fuel is a tax violation)
+//   dyed diesel after clear   ok          (clear residue only thins the dye;
+//                                          the tax rule runs the other way)
+//   avgas after anything else forbidden
+
+import { residueCompartments } from "./placardUtils";
+import type { CompartmentLastLoad } from "./placardUtils";
+import type { CompatCheck, CompatLevel, ProductFamily, ProductRow } from "../types";
+
+export const COMPAT_LEVEL_LABEL: Record<CompatLevel, string> = {
+  ok: "OK",
+  drain: "Drain first",
+  switch_load: "Switch load",
+  forbidden: "Do not load",
+};
+
+const RANK: Record<CompatLevel, number> = { ok: 0, drain: 1, switch_load: 2, forbidden: 3 };
+
+/** Gasoline-range vapor over these is the switch-loading hazard. */
+const HIGH_VAPOR: ReadonlySet<ProductFamily> = new Set<ProductFamily>(["gasoline", "avgas", "ethanol"]);
+const LOW_VAPOR: ReadonlySet<ProductFamily> = new Set<ProductFamily>(["jet", "kerosene", "diesel", "biodiesel", "fuel_oil"]);
+
+const FAMILY_LABEL: Record<ProductFamily, string> = {
+  gasoline: "gasoline", avgas: "avgas", ethanol: "ethanol", jet: "jet fuel", kerosene: "kerosene",
+  diesel: "diesel", biodiesel: "biodiesel", fuel_oil: "fuel oil", other: "unknown product",
+};
+
+const cap = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+export type ProductTraits = { family: ProductFamily; dyed: boolean };
+
+type TraitSource = {
+  product_name?: string | null;
+  display_name?: string | null;
+  product_code?: string | null;
+  un_number?: string | null;
+  product_family?: ProductFamily | null;
+  dyed?: boolean | null;
+};
+
+/** Family and dye from the product row, else guessed from its name and UN number. */
+export function productTraits(p: TraitSource): ProductTraits {
+  const name = [p.product_name, p.display_name, p.product_code].filter(Boolean).join(" ").toLowerCase();
+  const un = String(p.un_number ?? "").toUpperCase().replace(/\s+/g, "");
+  const dyed = p.dyed ?? /\bdyed\b|\bred\b|off-?road/.test(name);
+  if (p.product_family) return { family: p.product_family, dyed };
+
+  let family: ProductFamily = "other";
+  if (/avgas|100ll|aviation gasoline/.test(name)) family = "avgas";
+  else if (/\bjet\b|jp-?[58]|turbine/.test(name) || un === "UN1863") family = "jet";
+  else if (/biodiesel|\bb(99|100)\b/.test(name)) family = "biodiesel";
+  else if (/denatured|\be(9\d|100)\b/.test(name) || un === "UN1170") family = "ethanol";
+  else if (/kerosene|\bk-?1\b/.test(name) || un === "UN1223") family = "kerosene";
+  else if (/fuel oil|heating oil/.test(name)) family = "fuel_oil";
+  else if (/diesel|ulsd|\bdsl\b/.test(name) || un === "UN1202" || un === "NA1993") family = "diesel";
+  else if (/gas|unl|regular|premium|mid-?grade|[rc]bob|\be(10|15|85)\b/.test(name) || un === "UN1203" || un === "UN3475") family = "gasoline";
+  return { family, dyed };
+}
+
+/** Classify loading `next` into a compartment holding `residue`. */
+export function compatibility(residue: ProductTraits, next: ProductTraits): { level: CompatLevel; reasons: string[] } {
+  let level: CompatLevel = "ok";
+  const reasons: string[] = [];
+  const flag = (l: CompatLevel, reason: string) => {
+    if (RANK[l] > RANK[level]) level = l;
+    reasons.push(reason);
+  };
+  const was = FAMILY_LABEL[residue.family];
+
+  if (next.family === "avgas" && residue.family !== "avgas") {
+    flag("forbidden", `Avgas only goes into a compartment that last held avgas — this one held ${was}.`);
+  }
+
+  if (next.family === "jet" && residue.family !== "jet") {
+    if (HIGH_VAPOR.has(residue.family)) flag("forbidden", `Jet fuel after ${was} — residue drops the flash point below spec.`);
+    else if (residue.family === "biodiesel") flag("forbidden", "Jet fuel after biodiesel — FAME residue fails jet spec.");
+    else if (residue.dyed) flag("forbidden", "Jet fuel after dyed fuel — any dye fails jet spec.");
+    else flag("drain", `Jet fuel after ${was} — drain dry and inspect before loading.`);
+  }
+
+  if (HIGH_VAPOR.has(residue.family) && LOW_VAPOR.has(next.family)) {
+    flag("switch_load", `Switch load — ${FAMILY_LABEL[next.family]} over ${was} vapor. Drain dry, bond, and fill at 3 ft/s or less until the fill pipe is covered (API RP 2003).`);
+  }
+
+  if (residue.dyed && !next.dyed && LOW_VAPOR.has(next.family) && next.family !== "jet") {
+    flag("drain", "Dyed residue — drain dry so no red dye carries into clear fuel.");
+  }
+
+  if (LOW_VAPOR.has(residue.family) && HIGH_VAPOR.has(next.family) && next.family !== "avgas") {
+    flag("drain", `${cap(FAMILY_LABEL[next.family])} after ${was} — drain dry; distillate residue degrades octane.`);
+  }
+
+  if (next.family === "kerosene" && (residue.family === "diesel" || residue.family === "fuel_oil" || residue.family === "biodiesel")) {
+    flag("drain", `Kerosene after ${was} — drain dry; heavier residue fouls kerosene heaters.`);
+  }
+
+  if ((residue.family === "other" || next.family === "other") && reasons.length === 0) {
+    flag("drain", "Product family unknown — drain before loading.");
+  }
+
+  return { level, reasons };
+}
+
+/**
+ * One check per compartment whose planned product differs from its residue.
+ * `residueLines` are the residue rows (useCompartmentState), with the residue
+ * product's family and dye when known.
+ */
+export function compartmentCompatChecks(
+  residueLines: CompartmentLastLoad[],
+  compPlan: Record<number, { empty: boolean; productId: string }>,
+  products: ProductRow[]
+): CompatCheck[] {
+  const byId = new Map(products.map((p) => [p.product_id, p]));
+  const out: CompatCheck[] = [];
+  for (const r of residueCompartments(residueLines, compPlan)) {
+    const plan = compPlan[r.comp_number];
+    if (!plan || plan.empty || !plan.productId || !r.product_id) continue;
+    const next = byId.get(plan.productId);
+    if (!next) continue;
+    const { level, reasons } = compatibility(productTraits(r), productTraits(next));
+    out.push({ compNumber: r.comp_number, productId: plan.productId, residueProductId: r.product_id, level, reasons });
+  }
+  return out.sort((a, b) => a.compNumber - b.compNumber);
+}
@@ -0,0 +1,121 @@
+// utils/orderPlan.ts
+// Order-driven compartment assignment — pure, no React, no Supabase.
+
+import type { CompPlanInput, OrderAssignment, OrderComp, OrderCompAssignment, OrderLine, OrderShortfall, PlanRow } from "../types";
+
+/** Merge duplicate products, drop blank lines, largest volume first. */
+export function normalizeOrder(order: OrderLine[]): OrderLine[] {
+  const byProduct = new Map<string, number>();
+  for (const l of order) {
+    const g = Number(l.gallons);
+    if (!l.productId || !Number.isFinite(g) || g <= 0) continue;
+    byProduct.set(l.productId, (byProduct.get(l.productId) ?? 0) + g);
+  }
+  return Array.from(byProduct, ([productId, gallons]) => ({ productId, gallons }))
+    .sort((a, b) => b.gallons - a.gallons);
+}
+
+/**
+ * Pick compartments for each ordered product.
+ *
+ * Products are placed largest order first. For each one, compartments are
+ * ranked by:
+ *   1. residue — same product > clean > residue of a product not on this order
+ *      > residue of another ordered product (keeps switch-loading to a minimum)
+ *   2. fit — the smallest comp that takes the whole remainder, else the largest
+ *   3. adjacency — next to comps already holding this product
+ *   4. compartment order, front first
+ *
+ * Compartments left over are marked empty. Volume that doesn't fit anywhere
+ * comes back in `unassigned`.
+ */
+export function assignOrder(order: OrderLine[], comps: OrderComp[]): OrderAssignment {
+  const lines = normalizeOrder(order);
+  const ordered = new Set(lines.map((l) => l.productId));
+  const sorted = [...comps]
+    .filter((c) => c.maxGallons > 0)
+    .sort((a, b) => a.position - b.position || a.compNumber - b.compNumber);
+  const indexOf = new Map(sorted.map((c, i) => [c.compNumber, i]));
+  const free = new Set(sorted.map((c) => c.compNumber));
+
+  const assignments: OrderCompAssignment[] = [];
+  const unassigned: OrderLine[] = [];
+
+  for (const line of lines) {
+    let remaining = line.gallons;
+    const picked: number[] = [];
+
+    const residueTier = (c: OrderComp) => {
+      if (c.residueProductId === line.productId) return 0;
+      if (!c.residueProductId) return 1;
+      return ordered.has(c.residueProductId) ? 3 : 2;
+    };
+    const adjacency = (c: OrderComp) => {
+      if (picked.length === 0) return 0;
+      const i = indexOf.get(c.compNumber) ?? 0;
+      return Math.min(...picked.map((p) => Math.abs((indexOf.get(p) ?? 0) - i)));
+    };
+    const score = (c: OrderComp): number[] => {
+      const fits = c.maxGallons >= remaining;
+      return [residueTier(c), fits ? 0 : 1, fits ? c.maxGallons - remaining : -c.maxGallons, adjacency(c), indexOf.get(c.compNumber) ?? 0];
+    };
+    const better = (a: number[], b: number[]) => {
+      for (let k = 0; k < a.length; k++) if (a[k] !== b[k]) return a[k] < b[k];
+      return false;
+    };
+
+    while (remaining > 0.5) {
+      let best: OrderComp | null = null;
+      let bestScore: number[] = [];
+      for (const c of sorted) {
+        if (!free.has(c.compNumber)) continue;
+        const s = score(c);
+        if (!best || better(s, bestScore)) { best = c; bestScore = s; }
+      }
+      if (!best) break;
+
+      const gallons = Math.min(remaining, best.maxGallons);
+      assignments.push({
+        compNumber: best.compNumber,
+        productId: line.productId,
+        gallons,
+        residueMatch: best.residueProductId === line.productId,
+      });
+      free.delete(best.compNumber);
+      picked.push(best.compNumber);
+      remaining -= gallons;
+    }
+
+    if (remaining > 0.5) unassigned.push({ productId: line.productId, gallons: remaining });
+  }
+
+  const compPlan: Record<number, CompPlanInput> = {};
+  for (const c of comps) compPlan[c.compNumber] = { empty: true, productId: "" };
+  for (const a of assignments) compPlan[a.compNumber] = { empty: false, productId: a.productId };
+
+  assignments.sort((a, b) => a.compNumber - b.compNumber);
+  return { compPlan, assignments, unassigned };
+}
+
+/**
+ * Ordered vs. planned per product. Volume the assignment couldn't place is a
+ * capacity shortfall; anything else missing from the plan was cut for weight.
+ */
+export function orderShortfall(order: OrderLine[], planRows: PlanRow[], unassigned: OrderLine[]): OrderShortfall[] {
+  const out: OrderShortfall[] = [];
+  for (const line of normalizeOrder(order)) {
+    const plannedGallons = planRows
+      .filter((r) => r.productId === line.productId)
+      .reduce((s, r) => s + Number(r.planned_gallons ?? 0), 0);
+    const shortGallons = line.gallons - plannedGallons;
+    if (shortGallons <= 0.5) continue;
+    out.push({
+      productId: line.productId,
+      orderedGallons: line.gallons,
+      plannedGallons,
+      shortGallons,
+      cause: unassigned.some((u) => u.productId === line.productId) ? "capacity" : "weight",
+    });
+  }
+  return out;
+}
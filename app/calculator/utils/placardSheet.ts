@@ -0,0 +1,120 @@
+// utils/placardSheet.ts
+// Print-ready placard set for a load — pure, no React, no Supabase.
+//
+// One page per placard and per orange panel, for each side and each end
+// (172.504(a)), from a vehiclePlacards() result. Two sizes:
+//   actual   273 mm (10.75 in) placards, 400 × 160 mm panels (172.519(c),
+//            172.332) on oversize pages — plotter / print shop, or "Save as PDF"
+//   letter   scaled to fit 8.5 × 11 in — a reference copy, not for display
+//
+// The IDs on orange panels follow compartment order, as the result lists them.
+
+import {
+  generateOrangePanelSvg, generatePlacardSvg, ORANGE_PANEL_MM, PLACARD_SIDE_MM, PLACARD_SIDE_UNITS, PLACARD_VIEWBOX,
+} from "./placardUtils";
+import type { PlacardingResult, RequiredPlacard, VehicleSide } from "./placarding";
+
+export type PlacardSheetSize = "actual" | "letter";
+
+export type PlacardSheetPage =
+  | { side: VehicleSide; kind: "placard"; placard: RequiredPlacard; index: number; count: number }
+  | { side: VehicleSide; kind: "panel"; unNumber: string; index: number; count: number };
+
+const SIDE_LABEL: Record<VehicleSide, string> = {
+  front: "Front", rear: "Rear", left: "Left side", right: "Right side",
+};
+
+const PLACARD_LABEL = (p: RequiredPlacard) => p.placardType.replace(/_/g, " ");
+
+/** Every page of the set, side by side, placards before panels. */
+export function placardSheetPages(result: PlacardingResult): PlacardSheetPage[] {
+  const pages: PlacardSheetPage[] = [];
+  for (const s of result.sides) {
+    const count = s.placards.length + s.panels.length;
+    let index = 0;
+    for (const placard of s.placards) pages.push({ side: s.side, kind: "placard", placard, index: ++index, count });
+    for (const unNumber of s.panels) pages.push({ side: s.side, kind: "panel", unNumber, index: ++index, count });
+  }
+  return pages;
+}
+
+const ESC: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+const esc = (s: string) => s.replace(/[&<>"']/g, (c) => ESC[c]);
+
+// SVG box that puts the diamond's side at PLACARD_SIDE_MM
+const PLACARD_BOX_MM = Math.ceil(PLACARD_SIDE_MM * PLACARD_VIEWBOX / PLACARD_SIDE_UNITS);
+
+/** Full HTML document; print it, or "Save as PDF" from the print dialog. */
+export function placardSheetHtml(
+  result: PlacardingResult,
+  opts: { size: PlacardSheetSize; title?: string }
+): string {
+  const { size } = opts;
+  const title = opts.title ?? "Placards";
+  const pages = placardSheetPages(result);
+  const actual = size === "actual";
+
+  // Named pages: actual size needs a different sheet for diamonds and panels
+  const placardPage = actual ? `${PLACARD_BOX_MM + 20}mm ${PLACARD_BOX_MM + 40}mm` : "letter";
+  const panelPage = actual ? `${ORANGE_PANEL_MM.width + 20}mm ${ORANGE_PANEL_MM.height + 40}mm` : "letter";
+  const placardBox = actual ? `${PLACARD_BOX_MM}mm` : "7.5in";
+  const panelW = actual ? `${ORANGE_PANEL_MM.width}mm` : "7.5in";
+  const panelH = actual ? `${ORANGE_PANEL_MM.height}mm` : `${(7.5 * ORANGE_PANEL_MM.height / ORANGE_PANEL_MM.width).toFixed(2)}in`;
+
+  const body = pages.map((p) => {
+    const where = `${SIDE_LABEL[p.side]} — ${p.index} of ${p.count}`;
+    if (p.kind === "panel") {
+      return `<section class="pg panel">
+  <div class="cap"><b>${esc(where)}</b> · Orange panel ${esc(p.unNumber)}</div>
+  <div class="art" style="width:${panelW};height:${panelH}">${generateOrangePanelSvg(p.unNumber, { width: "100%", height: "100%" })}</div>
+</section>`;
+    }
+    const pl = p.placard;
+    const what = [PLACARD_LABEL(pl), pl.unNumber || null, pl.subsidiary ? "subsidiary" : null, pl.residueOnly ? "residue" : null]
+      .filter(Boolean).join(" · ");
+    return `<section class="pg placard">
+  <div class="cap"><b>${esc(where)}</b> · ${esc(what)}</div>
+  <div class="art" style="width:${placardBox};height:${placardBox}">${generatePlacardSvg(pl, { width: "100%", height: "100%" })}</div>
+  <div class="rule">${esc(pl.rule)}</div>
+</section>`;
+  }).join("\n");
+
+  const scaleNote = actual
+    ? `Actual size — placards ${PLACARD_SIDE_MM} mm (10.75 in) on a side, panels ${ORANGE_PANEL_MM.width} × ${ORANGE_PANEL_MM.height} mm. Print at 100% scale.`
+    : "Scaled to letter — a reference copy. Placards on the vehicle must be 273 mm (10.75 in) on a side.";
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${esc(title)}</title>
+<style>
+  @page placard { size: ${placardPage}; margin: 10mm; }
+  @page panel { size: ${panelPage}; margin: 10mm; }
+  @page { size: ${placardPage}; margin: 10mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 10pt/1.3 Arial, Helvetica, sans-serif; color: #000; background: #fff; }
+  .pg { break-after: page; display: flex; flex-direction: column; align-items: center; gap: 4mm; }
+  .pg:last-child { break-after: auto; }
+  .pg.placard { page: placard; }
+  .pg.panel { page: panel; }
+  .art svg { display: block; }
+  .cap { align-self: stretch; font-size: 9pt; }
+  .rule { font-size: 8pt; color: #444; }
+  .cover { break-after: page; page: placard; }
+  .cover h1 { font-size: 16pt; margin: 0 0 6pt; }
+  .cover li { margin-bottom: 3pt; }
+  @media screen { body { padding: 16px; background: #eee; } .pg, .cover { background: #fff; padding: 12px; margin: 0 auto 16px; max-width: 8in; } .art { max-width: 100%; } }
+</style></head>
+<body>
+<section class="cover">
+  <h1>${esc(title)}</h1>
+  <p>${esc(scaleNote)}</p>
+  <ul>
+    ${result.placards.map((p) => `<li>${esc(PLACARD_LABEL(p))}${p.unNumber ? ` bearing ${esc(p.unNumber)}` : ""} — ${esc(p.rule)}</li>`).join("")}
+    ${(result.sides[0]?.panels ?? []).map((u) => `<li>Orange panel ${esc(u)}</li>`).join("")}
+  </ul>
+  <p>${pages.length} pages: each placard and panel on the front, rear and both sides.</p>
+  ${result.notes.map((n) => `<p>${esc(n)}</p>`).join("")}
+  ${result.unknown.length ? `<p><b>Not in the Hazardous Materials Table — placard by hand:</b> ${esc(result.unknown.join(", "))}</p>` : ""}
+</section>
+${body}
+</body></html>`;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { generateOrangePanelSvg, generatePlacardSvg } from "./placardUtils";
+import type { HazardClass, PlacardDef, PlacardType } from "./placardUtils";
+
+// One representative material per placard; DANGEROUS never bears an ID.
+const SAMPLES: Record<PlacardType, { hazardClass: HazardClass | null; unNumber: string }> = {
+  FLAMMABLE: { hazardClass: "3", unNumber: "UN1203" },
+  COMBUSTIBLE: { hazardClass: "COMBUSTIBLE", unNumber: "NA1993" },
+  FLAMMABLE_GAS: { hazardClass: "2.1", unNumber: "UN1075" },
+  NON_FLAMMABLE_GAS: { hazardClass: "2.2", unNumber: "UN1066" },
+  POISON_GAS: { hazardClass: "2.3", unNumber: "UN1017" },
+  FLAMMABLE_SOLID: { hazardClass: "4.1", unNumber: "UN1350" },
+  SPONTANEOUSLY_COMBUSTIBLE: { hazardClass: "4.2", unNumber: "UN1381" },
+  DANGEROUS_WHEN_WET: { hazardClass: "4.3", unNumber: "UN1428" },
+  OXIDIZER: { hazardClass: "5.1", unNumber: "UN1942" },
+  ORGANIC_PEROXIDE: { hazardClass: "5.2", unNumber: "UN3109" },
+  POISON: { hazardClass: "6.1", unNumber: "UN2810" },
+  POISON_INHALATION_HAZARD: { hazardClass: "6.1", unNumber: "UN1613" },
+  CORROSIVE: { hazardClass: "8", unNumber: "UN1830" },
+  CLASS_9: { hazardClass: "9", unNumber: "UN3082" },
+  DANGEROUS: { hazardClass: null, unNumber: "" },
+};
+
+const def = (placardType: PlacardType, unNumber = SAMPLES[placardType].unNumber): PlacardDef => ({
+  unNumber,
+  productName: "",
+  hazardClass: SAMPLES[placardType].hazardClass,
+  packingGroup: null,
+  placardType,
+  precedence: 0,
+});
+
+const snapshot = (name: string) => `./__snapshots__/placards/${name}.svg`;
+
+describe("generatePlacardSvg", () => {
+  for (const type of Object.keys(SAMPLES) as PlacardType[]) {
+    it(`${type} bearing an ID number`, async () => {
+      await expect(generatePlacardSvg(def(type))).toMatchFileSnapshot(snapshot(`${type}.id`));
+    });
+
+    it(`${type} with hazard text`, async () => {
+      await expect(generatePlacardSvg(def(type, ""))).toMatchFileSnapshot(snapshot(`${type}.text`));
+    });
+
+    it(`${type} with the class number only`, async () => {
+      await expect(generatePlacardSvg(def(type, ""), { showText: false })).toMatchFileSnapshot(snapshot(`${type}.class`));
+    });
+  }
+
+  it("keeps INHALATION HAZARD and DANGEROUS text without showText", () => {
+    expect(generatePlacardSvg(def("POISON_INHALATION_HAZARD", ""), { showText: false })).toContain("INHALATION");
+    expect(generatePlacardSvg(def("DANGEROUS"), { showText: false })).toContain("DANGEROUS");
+  });
+
+  it("drops the text when showText is false", () => {
+    expect(generatePlacardSvg(def("FLAMMABLE", ""), { showText: false })).not.toContain(">FLAMMABLE<");
+  });
+});
+
+describe("generateOrangePanelSvg", () => {
+  it("UN and NA numbers", async () => {
+    await expect(generateOrangePanelSvg("UN1203")).toMatchFileSnapshot(snapshot("orange-panel.UN1203"));
+    await expect(generateOrangePanelSvg("NA1993")).toMatchFileSnapshot(snapshot("orange-panel.NA1993"));
+  });
+});
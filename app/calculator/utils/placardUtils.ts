@@ -3,83 +3,89 @@
 // Generates SVG placards from UN numbers. No images stored — all computed.
 // Reference: 49 CFR 172.500, Table 172.504
 
+import { hazmatEntry, isInhalationHazard } from "@/lib/hazmat";
+import type { HazmatClass, HazmatEntry } from "@/lib/hazmat";
+import type { ProductFamily } from "../types";
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-export type HazardClass = "3" | "2.1" | "2.2" | "2.3" | "6.1" | "8" | "COMBUSTIBLE" | "FLAMMABLE";
+export type HazardClass = HazmatClass | "FLAMMABLE";
 
 export type PlacardDef = {
   unNumber: string;          // e.g. "UN1203"
   productName: string;       // e.g. "Gasoline"
-  hazardClass: HazardClass;
+  hazardClass: HazardClass | null; // null for DANGEROUS
   packingGroup: 1 | 2 | 3 | null;
   placardType: PlacardType;
   precedence: number;        // lower = more dangerous, wins over higher numbers
 };
 
 export type PlacardType =
-  | "FLAMMABLE"        // red diamond, Class 3 PG I/II
-  | "COMBUSTIBLE"      // red-and-white striped, Class 3 PG III / combustible liquid
+  | "FLAMMABLE"        // red diamond, Class 3
+  | "COMBUSTIBLE"      // red-and-white striped, combustible liquid
   | "FLAMMABLE_GAS"    // red diamond, Class 2.1
   | "NON_FLAMMABLE_GAS"// green diamond, Class 2.2
+  | "POISON_GAS"       // white diamond, Class 2.3
+  | "FLAMMABLE_SOLID"  // red-and-white vertical stripes, Class 4.1
+  | "SPONTANEOUSLY_COMBUSTIBLE" // white over red, Class 4.2
+  | "DANGEROUS_WHEN_WET"// blue diamond, Class 4.3
+  | "OXIDIZER"         // yellow diamond, Class 5.1
+  | "ORGANIC_PEROXIDE" // red over yellow, Class 5.2
   | "POISON"           // white diamond, Class 6.1
+  | "POISON_INHALATION_HAZARD" // white diamond, Class 6.1 poisonous by inhalation
   | "CORROSIVE"        // black/white diamond, Class 8
-  | "DANGEROUS";       // catch-all when mixed hazard classes
+  | "CLASS_9"          // black stripes over white, Class 9
+  | "DANGEROUS";       // 172.504(b) mixed non-bulk load
 
 // ─── UN number → placard lookup ───────────────────────────────────────────────
-// Covers the petroleum products most commonly transported in bulk liquid.
-// Add more as needed — the SVG generator handles any entry in this table.
-
-export const UN_PLACARD_MAP: Record<string, PlacardDef> = {
-  // ── Gasoline / Motor Fuel ──────────────────────────────────────────────────
-  UN1203: { unNumber: "UN1203", productName: "Gasoline",         hazardClass: "3", packingGroup: 2, placardType: "FLAMMABLE",   precedence: 10 },
-  UN1268: { unNumber: "UN1268", productName: "Petroleum Naphtha", hazardClass: "3", packingGroup: 2, placardType: "FLAMMABLE",   precedence: 11 },
-
-  // ── Diesel / Fuel Oil ──────────────────────────────────────────────────────
-  UN1993: { unNumber: "UN1993", productName: "Diesel (Flammable Liquid NOS)", hazardClass: "3", packingGroup: 3, placardType: "FLAMMABLE",   precedence: 20 },
-  UN1202: { unNumber: "UN1202", productName: "Diesel Fuel",      hazardClass: "3", packingGroup: 3, placardType: "FLAMMABLE",   precedence: 21 },
-  UN1863: { unNumber: "UN1863", productName: "Fuel Aviation",    hazardClass: "3", packingGroup: 2, placardType: "FLAMMABLE",   precedence: 12 },
-
-  // ── Combustible Liquids (flash point 100–140°F, US domestic only) ──────────
-  NA1993: { unNumber: "NA1993", productName: "Combustible Liquid NOS", hazardClass: "COMBUSTIBLE", packingGroup: 3, placardType: "COMBUSTIBLE", precedence: 30 },
-  NA1270: { unNumber: "NA1270", productName: "Petroleum Oil",   hazardClass: "COMBUSTIBLE", packingGroup: 3, placardType: "COMBUSTIBLE", precedence: 31 },
-
-  // ── Ethanol / Alcohol ──────────────────────────────────────────────────────
-  UN1170: { unNumber: "UN1170", productName: "Ethanol",          hazardClass: "3", packingGroup: 2, placardType: "FLAMMABLE",   precedence: 13 },
-  UN1987: { unNumber: "UN1987", productName: "Alcohol NOS",      hazardClass: "3", packingGroup: 2, placardType: "FLAMMABLE",   precedence: 14 },
-
-  // ── Gasoline blends / E85 ─────────────────────────────────────────────────
-  UN3475: { unNumber: "UN3475", productName: "Ethanol/Gasoline blend", hazardClass: "3", packingGroup: 2, placardType: "FLAMMABLE", precedence: 15 },
-
-  // ── Kerosene / Jet fuel ───────────────────────────────────────────────────
-  UN1223: { unNumber: "UN1223", productName: "Kerosene",         hazardClass: "3", packingGroup: 3, placardType: "FLAMMABLE",   precedence: 22 },
-
-  // ── LPG / Propane ─────────────────────────────────────────────────────────
-  UN1075: { unNumber: "UN1075", productName: "Petroleum Gases",  hazardClass: "2.1", packingGroup: null, placardType: "FLAMMABLE_GAS", precedence: 5 },
-  UN1978: { unNumber: "UN1978", productName: "Propane",          hazardClass: "2.1", packingGroup: null, placardType: "FLAMMABLE_GAS", precedence: 6 },
+// Reads the Hazardous Materials Table (lib/hazmat). Precedence only orders
+// placards for display — Table 1 hazards first; 172.504 itself ranks nothing.
+
+const PLACARD_FOR_CLASS: Record<HazmatClass, { type: PlacardType; precedence: number }> = {
+  "2.3":       { type: "POISON_GAS",                precedence: 1 },
+  "4.3":       { type: "DANGEROUS_WHEN_WET",        precedence: 2 },
+  "2.1":       { type: "FLAMMABLE_GAS",             precedence: 5 },
+  "6.1":       { type: "POISON",                    precedence: 7 },
+  "3":         { type: "FLAMMABLE",                 precedence: 10 },
+  "5.2":       { type: "ORGANIC_PEROXIDE",          precedence: 14 },
+  "5.1":       { type: "OXIDIZER",                  precedence: 15 },
+  "4.2":       { type: "SPONTANEOUSLY_COMBUSTIBLE", precedence: 16 },
+  "4.1":       { type: "FLAMMABLE_SOLID",           precedence: 17 },
+  "8":         { type: "CORROSIVE",                 precedence: 20 },
+  COMBUSTIBLE: { type: "COMBUSTIBLE",               precedence: 30 },
+  "2.2":       { type: "NON_FLAMMABLE_GAS",         precedence: 40 },
+  "9":         { type: "CLASS_9",                   precedence: 50 },
 };
 
-// ─── Hazard precedence ────────────────────────────────────────────────────────
+const PIH_PLACARD = { type: "POISON_INHALATION_HAZARD" as const, precedence: 1 };
 
 /**
- * Given a list of UN numbers (current load + residue), return the single
- * worst-case placard that DOT requires on the vehicle.
- *
- * Rules (simplified for Class 3 petroleum):
- *  1. Flammable Gas (2.1) > Flammable Liquid (3) > Combustible
- *  2. Within Class 3: lower packing group wins (PG I > PG II > PG III)
- *  3. If multiple different UN numbers of the same class/PG: use DANGEROUS
- *     placard unless all are the same product.
+ * Placard for a class. Division 6.1 material that is poisonous by inhalation
+ * takes POISON INHALATION HAZARD instead of POISON.
  */
-export function worstCasePlacard(unNumbers: string[]): PlacardDef | null {
-  const defs = unNumbers
-    .map((u) => UN_PLACARD_MAP[u.toUpperCase()])
-    .filter((d): d is PlacardDef => d != null);
+export function placardForClass(cls: HazmatClass, inhalationHazard = false): { type: PlacardType; precedence: number } {
+  return cls === "6.1" && inhalationHazard ? PIH_PLACARD : PLACARD_FOR_CLASS[cls];
+}
 
-  if (defs.length === 0) return null;
+const PG_NUMBER = { I: 1, II: 2, III: 3 } as const;
+
+/** Placard def for one table row; within a class, lower packing group ranks first. */
+export function placardDefForEntry(entry: HazmatEntry): PlacardDef {
+  const p = placardForClass(entry.class, isInhalationHazard(entry));
+  const pg = entry.pg ? PG_NUMBER[entry.pg] : null;
+  return {
+    unNumber: entry.id,
+    productName: entry.name,
+    hazardClass: entry.class,
+    packingGroup: pg,
+    placardType: p.type,
+    precedence: p.precedence + (pg ?? 0),
+  };
+}
 
-  // Sort by precedence (ascending = most dangerous first)
-  defs.sort((a, b) => a.precedence - b.precedence);
-  return defs[0];
+export function placardDefForUn(unNumber: string | null | undefined): PlacardDef | null {
+  const entry = hazmatEntry(unNumber);
+  return entry ? placardDefForEntry(entry) : null;
 }
 
 // ─── Compartment residue logic ────────────────────────────────────────────────
@@ -91,6 +97,8 @@ export type CompartmentLastLoad = {
   un_number: string | null;
   planned_gallons: number;
   empty: boolean;
+  product_family?: ProductFamily | null;  // for switch-loading checks (utils/compatibility.ts)
+  dyed?: boolean | null;
 };
 
 /**
@@ -105,8 +113,9 @@ export type CompartmentLastLoad = {
  * UNLESS the current plan loads the SAME product into that compartment
  * (in which case the residue is the same material as the current load — no change).
  *
- * lastLoadLines comes from planned_snapshot.lines in load_log, which includes
- * comp_number, product_id, and un_number for every compartment that was loaded.
+ * lastLoadLines comes from trailer_compartment_state (hooks/useCompartmentState.ts):
+ * one row per compartment with its last product and UN number, dropped once the
+ * compartment is marked cleaned or purged.
  */
 export function residueCompartments(
   lastLoadLines: CompartmentLastLoad[],
@@ -124,14 +133,9 @@ export function residueCompartments(
 /**
  * All UN numbers present on the vehicle: current load + residue from all prior loads.
  *
- * lastLoadLines: planned_snapshot.lines from the most recent completed load_log row
- *   for this combo. Each line has { comp_number, product_id, un_number }.
- *   We track per-compartment residue, not per-load — so even if a comp was last
- *   loaded 3 loads ago, its product is still the residue until overwritten.
- *
- * For a complete residue history you would need to query each compartment's last
- * product across all load_log rows — for now we use the last completed load as a
- * pragmatic approximation (covers 99% of real-world cases for petroleum transport).
+ * lastLoadLines: residue rows from trailer_compartment_state. complete_load keeps
+ *   it current per compartment — a comp last loaded 3 loads ago still holds that
+ *   product — and it is the same on every device and driver of the trailer.
  */
 export function vehicleUnNumbers(
   currentCompPlan: Record<number, { empty: boolean; productId: string }>,
@@ -156,66 +160,111 @@ export function vehicleUnNumbers(
 }
 
 // ─── SVG placard generator ────────────────────────────────────────────────────
+// Every placard is drawn in a 300-unit viewBox: the diamond, the hazard symbol
+// in the top corner, then either the ID number in a white band (172.334),
+// the hazard text, or nothing, and the class number in the bottom corner.
+
+type PlacardSymbol = "flame" | "cylinder" | "skull" | "corrosive" | "oxidizer" | null;
+
+type PlacardStyle = {
+  bg: string;               // top half (whole diamond when `lower` is unset)
+  lower?: string;           // bottom half, for two-tone placards
+  pattern?: "combustStripes" | "solidStripes" | "class9Stripes";
+  border: string;           // inner border line
+  symbol: PlacardSymbol;
+  symbolColor: string;
+  textColor: string;        // hazard text
+  classNumColor: string;
+  hollowFlame?: boolean;    // flame outline with the background showing through
+  textRequired?: boolean;   // hazard text stays even on a class-number-only placard
+  label: string;
+};
 
-const PLACARD_STYLES: Record<PlacardType, {
-  bg: string; border: string; textColor: string;
-  classNumColor: string; symbol: string | null; label: string;
-}> = {
+const PLACARD_STYLES: Record<PlacardType, PlacardStyle> = {
   FLAMMABLE: {
-    bg: "#CC2229", border: "#ffffff", textColor: "#ffffff",
-    classNumColor: "#ffffff", symbol: "flame", label: "FLAMMABLE",
+    bg: "#CC2229", border: "#ffffff", symbol: "flame", symbolColor: "#ffffff", hollowFlame: true,
+    textColor: "#ffffff", classNumColor: "#ffffff", label: "FLAMMABLE",
   },
   COMBUSTIBLE: {
-    bg: "url(#combustStripes)", border: "#CC2229", textColor: "#CC2229",
-    classNumColor: "#CC2229", symbol: "flame", label: "COMBUSTIBLE",
+    bg: "#ffffff", pattern: "combustStripes", border: "#CC2229", symbol: "flame", symbolColor: "#ffffff", hollowFlame: true,
+    textColor: "#CC2229", classNumColor: "#CC2229", label: "COMBUSTIBLE",
   },
   FLAMMABLE_GAS: {
-    bg: "#CC2229", border: "#ffffff", textColor: "#ffffff",
-    classNumColor: "#ffffff", symbol: "flame", label: "FLAMMABLE GAS",
+    bg: "#CC2229", border: "#ffffff", symbol: "flame", symbolColor: "#ffffff", hollowFlame: true,
+    textColor: "#ffffff", classNumColor: "#ffffff", label: "FLAMMABLE GAS",
   },
   NON_FLAMMABLE_GAS: {
-    bg: "#2e8540", border: "#ffffff", textColor: "#ffffff",
-    classNumColor: "#ffffff", symbol: "cylinder", label: "NON-FLAMMABLE GAS",
+    bg: "#2e8540", border: "#ffffff", symbol: "cylinder", symbolColor: "#ffffff",
+    textColor: "#ffffff", classNumColor: "#ffffff", label: "NON-FLAMMABLE GAS",
   },
   POISON: {
-    bg: "#ffffff", border: "#000000", textColor: "#000000",
-    classNumColor: "#000000", symbol: "skull", label: "POISON",
+    bg: "#ffffff", border: "#000000", symbol: "skull", symbolColor: "#000000",
+    textColor: "#000000", classNumColor: "#000000", label: "POISON",
   },
   CORROSIVE: {
-    bg: "#000000", border: "#ffffff", textColor: "#ffffff",
-    classNumColor: "#ffffff", symbol: "corrosive", label: "CORROSIVE",
+    bg: "#ffffff", lower: "#000000", border: "#000000", symbol: "corrosive", symbolColor: "#000000",
+    textColor: "#ffffff", classNumColor: "#ffffff", label: "CORROSIVE",
+  },
+  POISON_GAS: {
+    bg: "#ffffff", border: "#000000", symbol: "skull", symbolColor: "#000000",
+    textColor: "#000000", classNumColor: "#000000", label: "POISON GAS",
+  },
+  POISON_INHALATION_HAZARD: {
+    bg: "#ffffff", border: "#000000", symbol: "skull", symbolColor: "#000000",
+    textColor: "#000000", classNumColor: "#000000", textRequired: true, label: "INHALATION HAZARD",
+  },
+  FLAMMABLE_SOLID: {
+    bg: "#ffffff", pattern: "solidStripes", border: "#000000", symbol: "flame", symbolColor: "#000000",
+    textColor: "#000000", classNumColor: "#000000", label: "FLAMMABLE SOLID",
+  },
+  SPONTANEOUSLY_COMBUSTIBLE: {
+    bg: "#ffffff", lower: "#CC2229", border: "#000000", symbol: "flame", symbolColor: "#000000",
+    textColor: "#000000", classNumColor: "#000000", label: "SPONTANEOUSLY COMBUSTIBLE",
+  },
+  DANGEROUS_WHEN_WET: {
+    bg: "#0072BC", border: "#ffffff", symbol: "flame", symbolColor: "#ffffff", hollowFlame: true,
+    textColor: "#ffffff", classNumColor: "#ffffff", label: "DANGEROUS WHEN WET",
+  },
+  OXIDIZER: {
+    bg: "#FFD100", border: "#000000", symbol: "oxidizer", symbolColor: "#000000",
+    textColor: "#000000", classNumColor: "#000000", label: "OXIDIZER",
+  },
+  ORGANIC_PEROXIDE: {
+    bg: "#CC2229", lower: "#FFD100", border: "#000000", symbol: "flame", symbolColor: "#ffffff",
+    textColor: "#000000", classNumColor: "#000000", label: "ORGANIC PEROXIDE",
+  },
+  CLASS_9: {
+    bg: "#ffffff", pattern: "class9Stripes", border: "#000000", symbol: null, symbolColor: "#000000",
+    textColor: "#000000", classNumColor: "#000000", label: "CLASS 9",
   },
   DANGEROUS: {
-    bg: "#ffffff", border: "#000000", textColor: "#000000",
-    classNumColor: "#000000", symbol: null, label: "DANGEROUS",
+    bg: "#ffffff", border: "#000000", symbol: null, symbolColor: "#000000",
+    textColor: "#000000", classNumColor: "#000000", textRequired: true, label: "DANGEROUS",
   },
 };
 
+/** A placard is 273 mm on a side (172.519(c)); the diamond spans 206 of the 300-unit viewBox. */
+export const PLACARD_SIDE_MM = 273;
+export const PLACARD_VIEWBOX = 300;
+export const PLACARD_SIDE_UNITS = 206;   // 2 × hs in generatePlacardSvg
+
 /**
- * Generate a DOT-standard placard SVG.
- * Layout + flame values tuned via interactive preview tool.
+ * Class or division number in the bottom corner (172.519(b)(4)): divisions of
+ * 2, 4 and 6 show the class alone; 5.1 and 5.2 keep the division.
  */
-export function generatePlacardSvg(
-  def: PlacardDef,
-  opts: { width?: number; height?: number } = {}
-): string {
-  const { width = 120, height = 120 } = opts;
-  const style = PLACARD_STYLES[def.placardType] ?? PLACARD_STYLES["FLAMMABLE"];
-  const hasStripes = def.placardType === "COMBUSTIBLE";
-  const classDisplay = (def.hazardClass === "COMBUSTIBLE" || def.hazardClass === "FLAMMABLE") ? "3" : def.hazardClass;
-  const unDigits = def.unNumber.replace(/^[A-Z]+/i, "");
-  const bg = hasStripes ? "url(#combustStripes)" : style.bg;
+export function placardClassNumber(def: PlacardDef): string {
+  const c = def.hazardClass;
+  if (c == null || def.placardType === "DANGEROUS") return "";
+  if (c === "COMBUSTIBLE" || c === "FLAMMABLE") return "3";
+  if (c === "5.1" || c === "5.2") return c;
+  return c.split(".")[0];
+}
 
-  // Locked layout values
-  const hs = 103, ob = 3, ihs = 94;
-  const by = 132, bh = 57, fs = 62, cy = 236;
-  const bandMid = by + bh / 2 + 2;
+// Locked flame values (tuned via preview tool)
+function flamePaths(): { outer: string; inner: string } {
   const cx = 150;
-
-  // Locked flame values (tuned via preview tool)
   const ft=33, fw=32, fh=80, co=11, ml=20, bs=0, ww=4;
   const ho=27, hr=62, hhr=61;
-  const bby=110, bbw=67, bbh=4;
 
   // Outer flame path
   const t=ft, w=fw, h=fh;
@@ -263,35 +312,195 @@ export function generatePlacardSvg(
     "C"+(cx+hco*1.1)+","+(ht+5)+" "+(cx+hco*.5)+","+(ht+11)+" "+(cx+1)+","+ht+" Z"
   ].join(" ");
 
-  const stripesDef = hasStripes
-    ? '<pattern id="combustStripes" patternUnits="userSpaceOnUse" width="12" height="12" patternTransform="rotate(45)">'
-      + '<rect width="12" height="12" fill="#ffffff"/><rect width="6" height="12" fill="#CC2229"/></pattern>'
+  return { outer: fo, inner: fi };
+}
+
+const DIAMOND = "150,4.3 295.7,150 150,295.7 4.3,150";
+const LOWER_HALF = "4.3,150 295.7,150 150,295.7";
+
+function symbolSvg(style: PlacardStyle): string {
+  const c = style.symbolColor;
+  switch (style.symbol) {
+    case "flame": {
+      const { outer, inner } = flamePaths();
+      return '<path d="' + outer + '" fill="' + c + '"/>'
+        + (style.hollowFlame ? '<path d="' + inner + '" fill="' + style.bg + '"/>' : "")
+        + '<rect x="116.5" y="110" width="67" height="4" rx="2" fill="' + c + '"/>';
+    }
+    case "oxidizer": {
+      // Flame over circle
+      const { outer } = flamePaths();
+      return '<g transform="translate(150,34) scale(0.82) translate(-150,-34)"><path d="' + outer + '" fill="' + c + '"/></g>'
+        + '<circle cx="150" cy="104" r="11" fill="none" stroke="' + c + '" stroke-width="6"/>'
+        + '<rect x="118" y="118" width="64" height="4" rx="2" fill="' + c + '"/>';
+    }
+    case "cylinder":
+      return '<g transform="rotate(-40 150 80)" fill="' + c + '">'
+        + '<rect x="137" y="46" width="26" height="72" rx="12"/>'
+        + '<rect x="145" y="36" width="10" height="12" rx="2"/>'
+        + '<rect x="141" y="31" width="18" height="6" rx="2"/>'
+        + '</g>';
+    case "skull":
+      return '<g stroke="' + c + '" stroke-width="8" stroke-linecap="round">'
+        + '<line x1="122" y1="92" x2="178" y2="120"/><line x1="178" y1="92" x2="122" y2="120"/></g>'
+        + '<ellipse cx="150" cy="70" rx="21" ry="19" fill="' + c + '"/>'
+        + '<rect x="139" y="80" width="22" height="16" rx="4" fill="' + c + '"/>'
+        + '<circle cx="142" cy="69" r="5.5" fill="' + style.bg + '"/><circle cx="158" cy="69" r="5.5" fill="' + style.bg + '"/>'
+        + '<path d="M150,76 l-3,6 h6 z" fill="' + style.bg + '"/>';
+    case "corrosive":
+      // Two test tubes dripping onto a bar and a hand
+      return '<g fill="' + c + '">'
+        + '<rect x="112" y="46" width="12" height="34" rx="5" transform="rotate(-35 118 63)"/>'
+        + '<rect x="176" y="46" width="12" height="34" rx="5" transform="rotate(35 182 63)"/>'
+        + '<circle cx="128" cy="90" r="3.5"/><circle cx="172" cy="90" r="3.5"/>'
+        + '<rect x="104" y="100" width="40" height="9" rx="1"/>'
+        + '<path d="M156,109 v-9 q0,-4 4,-4 h22 q6,0 6,6 v7 z"/>'
+        + '<rect x="92" y="118" width="116" height="5" rx="2"/>'
+        + '</g>';
+    default:
+      return "";
+  }
+}
+
+function patternDefs(style: PlacardStyle): string {
+  switch (style.pattern) {
+    case "combustStripes":
+      return '<pattern id="combustStripes" patternUnits="userSpaceOnUse" width="12" height="12" patternTransform="rotate(45)">'
+        + '<rect width="12" height="12" fill="#ffffff"/><rect width="6" height="12" fill="#CC2229"/></pattern>';
+    case "solidStripes":
+      return '<pattern id="solidStripes" patternUnits="userSpaceOnUse" width="30" height="300" x="0">'
+        + '<rect width="30" height="300" fill="#ffffff"/><rect width="15" height="300" fill="#CC2229"/></pattern>';
+    case "class9Stripes":
+      // Seven black stripes in the top half only
+      return '<pattern id="class9Stripes" patternUnits="userSpaceOnUse" width="40" height="300" x="-5">'
+        + '<rect width="40" height="300" fill="#ffffff"/><rect width="20" height="300" fill="#000000"/></pattern>';
+    default:
+      return "";
+  }
+}
+
+function fitText(text: string, y: number, color: string, size: number, maxWidth = 188): string {
+  // Arial Black runs about 0.68 em per capital
+  const fits = text.length * size * 0.68 <= maxWidth;
+  return '<text x="150" y="' + y + '" text-anchor="middle" dominant-baseline="middle"'
+    + ' font-family="Arial Black, Arial, sans-serif" font-weight="900"'
+    + ' font-size="' + size + '" fill="' + color + '"'
+    + (fits ? "" : ' textLength="' + maxWidth + '" lengthAdjust="spacingAndGlyphs"')
+    + '>' + text + '</text>';
+}
+
+/**
+ * Generate a DOT-standard placard SVG.
+ * Layout + flame values tuned via interactive preview tool.
+ *
+ *   showUnNumber (default: when the def has one)  ID number in the white band
+ *   showText     (default true)                   hazard text when there's no ID;
+ *                                                 false gives the class-number-only
+ *                                                 placard (172.519(b)(3) makes text optional)
+ */
+export function generatePlacardSvg(
+  def: PlacardDef,
+  opts: { width?: number | string; height?: number | string; showUnNumber?: boolean; showText?: boolean } = {}
+): string {
+  const { width = 120, height = 120, showText = true } = opts;
+  const style = PLACARD_STYLES[def.placardType] ?? PLACARD_STYLES["FLAMMABLE"];
+  const unDigits = def.unNumber.replace(/^[A-Z]+/i, "");
+  const showId = (opts.showUnNumber ?? true) && unDigits !== "";
+  const classNum = placardClassNumber(def);
+
+  // Locked layout values
+  const hs = 103, ob = 3, ihs = 94;
+  const by = 132, bh = 57, fs = 62, cy = 236;
+  const bandMid = by + bh / 2 + 2;
+
+  const fill = style.pattern ? "url(#" + style.pattern + ")" : style.bg;
+  // Vertical stripes are drawn on an unrotated diamond so they stay vertical
+  const upright = style.pattern === "solidStripes" || style.pattern === "class9Stripes";
+  const whiteGround = style.bg === "#ffffff" && !style.lower;
+
+  let middle = "";
+  if (def.placardType === "DANGEROUS") {
+    // Red triangles top and bottom, the word between two rules
+    middle = '<polygon points="150,12 100,62 200,62" fill="#CC2229"/>'
+      + '<polygon points="150,288 100,238 200,238" fill="#CC2229"/>'
+      + '<rect x="40" y="124" width="220" height="4" fill="#000000"/><rect x="40" y="172" width="220" height="4" fill="#000000"/>'
+      + fitText("DANGEROUS", 151, "#000000", 34, 210);
+  } else if (showId) {
+    middle = '<rect x="56" y="' + by + '" width="188" height="' + bh + '" rx="2" fill="#ffffff"'
+      + (whiteGround ? ' stroke="#000000" stroke-width="3"' : "") + '/>'
+      + '<text x="150" y="' + bandMid + '" text-anchor="middle" dominant-baseline="middle"'
+      + ' font-family="Arial Black, Arial, sans-serif" font-weight="900"'
+      + ' font-size="' + fs + '" fill="#000000" letter-spacing="-1">' + unDigits + '</text>';
+    // Text the placard can't drop (INHALATION HAZARD) moves under the band
+    if (style.textRequired) middle += fitText(style.label, 204, style.textColor, 15, 130);
+  } else if (showText || style.textRequired) {
+    const words = style.label.split(" ");
+    if (style.label.length > 12 && words.length > 1) {
+      const half = Math.ceil(words.length / 2);
+      middle = fitText(words.slice(0, half).join(" "), 146, style.textColor, 24, 200)
+        + fitText(words.slice(half).join(" "), 176, style.textColor, 24, 170);
+    } else {
+      middle = fitText(style.label, 160, style.textColor, 30, 200);
+    }
+  }
+
+  const classText = classNum
+    ? '<text x="150" y="' + cy + '" text-anchor="middle" dominant-baseline="middle"'
+      + ' font-family="Arial Black, Arial, sans-serif" font-weight="900"'
+      + ' font-size="26" fill="' + style.classNumColor + '">' + classNum + '</text>'
+      + (def.placardType === "CLASS_9" ? '<rect x="140" y="' + (cy + 14) + '" width="20" height="3" fill="' + style.classNumColor + '"/>' : "")
     : "";
 
+  const aria = style.label + " placard" + (showId ? " " + def.unNumber : "") + (classNum ? ", class " + classNum : "");
+
   return (
     '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 300 300"'
     + ' width="' + width + '" height="' + height + '"'
-    + ' role="img" aria-label="' + style.label + ' placard ' + def.unNumber + '">'
-    + "<defs>" + stripesDef + "</defs>"
+    + ' role="img" aria-label="' + aria + '">'
+    + "<defs>" + patternDefs(style) + "</defs>"
     + '<g transform="translate(150,150) rotate(45)">'
-    + '<rect x="-' + hs + '" y="-' + hs + '" width="' + (hs*2) + '" height="' + (hs*2) + '" rx="3" fill="' + bg + '"/>'
+    + '<rect x="-' + hs + '" y="-' + hs + '" width="' + (hs*2) + '" height="' + (hs*2) + '" rx="3" fill="' + (upright ? style.bg : fill) + '"/>'
     + '</g>'
+    + (upright ? '<polygon points="' + DIAMOND + '" fill="' + fill + '"/>' : "")
+    + (style.pattern === "class9Stripes" ? '<polygon points="' + LOWER_HALF + '" fill="#ffffff"/>' : "")
+    + (style.lower ? '<polygon points="' + LOWER_HALF + '" fill="' + style.lower + '"/>' : "")
     + '<g transform="translate(150,150) rotate(45)">'
-    + '<rect x="-' + hs + '" y="-' + hs + '" width="' + (hs*2) + '" height="' + (hs*2) + '" rx="3" fill="none" stroke="#ffffff" stroke-width="' + ob + '"/>'
+    + '<rect x="-' + hs + '" y="-' + hs + '" width="' + (hs*2) + '" height="' + (hs*2) + '" rx="3" fill="none" stroke="' + (whiteGround ? "#000000" : "#ffffff") + '" stroke-width="' + ob + '"/>'
     + '</g>'
     + '<g transform="translate(150,150) rotate(45)">'
-    + '<rect x="-' + ihs + '" y="-' + ihs + '" width="' + (ihs*2) + '" height="' + (ihs*2) + '" rx="2" fill="none" stroke="#ffffff" stroke-width="1.5"/>'
+    + '<rect x="-' + ihs + '" y="-' + ihs + '" width="' + (ihs*2) + '" height="' + (ihs*2) + '" rx="2" fill="none" stroke="' + style.border + '" stroke-width="1.5"/>'
     + '</g>'
-    + '<path d="' + fo + '" fill="#ffffff"/>'
-    + '<path d="' + fi + '" fill="' + style.bg + '"/>'
-    + '<rect x="' + (150 - bbw/2) + '" y="' + bby + '" width="' + bbw + '" height="' + bbh + '" rx="2" fill="#ffffff"/>'
-    + '<rect x="56" y="' + by + '" width="188" height="' + bh + '" rx="2" fill="#ffffff"/>'
-    + '<text x="150" y="' + bandMid + '" text-anchor="middle" dominant-baseline="middle"'
-    + ' font-family="Arial Black, Arial, sans-serif" font-weight="900"'
-    + ' font-size="' + fs + '" fill="#000000" letter-spacing="-1">' + unDigits + '</text>'
-    + '<text x="150" y="' + cy + '" text-anchor="middle" dominant-baseline="middle"'
+    + symbolSvg(style)
+    + middle
+    + classText
+    + '</svg>'
+  );
+}
+
+/** 172.332 orange panel, 400 × 160 mm; viewBox is millimetres. */
+export const ORANGE_PANEL_MM = { width: 400, height: 160 } as const;
+
+/**
+ * Orange ID number panel (172.332): black 15 mm border, digits 100 mm high.
+ * Arial's cap height is ~0.72 em, so font-size 140 draws ~100 mm digits; the
+ * four digits are stretched to 350 of the 370 mm inside the border.
+ * Width/height default to the panel's own proportions.
+ */
+export function generateOrangePanelSvg(
+  unNumber: string,
+  opts: { width?: number | string; height?: number | string } = {}
+): string {
+  const { width = 250, height = 100 } = opts;
+  const { width: w, height: h } = ORANGE_PANEL_MM;
+  const digits = unNumber.replace(/^[A-Z]+/i, "");
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ' + w + " " + h + '"'
+    + ' width="' + width + '" height="' + height + '"'
+    + ' role="img" aria-label="Identification number panel ' + unNumber + '">'
+    + '<rect x="7.5" y="7.5" width="' + (w - 15) + '" height="' + (h - 15) + '" fill="#FF7900" stroke="#000000" stroke-width="15"/>'
+    + '<text x="' + w / 2 + '" y="' + (h / 2 + 2) + '" text-anchor="middle" dominant-baseline="middle"'
     + ' font-family="Arial Black, Arial, sans-serif" font-weight="900"'
-    + ' font-size="26" fill="#ffffff">' + classDisplay + '</text>'
+    + ' font-size="140" textLength="350" lengthAdjust="spacingAndGlyphs" fill="#000000">' + digits + '</text>'
     + '</svg>'
   );
 }
@@ -313,8 +522,7 @@ export function placardDataUri(
   unNumber: string | null | undefined,
   opts?: { width?: number; height?: number; showUnNumber?: boolean }
 ): string | null {
-  if (!unNumber) return null;
-  const def = UN_PLACARD_MAP[unNumber.toUpperCase()];
+  const def = placardDefForUn(unNumber);
   if (!def) return null;
   return svgToDataUri(generatePlacardSvg(def, opts));
 }
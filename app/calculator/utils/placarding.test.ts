@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { vehiclePlacards } from "./placarding";
+import type { PlacardMaterial, PlacardingResult } from "./placarding";
+
+const types = (r: PlacardingResult) => r.placards.map((p) => p.placardType);
+const van = (unNumber: string, lbs: number, extra: Partial<PlacardMaterial> = {}): PlacardMaterial =>
+  ({ unNumber, lbs, bulk: false, ...extra });
+const tank = (compNumber: number, unNumber: string, extra: Partial<PlacardMaterial> = {}): PlacardMaterial =>
+  ({ unNumber, compNumber, lbs: 20_000, bulk: true, ...extra });
+
+describe("Table 1 (172.504(e))", () => {
+  it("placards Division 2.3 in any quantity", () => {
+    const r = vehiclePlacards([van("UN1017", 10)]);
+    expect(types(r)).toEqual(["POISON_GAS"]);
+    expect(r.placards[0].table).toBe(1);
+  });
+
+  it("placards Table 1 even when the Table 2 load is under 1,001 lb", () => {
+    const r = vehiclePlacards([van("UN1079", 5), van("UN1203", 400)]);
+    expect(types(r)).toEqual(["POISON_GAS"]);
+    expect(r.notes.some((n) => n.includes("not placarded"))).toBe(true);
+  });
+
+  it("requires the POISON INHALATION HAZARD subsidiary (172.505)", () => {
+    const r = vehiclePlacards([tank(1, "UN1052")]);
+    expect(types(r)).toEqual(["POISON_INHALATION_HAZARD", "CORROSIVE"]);
+    const pih = r.placards.find((p) => p.placardType === "POISON_INHALATION_HAZARD")!;
+    expect(pih.subsidiary).toBe(true);
+    expect(pih.unNumber).toBe("");
+    expect(r.placards.find((p) => p.placardType === "CORROSIVE")!.unNumber).toBe("UN1052");
+  });
+});
+
+describe("Table 2 1,001 lb exception (172.504(c))", () => {
+  it("doesn't placard 800 lb Class 8 + 150 lb Class 3 non-bulk", () => {
+    const r = vehiclePlacards([van("UN1760", 800), van("UN1203", 150)]);
+    expect(r.placards).toEqual([]);
+  });
+
+  it("placards at 1,001 lb, not at 1,000 lb", () => {
+    expect(vehiclePlacards([van("UN1203", 1000)]).placards).toEqual([]);
+    expect(types(vehiclePlacards([van("UN1203", 1001)]))).toEqual(["FLAMMABLE"]);
+  });
+
+  it("never applies to bulk", () => {
+    const r = vehiclePlacards([tank(1, "UN1203", { lbs: 50 })]);
+    expect(types(r)).toEqual(["FLAMMABLE"]);
+    expect(r.placards[0].unNumber).toBe("UN1203");
+  });
+});
+
+describe("DANGEROUS (172.504(b))", () => {
+  const mixed = [van("UN1203", 1200), van("UN1760", 600)];
+
+  it("lists each category unless DANGEROUS is preferred", () => {
+    const r = vehiclePlacards(mixed);
+    expect(types(r)).toEqual(["FLAMMABLE", "CORROSIVE"]);
+    expect(r.dangerousEligible).toBe(true);
+  });
+
+  it("replaces two or more Table 2 categories when preferred", () => {
+    const r = vehiclePlacards(mixed, { preferDangerous: true });
+    expect(types(r)).toEqual(["DANGEROUS"]);
+    expect(r.placards[0].table).toBeNull();
+  });
+
+  it("keeps a category with 2,205 lb or more from one facility", () => {
+    const r = vehiclePlacards(
+      [van("UN1760", 2500, { loadedAt: "A" }), van("UN1203", 400, { loadedAt: "A" })],
+      { preferDangerous: true }
+    );
+    expect(types(r).sort()).toEqual(["CORROSIVE", "DANGEROUS"]);
+  });
+
+  it("isn't available for a single category", () => {
+    const r = vehiclePlacards([van("UN1203", 1500)], { preferDangerous: true });
+    expect(r.dangerousEligible).toBe(false);
+    expect(types(r)).toEqual(["FLAMMABLE"]);
+  });
+
+  it("isn't available for bulk", () => {
+    const r = vehiclePlacards([tank(1, "UN1203"), tank(2, "UN1760")], { preferDangerous: true });
+    expect(r.dangerousEligible).toBe(false);
+    expect(types(r)).toEqual(["FLAMMABLE", "CORROSIVE"]);
+  });
+});
+
+describe("Class 3 / COMBUSTIBLE (172.504(f), 173.150(f))", () => {
+  it("lets FLAMMABLE stand in for COMBUSTIBLE on a cargo tank", () => {
+    const r = vehiclePlacards([tank(1, "UN1203"), tank(2, "UN1202"), tank(3, "NA1993")]);
+    expect(types(r)).toEqual(["FLAMMABLE"]);
+    expect(r.optional.map((p) => p.placardType)).toEqual(["COMBUSTIBLE"]);
+    expect(r.placards[0].unNumber).toBe("UN1203");
+    expect(r.sides.every((s) => s.panels.join() === "UN1202,NA1993")).toBe(true);
+  });
+
+  it("placards COMBUSTIBLE alone on a cargo tank", () => {
+    const r = vehiclePlacards([tank(1, "NA1993")]);
+    expect(types(r)).toEqual(["COMBUSTIBLE"]);
+    expect(r.placards[0].unNumber).toBe("NA1993");
+  });
+
+  it("leaves out non-bulk combustible liquid", () => {
+    const r = vehiclePlacards([van("NA1993", 5000)]);
+    expect(r.placards).toEqual([]);
+    expect(r.unknown).toEqual([]);
+  });
+});
+
+describe("residue (172.514(b))", () => {
+  it("placards an empty compartment as loaded", () => {
+    const r = vehiclePlacards([tank(2, "UN1203", { residue: true, lbs: 0 })]);
+    expect(types(r)).toEqual(["FLAMMABLE"]);
+    expect(r.placards[0].residueOnly).toBe(true);
+    expect(r.placards[0].unNumber).toBe("UN1203");
+  });
+
+  it("isn't residue-only once anything under it is loaded", () => {
+    const r = vehiclePlacards([tank(1, "UN1202"), tank(2, "UN1203", { residue: true, lbs: 0 })]);
+    expect(types(r)).toEqual(["FLAMMABLE"]);
+    expect(r.placards[0].residueOnly).toBe(false);
+    expect(r.placards[0].unNumber).toBe("UN1202");
+    expect(r.sides[0].panels).toEqual(["UN1203"]);
+  });
+});
+
+describe("vehiclePlacards", () => {
+  it("puts the same set on every side and end", () => {
+    const r = vehiclePlacards([tank(1, "UN1203")]);
+    expect(r.sides.map((s) => s.side)).toEqual(["front", "rear", "left", "right"]);
+    expect(r.sides.every((s) => s.placards === r.placards)).toBe(true);
+  });
+
+  it("picks the table row from the product name", () => {
+    const r = vehiclePlacards([tank(1, "NA1993", { name: "Dyed Diesel" })]);
+    expect(types(r)).toEqual(["FLAMMABLE"]);
+    expect(r.notes.some((n) => n.includes("other rows"))).toBe(false);
+  });
+
+  it("notes an ID whose rows placard differently", () => {
+    const r = vehiclePlacards([tank(1, "NA1993")]);
+    expect(r.notes.some((n) => n.startsWith("NA1993 placarded as \"Combustible liquid, n.o.s.\""))).toBe(true);
+  });
+
+  it("reports IDs missing from the table", () => {
+    expect(vehiclePlacards([tank(1, "UN9999")]).unknown).toEqual(["UN9999"]);
+  });
+});
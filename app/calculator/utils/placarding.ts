@@ -0,0 +1,289 @@
+// utils/placarding.ts
+// Vehicle placarding per 49 CFR 172.504 / 172.505 — pure, no React, no Supabase.
+//
+// Takes every material on board (current load and residue, with weights) and
+// returns the placards required on each side and each end, which ID number
+// each placard carries, and the orange panels for the rest (172.332, 172.336).
+//
+// Rules applied:
+//   Table 1 (2.3, 4.3, 6.1 PIH)  placarded in any quantity.
+//   Table 2 (everything else)    placarded when the vehicle's non-bulk Table 2
+//                                total is 1,001 lb or more (172.504(c)). The
+//                                exception never applies to bulk packagings —
+//                                a cargo tank compartment, or its residue
+//                                (172.514(b)), is always placarded.
+//   DANGEROUS (172.504(b))       may replace two or more Table 2 categories in
+//                                non-bulk packages, except a category with
+//                                2,205 lb or more loaded at one facility.
+//   172.504(f)                   FLAMMABLE may stand in for COMBUSTIBLE on a
+//                                cargo tank; NON-FLAMMABLE GAS isn't required
+//                                beside FLAMMABLE GAS; CLASS 9 isn't required
+//                                domestically, but a bulk ID still shows.
+//   172.505                      PIH and dangerous-when-wet subsidiaries are
+//                                placarded; other subsidiaries may be.
+//   173.150(f)                   combustible liquid in non-bulk packaging isn't
+//                                regulated and is left out.
+//
+// Worked examples (the regulation's, in this engine's terms):
+//   Cargo tank: C1 gasoline, C2 diesel (UN1202), C3 residue NA1993 combustible
+//     → FLAMMABLE bearing UN1203 on all four sides; orange panels UN1202, NA1993.
+//   Van, non-bulk: 800 lb Class 8 + 150 lb Class 3 = 950 lb
+//     → no placards (under 1,001 lb).
+//   Van, non-bulk: 1,200 lb Class 3 + 600 lb Class 8
+//     → FLAMMABLE + CORROSIVE, or DANGEROUS alone when preferred.
+//   Van, non-bulk: 2,500 lb Class 8 from one facility + 400 lb Class 3
+//     → with DANGEROUS preferred: CORROSIVE + DANGEROUS.
+//   Van, non-bulk: 10 lb Division 2.3
+//     → POISON GAS (Table 1, any quantity).
+
+import { hazmatMatch, isInhalationHazard, normalizeHazmatId } from "@/lib/hazmat";
+import type { HazmatClass, HazmatEntry, PackingGroup } from "@/lib/hazmat";
+import { placardDefForEntry, placardForClass } from "./placardUtils";
+import type { PlacardDef, PlacardType } from "./placardUtils";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PlacardMaterial = {
+  unNumber: string;
+  name?: string | null;          // narrows the table row (hazmatMatch)
+  pg?: PackingGroup | null;
+  lbs: number;                   // gross weight, packaging included
+  bulk: boolean;                 // cargo tank compartments are bulk
+  residue?: boolean;             // empty but not cleaned/purged
+  compNumber?: number | null;    // orders ID numbers along the sides
+  loadedAt?: string | null;      // loading facility, for the 2,205 lb DANGEROUS exception
+};
+
+export type VehicleSide = "front" | "rear" | "left" | "right";
+
+/** `unNumber` is the ID the placard itself bears — "" when it bears none. */
+export type RequiredPlacard = PlacardDef & {
+  table: 1 | 2 | null;           // 172.504(e) table; null for DANGEROUS
+  unNumbers: string[];           // every ID this placard covers
+  subsidiary: boolean;
+  residueOnly: boolean;          // only residue compartments call for it
+  rule: string;                  // why it's here, with the paragraph
+};
+
+export type PlacardSide = {
+  side: VehicleSide;
+  placards: RequiredPlacard[];
+  panels: string[];              // IDs on orange panels, in compartment order
+};
+
+export type PlacardingResult = {
+  placards: RequiredPlacard[];   // required, most hazardous first
+  optional: RequiredPlacard[];   // permitted, not required
+  sides: PlacardSide[];
+  dangerousEligible: boolean;    // 172.504(b) would allow DANGEROUS here
+  unknown: string[];             // IDs not in the Hazardous Materials Table
+  notes: string[];
+};
+
+export const TABLE_2_EXCEPTION_LBS = 1001;
+export const DANGEROUS_CATEGORY_LBS = 2205;
+
+const SIDES: VehicleSide[] = ["front", "rear", "left", "right"];
+
+/** 172.504(e) Table 1 — placarded in any quantity. */
+const TABLE_1: ReadonlySet<PlacardType> = new Set<PlacardType>([
+  "POISON_GAS", "DANGEROUS_WHEN_WET", "POISON_INHALATION_HAZARD",
+]);
+
+/** 172.505 — subsidiary placards that are required, not just allowed. */
+function requiredSubsidiary(cls: HazmatClass, entry: HazmatEntry): boolean {
+  return cls === "2.3" || cls === "4.3" || (cls === "6.1" && isInhalationHazard(entry));
+}
+
+type Resolved = PlacardMaterial & { entry: HazmatEntry; def: PlacardDef; order: number };
+
+type Draft = {
+  def: PlacardDef;
+  subsidiary: boolean;
+  materials: Resolved[];
+  rule: string;
+};
+
+function byCompOrder(a: Resolved, b: Resolved): number {
+  return a.order - b.order;
+}
+
+function finish(d: Draft): RequiredPlacard {
+  const table = d.def.placardType === "DANGEROUS" ? null : TABLE_1.has(d.def.placardType) ? 1 : 2;
+  const mats = [...d.materials].sort(byCompOrder);
+  return {
+    ...d.def,
+    unNumber: "",
+    table,
+    unNumbers: Array.from(new Set(mats.map((m) => m.entry.id))),
+    subsidiary: d.subsidiary,
+    residueOnly: mats.length > 0 && mats.every((m) => m.residue),
+    rule: d.rule,
+  };
+}
+
+/**
+ * Placards for everything on board. `preferDangerous` uses the DANGEROUS
+ * placard wherever 172.504(b) allows it.
+ */
+export function vehiclePlacards(
+  materials: PlacardMaterial[],
+  opts: { preferDangerous?: boolean } = {}
+): PlacardingResult {
+  const unknown: string[] = [];
+  const notes: string[] = [];
+  const resolved: Resolved[] = [];
+
+  materials.forEach((m, i) => {
+    const id = normalizeHazmatId(m.unNumber);
+    if (!id) return;
+    const match = hazmatMatch(id, { name: m.name, pg: m.pg });
+    if (!match) { if (!unknown.includes(id)) unknown.push(id); return; }
+    const { entry } = match;
+    // Rows that would placard differently (NA1993: combustible or Class 3)
+    const placards = new Set(match.candidates.map((e) => placardDefForEntry(e).placardType));
+    if (placards.size > 1) {
+      const note = `${id}${m.name ? ` (${m.name})` : ""} placarded as "${entry.name}" — the table has other rows for it. Name the product by its proper shipping name to confirm.`;
+      if (!notes.includes(note)) notes.push(note);
+    }
+    if (entry.class === "COMBUSTIBLE" && !m.bulk) return;
+    resolved.push({ ...m, entry, def: placardDefForEntry(entry), order: m.compNumber ?? 1000 + i });
+  });
+
+  const primary = new Map<PlacardType, Draft>();
+  const subsidiary = new Map<PlacardType, Draft>();
+  const add = (into: Map<PlacardType, Draft>, def: PlacardDef, m: Resolved, rule: string, sub = false) => {
+    const d = into.get(def.placardType);
+    if (d) {
+      d.materials.push(m);
+      if (def.precedence < d.def.precedence) d.def = def;
+    } else {
+      into.set(def.placardType, { def, subsidiary: sub, materials: [m], rule });
+    }
+  };
+
+  // 172.504(c): the non-bulk Table 2 total decides whether any of it is placarded.
+  const nonBulkTable2Lbs = resolved
+    .filter((m) => !m.bulk && !TABLE_1.has(m.def.placardType))
+    .reduce((s, m) => s + Math.max(0, m.lbs), 0);
+  const nonBulkTable2Exempt = nonBulkTable2Lbs > 0 && nonBulkTable2Lbs < TABLE_2_EXCEPTION_LBS;
+  if (nonBulkTable2Exempt) {
+    notes.push(`Non-bulk Table 2 materials total ${Math.round(nonBulkTable2Lbs).toLocaleString()} lb — under ${TABLE_2_EXCEPTION_LBS.toLocaleString()} lb, not placarded (172.504(c)).`);
+  }
+
+  for (const m of resolved) {
+    const t1 = TABLE_1.has(m.def.placardType);
+    if (t1) add(primary, m.def, m, "Table 1 — any quantity (172.504(e))");
+    else if (m.bulk) add(primary, m.def, m, m.residue ? "Bulk residue — placarded as loaded (172.514(b))" : "Bulk packaging (172.504(c))");
+    else if (!nonBulkTable2Exempt) add(primary, m.def, m, `Non-bulk Table 2 total ${TABLE_2_EXCEPTION_LBS.toLocaleString()} lb or more (172.504(c))`);
+
+    for (const label of m.entry.labels) {
+      if (label === m.entry.class) continue;
+      const cls = label as HazmatClass;
+      const p = placardForClass(cls, cls === "6.1" && isInhalationHazard(m.entry));
+      const def: PlacardDef = { ...m.def, hazardClass: cls, placardType: p.type, precedence: p.precedence };
+      add(subsidiary, def, m, "", true);
+    }
+  }
+
+  const optional: Draft[] = [];
+
+  // 172.504(b): DANGEROUS for two or more Table 2 categories in non-bulk packages.
+  const nonBulkCategories = Array.from(primary.values()).filter((d) =>
+    !TABLE_1.has(d.def.placardType) && d.materials.every((m) => !m.bulk)
+  );
+  const dangerousEligible = nonBulkCategories.length >= 2;
+  if (dangerousEligible && opts.preferDangerous) {
+    const replaced: Draft[] = [];
+    for (const d of nonBulkCategories) {
+      const byFacility = new Map<string, number>();
+      for (const m of d.materials) {
+        const k = m.loadedAt ?? "";
+        byFacility.set(k, (byFacility.get(k) ?? 0) + Math.max(0, m.lbs));
+      }
+      const heavy = Array.from(byFacility.values()).some((lbs) => lbs >= DANGEROUS_CATEGORY_LBS);
+      if (heavy) {
+        notes.push(`${d.def.placardType.replace(/_/g, " ")} kept — ${DANGEROUS_CATEGORY_LBS.toLocaleString()} lb or more loaded at one facility (172.504(b)).`);
+      } else {
+        replaced.push(d);
+      }
+    }
+    if (replaced.length > 0) {
+      for (const d of replaced) primary.delete(d.def.placardType);
+      primary.set("DANGEROUS", {
+        def: {
+          unNumber: "",
+          productName: "Mixed load",
+          hazardClass: null,
+          packingGroup: null,
+          placardType: "DANGEROUS",
+          precedence: 60,
+        },
+        subsidiary: false,
+        materials: replaced.flatMap((d) => d.materials),
+        rule: "Two or more Table 2 categories, non-bulk (172.504(b))",
+      });
+    }
+  }
+
+  // 172.504(f): FLAMMABLE in place of COMBUSTIBLE on a cargo tank.
+  const flammable = primary.get("FLAMMABLE");
+  const combustible = primary.get("COMBUSTIBLE");
+  if (flammable && combustible && combustible.materials.every((m) => m.bulk)) {
+    flammable.materials.push(...combustible.materials);
+    primary.delete("COMBUSTIBLE");
+    optional.push({ ...combustible, rule: "FLAMMABLE placard used in place of COMBUSTIBLE (172.504(f))" });
+  }
+
+  // 172.504(f): NON-FLAMMABLE GAS isn't required beside FLAMMABLE GAS.
+  const nonFlamGas = primary.get("NON_FLAMMABLE_GAS");
+  if (nonFlamGas && primary.has("FLAMMABLE_GAS")) {
+    primary.delete("NON_FLAMMABLE_GAS");
+    optional.push({ ...nonFlamGas, rule: "Not required with FLAMMABLE GAS displayed (172.504(f))" });
+  }
+
+  // 172.504(f): no CLASS 9 placard domestically.
+  const class9 = primary.get("CLASS_9");
+  if (class9) {
+    primary.delete("CLASS_9");
+    optional.push({ ...class9, rule: "Not required in domestic transportation (172.504(f))" });
+  }
+
+  // Subsidiaries: drop any that duplicate a primary placard (172.505).
+  const requiredSubs: Draft[] = [];
+  for (const d of subsidiary.values()) {
+    if (primary.has(d.def.placardType)) continue;
+    const required = d.materials.some((m) => requiredSubsidiary(d.def.hazardClass as HazmatClass, m.entry));
+    if (required) requiredSubs.push({ ...d, rule: "Required subsidiary (172.505)" });
+    else optional.push({ ...d, rule: "Subsidiary hazard — optional (172.505)" });
+  }
+
+  const byPrecedence = (a: RequiredPlacard, b: RequiredPlacard) => a.precedence - b.precedence;
+  const placards = [...Array.from(primary.values()).map(finish), ...requiredSubs.map(finish)].sort(byPrecedence);
+
+  // ID numbers: each bulk ID on its primary placard when one is free, the rest
+  // on orange panels. Never on DANGEROUS or subsidiary placards (172.334(a)).
+  const bulkIds: string[] = [];
+  for (const m of [...resolved].sort(byCompOrder)) {
+    if (m.bulk && !bulkIds.includes(m.entry.id)) bulkIds.push(m.entry.id);
+  }
+  const onPlacard = new Set<string>();
+  for (const p of placards) {
+    if (p.subsidiary || p.placardType === "DANGEROUS") continue;
+    const id = bulkIds.find((u) => p.unNumbers.includes(u) && !onPlacard.has(u));
+    if (id) { p.unNumber = id; onPlacard.add(id); }
+  }
+  const panels = bulkIds.filter((u) => !onPlacard.has(u));
+
+  if (placards.length > 0) notes.push("Each placard goes on each side and each end (172.504(a)).");
+  if (bulkIds.length > 1) notes.push("ID numbers along the sides follow compartment order (172.336(c)).");
+
+  return {
+    placards,
+    optional: optional.map(finish).sort(byPrecedence),
+    sides: SIDES.map((side) => ({ side, placards, panels })),
+    dangerousEligible,
+    unknown,
+    notes,
+  };
+}
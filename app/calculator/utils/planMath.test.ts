@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import { backCorrectApiTo60, forwardCorrectApiFrom60, OFFLOAD_MARGIN_LBS, optimizePlan, proposeOffload } from "./planMath";
+import type { OffloadComp, OptimizerComp, OptimizerResult } from "../types";
+
+describe("forwardCorrectApiFrom60", () => {
+  it("reads lighter when warm", () => {
+    expect(forwardCorrectApiFrom60(35, 85, 0.00046, "refined")).toBeGreaterThan(35);
+  });
+
+  it("round-trips through backCorrectApiTo60", () => {
+    for (const commodity of ["refined", null] as const) {
+      const observed = forwardCorrectApiFrom60(35, 85, 0.00046, commodity);
+      expect(backCorrectApiTo60(observed, 85, 0.00046, commodity), String(commodity)).toBeCloseTo(35, 4);
+    }
+  });
+
+  it("leaves an API at 60°F unchanged", () => {
+    expect(forwardCorrectApiFrom60(35, 60, 0.00046, "refined")).toBeCloseTo(35, 6);
+  });
+});
+
+const comp = (compNumber: number, maxGallons: number, extra: Partial<OptimizerComp> = {}): OptimizerComp =>
+  ({ compNumber, maxGallons, position: 0, productId: "diesel", lbsPerGal: 7, ...extra });
+
+/** Gallons per compartment, by compNumber. */
+const gallons = (r: OptimizerResult) => Object.fromEntries(r.rows.map((row) => [row.comp_number, row.planned_gallons]));
+
+const lbsOn = (r: OptimizerResult, comps: OptimizerComp[], key: "steer" | "drive" | "trailer") =>
+  r.rows.reduce((s, row) => {
+    const c = comps.find((x) => x.compNumber === row.comp_number)!;
+    return s + row.planned_gallons * c.lbsPerGal * (c.axleFactors?.[key] ?? 0);
+  }, 0);
+
+describe("optimizePlan", () => {
+  it("fills every compartment when weight allows", () => {
+    const r = optimizePlan({ comps: [comp(1, 3000), comp(2, 2000)], payloadLbsMax: 80_000 });
+    expect(r.feasible).toBe(true);
+    expect(gallons(r)).toEqual({ 1: 3000, 2: 2000 });
+    expect(r.binding.map((b) => b.key)).toEqual(["capacity"]);
+  });
+
+  it("stops at the payload limit without overfilling a compartment", () => {
+    const comps = [comp(1, 4000), comp(2, 4000, { lbsPerGal: 6 }), comp(3, 1000)];
+    const r = optimizePlan({ comps, payloadLbsMax: 40_000 });
+    expect(r.totalLbs).toBeCloseTo(40_000, 0);
+    for (const c of comps) expect(gallons(r)[c.compNumber]).toBeLessThanOrEqual(c.maxGallons + 1e-6);
+    // The lighter product is worth more gallons per pound
+    expect(gallons(r)[2]).toBeCloseTo(4000, 1);
+    expect(r.binding.map((b) => b.key)).toEqual(["payload"]);
+  });
+
+  it("keeps each axle group under its limit", () => {
+    const comps = [
+      comp(1, 4000, { axleFactors: { steer: 0.1, drive: 0.7, trailer: 0.2 } }),
+      comp(2, 4000, { axleFactors: { steer: 0, drive: 0.1, trailer: 0.9 } }),
+    ];
+    const axleGroups = [{ key: "drive" as const, label: "Drive axles", tareLbs: 12_000, limitLbs: 34_000 }];
+    const r = optimizePlan({ comps, payloadLbsMax: 60_000, axleGroups });
+    expect(r.feasible).toBe(true);
+    expect(lbsOn(r, comps, "drive")).toBeLessThanOrEqual(22_000 + 1e-3);
+    expect(r.binding.map((b) => b.key)).toContain("axle:drive");
+  });
+
+  it("delivers an order exactly when its minimum equals its cap", () => {
+    const comps = [comp(1, 3000), comp(2, 3000), comp(3, 3000, { productId: "gas", lbsPerGal: 6.2 })];
+    const products = [
+      { productId: "diesel", minGallons: 4500, maxGallons: 4500 },
+      { productId: "gas", minGallons: 2500, maxGallons: 2500 },
+    ];
+    const r = optimizePlan({ comps, payloadLbsMax: 80_000, products });
+    const g = gallons(r);
+    expect(g[1] + g[2]).toBeCloseTo(4500, 3);
+    expect(g[3]).toBeCloseTo(2500, 3);
+  });
+
+  it("handles a degenerate vertex where payload and capacity bind together", () => {
+    const r = optimizePlan({ comps: [comp(1, 2000), comp(2, 2000), comp(3, 0)], payloadLbsMax: 28_000 });
+    expect(r.feasible).toBe(true);
+    expect(gallons(r)).toEqual({ 1: 2000, 2: 2000, 3: 0 });
+    expect(r.binding.map((b) => b.key).sort()).toEqual(["capacity", "payload"]);
+  });
+
+  it("holds compartment minimums", () => {
+    const comps = [comp(1, 3000, { minGallons: 2500 }), comp(2, 3000)];
+    const r = optimizePlan({ comps, payloadLbsMax: 21_000 });
+    expect(gallons(r)[1]).toBeGreaterThanOrEqual(2500 - 1e-6);
+    expect(r.totalLbs).toBeCloseTo(21_000, 0);
+  });
+
+  it("explains an order the payload can't carry", () => {
+    const r = optimizePlan({
+      comps: [comp(1, 4000), comp(2, 4000)], payloadLbsMax: 49_000,
+      products: [{ productId: "diesel", minGallons: 7500 }],
+    });
+    expect(r.feasible).toBe(false);
+    expect(r.rows).toEqual([]);
+    expect(r.binding[0]).toMatchObject({ kind: "payload", overBy: 3500 });
+  });
+
+  it("explains structural problems before solving", () => {
+    const unassigned = optimizePlan({
+      comps: [comp(1, 4000)], payloadLbsMax: 50_000,
+      products: [{ productId: "gas", label: "Gasoline", minGallons: 1000 }],
+    });
+    expect(unassigned.binding[0]).toMatchObject({ kind: "unassigned", overBy: 1000 });
+
+    const tooSmall = optimizePlan({ comps: [comp(1, 1000, { minGallons: 1200 })], payloadLbsMax: 50_000 });
+    expect(tooSmall.binding[0]).toMatchObject({ kind: "comp_min", overBy: 200 });
+  });
+
+  it("flags volumes that conflict with each other", () => {
+    const r = optimizePlan({
+      comps: [comp(1, 4000, { minGallons: 3000 })], payloadLbsMax: 50_000,
+      products: [{ productId: "diesel", minGallons: 0, maxGallons: 2000 }],
+    });
+    expect(r.feasible).toBe(false);
+    expect(r.binding[0].key).toBe("volumes");
+  });
+
+  it("returns an empty plan for no compartments", () => {
+    expect(optimizePlan({ comps: [], payloadLbsMax: 50_000 })).toMatchObject({ feasible: true, rows: [], totalGallons: 0 });
+  });
+});
+
+describe("proposeOffload", () => {
+  const aboard = (compNumber: number, gallons: number, extra: Partial<OffloadComp> = {}): OffloadComp =>
+    ({ compNumber, productId: "diesel", gallons, lbsPerGal: 7, axleFactors: null, ...extra });
+
+  it("proposes nothing when legal", () => {
+    expect(proposeOffload({ comps: [aboard(1, 3000)], overGrossLbs: -500, axleGroups: [] }))
+      .toEqual({ feasible: true, lines: [], totalGallons: 0, totalLbs: 0, reason: null });
+  });
+
+  it("clears the gross overage plus the margin in whole gallons", () => {
+    const p = proposeOffload({ comps: [aboard(1, 3000), aboard(2, 3000)], overGrossLbs: 600, axleGroups: [] });
+    expect(p.feasible).toBe(true);
+    expect(p.totalGallons).toBe(Math.ceil((600 + OFFLOAD_MARGIN_LBS) / 7));
+    expect(p.totalLbs).toBeGreaterThanOrEqual(600 + OFFLOAD_MARGIN_LBS);
+    expect(p.lines).toHaveLength(1);
+  });
+
+  it("takes the heavier product first", () => {
+    const p = proposeOffload({ comps: [aboard(1, 3000, { lbsPerGal: 6.2 }), aboard(2, 3000)], overGrossLbs: 700, axleGroups: [] });
+    expect(p.lines.map((l) => l.compNumber)).toEqual([2]);
+  });
+
+  it("offloads from the compartment over the heavy axle group", () => {
+    const comps = [
+      aboard(1, 3000, { axleFactors: { steer: 0.1, drive: 0.8, trailer: 0.1 } }),
+      aboard(2, 3000, { axleFactors: { steer: 0, drive: 0.1, trailer: 0.9 } }),
+    ];
+    const p = proposeOffload({ comps, overGrossLbs: 0, axleGroups: [
+      { key: "drive", label: "Drive", overLbs: 800 },
+      { key: "trailer", label: "Trailer", overLbs: -2000 },
+    ] });
+    expect(p.feasible).toBe(true);
+    const driveOff = p.lines.reduce((s, l) => s + l.lbs * comps.find((c) => c.compNumber === l.compNumber)!.axleFactors!.drive, 0);
+    expect(driveOff).toBeGreaterThanOrEqual(800 + OFFLOAD_MARGIN_LBS - 1e-6);
+    expect(p.lines.map((l) => l.compNumber)).toEqual([1]);
+  });
+
+  it("says so when the overage is more than the product aboard", () => {
+    const p = proposeOffload({ comps: [aboard(1, 100)], overGrossLbs: 5000, axleGroups: [] });
+    expect(p.feasible).toBe(false);
+    expect(p.reason).toMatch(/more than the product aboard/);
+  });
+
+  it("can't clear an axle group that offloading only makes worse", () => {
+    // Product behind the rear axle lifts the steer axle; pumping it off loads steer
+    const p = proposeOffload({
+      comps: [aboard(1, 3000, { axleFactors: { steer: -0.1, drive: 0.3, trailer: 0.8 } })],
+      overGrossLbs: 0,
+      axleGroups: [{ key: "steer", label: "Steer", overLbs: 300 }],
+    });
+    expect(p.feasible).toBe(false);
+    expect(p.reason).toMatch(/Steer/);
+  });
+
+  it("has nothing to offload from an empty trailer", () => {
+    expect(proposeOffload({ comps: [aboard(1, 0)], overGrossLbs: 200, axleGroups: [] }))
+      .toMatchObject({ feasible: false, reason: "No product aboard to offload" });
+  });
+});
@@ -1,7 +1,11 @@
 // utils/planMath.ts
 // Pure planning math — no React, no Supabase. Easy to unit test.
 
-import type { PlanCalcRow, PlanRow } from "../types";
+import { api60FromObserved, apiObservedFrom60, vcfAtTemp } from "./vcf";
+import type {
+  OffloadInput, OffloadProposal, OptimizerComp, OptimizerConstraint, OptimizerInput, OptimizerResult,
+  PlanCalcRow, PlanRow, VcfCommodity,
+} from "../types";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -26,16 +30,34 @@ export const TILT_GAIN = 0.85;
  * it reflects the actual product in that tank on that day. We back-correct it
  * to 60°F so we can compare apples-to-apples and forward-correct to any load temp.
  *
- * Formula: API_60 = API_observed + alpha * (T_observed - 60)
+ * With a commodity group: API MPMS 11.1 Table 5A/5B/5D (see utils/vcf.ts).
+ * Without one (legacy products): API_60 = API_observed + alpha * (T_observed - 60)
  */
 export function backCorrectApiTo60(
   lastApi: number,       // observed API at lastTempF
   lastTempF: number,     // temperature at which lastApi was observed
-  alphaPerF: number      // thermal expansion coefficient (from products table)
+  alphaPerF: number,     // thermal expansion coefficient (from products table)
+  commodity?: VcfCommodity | null
 ): number {
+  if (commodity) return api60FromObserved(commodity, lastApi, lastTempF);
   return lastApi + alphaPerF * (lastTempF - 60);
 }
 
+/**
+ * Forward-correct an API at 60°F to what a hydrometer would read at tempF —
+ * the inverse of backCorrectApiTo60. Used to store a BOL's API as an observed
+ * reading at the BOL temperature, so last_temp_f is always a real temperature.
+ */
+export function forwardCorrectApiFrom60(
+  api60: number,
+  tempF: number,
+  alphaPerF: number,
+  commodity?: VcfCommodity | null
+): number {
+  if (commodity) return apiObservedFrom60(commodity, api60, tempF);
+  return api60 - alphaPerF * (tempF - 60);
+}
+
 /**
  * Compute lbs/gallon at a given load temperature using API gravity + thermal expansion.
  *
@@ -45,22 +67,60 @@ export function backCorrectApiTo60(
  *   alphaPerF — thermal expansion coefficient (from products.alpha_per_f)
  *   tempF     — the load temperature set by the driver on the slider
  *
- * Formula (ASTM D1250 approximation):
+ * Formula:
  *   SG_60  = 141.5 / (API_60 + 131.5)
  *   rho_60 = SG_60 * 8.345404          (lbs/gal at 60°F, water = 8.345404)
- *   rho_T  = rho_60 / (1 + alpha * (T - 60))
+ *   rho_T  = rho_60 * VCF(T)           (API MPMS 11.1, when the product has a commodity group)
+ *   rho_T  = rho_60 / (1 + alpha * (T - 60))   (legacy single-alpha approximation otherwise)
  */
 export function lbsPerGallonAtTemp(
   api60: number,
   alphaPerF: number,
-  tempF: number
+  tempF: number,
+  commodity?: VcfCommodity | null
 ): number {
   const sg60 = 141.5 / (api60 + 131.5);
   const rho60 = sg60 * 8.345404; // lbs/gal at 60°F
+  if (commodity) return rho60 * vcfAtTemp(commodity, api60, tempF);
   const rhoT = rho60 / (1 + alphaPerF * (tempF - 60));
   return rhoT;
 }
 
+/**
+ * Volume correction factor (net ÷ gross) at tempF — the factor printed on the BOL.
+ * Same table / approximation as lbsPerGallonAtTemp, so net gal × rho_60 = lbs.
+ * Rounded to 5 decimals like the published tables.
+ */
+export function vcfForProduct(
+  api60: number,
+  alphaPerF: number,
+  tempF: number,
+  commodity?: VcfCommodity | null
+): number {
+  if (commodity) return vcfAtTemp(commodity, api60, tempF);
+  return Math.round(1e5 / (1 + alphaPerF * (tempF - 60))) / 1e5;
+}
+
+/**
+ * API_60 the planner should use for a product: the driver-observed
+ * last_api back-corrected to 60°F when present, else the static api_60.
+ */
+export function bestApi60(
+  api60Ref: number,
+  alphaPerF: number,
+  lastApi?: number | null,
+  lastTempF?: number | null,
+  commodity?: VcfCommodity | null
+): number {
+  if (
+    lastApi != null && Number.isFinite(lastApi) &&
+    lastTempF != null && Number.isFinite(lastTempF)
+  ) {
+    return backCorrectApiTo60(lastApi, lastTempF, alphaPerF, commodity);
+  }
+  return api60Ref;
+}
+
 /**
  * Best-available lbs/gal for a product at a given load temperature.
  *
@@ -76,18 +136,36 @@ export function bestLbsPerGallon(
   alphaPerF: number,         // products.alpha_per_f
   tempF: number,             // driver's current load temp slider
   lastApi?: number | null,   // terminal_products.last_api  (observed, nullable)
-  lastTempF?: number | null  // terminal_products.last_temp_f (nullable)
+  lastTempF?: number | null, // terminal_products.last_temp_f (nullable)
+  commodity?: VcfCommodity | null  // products.vcf_commodity
 ): number {
-  // Use driver-observed API if we have both fields and they're valid numbers
-  if (
-    lastApi != null && Number.isFinite(lastApi) &&
-    lastTempF != null && Number.isFinite(lastTempF)
-  ) {
-    const api60Effective = backCorrectApiTo60(lastApi, lastTempF, alphaPerF);
-    return lbsPerGallonAtTemp(api60Effective, alphaPerF, tempF);
-  }
-  // Fallback to static reference
-  return lbsPerGallonAtTemp(api60Ref, alphaPerF, tempF);
+  const api60Effective = bestApi60(api60Ref, alphaPerF, lastApi, lastTempF, commodity);
+  return lbsPerGallonAtTemp(api60Effective, alphaPerF, tempF, commodity);
+}
+
+// ─── Thermal headspace ────────────────────────────────────────────────────────
+
+/** Upper bound for any headspace, manual or computed. */
+export const HEADSPACE_MAX_PCT = 0.3;
+
+/** Assumed warm-up after loading when there's no forecast to go on. */
+export const THERMAL_FALLBACK_RISE_F = 10;
+
+/**
+ * Outage needed so product loaded at loadTempF still fits the shell at hotTempF.
+ *
+ *   V_hot = V_load * (1 + alpha * (T_hot - T_load))
+ *   V_hot <= capacity  →  max fill = 1 / (1 + alpha * ΔT)
+ *   outage = 1 - max fill = alpha*ΔT / (1 + alpha*ΔT)
+ *
+ * alpha is the same per-°F coefficient used by lbsPerGallonAtTemp.
+ * Returns 0 when the product won't warm after loading.
+ */
+export function thermalOutagePct(alphaPerF: number, loadTempF: number, hotTempF: number): number {
+  const dT = hotTempF - loadTempF;
+  if (!Number.isFinite(alphaPerF) || !Number.isFinite(dT) || dT <= 0 || alphaPerF <= 0) return 0;
+  const growth = alphaPerF * dT;
+  return Math.min(HEADSPACE_MAX_PCT, growth / (1 + growth));
 }
 
 // ─── CG bias ──────────────────────────────────────────────────────────────────
@@ -123,6 +201,7 @@ type AllocComp = {
   position: number;
   lbsPerGal: number;
   productId: string;
+  tempF?: number;
   weight: number;
 };
 
@@ -145,6 +224,7 @@ export function allocateWithCaps(
     lbsPerGal: c.lbsPerGal,
     position: c.position,
     productId: c.productId,
+    tempF: c.tempF,
     weight: c.weight,
   }));
 
@@ -189,6 +269,7 @@ export function planForGallons(
     position: number;
     lbsPerGal: number;
     productId: string;
+    tempF?: number;
   }[],
   bias: number
 ): PlanCalcRow[] {
@@ -204,3 +285,387 @@ export function planForGallons(
   rows.sort((a, b) => a.comp_number - b.comp_number);
   return rows;
 }
+
+// ─── Linear program ───────────────────────────────────────────────────────────
+
+const LP_EPS = 1e-9;
+const LP_MAX_PIVOTS = 500;
+
+type LpResult =
+  | { status: "optimal"; x: number[]; value: number }
+  | { status: "infeasible" }
+  | { status: "unbounded" };
+
+/**
+ * maximize c·x  subject to  A x <= b,  x >= 0
+ *
+ * Two-phase tableau simplex with Bland's rule — plenty for a trailer's
+ * handful of compartments. Rows with b < 0 (i.e. ">=" constraints) get an
+ * artificial variable and are satisfied in phase 1 before c is optimized.
+ */
+function solveLp(c: number[], A: number[][], b: number[]): LpResult {
+  const m = A.length;
+  const n = c.length;
+  const artRows = b.map((v, i) => (v < 0 ? i : -1)).filter((i) => i >= 0);
+  const nArt = artRows.length;
+  const rhs = n + m + nArt;
+  const width = rhs + 1;
+
+  const T: number[][] = [];
+  const basis: number[] = [];
+  let art = 0;
+  for (let i = 0; i < m; i++) {
+    const sign = b[i] < 0 ? -1 : 1;
+    const row = new Array<number>(width).fill(0);
+    for (let j = 0; j < n; j++) row[j] = sign * (A[i][j] ?? 0);
+    row[n + i] = sign;                       // slack (+1) or surplus (-1)
+    row[rhs] = sign * b[i];
+    if (sign < 0) {
+      row[n + m + art] = 1;
+      basis.push(n + m + art);
+      art++;
+    } else {
+      basis.push(n + i);
+    }
+    T.push(row);
+  }
+
+  const pivot = (z: number[], r: number, col: number) => {
+    const p = T[r][col];
+    for (let j = 0; j < width; j++) T[r][j] /= p;
+    for (let i = 0; i < m; i++) {
+      if (i === r) continue;
+      const f = T[i][col];
+      if (Math.abs(f) > LP_EPS) for (let j = 0; j < width; j++) T[i][j] -= f * T[r][j];
+    }
+    const fz = z[col];
+    if (Math.abs(fz) > LP_EPS) for (let j = 0; j < width; j++) z[j] -= fz * T[r][j];
+    basis[r] = col;
+  };
+
+  // Reduced-cost row: z[j] = c_j - c_B B^-1 A_j, z[rhs] = -objective.
+  const reducedCosts = (cost: number[]) => {
+    const z = new Array<number>(width).fill(0);
+    for (let j = 0; j < cost.length; j++) z[j] = cost[j];
+    for (let i = 0; i < m; i++) {
+      const f = z[basis[i]];
+      if (Math.abs(f) > LP_EPS) for (let j = 0; j < width; j++) z[j] -= f * T[i][j];
+    }
+    return z;
+  };
+
+  const optimize = (z: number[], colLimit: number): boolean => {
+    for (let iter = 0; iter < LP_MAX_PIVOTS; iter++) {
+      let col = -1;
+      for (let j = 0; j < colLimit; j++) if (z[j] > LP_EPS) { col = j; break; }
+      if (col < 0) return true;
+      let r = -1;
+      let best = Infinity;
+      for (let i = 0; i < m; i++) {
+        if (T[i][col] <= LP_EPS) continue;
+        const ratio = T[i][rhs] / T[i][col];
+        if (ratio < best - LP_EPS || (Math.abs(ratio - best) <= LP_EPS && r >= 0 && basis[i] < basis[r])) {
+          best = ratio;
+          r = i;
+        }
+      }
+      if (r < 0) return false;
+      pivot(z, r, col);
+    }
+    return true;
+  };
+
+  // Phase 1 — drive every artificial to zero.
+  if (nArt > 0) {
+    const cost1 = new Array<number>(rhs).fill(0);
+    for (let k = 0; k < nArt; k++) cost1[n + m + k] = -1;
+    const z1 = reducedCosts(cost1);
+    optimize(z1, rhs);
+    const scale = Math.max(1, ...b.map((v) => Math.abs(v)));
+    if (z1[rhs] > 1e-7 * scale) return { status: "infeasible" };
+
+    // Pivot leftover zero-level artificials out; rows with nothing to pivot on are redundant.
+    for (let i = 0; i < m; i++) {
+      if (basis[i] < n + m) continue;
+      for (let j = 0; j < n + m; j++) {
+        if (Math.abs(T[i][j]) > LP_EPS) { pivot(z1, i, j); break; }
+      }
+    }
+  }
+
+  // Phase 2 — original objective, artificial columns locked out.
+  const z2 = reducedCosts(c);
+  if (!optimize(z2, n + m)) return { status: "unbounded" };
+
+  const x = new Array<number>(n).fill(0);
+  for (let i = 0; i < m; i++) if (basis[i] < n) x[basis[i]] = Math.max(0, T[i][rhs]);
+  return { status: "optimal", x, value: c.reduce((s, cj, j) => s + cj * x[j], 0) };
+}
+
+// ─── Optimizer ────────────────────────────────────────────────────────────────
+
+type LpRow = { coeffs: number[]; rhs: number; meta: OptimizerConstraint };
+
+const fmt = (v: number) => Math.round(v).toLocaleString();
+
+/** Every constraint the plan must satisfy, as A x <= b rows over compartment gallons. */
+function optimizerRows(input: OptimizerInput): LpRow[] {
+  const comps = input.comps;
+  const n = comps.length;
+  const rows: LpRow[] = [];
+  const unit = (i: number, v: number) => { const a = new Array<number>(n).fill(0); a[i] = v; return a; };
+
+  comps.forEach((c, i) => {
+    const label = `Comp ${c.compNumber}`;
+    rows.push({
+      coeffs: unit(i, 1), rhs: Math.max(0, c.maxGallons),
+      meta: { kind: "comp_max", key: `comp:${c.compNumber}`, label, message: `${label} full` },
+    });
+    const min = Math.max(0, Number(c.minGallons ?? 0));
+    if (min > 0) {
+      rows.push({
+        coeffs: unit(i, -1), rhs: -min,
+        meta: { kind: "comp_min", key: `comp:${c.compNumber}`, label, message: `${label} minimum ${fmt(min)} gal` },
+      });
+    }
+  });
+
+  rows.push({
+    coeffs: comps.map((c) => c.lbsPerGal), rhs: input.payloadLbsMax,
+    meta: { kind: "payload", key: "payload", label: "Payload", message: "Target gross weight" },
+  });
+
+  for (const g of input.axleGroups ?? []) {
+    const coeffs = comps.map((c) => c.lbsPerGal * Number(c.axleFactors?.[g.key] ?? 0));
+    if (!coeffs.some((v) => Math.abs(v) > LP_EPS)) continue;
+    rows.push({
+      coeffs, rhs: g.limitLbs - g.tareLbs,
+      meta: { kind: "axle", key: `axle:${g.key}`, label: g.label, message: `${g.label} at ${fmt(g.limitLbs)} lbs` },
+    });
+  }
+
+  for (const p of input.products ?? []) {
+    const label = p.label || p.productId;
+    const coeffs = comps.map((c) => (c.productId === p.productId ? 1 : 0));
+    if (p.minGallons > 0) {
+      rows.push({
+        coeffs: coeffs.map((v) => -v), rhs: -p.minGallons,
+        meta: { kind: "product_min", key: `product:${p.productId}`, label, message: `${label} ordered ${fmt(p.minGallons)} gal` },
+      });
+    }
+    if (p.maxGallons != null && p.maxGallons >= 0) {
+      rows.push({
+        coeffs, rhs: p.maxGallons,
+        meta: { kind: "product_max", key: `product:${p.productId}`, label, message: `${label} capped at ${fmt(p.maxGallons)} gal` },
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Why no plan exists. Cheap structural checks first (missing compartments,
+ * ordered volume larger than the assigned compartments), then for each weight
+ * limit the lightest plan that still meets every volume minimum — if even that
+ * is over, the limit is binding by the difference.
+ */
+function explainInfeasible(input: OptimizerInput, rows: LpRow[]): OptimizerConstraint[] {
+  const out: OptimizerConstraint[] = [];
+  const comps = input.comps;
+
+  for (const p of input.products ?? []) {
+    if (!(p.minGallons > 0)) continue;
+    const label = p.label || p.productId;
+    const assigned = comps.filter((c) => c.productId === p.productId);
+    const cap = assigned.reduce((s, c) => s + Math.max(0, c.maxGallons), 0);
+    if (assigned.length === 0) {
+      out.push({ kind: "unassigned", key: `product:${p.productId}`, label, overBy: p.minGallons,
+        message: `${label}: ${fmt(p.minGallons)} gal ordered but no compartment assigned` });
+    } else if (cap < p.minGallons) {
+      out.push({ kind: "product_min", key: `product:${p.productId}`, label, overBy: p.minGallons - cap,
+        message: `${label}: ${fmt(p.minGallons)} gal ordered, assigned compartments hold ${fmt(cap)}` });
+    }
+  }
+  for (const c of comps) {
+    const min = Number(c.minGallons ?? 0);
+    if (min > c.maxGallons) {
+      out.push({ kind: "comp_min", key: `comp:${c.compNumber}`, label: `Comp ${c.compNumber}`, overBy: min - c.maxGallons,
+        message: `Comp ${c.compNumber}: minimum ${fmt(min)} gal exceeds ${fmt(c.maxGallons)} gal capacity` });
+    }
+  }
+  if (out.length > 0) return out;
+
+  const volumeRows = rows.filter((r) => r.meta.kind !== "payload" && r.meta.kind !== "axle");
+  const A = volumeRows.map((r) => r.coeffs);
+  const b = volumeRows.map((r) => r.rhs);
+  if (solveLp(comps.map(() => 0), A, b).status !== "optimal") {
+    return [{ kind: "product_max", key: "volumes", label: "Volumes",
+      message: "Ordered volumes conflict with compartment minimums or caps" }];
+  }
+
+  for (const r of rows) {
+    if (r.meta.kind !== "payload" && r.meta.kind !== "axle") continue;
+    const lightest = solveLp(r.coeffs.map((v) => -v), A, b);
+    if (lightest.status !== "optimal") continue;
+    const over = -lightest.value - r.rhs;
+    if (over > 0.5) {
+      const what = r.meta.kind === "payload" ? "Payload" : r.meta.label;
+      out.push({ ...r.meta, overBy: over, message: `${what} over by ${fmt(over)} lbs at the minimum ordered volumes` });
+    }
+  }
+  if (out.length > 0) return out.sort((x, y) => (y.overBy ?? 0) - (x.overBy ?? 0));
+
+  return [{ kind: "payload", key: "payload", label: "Payload",
+    message: "Weight and axle limits can't all be met with the ordered volumes" }];
+}
+
+/**
+ * Constraint-based allocation — the alternative to planForGallons' water-fill.
+ *
+ * Maximizes total delivered gallons subject to:
+ *   - per-compartment min / max gallons
+ *   - payload lbs (target gross - tare)
+ *   - per-axle-group limits, when comps carry axleFactors
+ *   - per-product ordered minimums and caps
+ *
+ * Among plans that deliver the maximum, the one closest to the CG-shaped
+ * spread is kept (maximize the smallest fill relative to planForGallons'
+ * weights), so the CG slider still means something.
+ *
+ * Feasible: `binding` lists the constraints that stopped more gallons.
+ * Infeasible: `rows` is empty and `binding` explains what can't be met.
+ */
+export function optimizePlan(input: OptimizerInput): OptimizerResult {
+  const comps: OptimizerComp[] = input.comps;
+  const n = comps.length;
+  const empty: OptimizerResult = { feasible: true, rows: [], totalGallons: 0, totalLbs: 0, binding: [], reason: null };
+  if (n === 0) return empty;
+
+  const rows = optimizerRows(input);
+  const A = rows.map((r) => r.coeffs);
+  const b = rows.map((r) => r.rhs);
+
+  const best = solveLp(comps.map(() => 1), A, b);
+  if (best.status !== "optimal") {
+    const binding = explainInfeasible(input, rows);
+    return { ...empty, feasible: false, binding, reason: binding[0]?.message ?? "No feasible plan" };
+  }
+
+  // Stage 2 — hold total gallons at the optimum, spread by CG shape.
+  // Extra variable t: x_i >= t * w_i  →  -x_i + w_i t <= 0.
+  const bias = Math.max(-1, Math.min(PLOW_BIAS_MAX, Number(input.bias) || 0));
+  const w = comps.map((c) => Math.max(0.05, 1 + bias * c.position * TILT_GAIN) * Math.max(0, c.maxGallons));
+  const A2 = [
+    ...A.map((row) => [...row, 0]),
+    [...comps.map(() => -1), 0],
+    ...comps.map((_, i) => { const row = new Array<number>(n + 1).fill(0); row[i] = -1; row[n] = w[i]; return row; }),
+  ];
+  const b2 = [...b, -(best.value - 1e-3), ...comps.map(() => 0)];
+  const spread = solveLp([...comps.map(() => 0), 1], A2, b2);
+  const x = spread.status === "optimal" ? spread.x.slice(0, n) : best.x;
+
+  const planRows = comps
+    .map((c, i) => ({
+      comp_number: c.compNumber,
+      max_gallons: c.maxGallons,
+      planned_gallons: x[i],
+      lbsPerGal: c.lbsPerGal,
+      position: c.position,
+      productId: c.productId,
+      tempF: c.tempF,
+    }))
+    .sort((p, q) => p.comp_number - q.comp_number);
+
+  const totalGallons = x.reduce((s, v) => s + v, 0);
+  const totalLbs = comps.reduce((s, c, i) => s + x[i] * c.lbsPerGal, 0);
+
+  // Tight rows at the solution. Individual full compartments are expected, so
+  // capacity only counts as binding when every compartment is full.
+  const tight = rows.filter((r) => {
+    if (r.meta.kind === "comp_min" || r.meta.kind === "product_min") return false;
+    const lhs = r.coeffs.reduce((s, a, j) => s + a * x[j], 0);
+    return r.rhs - lhs <= 1e-4 * Math.max(1, Math.abs(r.rhs));
+  });
+  const allFull = tight.filter((r) => r.meta.kind === "comp_max").length === n;
+  const binding = tight
+    .filter((r) => r.meta.kind !== "comp_max")
+    .map((r) => r.meta);
+  if (allFull) {
+    binding.push({ kind: "comp_max", key: "capacity", label: "Capacity", message: "All compartments full" });
+  }
+
+  return { feasible: true, rows: planRows, totalGallons, totalLbs, binding, reason: binding[0]?.message ?? null };
+}
+
+// ─── Post-scale offload ───────────────────────────────────────────────────────
+
+/** Scale-to-scale variation to clear on top of the measured overage. */
+export const OFFLOAD_MARGIN_LBS = 100;
+
+/**
+ * Fewest gallons to pump back so the combo scales legal.
+ *
+ *   minimize Σ x_i  subject to
+ *     Σ lbs/gal_i · x_i            >= over_gross + margin
+ *     Σ lbs/gal_i · f_ik · x_i     >= over_k + margin    (groups over)
+ *     Σ lbs/gal_i · f_ik · x_i     >= over_k             (groups under — headroom
+ *                                                         can't be used up; f can be
+ *                                                         negative behind an axle)
+ *     0 <= x_i <= gallons aboard
+ *
+ * The LP lands on a vertex, so the answer touches as few compartments as the
+ * overages allow. Gallons are rounded up to whole gallons.
+ */
+export function proposeOffload(input: OffloadInput): OffloadProposal {
+  const comps = input.comps.filter((c) => c.gallons > 0 && c.lbsPerGal > 0);
+  const n = comps.length;
+  const none: OffloadProposal = { feasible: true, lines: [], totalGallons: 0, totalLbs: 0, reason: null };
+  const overGroups = input.axleGroups.filter((g) => g.overLbs > 0);
+  if (input.overGrossLbs <= 0 && overGroups.length === 0) return none;
+  if (n === 0) return { ...none, feasible: false, reason: "No product aboard to offload" };
+
+  const A: number[][] = [];
+  const b: number[] = [];
+  comps.forEach((c, i) => {
+    const row = new Array<number>(n).fill(0);
+    row[i] = 1;
+    A.push(row);
+    b.push(c.gallons);
+  });
+  if (input.overGrossLbs > 0) {
+    A.push(comps.map((c) => -c.lbsPerGal));
+    b.push(-(input.overGrossLbs + OFFLOAD_MARGIN_LBS));
+  }
+  for (const g of input.axleGroups) {
+    const coeffs = comps.map((c) => c.lbsPerGal * Number(c.axleFactors?.[g.key] ?? 0));
+    if (!coeffs.some((v) => Math.abs(v) > LP_EPS)) continue;
+    A.push(coeffs.map((v) => -v));
+    b.push(-(g.overLbs > 0 ? g.overLbs + OFFLOAD_MARGIN_LBS : g.overLbs));
+  }
+
+  const res = solveLp(comps.map(() => -1), A, b);
+  if (res.status !== "optimal") {
+    const aboard = comps.reduce((s, c) => s + c.gallons * c.lbsPerGal, 0);
+    const reason = input.overGrossLbs > aboard
+      ? `Over by ${fmt(input.overGrossLbs)} lbs — more than the product aboard`
+      : `Can't clear ${overGroups.map((g) => g.label).join(" / ") || "gross"} by offloading alone`;
+    return { ...none, feasible: false, reason };
+  }
+
+  const lines = comps
+    .map((c, i) => {
+      const gallons = Math.min(c.gallons, Math.ceil(res.x[i] - 1e-6));
+      return { compNumber: c.compNumber, productId: c.productId, gallons, lbs: gallons * c.lbsPerGal };
+    })
+    .filter((l) => l.gallons > 0)
+    .sort((p, q) => p.compNumber - q.compNumber);
+
+  return {
+    feasible: true,
+    lines,
+    totalGallons: lines.reduce((s, l) => s + l.gallons, 0),
+    totalLbs: lines.reduce((s, l) => s + l.lbs, 0),
+    reason: null,
+  };
+}
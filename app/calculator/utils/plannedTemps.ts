@@ -0,0 +1,66 @@
+// utils/plannedTemps.ts
+// Planned load temperature per product / compartment — pure, no React, no Supabase.
+//
+// The temp slider is the load's baseline. A product or compartment only
+// departs from it when the driver says so, when the product sits in a tank
+// the predictor models on its own, or — with no prediction to go on — when
+// the terminal has a recently observed temp for it.
+
+import type { PlannedTemp, PlannedTempSource } from "../types";
+
+/** Observed temps older than this are no better a guess than the slider. */
+export const LAST_TEMP_MAX_AGE_DAYS = 3;
+
+export const PLANNED_TEMP_SOURCE_LABEL: Record<PlannedTempSource, string> = {
+  comp: "set for this compartment",
+  product: "set for this product",
+  predicted: "predicted for its tank",
+  last: "last loaded here",
+  global: "load temp",
+};
+
+function finite(v: number | null | undefined): v is number {
+  return v != null && Number.isFinite(v);
+}
+
+/** True when `lastLoadedAt` is within LAST_TEMP_MAX_AGE_DAYS of `nowMs`. */
+export function lastTempIsFresh(lastLoadedAt: string | null | undefined, nowMs: number): boolean {
+  if (!lastLoadedAt) return false;
+  const t = Date.parse(lastLoadedAt);
+  return Number.isFinite(t) && nowMs - t <= LAST_TEMP_MAX_AGE_DAYS * 86_400_000;
+}
+
+/**
+ * Resolve one compartment's planned temp. First hit wins:
+ *   comp → product → predicted (own tank) → last observed → slider
+ *
+ * `predictedTempF` should only be passed for products with their own tank
+ * profile; everything else already follows the prediction through the slider.
+ * `lastTempF` should only be passed when there is no prediction at all.
+ */
+export function resolvePlannedTemp(args: {
+  compTempF?: number | null;
+  productTempF?: number | null;
+  predictedTempF?: number | null;
+  lastTempF?: number | null;
+  globalTempF: number;
+}): PlannedTemp {
+  if (finite(args.compTempF)) return { tempF: args.compTempF, source: "comp" };
+  if (finite(args.productTempF)) return { tempF: args.productTempF, source: "product" };
+  if (finite(args.predictedTempF)) return { tempF: args.predictedTempF, source: "predicted" };
+  if (finite(args.lastTempF)) return { tempF: args.lastTempF, source: "last" };
+  return { tempF: args.globalTempF, source: "global" };
+}
+
+/** Gallon-weighted mean temp of plan rows; null when nothing is planned. */
+export function weightedPlanTempF(rows: Array<{ planned_gallons: number; tempF?: number }>, fallbackF: number): number | null {
+  let gal = 0;
+  let sum = 0;
+  for (const r of rows) {
+    const g = Number(r.planned_gallons ?? 0);
+    if (!(g > 0)) continue;
+    gal += g;
+    sum += g * (finite(r.tempF) ? r.tempF : fallbackF);
+  }
+  return gal > 0 ? sum / gal : null;
+}
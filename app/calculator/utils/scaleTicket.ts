@@ -0,0 +1,65 @@
+// utils/scaleTicket.ts
+// Scale ticket vs. plan comparison — pure, no React, no Supabase.
+
+import { proposeOffload } from "./planMath";
+import type { AxleGroupKey, AxleGroupWeight, OffloadComp, ScaleAxleDetail, ScaleCheck, ScaleTicket } from "../types";
+
+const GROUP_LABELS: Record<AxleGroupKey, string> = { steer: "Steer", drive: "Drive", trailer: "Trailer" };
+
+function scaleLbsFor(ticket: ScaleTicket, key: AxleGroupKey): number | null {
+  if (key === "steer") return ticket.steerLbs;
+  if (key === "drive") return ticket.driveLbs;
+  return ticket.trailerLbs;
+}
+
+/**
+ * Compare a scale ticket to the plan and the legal limits.
+ *
+ * `predicted` is the planner's axle prediction (limits included); null when
+ * the combo has no axle geometry, in which case only gross is checked.
+ * Axle groups the ticket leaves blank are reported but never drive an offload.
+ */
+export function scaleTicketCheck(args: {
+  ticket: ScaleTicket;
+  plannedGrossLbs: number | null;
+  grossLimitLbs: number;
+  predicted: AxleGroupWeight[] | null;
+  comps: OffloadComp[];
+}): ScaleCheck {
+  const { ticket, plannedGrossLbs, grossLimitLbs, predicted, comps } = args;
+
+  const axles: ScaleAxleDetail[] = (predicted ?? []).map((g) => {
+    const scaleLbs = scaleLbsFor(ticket, g.key);
+    return {
+      key: g.key,
+      label: g.label || GROUP_LABELS[g.key],
+      scaleLbs,
+      predictedLbs: g.lbs,
+      limitLbs: g.limitLbs,
+      diffLbs: scaleLbs != null ? scaleLbs - g.lbs : null,
+      overLbs: scaleLbs != null ? scaleLbs - g.limitLbs : null,
+    };
+  });
+
+  const overGrossLbs = ticket.grossLbs - grossLimitLbs;
+  const anyAxleOver = axles.some((a) => a.overLbs != null && a.overLbs > 0);
+  const offload = overGrossLbs > 0 || anyAxleOver
+    ? proposeOffload({
+        comps,
+        overGrossLbs,
+        axleGroups: axles
+          .filter((a) => a.overLbs != null)
+          .map((a) => ({ key: a.key, label: a.label, overLbs: a.overLbs as number })),
+      })
+    : null;
+
+  return {
+    grossLbs: ticket.grossLbs,
+    plannedGrossLbs,
+    diffLbs: plannedGrossLbs != null ? ticket.grossLbs - plannedGrossLbs : null,
+    grossLimitLbs,
+    overGrossLbs,
+    axles,
+    offload,
+  };
+}
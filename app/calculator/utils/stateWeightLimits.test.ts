@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { effectiveGrossLimit, legalGrossLimit, resolveStateLimits, STATE_WEIGHT_PROFILES } from "./stateWeightLimits";
+import type { BridgeResult } from "../types";
+
+describe("STATE_WEIGHT_PROFILES", () => {
+  it("never allows a tridem less than a tandem", () => {
+    for (const p of Object.values(STATE_WEIGHT_PROFILES)) {
+      expect(p.axle.tridem, p.stateCode).toBeGreaterThanOrEqual(p.axle.tandem);
+      for (const permit of p.permits ?? []) {
+        const axle = { ...p.axle, ...permit.axle };
+        expect(axle.tridem, permit.id).toBeGreaterThanOrEqual(axle.tandem);
+      }
+    }
+  });
+});
+
+describe("resolveStateLimits", () => {
+  it("falls back to federal limits for a state without a profile", () => {
+    const r = resolveStateLimits("NV", new Date(2026, 6, 1));
+    expect(r.source).toBe("federal");
+    expect(r.axle).toEqual({ single: 20_000, tandem: 34_000, tridem: 42_000 });
+  });
+
+  it("keeps Minnesota's winter increase through the last day of February", () => {
+    for (const on of [new Date(2028, 1, 28), new Date(2028, 1, 29), new Date(2027, 1, 28)]) {
+      expect(resolveStateLimits("MN", on).seasonal?.kind, on.toDateString()).toBe("winter");
+    }
+    expect(resolveStateLimits("MN", new Date(2028, 2, 1)).seasonal?.kind).toBe("frost");
+    expect(resolveStateLimits("MN", new Date(2027, 2, 1)).seasonal?.kind).toBe("frost");
+  });
+
+  it("uses Florida's 22k / 44k axles", () => {
+    const r = resolveStateLimits("fl", new Date(2026, 6, 1));
+    expect(r.source).toBe("state");
+    expect(r.axle).toEqual({ single: 22_000, tandem: 44_000, tridem: 44_000 });
+  });
+
+  it("holds the interstate to federal axles in any state", () => {
+    for (const code of ["FL", "GA", "MI"]) {
+      const r = resolveStateLimits(code, new Date(2026, 6, 1), null, "interstate");
+      expect(r.source, code).toBe("federal");
+      expect(r.axle, code).toEqual({ single: 20_000, tandem: 34_000, tridem: 42_000 });
+    }
+  });
+
+  it("ignores seasonal windows and permits on the interstate", () => {
+    const r = resolveStateLimits("ND", new Date(2026, 3, 1), "nd-10pct", "interstate");
+    expect(r.seasonal).toBeNull();
+    expect(r.permit).toBeNull();
+    expect(r.grossLbs).toBe(80_000);
+  });
+});
+
+describe("legalGrossLimit", () => {
+  const state = resolveStateLimits("NV", new Date(2026, 6, 1));
+  const bridge = (grossCeilingLbs: number): BridgeResult => {
+    const g = { firstAxle: 2, lastAxle: 5, axleCount: 4, lengthFt: 30, formulaLbs: grossCeilingLbs - 12_000, grossCeilingLbs };
+    return { groupings: [g], grossCeilingLbs, binding: g };
+  };
+
+  it("never takes the combo target", () => {
+    expect(effectiveGrossLimit({ comboTargetLbs: 78_000, state, bridge: null }).source).toBe("combo");
+    expect(legalGrossLimit({ state, bridge: null })).toMatchObject({ grossLbs: 80_000, source: "federal" });
+  });
+
+  it("takes a tighter bridge ceiling", () => {
+    expect(legalGrossLimit({ state, bridge: bridge(76_500) })).toMatchObject({ grossLbs: 76_500, source: "bridge" });
+    expect(legalGrossLimit({ state, bridge: bridge(84_000) }).grossLbs).toBe(80_000);
+  });
+});
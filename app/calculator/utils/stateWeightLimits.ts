@@ -0,0 +1,229 @@
+// utils/stateWeightLimits.ts
+// Per-state weight limit profiles + resolver — pure, no React, no Supabase.
+//
+// Values are for a 5-axle tractor/tank-semitrailer on state-maintained roads.
+// They apply only when the driver picks state roads; on the interstate the
+// resolver returns the federal numbers, so the bridge check and axle warnings
+// never see grandfathered state values there.
+// Seasonal windows are the *typical* ones — frost laws are declared each year
+// by the state DOT, so drivers should confirm the posted dates.
+
+import type {
+  BridgeResult, EffectiveWeightLimit, PermitWeightTier, ResolvedStateLimits,
+  RoadType, SeasonalWeightRule, StateAxleLimits, StateWeightProfile,
+} from "../types";
+
+// ─── Federal baseline ─────────────────────────────────────────────────────────
+
+export const FEDERAL_WEIGHT_PROFILE: StateWeightProfile = {
+  stateCode: "US",
+  grossLbs: 80_000,
+  axle: { single: 20_000, tandem: 34_000, tridem: 42_000 },
+};
+
+// ─── State table ──────────────────────────────────────────────────────────────
+
+/** Bump when the table changes so planned_snapshot records which data was used. */
+export const STATE_WEIGHT_TABLE_VERSION = 2;
+
+const FROST_TYPICAL: SeasonalWeightRule = {
+  kind: "frost", label: "Spring frost law", start: "03-01", end: "05-15", factor: 0.75, axlesOnly: true,
+};
+
+export const STATE_WEIGHT_PROFILES: Record<string, StateWeightProfile> = {
+  FL: {
+    stateCode: "FL", grossLbs: 80_000,
+    // 316.535 sets 22k per axle and 44k per tandem but no tridem figure; a
+    // tridem is held to the tandem number here, never below it
+    axle: { single: 22_000, tandem: 44_000, tridem: 44_000 },
+    note: "Grandfathered 22k single / 44k tandem on state roads; tridem held to 44k.",
+  },
+  GA: {
+    stateCode: "GA", grossLbs: 80_000,
+    axle: { single: 20_340, tandem: 40_680, tridem: 42_000 },
+  },
+  AL: {
+    stateCode: "AL", grossLbs: 80_000,
+    axle: { single: 20_000, tandem: 34_000, tridem: 42_000 },
+  },
+  SC: {
+    stateCode: "SC", grossLbs: 80_000,
+    axle: { single: 20_000, tandem: 35_200, tridem: 42_000 },
+  },
+  TX: {
+    stateCode: "TX", grossLbs: 80_000,
+    axle: { single: 20_000, tandem: 34_000, tridem: 42_000 },
+  },
+  LA: {
+    stateCode: "LA", grossLbs: 80_000,
+    axle: { single: 20_000, tandem: 34_000, tridem: 42_000 },
+    permits: [
+      { id: "la-divisible-88k", label: "Divisible load permit", grossLbs: 88_000, axle: { tandem: 37_000, tridem: 45_000 } },
+    ],
+  },
+  MI: {
+    stateCode: "MI", grossLbs: 80_000,
+    axle: { single: 18_000, tandem: 32_000, tridem: 42_000 },
+    seasonal: [{ ...FROST_TYPICAL, label: "Seasonal weight restrictions" }],
+  },
+  MN: {
+    stateCode: "MN", grossLbs: 80_000,
+    axle: { single: 20_000, tandem: 34_000, tridem: 42_000 },
+    seasonal: [
+      { kind: "winter", label: "Winter load increase", start: "12-01", end: "02-29", factor: 1.10 },
+      { ...FROST_TYPICAL, label: "Spring load restrictions", start: "03-01", end: "05-10" },
+    ],
+  },
+  WI: {
+    stateCode: "WI", grossLbs: 80_000,
+    axle: { single: 20_000, tandem: 34_000, tridem: 42_000 },
+    seasonal: [
+      { kind: "winter", label: "Frozen road declaration", start: "12-15", end: "03-01", factor: 1.10 },
+      { ...FROST_TYPICAL, label: "Spring thaw posting", start: "03-02", end: "05-15" },
+    ],
+  },
+  ND: {
+    stateCode: "ND", grossLbs: 80_000,
+    axle: { single: 20_000, tandem: 34_000, tridem: 42_000 },
+    seasonal: [FROST_TYPICAL],
+    permits: [
+      { id: "nd-10pct", label: "10% overweight permit", grossLbs: 88_000, axle: { single: 22_000, tandem: 37_400, tridem: 46_200 } },
+    ],
+  },
+  PA: {
+    stateCode: "PA", grossLbs: 80_000,
+    axle: { single: 20_000, tandem: 34_000, tridem: 42_000 },
+    seasonal: [{ ...FROST_TYPICAL, label: "Posted frost restrictions" }],
+  },
+};
+
+// ─── Resolver ─────────────────────────────────────────────────────────────────
+
+/** "MM-DD" → ordinal comparable within a year (month * 100 + day). */
+function mmdd(s: string): number {
+  const [m, d] = s.split("-").map(Number);
+  return (m || 0) * 100 + (d || 0);
+}
+
+/** Active seasonal rule for a date, if any. Windows may wrap past Dec 31. */
+export function activeSeasonalRule(profile: StateWeightProfile, on: Date): SeasonalWeightRule | null {
+  const today = (on.getMonth() + 1) * 100 + on.getDate();
+  for (const rule of profile.seasonal ?? []) {
+    const start = mmdd(rule.start);
+    const end = mmdd(rule.end);
+    const inWindow = start <= end ? today >= start && today <= end : today >= start || today <= end;
+    if (inWindow) return rule;
+  }
+  return null;
+}
+
+function scaleAxles(axle: StateAxleLimits, factor: number): StateAxleLimits {
+  return {
+    single: Math.round(axle.single * factor),
+    tandem: Math.round(axle.tandem * factor),
+    tridem: Math.round(axle.tridem * factor),
+  };
+}
+
+/**
+ * Limits for a state on a given date, with an optional permit tier.
+ *
+ * On the interstate the federal profile applies whatever the state — no state
+ * axle values, seasonal windows or permit tiers.
+ * Precedence off it: permit > seasonal > state base > federal.
+ * A permit replaces the gross and any axle values it specifies; during a
+ * frost-law window the frost reduction still applies to the permit's axles,
+ * because posted roads override overweight permits.
+ */
+export function resolveStateLimits(
+  stateCode: string | null | undefined,
+  on: Date,
+  permitId?: string | null,
+  road: RoadType = "state"
+): ResolvedStateLimits {
+  const code = String(stateCode ?? "").trim().toUpperCase();
+  const profile = STATE_WEIGHT_PROFILES[code];
+
+  if (!profile || road === "interstate") {
+    return {
+      stateCode: code || null,
+      road,
+      grossLbs: FEDERAL_WEIGHT_PROFILE.grossLbs,
+      axle: { ...FEDERAL_WEIGHT_PROFILE.axle },
+      seasonal: null,
+      permit: null,
+      source: "federal",
+      sourceLabel: !code ? "Federal limits" : road === "interstate" ? `${code} · interstate (federal)` : `${code} · federal limits`,
+    };
+  }
+
+  const seasonal = activeSeasonalRule(profile, on);
+  const permit: PermitWeightTier | null = profile.permits?.find((p) => p.id === permitId) ?? null;
+
+  let grossLbs = profile.grossLbs;
+  let axle: StateAxleLimits = { ...profile.axle };
+
+  if (permit) {
+    grossLbs = permit.grossLbs;
+    axle = { ...axle, ...permit.axle };
+  }
+
+  if (seasonal) {
+    const appliesToIncrease = seasonal.kind === "winter" && !permit;
+    if (seasonal.kind === "frost" || appliesToIncrease) {
+      axle = scaleAxles(axle, seasonal.factor);
+      if (!seasonal.axlesOnly) grossLbs = Math.round(grossLbs * seasonal.factor);
+    }
+  }
+
+  const source: ResolvedStateLimits["source"] =
+    seasonal?.kind === "frost" ? "seasonal" : permit ? "permit" : seasonal ? "seasonal" : "state";
+  const sourceLabel =
+    source === "permit" ? `${code} · ${permit!.label}`
+    : source === "seasonal" ? `${code} · ${seasonal!.label}`
+    : `${code} legal`;
+
+  return { stateCode: code, road, grossLbs, axle, seasonal, permit, source, sourceLabel };
+}
+
+/**
+ * The legal gross: the lower of the state (seasonal / permit) gross and the
+ * bridge formula ceiling. What a scale ticket is judged against — the combo's
+ * own target is a planning preference, not a limit.
+ */
+export function legalGrossLimit(args: {
+  state: ResolvedStateLimits;
+  bridge: BridgeResult | null;
+}): EffectiveWeightLimit {
+  const { state, bridge } = args;
+
+  if (bridge && bridge.binding && bridge.grossCeilingLbs < state.grossLbs) {
+    return {
+      grossLbs: bridge.grossCeilingLbs,
+      source: "bridge",
+      sourceLabel: `Bridge formula · axles ${bridge.binding.firstAxle}–${bridge.binding.lastAxle}`,
+    };
+  }
+  return { grossLbs: state.grossLbs, source: state.source, sourceLabel: state.sourceLabel };
+}
+
+/**
+ * The gross the planner should aim for: the lowest of the combo's own target,
+ * the state (seasonal / permit) gross, and the bridge formula ceiling.
+ * Ties go to the legal source so the tile explains *why* the number is what it is.
+ */
+export function effectiveGrossLimit(args: {
+  comboTargetLbs: number;
+  state: ResolvedStateLimits;
+  bridge: BridgeResult | null;
+}): EffectiveWeightLimit {
+  const { comboTargetLbs, state, bridge } = args;
+
+  let best = legalGrossLimit({ state, bridge });
+
+  if (comboTargetLbs > 0 && comboTargetLbs < best.grossLbs) {
+    best = { grossLbs: comboTargetLbs, source: "combo", sourceLabel: "Combo target" };
+  }
+
+  return best;
+}
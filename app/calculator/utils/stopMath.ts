@@ -0,0 +1,77 @@
+// utils/stopMath.ts
+// Multi-stop delivery weights — pure, no React, no Supabase.
+
+import { axleOverWarnings, compartmentStations, planRowAxleLoads, predictAxleWeights } from "./axleMath";
+import type { AxleGeometry, AxleLimits, AxleTare, CompRow, DeliveryStop, PlanRow, StopWeightState } from "../types";
+
+/**
+ * Remaining-load centroid further back than this (as a fraction of barrel
+ * length, 0.5 = neutral) is flagged — the same "rear of neutral" condition the
+ * CG slider warns about, applied to what's left after a drop.
+ */
+export const STOP_CG_REAR_WARN_PCT = 0.55;
+
+/** Compartments with planned gallons that no stop drops. They ride to the end. */
+export function undroppedComps(stops: DeliveryStop[], planRows: PlanRow[]): number[] {
+  const dropped = new Set(stops.flatMap((s) => s.compNumbers));
+  return planRows
+    .filter((r) => Number(r.planned_gallons ?? 0) > 0 && !dropped.has(Number(r.comp_number)))
+    .map((r) => Number(r.comp_number))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Gross, axle groups and CG leaving the rack and after every stop, in order.
+ *
+ * CG is computed from a unit-length barrel (compartmentStations with 0…1), so
+ * it works even when the combo has no axle geometry entered.
+ */
+export function stopWeightStates(args: {
+  stops: DeliveryStop[];
+  planRows: PlanRow[];
+  compartments: Pick<CompRow, "comp_number" | "max_gallons" | "position">[];
+  tareLbs: number;
+  grossLimitLbs: number;
+  geometry: AxleGeometry | null;
+  axleTare: AxleTare;
+  axleLimits: AxleLimits;
+}): StopWeightState[] {
+  const { stops, planRows, compartments, tareLbs, grossLimitLbs, geometry, axleTare, axleLimits } = args;
+
+  const unitStations = compartmentStations(compartments, 0, 1);
+  const axleStations = geometry ? compartmentStations(compartments, geometry.tankFrontIn, geometry.tankRearIn) : null;
+
+  const stateFor = (stopIndex: number, label: string, droppedComps: number[], rows: PlanRow[]): StopWeightState => {
+    const remainingGallons = rows.reduce((s, r) => s + Number(r.planned_gallons ?? 0), 0);
+    const payloadLbs = rows.reduce((s, r) => s + Number(r.planned_gallons ?? 0) * Number(r.lbsPerGal ?? 0), 0);
+    const grossLbs = tareLbs + payloadLbs;
+
+    const axles = geometry && axleStations
+      ? predictAxleWeights(geometry, axleTare, planRowAxleLoads(rows, axleStations), axleLimits)
+      : null;
+
+    const cgLoads = planRowAxleLoads(rows, unitStations);
+    const cgLbs = cgLoads.reduce((s, l) => s + l.lbs, 0);
+    const cgPct = cgLbs > 0 ? cgLoads.reduce((s, l) => s + l.stationIn * l.lbs, 0) / cgLbs : null;
+
+    const warnings: string[] = [];
+    if (grossLimitLbs > 0 && grossLbs > grossLimitLbs) {
+      warnings.push(`Gross ${Math.round(grossLbs).toLocaleString()} over ${Math.round(grossLimitLbs).toLocaleString()} lbs`);
+    }
+    warnings.push(...axleOverWarnings(axles));
+    if (cgPct != null && cgPct > STOP_CG_REAR_WARN_PCT) {
+      warnings.push(`CG ${Math.round(cgPct * 100)}% back — rear of neutral`);
+    }
+
+    return { stopIndex, label, droppedComps, remainingGallons, payloadLbs, grossLbs, axles, cgPct, warnings };
+  };
+
+  const out: StopWeightState[] = [stateFor(-1, "Leaving rack", [], planRows)];
+  const dropped = new Set<number>();
+  stops.forEach((stop, i) => {
+    for (const n of stop.compNumbers) dropped.add(n);
+    const remaining = planRows.filter((r) => !dropped.has(Number(r.comp_number)));
+    out.push(stateFor(i, stop.label || `Stop ${i + 1}`, [...stop.compNumbers].sort((a, b) => a - b), remaining));
+  });
+  return out;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { estimateTare, impliedTare, TARE_ESTIMATE } from "./tareEstimate";
+import type { TareSample } from "../types";
+
+/** One ticket per day, newest first; `tares` are the implied tares. */
+const tickets = (tares: number[], payloadLbs = 50_000): TareSample[] =>
+  tares.map((t, i) => ({
+    loadId: `load-${i}`,
+    at: new Date(Date.UTC(2026, 9, 19 - i)).toISOString(),
+    scaleGrossLbs: t + payloadLbs,
+    payloadLbs,
+    tareLbs: 30_000,
+  }));
+
+describe("impliedTare", () => {
+  it("is scale gross less payload", () => {
+    expect(impliedTare(tickets([31_200])[0])).toBe(31_200);
+  });
+
+  it("rejects missing and impossible tickets", () => {
+    const [s] = tickets([31_000]);
+    expect(impliedTare({ ...s, scaleGrossLbs: 0 })).toBeNull();
+    expect(impliedTare({ ...s, payloadLbs: 0 })).toBeNull();
+    expect(impliedTare({ ...s, scaleGrossLbs: s.payloadLbs - 10 })).toBeNull();
+  });
+});
+
+describe("estimateTare", () => {
+  it("needs minSamples usable tickets", () => {
+    expect(estimateTare(tickets([31_000, 31_100]), 30_000)).toBeNull();
+  });
+
+  it("suggests a tare that clears the current one", () => {
+    const e = estimateTare(tickets([31_000, 31_100, 30_900, 31_050, 30_950]), 30_000)!;
+    expect(e.n).toBe(5);
+    expect(e.tareLbs).toBeCloseTo(31_000, 0);
+    expect(e.deltaLbs).toBeCloseTo(1_000, 0);
+    expect(e.ciLowLbs).toBeLessThan(e.tareLbs);
+    expect(e.ciHighLbs).toBeGreaterThan(e.tareLbs);
+    expect(e.significant).toBe(true);
+  });
+
+  it("isn't significant when the interval covers the current tare", () => {
+    const e = estimateTare(tickets([30_050, 29_950, 30_020, 29_980]), 30_000)!;
+    expect(e.significant).toBe(false);
+  });
+
+  it("drops an outlier ticket", () => {
+    const e = estimateTare(tickets([31_000, 31_020, 30_980, 31_010, 32_500]), 30_000)!;
+    expect(e.n).toBe(4);
+    expect(e.rejected).toBe(1);
+    expect(e.tareLbs).toBeCloseTo(31_002.5, 1);
+  });
+
+  it("keeps identical tickets (MAD of zero)", () => {
+    const e = estimateTare(tickets([31_000, 31_000, 31_000]), 30_000)!;
+    expect(e.n).toBe(3);
+    expect(e.stdDevLbs).toBe(0);
+    expect(e.significant).toBe(true);
+  });
+
+  it("ignores tickets implausibly far from the current tare", () => {
+    expect(estimateTare(tickets([31_000, 31_100, 45_000]), 30_000)).toBeNull();
+  });
+
+  it("uses only the most recent window of tickets", () => {
+    const old = Array(20).fill(35_000);
+    const e = estimateTare(tickets([...Array(TARE_ESTIMATE.window).fill(31_000), ...old]), 30_000)!;
+    expect(e.tareLbs).toBe(31_000);
+    expect(e.n + e.rejected).toBe(TARE_ESTIMATE.window);
+  });
+
+  it("takes the newest tickets whatever the input order", () => {
+    const all = tickets([...Array(TARE_ESTIMATE.window).fill(31_000), ...Array(5).fill(35_000)]);
+    expect(estimateTare([...all].reverse(), 30_000)!.tareLbs).toBe(31_000);
+  });
+});
@@ -0,0 +1,96 @@
+// utils/tareEstimate.ts
+// Self-calibrating tare from scale tickets — pure, no React, no Supabase.
+//
+// Every scaled load gives an implied tare: scale gross − computed payload.
+// Averaged over the most recent loads it tracks what the combo really weighs
+// empty (fuel in the saddle tanks, chains, driver) instead of the number typed
+// in when the combo was set up. Payload error (meter, API, temp) shows up as
+// noise here, which is what the confidence interval is for.
+
+import type { TareEstimate, TareSample } from "../types";
+
+// ─── Tuning ───────────────────────────────────────────────────────────────────
+
+export const TARE_ESTIMATE = {
+  window: 12,             // most recent scaled loads considered
+  minSamples: 3,          // below this, no suggestion
+  outlierMads: 3.5,       // robust z-score beyond which a sample is dropped…
+  outlierFloorLbs: 250,   // …but never tighter than this (identical tickets → MAD 0)
+  minDeltaLbs: 100,       // CI must clear the current tare by this much to suggest
+  maxPlausiblePct: 0.25,  // implied tare this far from current is a bad ticket, not drift
+};
+
+/** Two-sided 95% Student-t critical values, df 1…30. */
+const T95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+function t95(df: number): number {
+  if (df < 1) return Infinity;
+  return df <= T95.length ? T95[df - 1] : 1.96;
+}
+
+function median(xs: number[]): number {
+  const s = [...xs].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+/** Implied tare for a sample, or null when the ticket can't be used. */
+export function impliedTare(s: TareSample): number | null {
+  if (!(s.scaleGrossLbs > 0) || !(s.payloadLbs > 0)) return null;
+  const t = s.scaleGrossLbs - s.payloadLbs;
+  return t > 0 ? t : null;
+}
+
+/**
+ * Rolling tare estimate from the combo's most recent scaled loads.
+ *
+ * Samples are filtered for plausibility against the current tare, then for
+ * outliers (median ± MAD), and the survivors averaged. Returns null until
+ * there are `minSamples` usable tickets.
+ */
+export function estimateTare(samples: TareSample[], currentTareLbs: number): TareEstimate | null {
+  const recent = [...samples]
+    .sort((a, b) => (a.at < b.at ? 1 : a.at > b.at ? -1 : 0))
+    .slice(0, TARE_ESTIMATE.window);
+
+  const plausible = recent
+    .map(impliedTare)
+    .filter((t): t is number => t != null)
+    .filter((t) => !(currentTareLbs > 0) || Math.abs(t - currentTareLbs) <= currentTareLbs * TARE_ESTIMATE.maxPlausiblePct);
+
+  if (plausible.length < TARE_ESTIMATE.minSamples) return null;
+
+  const med = median(plausible);
+  const mad = 1.4826 * median(plausible.map((t) => Math.abs(t - med)));
+  const cutoff = Math.max(TARE_ESTIMATE.outlierFloorLbs, TARE_ESTIMATE.outlierMads * mad);
+  const used = plausible.filter((t) => Math.abs(t - med) <= cutoff);
+
+  if (used.length < TARE_ESTIMATE.minSamples) return null;
+
+  const n = used.length;
+  const mean = used.reduce((s, t) => s + t, 0) / n;
+  const variance = used.reduce((s, t) => s + (t - mean) ** 2, 0) / (n - 1);
+  const sd = Math.sqrt(variance);
+  const half = t95(n - 1) * (sd / Math.sqrt(n));
+  const lo = mean - half;
+  const hi = mean + half;
+
+  const delta = mean - currentTareLbs;
+  const clears = currentTareLbs < lo - TARE_ESTIMATE.minDeltaLbs || currentTareLbs > hi + TARE_ESTIMATE.minDeltaLbs;
+
+  return {
+    tareLbs: mean,
+    ciLowLbs: lo,
+    ciHighLbs: hi,
+    stdDevLbs: sd,
+    n,
+    rejected: recent.length - n,
+    currentTareLbs,
+    deltaLbs: delta,
+    significant: currentTareLbs > 0 ? clears : true,
+  };
+}
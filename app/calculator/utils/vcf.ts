@@ -0,0 +1,111 @@
+// utils/vcf.ts
+// Volume correction factors — API MPMS 11.1 / ASTM D1250 — pure, no React, no Supabase.
+//
+// Implements the generalized tables (6A crude, 6B refined products, 6D lubricating
+// oils) in °F / API gravity units:
+//
+//   α60 = K0 / ρ60² + K1 / ρ60 + K2          (per °F, ρ60 in kg/m³)
+//   ΔT  = T − 60
+//   CTL = exp(−α60·ΔT·(1 + 0.8·α60·(ΔT + δ60)))
+//
+// The ITS-90 → IPTS-68 temperature conversion in the 2004 edition is omitted;
+// it moves CTL by less than 0.00005 across the planner's temperature range.
+// CTL is rounded to 5 decimals as printed on terminal BOLs.
+
+import type { VcfCommodity } from "../types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Density of water at 60°F, kg/m³. */
+export const WATER_DENSITY_60_KGM3 = 999.016;
+
+/** 2004 edition temperature shift, °F. */
+const DELTA_60 = 0.01374979547;
+
+type ExpansionConsts = { k0: number; k1: number; k2: number };
+
+const CRUDE: ExpansionConsts = { k0: 341.0957, k1: 0, k2: 0 };
+const LUBE: ExpansionConsts = { k0: 0, k1: 0.34878, k2: 0 };
+
+/**
+ * Refined products split into four density bands (Table 6B).
+ * Bands meet continuously, so α60 has no step at the boundaries.
+ */
+const REFINED_BANDS: { minKgM3: number; consts: ExpansionConsts; label: string }[] = [
+  { minKgM3: 838.3127, consts: { k0: 103.872, k1: 0.2701, k2: 0 }, label: "fuel oil" },
+  { minKgM3: 787.5195, consts: { k0: 330.301, k1: 0, k2: 0 }, label: "jet" },
+  { minKgM3: 770.352, consts: { k0: 1489.067, k1: 0, k2: -0.0018684 }, label: "transition" },
+  { minKgM3: 0, consts: { k0: 192.4571, k1: 0.2438, k2: 0 }, label: "gasoline" },
+];
+
+/** Rough range the tables are defined over; outside it we clamp rather than extrapolate. */
+const TEMP_MIN_F = -58;
+const TEMP_MAX_F = 302;
+
+// ─── Gravity / density ────────────────────────────────────────────────────────
+
+export function apiToDensity60(api60: number): number {
+  return (141.5 / (api60 + 131.5)) * WATER_DENSITY_60_KGM3;
+}
+
+export function density60ToApi(rho60: number): number {
+  return (141.5 * WATER_DENSITY_60_KGM3) / rho60 - 131.5;
+}
+
+// ─── Correction ───────────────────────────────────────────────────────────────
+
+function expansionConsts(commodity: VcfCommodity, rho60: number): ExpansionConsts {
+  if (commodity === "crude") return CRUDE;
+  if (commodity === "lube") return LUBE;
+  return (REFINED_BANDS.find((b) => rho60 >= b.minKgM3) ?? REFINED_BANDS[REFINED_BANDS.length - 1]).consts;
+}
+
+/** Thermal expansion coefficient at 60°F, per °F. */
+export function alpha60(commodity: VcfCommodity, rho60: number): number {
+  const { k0, k1, k2 } = expansionConsts(commodity, rho60);
+  return k0 / (rho60 * rho60) + k1 / rho60 + k2;
+}
+
+function ctlUnrounded(commodity: VcfCommodity, rho60: number, tempF: number): number {
+  const t = Math.max(TEMP_MIN_F, Math.min(TEMP_MAX_F, tempF));
+  const a = alpha60(commodity, rho60);
+  const dT = t - 60;
+  return Math.exp(-a * dT * (1 + 0.8 * a * (dT + DELTA_60)));
+}
+
+/**
+ * Volume correction factor (CTL): gallons at tempF × VCF = gallons at 60°F.
+ * Table 6A / 6B / 6D depending on commodity.
+ */
+export function vcfAtTemp(commodity: VcfCommodity, api60: number, tempF: number): number {
+  const v = ctlUnrounded(commodity, apiToDensity60(api60), tempF);
+  return Math.round(v * 1e5) / 1e5;
+}
+
+/**
+ * API at 60°F from a gravity observed at tempF (Table 5A / 5B / 5D).
+ *
+ * Observed density = ρ60 × CTL(ρ60, T), and CTL depends on ρ60, so solve by
+ * fixed-point iteration — converges in a handful of steps for any real product.
+ */
+export function api60FromObserved(commodity: VcfCommodity, apiObserved: number, tempF: number): number {
+  const rhoObs = apiToDensity60(apiObserved);
+  let rho60 = rhoObs;
+  for (let i = 0; i < 50; i++) {
+    const next = rhoObs / ctlUnrounded(commodity, rho60, tempF);
+    if (Math.abs(next - rho60) < 1e-6) { rho60 = next; break; }
+    rho60 = next;
+  }
+  return density60ToApi(rho60);
+}
+
+/** API observed at tempF for a product of the given API at 60°F — the inverse of api60FromObserved. */
+export function apiObservedFrom60(commodity: VcfCommodity, api60: number, tempF: number): number {
+  const rho60 = apiToDensity60(api60);
+  return density60ToApi(rho60 * ctlUnrounded(commodity, rho60, tempF));
+}
+
+/** Net (60°F) gallons from gross gallons at tempF. */
+export function netGallons(grossGallons: number, commodity: VcfCommodity, api60: number, tempF: number): number {
+  return grossGallons * vcfAtTemp(commodity, api60, tempF);
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { parseCandidateSpec, runBacktest, seasonOf } from "./fuelTempBacktest";
+import type { BacktestCandidate, BacktestObservation } from "./fuelTempBacktest";
+import { predictFuelTempNow } from "./fuelTempPredictor";
+import type { HourlyWx } from "./fuelTempPredictor";
+
+const LAT = 27.95, LON = -82.46;
+const large: BacktestCandidate = { label: "large", paramsFor: () => ({ tankPreset: "large" }) };
+
+/** A day of weather ending `after` hours past ts, flat at 80 °F unless given. */
+const weather = (ts: number, after = 0, tempF = 80): HourlyWx[] =>
+  Array.from({ length: 25 + after }, (_, i) => ({ ts: ts + (i - 24) * 3600, tempF, windMph: 5, cloudPct: 20 }));
+
+const obs = (terminalName: string, ts: number, actualTempF: number, hourlies = weather(ts)): BacktestObservation =>
+  ({ terminalId: terminalName.toLowerCase(), terminalName, lat: LAT, lon: LON, ts, actualTempF, hourlies });
+
+const JUL = Date.UTC(2026, 6, 1, 15) / 1000;
+const JAN = Date.UTC(2026, 0, 15, 15) / 1000;
+
+describe("seasonOf", () => {
+  it("uses meteorological seasons", () => {
+    expect(seasonOf(Date.UTC(2026, 11, 1) / 1000)).toBe("Winter");
+    expect(seasonOf(Date.UTC(2026, 1, 28) / 1000)).toBe("Winter");
+    expect(seasonOf(Date.UTC(2026, 2, 1) / 1000)).toBe("Spring");
+    expect(seasonOf(JUL)).toBe("Summer");
+    expect(seasonOf(Date.UTC(2026, 10, 30) / 1000)).toBe("Fall");
+  });
+});
+
+describe("runBacktest", () => {
+  it("scores each load against predictFuelTempNow", () => {
+    const o = obs("Tampa", JUL, 85);
+    const predicted = predictFuelTempNow(o.hourlies, LAT, LON, 80, JUL, { tankPreset: "large" }).predictedFuelTempF;
+    const r = runBacktest([o], large);
+    expect(r.overall.n).toBe(1);
+    expect(r.overall.biasF).toBeCloseTo(predicted - 85, 2);
+    expect(r.overall.maeF).toBeCloseTo(Math.abs(predicted - 85), 2);
+  });
+
+  it("ignores weather after the load", () => {
+    const plain = runBacktest([obs("Tampa", JUL, 85)], large);
+    const hot = [...weather(JUL), ...weather(JUL + 24 * 3600, 0, 120).slice(1)];
+    expect(runBacktest([obs("Tampa", JUL, 85, hot)], large).overall).toEqual(plain.overall);
+  });
+
+  it("skips loads with under six hours of weather before them", () => {
+    const r = runBacktest([obs("Tampa", JUL, 85, weather(JUL).slice(-5)), obs("Tampa", JUL, 85)], large);
+    expect(r.skipped).toBe(1);
+    expect(r.overall.n).toBe(1);
+  });
+
+  it("groups by terminal, season and confidence", () => {
+    const r = runBacktest([obs("Tampa", JUL, 85), obs("Tampa", JAN, 70), obs("Orlando", JUL, 84)], large);
+    expect(r.byTerminal.map((s) => [s.key, s.n])).toEqual([["Orlando", 1], ["Tampa", 2]]);
+    expect(r.bySeason.map((s) => [s.key, s.n])).toEqual([["Winter", 1], ["Summer", 2]]);
+    expect(r.byConfidence.reduce((n, s) => n + s.n, 0)).toBe(3);
+  });
+
+  it("uses each terminal's own params", () => {
+    const fitted: BacktestCandidate = {
+      label: "fitted",
+      paramsFor: (id) => (id === "tampa" ? { k0: 0.15, betaSun: 0 } : { tankPreset: "large" }),
+    };
+    const loads = [obs("Tampa", JUL, 85), obs("Orlando", JUL, 85)];
+    const r = runBacktest(loads, fitted);
+    const [orlando, tampa] = r.byTerminal;
+    expect(orlando).toEqual({ ...runBacktest([loads[1]], large).overall, key: "Orlando" });
+    expect(tampa.biasF).not.toBe(orlando.biasF);
+  });
+
+  it("reports zeros for an empty set", () => {
+    const r = runBacktest([], large);
+    expect(r.overall).toEqual({ key: "all", n: 0, maeF: 0, biasF: 0, rmseF: 0 });
+    expect(r.byTerminal).toEqual([]);
+  });
+});
+
+describe("parseCandidateSpec", () => {
+  it("accepts presets and explicit params", () => {
+    expect(parseCandidateSpec("large")).toEqual({ tankPreset: "large" });
+    expect(parseCandidateSpec("k0=0.05, beta=1.5,cw=0.04")).toEqual({ k0: 0.05, betaSun: 1.5, cwWind: 0.04 });
+  });
+
+  it("rejects unknown keys and bad values", () => {
+    expect(() => parseCandidateSpec("k1=0.05")).toThrow(/Unknown candidate key "k1"/);
+    expect(() => parseCandidateSpec("k0=abc")).toThrow(/Bad candidate value/);
+  });
+});
@@ -0,0 +1,119 @@
+// lib/fuelTempBacktest.ts
+// Replay recorded load temps through predictFuelTempNow and score the result.
+// Pure — the CLI in scripts/backtest-fuel-temp.ts does the fetching.
+
+import { NOW_MIN_PAST_HOURS, predictFuelTempNow, type FuelTempResult, type HourlyWx, type PredictorParams } from "./fuelTempPredictor";
+
+export type BacktestObservation = {
+  terminalId: string;
+  terminalName: string;
+  lat: number;
+  lon: number;
+  ts: number;           // unix seconds the product was loaded
+  actualTempF: number;
+  hourlies: HourlyWx[]; // weather leading up to ts (later hours are ignored)
+};
+
+export type BacktestCandidate = {
+  label: string;
+  paramsFor: (terminalId: string) => PredictorParams;
+};
+
+export type BacktestStats = { key: string; n: number; maeF: number; biasF: number; rmseF: number };
+
+export type BacktestReport = {
+  candidate: string;
+  overall: BacktestStats;
+  byTerminal: BacktestStats[];
+  bySeason: BacktestStats[];
+  byConfidence: BacktestStats[];
+  skipped: number;       // observations with too little weather before them
+};
+
+type Scored = { obs: BacktestObservation; predictedF: number; confidence: FuelTempResult["confidence"] };
+
+/** Same minimum as the predictor — below this it falls back to ambient − 2. */
+export const BACKTEST_MIN_HOURS = NOW_MIN_PAST_HOURS;
+
+const SEASONS = ["Winter", "Spring", "Summer", "Fall"] as const;
+
+/** Meteorological season (Dec–Feb winter), northern hemisphere. */
+export function seasonOf(ts: number): (typeof SEASONS)[number] {
+  const m = new Date(ts * 1000).getUTCMonth(); // 0 = Jan
+  return SEASONS[Math.floor(((m + 1) % 12) / 3)];
+}
+
+/** Air temp at ts, linear between the hours either side. */
+function ambientAt(hourlies: HourlyWx[], ts: number): number {
+  const after = hourlies.findIndex((h) => h.ts >= ts);
+  if (after <= 0) return hourlies[after === 0 ? 0 : hourlies.length - 1].tempF;
+  const a = hourlies[after - 1];
+  const b = hourlies[after];
+  return a.tempF + ((b.tempF - a.tempF) * (ts - a.ts)) / (b.ts - a.ts);
+}
+
+function stats(key: string, rows: Scored[]): BacktestStats {
+  const n = rows.length;
+  const err = rows.map((r) => r.predictedF - r.obs.actualTempF);
+  const r2 = (x: number) => Math.round(x * 100) / 100 || 0;
+  return {
+    key,
+    n,
+    maeF: n ? r2(err.reduce((s, e) => s + Math.abs(e), 0) / n) : 0,
+    biasF: n ? r2(err.reduce((s, e) => s + e, 0) / n) : 0,
+    rmseF: n ? r2(Math.sqrt(err.reduce((s, e) => s + e * e, 0) / n)) : 0,
+  };
+}
+
+function groupStats(rows: Scored[], keyOf: (r: Scored) => string, order?: readonly string[]): BacktestStats[] {
+  const groups = new Map<string, Scored[]>();
+  for (const r of rows) {
+    const k = keyOf(r);
+    groups.set(k, [...(groups.get(k) ?? []), r]);
+  }
+  const keys = order ? order.filter((k) => groups.has(k)) : [...groups.keys()].sort();
+  return keys.map((k) => stats(k, groups.get(k)!));
+}
+
+export function runBacktest(observations: BacktestObservation[], candidate: BacktestCandidate): BacktestReport {
+  const scored: Scored[] = [];
+  let skipped = 0;
+
+  for (const obs of observations) {
+    const hrs = obs.hourlies.filter((h) => h.ts <= obs.ts).sort((a, b) => a.ts - b.ts);
+    if (hrs.length < BACKTEST_MIN_HOURS) { skipped++; continue; }
+    const r = predictFuelTempNow(hrs, obs.lat, obs.lon, ambientAt(obs.hourlies, obs.ts), obs.ts, candidate.paramsFor(obs.terminalId));
+    scored.push({ obs, predictedF: r.predictedFuelTempF, confidence: r.confidence });
+  }
+
+  return {
+    candidate: candidate.label,
+    overall: stats("all", scored),
+    byTerminal: groupStats(scored, (r) => r.obs.terminalName),
+    bySeason: groupStats(scored, (r) => seasonOf(r.obs.ts), SEASONS),
+    byConfidence: groupStats(scored, (r) => r.confidence, ["high", "medium", "low"]),
+    skipped,
+  };
+}
+
+/**
+ * "large" / "small" / "medium" / "cargo" → that preset;
+ * "k0=0.05,beta=1.5,cw=0.04" → explicit params (unset keys use the defaults).
+ */
+export function parseCandidateSpec(spec: string): PredictorParams {
+  const s = spec.trim();
+  if (s === "large" || s === "small" || s === "medium" || s === "cargo") return { tankPreset: s };
+
+  const out: PredictorParams = {};
+  for (const part of s.split(",")) {
+    const [k, v] = part.split("=").map((x) => x.trim());
+    const n = Number(v);
+    if (!Number.isFinite(n)) throw new Error(`Bad candidate value "${part}"`);
+    if (k === "k0") out.k0 = n;
+    else if (k === "beta" || k === "betaSun") out.betaSun = n;
+    else if (k === "cw" || k === "cwWind") out.cwWind = n;
+    else if (k === "maxWind" || k === "maxWindMultiplier") out.maxWindMultiplier = n;
+    else throw new Error(`Unknown candidate key "${k}"`);
+  }
+  return out;
+}
@@ -0,0 +1,111 @@
+// lib/fuelTempCalibration.ts
+// Per-terminal fit of the storage tank model (k0, betaSun) against the
+// product temps drivers actually recorded at the rack.
+//
+// Each observation is a completed load: the temp on its load lines, the time
+// it loaded, and the hourly weather leading up to it. The fit replays the
+// weather through simulateTankTempAt and grid-searches the pair that minimizes
+// RMSE. Wind sensitivity stays at the default — there is rarely enough data to
+// separate it from k0.
+
+import { simulateTankTempAt, type HourlyWx, type PredictorParams } from "./fuelTempPredictor";
+
+export type TempObservation = {
+  ts: number;           // unix seconds the product was loaded
+  actualTempF: number;  // recorded product temp
+  hourlies: HourlyWx[]; // weather leading up to ts
+};
+
+export type TerminalTempFit = {
+  k0: number;
+  betaSun: number;
+  nObs: number;
+  rmseF: number;
+  biasF: number;          // mean(predicted - actual); negative = model runs cold
+  baselineRmseF: number;  // RMSE of the uncalibrated "large" preset on the same loads
+};
+
+export type CalibrationQuality = "good" | "fair" | "poor";
+
+/** Below this many usable loads, no fit is stored. */
+export const CALIBRATION_MIN_OBS = 5;
+
+/** Weather needed before each observation. */
+export const CALIBRATION_LOOKBACK_HOURS = 30;
+
+const K0_GRID = { min: 0.01, max: 0.15, step: 0.005 };
+const BETA_GRID = { min: 0, max: 5, step: 0.25 };
+
+function range(g: { min: number; max: number; step: number }): number[] {
+  const out: number[] = [];
+  for (let i = 0; g.min + i * g.step <= g.max + 1e-9; i++) out.push(Math.round((g.min + i * g.step) * 1000) / 1000);
+  return out;
+}
+
+function errors(
+  obs: TempObservation[], latDeg: number, lonDeg: number, params: PredictorParams
+): { rmse: number; bias: number } {
+  let se = 0;
+  let sum = 0;
+  let n = 0;
+  for (const o of obs) {
+    const p = simulateTankTempAt(o.hourlies, latDeg, lonDeg, o.ts, params);
+    // Too little weather before the load to simulate — no evidence either way
+    if (p == null) continue;
+    se += (p - o.actualTempF) ** 2;
+    sum += p - o.actualTempF;
+    n++;
+  }
+  if (n === 0) return { rmse: Infinity, bias: 0 };
+  return { rmse: Math.sqrt(se / n), bias: sum / n };
+}
+
+/**
+ * Fit k0 / betaSun for one terminal. Observations without enough weather
+ * history are skipped; returns null below CALIBRATION_MIN_OBS.
+ */
+export function fitTerminalTempParams(
+  observations: TempObservation[],
+  latDeg: number,
+  lonDeg: number
+): TerminalTempFit | null {
+  const usable = observations.filter((o) =>
+    Number.isFinite(o.actualTempF) &&
+    simulateTankTempAt(o.hourlies, latDeg, lonDeg, o.ts) != null);
+  if (usable.length < CALIBRATION_MIN_OBS) return null;
+
+  let best: { k0: number; betaSun: number; rmse: number; bias: number } | null = null;
+  for (const k0 of range(K0_GRID)) {
+    for (const betaSun of range(BETA_GRID)) {
+      const e = errors(usable, latDeg, lonDeg, { k0, betaSun });
+      if (!best || e.rmse < best.rmse) best = { k0, betaSun, ...e };
+    }
+  }
+  if (!best) return null;
+
+  const baseline = errors(usable, latDeg, lonDeg, { tankPreset: "large" });
+  const r1 = (x: number) => Math.round(x * 10) / 10 || 0;
+  return {
+    k0: best.k0,
+    betaSun: best.betaSun,
+    nObs: usable.length,
+    rmseF: r1(best.rmse),
+    biasF: r1(best.bias),
+    baselineRmseF: r1(baseline.rmse),
+  };
+}
+
+/**
+ * How far to trust a fit: "good" is within a couple of degrees on a
+ * reasonable sample, which moves gasoline density by well under 0.1%.
+ */
+export function calibrationQuality(fit: Pick<TerminalTempFit, "nObs" | "rmseF">): CalibrationQuality {
+  if (fit.nObs >= 15 && fit.rmseF <= 2.5) return "good";
+  if (fit.nObs >= CALIBRATION_MIN_OBS && fit.rmseF <= 5) return "fair";
+  return "poor";
+}
+
+/** Use the fit in place of the preset only when it beats it on the data it was fitted to. */
+export function shouldUseFit(fit: Pick<TerminalTempFit, "nObs" | "rmseF" | "baselineRmseF">): boolean {
+  return fit.nObs >= CALIBRATION_MIN_OBS && fit.rmseF < fit.baselineRmseF;
+}
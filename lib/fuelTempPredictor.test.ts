@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { predictFuelTempAt, predictFuelTempNow, simulateTankTempAt } from "./fuelTempPredictor";
+import type { HourlyWx } from "./fuelTempPredictor";
+
+const LAT = 27.95, LON = -82.46;
+const NOW = Date.UTC(2026, 6, 1, 15) / 1000;
+const params = { tankPreset: "large" as const };
+
+// A day of lookback and a day of forecast, swinging 70–90 °F
+const hourlies: HourlyWx[] = Array.from({ length: 49 }, (_, i) => {
+  const h = i - 24;
+  return { ts: NOW + h * 3600, tempF: 80 + 10 * Math.sin((h / 24) * 2 * Math.PI), windMph: 5, cloudPct: 20 };
+});
+
+describe("predictFuelTempNow", () => {
+  it("ignores forecast hours after now", () => {
+    const all = predictFuelTempNow(hourlies, LAT, LON, 80, NOW, params);
+    const past = predictFuelTempNow(hourlies.filter((h) => h.ts <= NOW), LAT, LON, 80, NOW, params);
+    expect(all.predictedFuelTempF).toBe(past.predictedFuelTempF);
+  });
+
+  it("falls back to ambient without six hours of lookback", () => {
+    const r = predictFuelTempNow(hourlies.filter((h) => h.ts >= NOW - 3 * 3600), LAT, LON, 80, NOW, params);
+    expect(r).toEqual({ predictedFuelTempF: 78, confidence: "low" });
+  });
+
+  it("simulates from history sampled every few hours", () => {
+    // What a provider's history fills the lookback with: one point per 3 h
+    const sparse = hourlies.filter((h) => h.ts > NOW || (NOW - h.ts) % (3 * 3600) === 0);
+    const r = predictFuelTempNow(sparse, LAT, LON, 80, NOW, params);
+    expect(r.debug).toBeDefined();
+    const hourly = predictFuelTempNow(hourlies, LAT, LON, 80, NOW, params).predictedFuelTempF;
+    expect(Math.abs(r.predictedFuelTempF - hourly)).toBeLessThan(1.5);
+  });
+});
+
+describe("predictFuelTempAt", () => {
+  const now = predictFuelTempNow(hourlies, LAT, LON, 80, NOW, params);
+
+  it("is the now estimate at nowTs", () => {
+    expect(predictFuelTempAt(hourlies, LAT, LON, now, NOW, NOW, params).predictedFuelTempF).toBe(now.predictedFuelTempF);
+  });
+
+  it("steps each forecast hour once — one pass from the seed to the target", () => {
+    for (const ahead of [1, 6, 12, 24]) {
+      const target = NOW + ahead * 3600;
+      const at = predictFuelTempAt(hourlies, LAT, LON, now, NOW, target, params);
+      expect(at.predictedFuelTempF).toBeCloseTo(simulateTankTempAt(hourlies, LAT, LON, target, params)!, 0);
+    }
+  });
+
+  it("holds at the last forecast hour past the end", () => {
+    const at = predictFuelTempAt(hourlies, LAT, LON, now, NOW, NOW + 40 * 3600, params);
+    expect(at.beyondForecast).toBe(true);
+    expect(at.horizonHours).toBe(40);
+  });
+});
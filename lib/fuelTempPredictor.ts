@@ -10,11 +10,26 @@ export type HourlyWx = {
   cloudPct: number; // 0..100
 };
 
+export type TankColor = "white" | "light_gray" | "aluminum" | "dark";
+
+/**
+ * How a product is stored at the terminal. Unset fields mean the model's
+ * baseline: white, bare, above ground, no turnover term.
+ */
+export type TankProfile = {
+  color?: TankColor;
+  insulated?: boolean;
+  underground?: boolean;
+  turnoverDays?: number | null; // days to cycle the tank's volume; fresher product tracks ambient more closely
+};
+
 export type PredictorParams = {
-  tankPreset?: "small" | "medium" | "large"; // small=fast, large=slow
+  tankPreset?: "small" | "medium" | "large" | "cargo"; // small=fast, large=slow, cargo=trailer barrel
+  k0?: number; // lag rate per hour — overrides tankPreset (fitted per terminal)
   betaSun?: number; // °F per hour at peak sun, clear sky (default ~2.0)
   cwWind?: number; // wind sensitivity multiplier per mph (default ~0.04)
   maxWindMultiplier?: number; // default ~2.5
+  tank?: TankProfile; // per-product storage — scales the lag and solar terms
 };
 
 export type FuelTempResult = {
@@ -100,12 +115,61 @@ function tankPresetToK0(preset: PredictorParams["tankPreset"]): number {
       return 0.08; // e.g., ~250k gal
     case "large":
       return 0.03; // e.g., ~3M gal
+    case "cargo":
+      return 0.15; // ~9k gal trailer barrel, thin aluminum shell
     case "medium":
     default:
       return 0.05; // e.g., ~1M gal
   }
 }
 
+type StepConsts = { k0: number; betaSun: number; cwWind: number; maxWindMultiplier: number };
+
+/** Solar absorptance relative to the white shell the baseline betaSun assumes. */
+export const TANK_COLOR_SUN: Record<TankColor, number> = {
+  white: 1.0,
+  light_gray: 1.25,
+  aluminum: 1.5,
+  dark: 2.2,
+};
+
+/** Insulated shells: slower exchange with the air, most of the sun blocked. */
+const INSULATED_K = 0.4;
+const INSULATED_SUN = 0.3;
+
+/** Underground: coupled to the ground, not the air — slowest the model allows, no sun or wind. */
+const UNDERGROUND_K0 = 0.005;
+
+function resolveConsts(params: PredictorParams, defaultPreset: NonNullable<PredictorParams["tankPreset"]>): StepConsts {
+  const tank = params.tank ?? {};
+  let k0 = params.k0 ?? tankPresetToK0(params.tankPreset ?? defaultPreset);
+  let betaSun = (params.betaSun ?? 2.0) * TANK_COLOR_SUN[tank.color ?? "white"];
+
+  if (tank.insulated) { k0 *= INSULATED_K; betaSun *= INSULATED_SUN; }
+  const underground = !!tank.underground;
+  if (underground) { k0 = UNDERGROUND_K0; betaSun = 0; }
+  // Turnover replaces 1/(24·days) of the tank each hour with product that
+  // arrives near ambient — another pull toward the air temperature.
+  if (tank.turnoverDays && tank.turnoverDays > 0) k0 += 1 / (24 * tank.turnoverDays);
+
+  return {
+    k0,
+    betaSun,
+    cwWind: underground ? 0 : params.cwWind ?? 0.04,
+    maxWindMultiplier: params.maxWindMultiplier ?? 2.5,
+  };
+}
+
+/**
+ * Starting product temp for a simulation window. Above ground: the first
+ * hour's air temp. Underground: the window's mean — ground temp follows the
+ * average, not the hour.
+ */
+function seedTempF(hourlies: HourlyWx[], params: PredictorParams): number {
+  if (!params.tank?.underground) return hourlies[0].tempF;
+  return hourlies.reduce((s, h) => s + h.tempF, 0) / hourlies.length;
+}
+
 function confidenceFromCloudAndWind(hourlies: HourlyWx[]) {
   const last = hourlies[hourlies.length - 1];
   const avgCloud = hourlies.reduce((s, h) => s + (h.cloudPct ?? 0), 0) / hourlies.length;
@@ -116,9 +180,37 @@ function confidenceFromCloudAndWind(hourlies: HourlyWx[]) {
   return "low";
 }
 
+/** One simulation step: lag toward ambient (faster in wind) + solar gain. */
+function stepFuelTemp(
+  Tf: number,
+  h: HourlyWx,
+  dtHours: number,
+  latDeg: number,
+  lonDeg: number,
+  c: StepConsts
+): number {
+  // Effective k with wind
+  const wind = Math.max(0, h.windMph ?? 0);
+  const windMult = clamp(1 + c.cwWind * wind, 1, c.maxWindMultiplier);
+  const k = clamp(c.k0 * windMult, 0.005, 0.25);
+
+  // Solar heating
+  const el = solarElevationRad(h.ts, latDeg, lonDeg);
+  const sunFactor = Math.max(0, Math.sin(el)); // 0..1
+  const cloud = clamp((h.cloudPct ?? 0) / 100, 0, 1);
+  const cloudFactor = 1 - cloud; // 1 clear -> 0 overcast
+  const qSunPerHour = c.betaSun * sunFactor * cloudFactor;
+
+  return Tf + k * (h.tempF - Tf) * dtHours + qSunPerHour * dtHours;
+}
+
+/** Past hours predictFuelTempNow needs to simulate; with fewer it falls back to ambient − 2. */
+export const NOW_MIN_PAST_HOURS = 6;
+
 /**
  * Predict fuel temp "now" by:
- * 1) Simulating across hourly weather points (24–30h recommended).
+ * 1) Simulating across the hourly weather points up to nowTs (24–30h recommended).
+ *    Later (forecast) hours are ignored — predictFuelTempAt steps through those.
  * 2) Blending toward current ambient (5-minute heartbeat) within the current hour.
  */
 export function predictFuelTempNow(
@@ -129,48 +221,172 @@ export function predictFuelTempNow(
   nowTs: number,
   params: PredictorParams = {}
 ): FuelTempResult {
-  if (!hourlies || hourlies.length < 6) {
+  const past = (hourlies ?? []).filter((h) => h.ts <= nowTs);
+  if (past.length < NOW_MIN_PAST_HOURS) {
     // Fallback: slight lag behind ambient
     return { predictedFuelTempF: round1(ambientNowF - 2), confidence: "low" };
   }
 
-  const k0 = tankPresetToK0(params.tankPreset ?? "medium");
-  const betaSun = params.betaSun ?? 2.0;
-  const cwWind = params.cwWind ?? 0.04;
-  const maxWindMultiplier = params.maxWindMultiplier ?? 2.5;
+  const c = resolveConsts(params, "medium");
+  const { k0, betaSun } = c;
 
-  let Tf = hourlies[0].tempF;
-  let lastSimTs = hourlies[0].ts;
+  let Tf = seedTempF(past, params);
+  let lastSimTs = past[0].ts;
 
-  for (let i = 0; i < hourlies.length; i++) {
-    const h = hourlies[i];
+  for (let i = 0; i < past.length; i++) {
+    const h = past[i];
     const dtHours = Math.max(0.25, (h.ts - lastSimTs) / 3600); // min 15 min
-
-    // Effective k with wind
-    const wind = Math.max(0, h.windMph ?? 0);
-    const windMult = clamp(1 + cwWind * wind, 1, maxWindMultiplier);
-    const k = clamp(k0 * windMult, 0.005, 0.25);
-
-    // Solar heating
-    const el = solarElevationRad(h.ts, latDeg, lonDeg);
-    const sunFactor = Math.max(0, Math.sin(el)); // 0..1
-    const cloud = clamp((h.cloudPct ?? 0) / 100, 0, 1);
-    const cloudFactor = 1 - cloud; // 1 clear -> 0 overcast
-    const qSunPerHour = betaSun * sunFactor * cloudFactor;
-
-    Tf = Tf + k * (h.tempF - Tf) * dtHours + qSunPerHour * dtHours;
+    Tf = stepFuelTemp(Tf, h, dtHours, latDeg, lonDeg, c);
     lastSimTs = h.ts;
   }
 
   // Within-hour refinement toward 5-min ambient heartbeat
-  const lastHourly = hourlies[hourlies.length - 1];
-  const fracHour = clamp((nowTs - lastHourly.ts) / 3600, 0, 1);
+  const fracHour = clamp((nowTs - lastSimTs) / 3600, 0, 1);
   const kWithin = 0.35 * k0; // gentle pull
   Tf = Tf + kWithin * (ambientNowF - Tf) * fracHour;
 
   return {
     predictedFuelTempF: round1(Tf),
-    confidence: confidenceFromCloudAndWind(hourlies),
-    debug: { seedFuelTempF: hourlies[0].tempF, lastSimTs, k0, betaSun },
+    confidence: confidenceFromCloudAndWind(past),
+    debug: { seedFuelTempF: seedTempF(past, params), lastSimTs, k0, betaSun },
+  };
+}
+
+/** Baseline ±°F of the "now" prediction, by confidence, before any forecast horizon. */
+const BASE_UNCERTAINTY_F: Record<FuelTempResult["confidence"], number> = { high: 2, medium: 3.5, low: 5 };
+
+/** Forecast error growth, °F per hour ahead — added in quadrature with the baseline. */
+export const FORECAST_DRIFT_F_PER_HOUR = 0.2;
+
+export type FuelTempAtResult = {
+  targetTs: number;
+  predictedFuelTempF: number;
+  lowF: number;
+  highF: number;
+  horizonHours: number;
+  beyondForecast: boolean; // target is past the last forecast hour; held at that hour's temp
+};
+
+/**
+ * Predict storage tank temp at a future instant: start from the "now" estimate
+ * (which has only seen hours up to nowTs) and keep stepping the same model
+ * forward through the forecast hours after nowTs until targetTs (the last step
+ * is partial). The band widens with the horizon.
+ *
+ * baseUncertaintyF overrides the confidence-based baseline — pass a terminal's
+ * calibration RMSE when it has one.
+ */
+export function predictFuelTempAt(
+  hourlies: HourlyWx[],
+  latDeg: number,
+  lonDeg: number,
+  now: FuelTempResult,
+  nowTs: number,
+  targetTs: number,
+  params: PredictorParams = {},
+  baseUncertaintyF?: number
+): FuelTempAtResult {
+  const c = resolveConsts(params, "medium");
+  const ahead = (hourlies ?? []).filter((h) => h.ts > nowTs);
+
+  let Tf = now.predictedFuelTempF;
+  let lastTs = nowTs;
+  for (const h of ahead) {
+    if (lastTs >= targetTs) break;
+    const stepTs = Math.min(h.ts, targetTs);
+    const dtHours = (stepTs - lastTs) / 3600;
+    if (dtHours > 0) Tf = stepFuelTemp(Tf, { ...h, ts: stepTs }, dtHours, latDeg, lonDeg, c);
+    lastTs = stepTs;
+  }
+
+  const horizonHours = Math.max(0, (targetTs - nowTs) / 3600);
+  const base = baseUncertaintyF ?? BASE_UNCERTAINTY_F[now.confidence];
+  const band = Math.sqrt(base ** 2 + (FORECAST_DRIFT_F_PER_HOUR * horizonHours) ** 2);
+
+  return {
+    targetTs,
+    predictedFuelTempF: round1(Tf),
+    lowF: round1(Tf - band),
+    highF: round1(Tf + band),
+    horizonHours: round1(horizonHours),
+    beyondForecast: lastTs < targetTs,
   };
 }
+
+/**
+ * Hottest product temp expected in the cargo tank between loading and delivery.
+ *
+ * Starts at startTempF (the load temp) at fromTs and steps through the forecast
+ * hours up to fromTs + hours, using the "cargo" preset — a trailer barrel warms
+ * toward ambient far faster than a terminal storage tank. Never below startTempF.
+ */
+export function predictCargoTempMax(
+  hourlies: HourlyWx[],
+  latDeg: number,
+  lonDeg: number,
+  startTempF: number,
+  fromTs: number,
+  hours: number,
+  params: PredictorParams = {}
+): { maxTempF: number; atTs: number } {
+  const c = resolveConsts(params, "cargo");
+  const endTs = fromTs + hours * 3600;
+
+  let Tf = startTempF;
+  let lastTs = fromTs;
+  let maxTempF = startTempF;
+  let atTs = fromTs;
+
+  for (const h of hourlies ?? []) {
+    if (h.ts <= fromTs) continue;
+    if (h.ts > endTs) break;
+    const dtHours = (h.ts - lastTs) / 3600;
+    Tf = stepFuelTemp(Tf, h, dtHours, latDeg, lonDeg, c);
+    lastTs = h.ts;
+    if (Tf > maxTempF) { maxTempF = Tf; atTs = h.ts; }
+  }
+
+  return { maxTempF: round1(maxTempF), atTs };
+}
+
+/**
+ * Storage tank temp at a past instant — the same simulation as
+ * predictFuelTempNow, seeded at the first hour and run up to atTs.
+ * Null when fewer than 6 hours of weather lead up to atTs.
+ * Used to replay history when fitting terminal parameters.
+ */
+export function simulateTankTempAt(
+  hourlies: HourlyWx[],
+  latDeg: number,
+  lonDeg: number,
+  atTs: number,
+  params: PredictorParams = {}
+): number | null {
+  const hrs = (hourlies ?? []).filter((h) => h.ts <= atTs);
+  if (hrs.length < 6) return null;
+
+  const c = resolveConsts(params, "medium");
+  let Tf = seedTempF(hrs, params);
+  let lastTs = hrs[0].ts;
+  for (const h of hrs) {
+    const dtHours = Math.max(0.25, (h.ts - lastTs) / 3600);
+    Tf = stepFuelTemp(Tf, h, dtHours, latDeg, lonDeg, c);
+    lastTs = h.ts;
+  }
+  return Tf;
+}
+
+const TANK_COLOR_LABEL: Record<TankColor, string> = {
+  white: "white", light_gray: "light gray", aluminum: "aluminum", dark: "dark",
+};
+
+/** Short label for a non-default tank, e.g. "underground" or "dark · insulated · 3-day turnover". */
+export function describeTank(tank: TankProfile | null | undefined): string | null {
+  if (!tank) return null;
+  if (tank.underground) return "underground";
+  const parts: string[] = [];
+  if (tank.color && tank.color !== "white") parts.push(TANK_COLOR_LABEL[tank.color]);
+  if (tank.insulated) parts.push("insulated");
+  if (tank.turnoverDays) parts.push(`${tank.turnoverDays}-day turnover`);
+  return parts.length ? parts.join(" · ") : null;
+}
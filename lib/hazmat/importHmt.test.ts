@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { formatHazmatTable, importHmt, parseCsv } from "./importHmt";
+import { HAZMAT_TABLE } from "./index";
+import type { HazmatEntry } from "./types";
+
+const csvField = (s: string) => (/[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+const csv = (rows: string[][]) => rows.map((r) => r.map(csvField).join(",")).join("\r\n");
+
+const HMT_HEAD = ["Symbols", "Hazardous materials descriptions and proper shipping names", "Hazard class or Division",
+  "Identification Numbers", "PG", "Label Codes", "Special provisions (§172.102)"];
+
+const hmtRow = (e: HazmatEntry) => [
+  (e.symbols ?? []).join(" "), e.name, e.class === "COMBUSTIBLE" ? "Comb liq" : e.class, e.id, e.pg ?? "",
+  e.labels.join(", ") || "None", e.sp.join(", "),
+];
+
+const base = { ...HAZMAT_TABLE, entries: [] as HazmatEntry[] };
+
+describe("parseCsv", () => {
+  it("handles quotes, doubled quotes and CRLF", () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\n')).toEqual([["a", "b, c", 'say "hi"'], ["1", "2", "3"]]);
+  });
+});
+
+describe("importHmt", () => {
+  it("round-trips the shipped table", () => {
+    // Alphabetical, as 172.101 prints it — the base file restores the row order
+    const sorted = [...HAZMAT_TABLE.entries].sort((a, b) => a.name.localeCompare(b.name));
+    const { table, skipped } = importHmt({
+      hmtCsv: csv([HMT_HEAD, ...sorted.map(hmtRow)]),
+      ergCsv: csv([["ID No.", "Guide No.", "Name of Material"], ...sorted.map((e) => [e.id, String(e.erg), e.name])]),
+      base: HAZMAT_TABLE,
+      version: HAZMAT_TABLE.version,
+      source: HAZMAT_TABLE.source,
+    });
+    expect(skipped).toEqual([]);
+    expect(table.entries).toEqual(HAZMAT_TABLE.entries);
+    expect(JSON.parse(formatHazmatTable(table))).toEqual(table);
+  });
+
+  it("carries continuation lines and skips what it can't use", () => {
+    const { table, skipped } = importHmt({
+      hmtCsv: csv([
+        HMT_HEAD,
+        ["", "Kerosene", "3", "UN1223", "III", "3", "144, B1, IB3, T2, TP2"],
+        ["G", "Flammable liquids, toxic, n.o.s.", "3", "UN1992", "I", "3, 6.1", "T14, TP2"],
+        ["", "", "", "", "II", "3, 6.1", "IB2, T11, TP2, TP27"],
+        ["D G", "Combustible liquid, n.o.s.", "Comb liq", "NA1993", "III", "None", "148, IB3, T1, T4, TP1"],
+        ["", "Acetylene, solvent", "2.1", "UN1001", "", "2.1", ""],
+        ["", "Lead azide, dry", "Forbidden", "", "", "", ""],
+        ["", "Sodium", "4.3", "UN1428", "I", "4.3", "A7, B9"],
+        ["", "Unlisted liquid", "3", "UN3999", "II", "3", ""],
+      ]),
+      ergCsv: csv([["UN", "Guide"], ["1223", "128"], ["UN1992", "131"], ["NA1993", "128"], ["UN1001", "116"], ["UN1428", "138"]]),
+      base,
+      version: "test",
+      source: "test",
+      classes: ["3", "COMBUSTIBLE"],
+    });
+
+    expect(table.entries.map((e) => `${e.id} ${e.pg}`)).toEqual(["UN1223 III", "UN1992 I", "UN1992 II", "NA1993 III"]);
+    const toxic = table.entries.find((e) => e.id === "UN1992" && e.pg === "II")!;
+    expect(toxic).toMatchObject({ name: "Flammable liquids, toxic, n.o.s.", labels: ["3", "6.1"], symbols: ["G"], erg: 131 });
+    expect(table.entries.find((e) => e.id === "NA1993")).toMatchObject({ class: "COMBUSTIBLE", labels: [], symbols: ["D", "G"] });
+    expect(skipped).toEqual(["UN3999 Unlisted liquid: no ERG guide in the index"]);
+  });
+
+  it("skips rows whose guide has no summary", () => {
+    const { skipped } = importHmt({
+      hmtCsv: csv([HMT_HEAD, ["", "Acetylene, solvent", "2.1", "UN1001", "", "2.1", ""]]),
+      ergCsv: csv([["ID", "Guide"], ["UN1001", "116"]]),
+      base,
+      version: "test",
+      source: "test",
+    });
+    expect(skipped).toEqual(["UN1001 Acetylene, solvent: ERG guide 116 has no summary in the base file"]);
+  });
+
+  it("names the missing column", () => {
+    expect(() => importHmt({ hmtCsv: "Name,Class\n", ergCsv: "ID,Guide\n", base, version: "t", source: "t" }))
+      .toThrow(/Missing column for symbols/);
+  });
+});
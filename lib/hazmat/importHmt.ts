@@ -0,0 +1,185 @@
+// lib/hazmat/importHmt.ts
+// Build a data/hmt-<edition>.json file from the published tables — pure, no
+// file or network access (scripts/import-hmt.ts does the reading and writing).
+//
+// Inputs:
+//   hmtCsv   49 CFR 172.101 as CSV, one row per table line. Columns are found
+//            by header: symbols, description (proper shipping name), class,
+//            identification number, PG, label codes, special provisions.
+//            Continuation lines — a second packing group under the same name —
+//            may leave the name, class and ID blank; they carry forward.
+//   ergCsv   ERG index as CSV: id, guide, and optionally name for IDs whose
+//            names take different guides.
+//   base     the previous edition's file: supplies the ERG guide summaries
+//            (hand-written, not in either CSV) and the row order — rows it
+//            already has stay first for their ID, so hazmatMatch()'s
+//            first-row fallback doesn't change between editions.
+
+import { normalizeHazmatId, parseHazmatTable } from "./index";
+import type { HazmatClass, HazmatEntry, HazmatSymbol, HazmatTable, PackingGroup } from "./types";
+
+/** The classes a bulk petroleum / chemical carrier hauls — the default filter. */
+export const HAULED_CLASSES: HazmatClass[] = ["2.1", "2.2", "2.3", "3", "COMBUSTIBLE", "4.3", "6.1", "8", "9"];
+
+const SYMBOLS: ReadonlySet<string> = new Set<HazmatSymbol>(["D", "G", "+", "I", "A", "W"]);
+const PGS: ReadonlySet<string> = new Set<PackingGroup>(["I", "II", "III"]);
+
+/** RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") { row.push(field); field = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field); field = "";
+      if (row.some((f) => f.trim() !== "")) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some((f) => f.trim() !== "")) rows.push(row);
+  return rows;
+}
+
+/** Header → column index, by the first pattern each header matches. */
+function columns<K extends string>(header: string[], want: Record<K, RegExp>, optional: NoInfer<K>[] = []): Record<K, number> {
+  const out = {} as Record<K, number>;
+  for (const key of Object.keys(want) as K[]) {
+    const i = header.findIndex((h) => want[key].test(h.trim().toLowerCase()));
+    if (i < 0 && !optional.includes(key)) throw new Error(`Missing column for ${key} (have: ${header.join(", ")}).`);
+    out[key] = i;
+  }
+  return out;
+}
+
+const list = (s: string) => s.split(/[,;]/).map((x) => x.trim()).filter((x) => x && !/^none$/i.test(x));
+
+function toClass(raw: string): HazmatClass | null {
+  const t = raw.trim();
+  if (/^comb(ustible)?\.? ?liq/i.test(t)) return "COMBUSTIBLE";
+  return /^(2\.[123]|3|4\.[123]|5\.[12]|6\.1|8|9)$/.test(t) ? (t as HazmatClass) : null;
+}
+
+const rowKey = (e: Pick<HazmatEntry, "id" | "name" | "pg">) => `${e.id}|${e.name.toLowerCase()}|${e.pg ?? ""}`;
+
+export type ImportHmtResult = { table: HazmatTable; skipped: string[] };
+
+export function importHmt(input: {
+  hmtCsv: string;
+  ergCsv: string;
+  base: HazmatTable;
+  version: string;
+  source: string;
+  ergEdition?: string;
+  classes?: HazmatClass[];
+}): ImportHmtResult {
+  const classes = new Set<HazmatClass>(input.classes ?? HAULED_CLASSES);
+  const skipped: string[] = [];
+
+  // ── ERG index ──────────────────────────────────────────────────────────────
+  const [ergHead, ...ergRows] = parseCsv(input.ergCsv);
+  const ec = columns(ergHead, { id: /^(id|un|identification)/, guide: /guide/, name: /name/ }, ["name"]);
+  const guideById = new Map<string, number>();
+  const guideByName = new Map<string, number>();
+  for (const r of ergRows) {
+    const id = normalizeHazmatId(r[ec.id]);
+    const guide = parseInt(r[ec.guide], 10);
+    if (!id || !Number.isFinite(guide)) continue;
+    if (!guideById.has(id)) guideById.set(id, guide);
+    if (ec.name >= 0 && r[ec.name]?.trim()) guideByName.set(`${id}|${r[ec.name].trim().toLowerCase()}`, guide);
+  }
+
+  // ── 172.101 ────────────────────────────────────────────────────────────────
+  const [head, ...rows] = parseCsv(input.hmtCsv);
+  const c = columns(head, {
+    symbols: /^symbol/,
+    name: /description|shipping name/,
+    cls: /class|division/,
+    id: /identification|^id/,
+    pg: /^pg|packing group/,
+    labels: /label/,
+    sp: /special provision/,
+  });
+
+  const entries: HazmatEntry[] = [];
+  let carry = { symbols: "", name: "", cls: "", id: "" };
+  for (const r of rows) {
+    const cell = (i: number) => (r[i] ?? "").trim();
+    const name = cell(c.name);
+    // A row with a name starts a new entry; one without continues the last
+    carry = name
+      ? { symbols: cell(c.symbols), name, cls: cell(c.cls), id: cell(c.id) }
+      : { ...carry, cls: cell(c.cls) || carry.cls, id: cell(c.id) || carry.id };
+    const id = normalizeHazmatId(carry.id);
+    if (!/^(UN|NA)\d{4}$/.test(id)) continue;          // Forbidden, "See …" cross-references
+    const cls = toClass(carry.cls);
+    if (!cls || !classes.has(cls)) continue;
+
+    const pg = cell(c.pg);
+    const entry: HazmatEntry = {
+      id,
+      name: carry.name,
+      class: cls,
+      pg: PGS.has(pg) ? (pg as PackingGroup) : null,
+      labels: list(cell(c.labels)),
+      sp: list(cell(c.sp)),
+      erg: guideByName.get(`${id}|${carry.name.toLowerCase()}`) ?? guideById.get(id) ?? 0,
+    };
+    const symbols = carry.symbols.split(/[\s,]+/).filter((s) => SYMBOLS.has(s)) as HazmatSymbol[];
+    if (symbols.length) entry.symbols = symbols;
+
+    if (!entry.erg) { skipped.push(`${id} ${entry.name}: no ERG guide in the index`); continue; }
+    if (!input.base.ergGuides[String(entry.erg)]) { skipped.push(`${id} ${entry.name}: ERG guide ${entry.erg} has no summary in the base file`); continue; }
+    entries.push(entry);
+  }
+
+  // Rows the base file has keep their place at the front of their ID, and its
+  // IDs keep theirs at the front of the file; the rest follow in table order
+  const baseIndex = new Map(input.base.entries.map((e, i) => [rowKey(e), i]));
+  const groups = new Map<string, HazmatEntry[]>();
+  for (const e of entries) groups.set(e.id, [...(groups.get(e.id) ?? []), e]);
+  const rank = (e: HazmatEntry) => baseIndex.get(rowKey(e)) ?? Infinity;
+  const sorted = [...groups.values()]
+    .map((g) => g.map((e, i) => ({ e, i })).sort((x, y) => rank(x.e) - rank(y.e) || x.i - y.i).map((x) => x.e))
+    .map((g, i) => ({ g, i, first: rank(g[0]) }))
+    .sort((x, y) => x.first - y.first || x.i - y.i)
+    .flatMap((x) => x.g);
+
+  const table = parseHazmatTable({
+    version: input.version,
+    source: input.source,
+    ergEdition: input.ergEdition ?? input.base.ergEdition,
+    entries: sorted,
+    ergGuides: input.base.ergGuides,
+  });
+  return { table, skipped };
+}
+
+/** The data file's layout: one entry and one guide per line, so edition diffs read row by row. */
+export function formatHazmatTable(t: HazmatTable): string {
+  const one = (v: unknown) => JSON.stringify(v).replace(/":/g, '": ').replace(/,(?=["{\[])/g, ", ");
+  const guides = Object.entries(t.ergGuides).map(([k, g]) => `    ${JSON.stringify(k)}: ${one(g)}`);
+  return [
+    "{",
+    `  "version": ${JSON.stringify(t.version)},`,
+    `  "source": ${JSON.stringify(t.source)},`,
+    `  "ergEdition": ${JSON.stringify(t.ergEdition)},`,
+    '  "entries": [',
+    t.entries.map((e) => `    ${one(e)}`).join(",\n"),
+    "  ],",
+    '  "ergGuides": {',
+    guides.join(",\n"),
+    "  }",
+    "}",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { basicDescription, hazmatEntry, hazmatMatch, parseHazmatTable, HAZMAT_TABLE } from "./index";
+
+describe("hazmatMatch", () => {
+  it("maps diesel trade names to the Diesel fuel row", () => {
+    for (const name of ["ULSD #2", "Dyed Diesel", "ULSD Clear", "B5 Diesel"]) {
+      const m = hazmatMatch("UN1993", { name })!;
+      expect(m.entry.name).toBe("Diesel fuel");
+      expect(m.entry.pg).toBe("III");
+      expect(m.ambiguous).toBe(false);
+      expect(basicDescription(m.entry, name)).toBe("UN1993, Diesel fuel, 3, PG III");
+    }
+  });
+
+  it("maps fuel oil and heating oil to the row the ID has", () => {
+    expect(hazmatEntry("NA1993", { name: "#2 Heating Oil" })!.name).toBe("Fuel oil (No. 1, 2, 4, 5, or 6)");
+    expect(hazmatEntry("UN1202", { name: "#2 Heating Oil" })!.name).toBe("Heating oil, light");
+    expect(hazmatEntry("UN1202", { name: "No. 2 fuel oil" })!.name).toBe("Heating oil, light");
+  });
+
+  it("prefers an exact proper shipping name", () => {
+    const m = hazmatMatch("UN1202", { name: "gas oil" })!;
+    expect(m.entry.name).toBe("Gas oil");
+    expect(m.ambiguous).toBe(false);
+  });
+
+  it("picks the packing group", () => {
+    expect(hazmatEntry("UN1863", { name: "Jet A", pg: "III" })!.pg).toBe("III");
+    expect(hazmatMatch("UN1993", { name: "Naphtha blend", pg: "I" })!.ambiguous).toBe(false);
+  });
+
+  it("flags the first-row fallback as ambiguous", () => {
+    const jet = hazmatMatch("UN1863", { name: "Jet A" })!;
+    expect(jet.ambiguous).toBe(true);
+    expect(jet.candidates.map((e) => e.pg)).toEqual(["II", "I", "III"]);
+
+    const nos = hazmatMatch("UN1993", { name: "Naphtha blend" })!;
+    expect(nos.entry.name).toBe("Flammable liquid, n.o.s.");
+    expect(nos.ambiguous).toBe(true);
+  });
+
+  it("isn't ambiguous for an ID with one row", () => {
+    expect(hazmatMatch("UN1203")!.ambiguous).toBe(false);
+  });
+
+  it("returns null for an ID missing from the table", () => {
+    expect(hazmatMatch("UN9999")).toBeNull();
+    expect(hazmatMatch("")).toBeNull();
+  });
+});
+
+describe("parseHazmatTable", () => {
+  it("accepts the shipped table", () => {
+    expect(parseHazmatTable(HAZMAT_TABLE).entries.length).toBeGreaterThan(0);
+  });
+
+  it("rejects an entry without an ERG guide", () => {
+    const bad = { ...HAZMAT_TABLE, entries: [{ ...HAZMAT_TABLE.entries[0], erg: 999 }] };
+    expect(() => parseHazmatTable(bad)).toThrow(/no ERG guide 999/);
+  });
+});
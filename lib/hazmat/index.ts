@@ -0,0 +1,172 @@
+// lib/hazmat/index.ts
+// Hazardous Materials Table lookups — pure, safe on client and server.
+//
+// The table lives in a versioned data file (data/hmt-<edition>.json). Swap
+// the import below for a new edition; everything downstream — placards, ERG
+// cards, shipping papers — reads through these functions.
+//
+// Scope: hmt-2024.json is a hand-picked subset, not the full table — about 90
+// rows covering the petroleum products, fuel gases, Table 1 gases and the
+// common bulk chemicals this fleet hauls. An ID outside it is reported as
+// unknown — the placard card, placard sheet and shipping paper all say to
+// placard and describe it by hand. `npm run import:hmt` builds the full table
+// for the hauled classes from a CSV of 172.101 and the ERG index
+// (scripts/import-hmt.ts, importHmt.ts), keeping this file's row order and
+// ERG guide summaries. Neither source ships as a package; export them from
+// the eCFR and PHMSA's ERG, and record the eCFR "up to date as of" date in
+// --source when committing the new edition.
+
+import hmt2024 from "./data/hmt-2024.json";
+import type { ErgCard, ErgGuide, HazmatClass, HazmatEntry, HazmatTable, PackingGroup } from "./types";
+
+export type { ErgCard, ErgGuide, HazmatClass, HazmatEntry, HazmatSymbol, HazmatTable, PackingGroup } from "./types";
+
+const CLASSES: ReadonlySet<string> = new Set<HazmatClass>([
+  "2.1", "2.2", "2.3", "3", "COMBUSTIBLE", "4.1", "4.2", "4.3", "5.1", "5.2", "6.1", "8", "9",
+]);
+const PGS: ReadonlySet<string> = new Set<PackingGroup>(["I", "II", "III"]);
+
+/**
+ * Validate a raw data file. Throws on the first malformed entry so a bad
+ * edition fails at startup, not on the shipping paper.
+ */
+export function parseHazmatTable(raw: unknown): HazmatTable {
+  const t = raw as Partial<HazmatTable> | null;
+  if (!t || typeof t.version !== "string" || !Array.isArray(t.entries) || !t.ergGuides) {
+    throw new Error("Hazmat table: missing version, entries or ergGuides.");
+  }
+  t.entries.forEach((e, i) => {
+    const where = `Hazmat table ${t.version}, entry ${i} (${e?.id ?? "?"})`;
+    if (!/^(UN|NA)\d{4}$/.test(e?.id ?? "")) throw new Error(`${where}: bad identification number.`);
+    if (!e.name) throw new Error(`${where}: missing proper shipping name.`);
+    if (!CLASSES.has(e.class)) throw new Error(`${where}: unknown class "${e.class}".`);
+    if (e.pg != null && !PGS.has(e.pg)) throw new Error(`${where}: bad packing group "${e.pg}".`);
+    if (!Array.isArray(e.labels) || !Array.isArray(e.sp)) throw new Error(`${where}: labels and sp must be arrays.`);
+    if (!t.ergGuides![String(e.erg)]) throw new Error(`${where}: no ERG guide ${e.erg}.`);
+  });
+  return t as HazmatTable;
+}
+
+export const HAZMAT_TABLE: HazmatTable = parseHazmatTable(hmt2024);
+export const HAZMAT_TABLE_VERSION = HAZMAT_TABLE.version;
+
+/** "1203", "un 1203", "UN1203" → "UN1203". NA numbers pass through. */
+export function normalizeHazmatId(id: string | null | undefined): string {
+  const t = String(id ?? "").toUpperCase().replace(/\s+/g, "");
+  return /^\d{4}$/.test(t) ? `UN${t}` : t;
+}
+
+/** Every row for an identification number, in table order. */
+export function hazmatEntries(id: string | null | undefined, table: HazmatTable = HAZMAT_TABLE): HazmatEntry[] {
+  const key = normalizeHazmatId(id);
+  return key ? table.entries.filter((e) => e.id === key) : [];
+}
+
+/**
+ * Trade names → the proper shipping name they ship under, for IDs with more
+ * than one row. The first name the ID actually has wins: "Dyed ULSD" is
+ * "Diesel fuel" under UN1202, UN1993 or NA1993 alike.
+ */
+const NAME_ALIASES: { match: RegExp; names: string[] }[] = [
+  { match: /diesel|ulsd|\bdsl\b/, names: ["Diesel fuel"] },
+  { match: /heating oil/, names: ["Heating oil, light", "Fuel oil (No. 1, 2, 4, 5, or 6)"] },
+  { match: /fuel oil|\bno\.? ?[1-6] oil/, names: ["Fuel oil (No. 1, 2, 4, 5, or 6)", "Heating oil, light"] },
+  { match: /gas oil/, names: ["Gas oil"] },
+  { match: /distillate/, names: ["Petroleum distillates, n.o.s."] },
+];
+
+export type HazmatMatch = {
+  entry: HazmatEntry;
+  /** Rows `name` and `pg` didn't narrow down; more than one means `entry` is a guess. */
+  candidates: HazmatEntry[];
+  ambiguous: boolean;
+};
+
+/**
+ * The row for an identification number, and how sure the pick is. `name`
+ * narrows by proper shipping name, then by trade-name alias; `pg` picks the
+ * packing group. Otherwise the first row — the table lists the usual bulk
+ * entry first — flagged ambiguous when the ID has others.
+ */
+export function hazmatMatch(
+  id: string | null | undefined,
+  opts: { name?: string | null; pg?: PackingGroup | null } = {},
+  table: HazmatTable = HAZMAT_TABLE
+): HazmatMatch | null {
+  const rows = hazmatEntries(id, table);
+  if (rows.length === 0) return null;
+  const name = opts.name?.trim().toLowerCase() ?? "";
+  let pool = name ? rows.filter((e) => e.name.toLowerCase() === name) : [];
+  for (const a of NAME_ALIASES) {
+    if (pool.length > 0 || !a.match.test(name)) continue;
+    const to = a.names.find((n) => rows.some((e) => e.name === n));
+    if (to) pool = rows.filter((e) => e.name === to);
+  }
+  if (pool.length === 0) pool = rows;
+  const byPg = opts.pg ? pool.filter((e) => e.pg === opts.pg) : [];
+  const candidates = byPg.length > 0 ? byPg : pool;
+  return { entry: candidates[0], candidates, ambiguous: candidates.length > 1 };
+}
+
+/** The row for an identification number — hazmatMatch() without the doubt. */
+export function hazmatEntry(
+  id: string | null | undefined,
+  opts: { name?: string | null; pg?: PackingGroup | null } = {},
+  table: HazmatTable = HAZMAT_TABLE
+): HazmatEntry | null {
+  return hazmatMatch(id, opts, table)?.entry ?? null;
+}
+
+/** Generic (G) entries need a technical name on the shipping paper. */
+export function needsTechnicalName(entry: HazmatEntry): boolean {
+  return entry.symbols?.includes("G") ?? false;
+}
+
+const PIH_ZONE_SP: Record<string, "A" | "B" | "C" | "D"> = { "1": "A", "2": "B", "3": "C", "4": "D" };
+
+/**
+ * Poison-by-inhalation hazard zone from special provisions 1–4, or null.
+ * Every Division 2.3 gas is PIH; its zone is null when the row doesn't say.
+ */
+export function inhalationHazardZone(entry: HazmatEntry): "A" | "B" | "C" | "D" | null {
+  for (const sp of entry.sp) if (PIH_ZONE_SP[sp]) return PIH_ZONE_SP[sp];
+  return null;
+}
+
+/** Material poisonous by inhalation (171.8): Division 2.3, or any row with a PIH zone. */
+export function isInhalationHazard(entry: HazmatEntry): boolean {
+  return entry.class === "2.3" || inhalationHazardZone(entry) != null;
+}
+
+/** Class as it prints in a description: "3", "Combustible liquid". */
+export function classLabel(cls: HazmatClass): string {
+  return cls === "COMBUSTIBLE" ? "Combustible liquid" : cls;
+}
+
+/**
+ * Basic description in 172.202(b) order:
+ *   UN1230, Methanol, 3 (6.1), PG II
+ *   UN1993, Flammable liquid, n.o.s. (Gasoline, Toluene), 3, PG II
+ */
+export function basicDescription(entry: HazmatEntry, technicalName?: string | null): string {
+  const tech = needsTechnicalName(entry) && technicalName?.trim() ? ` (${technicalName.trim()})` : "";
+  const subsidiaries = entry.labels.filter((l) => l !== entry.class);
+  const cls = classLabel(entry.class) + (subsidiaries.length ? ` (${subsidiaries.join(", ")})` : "");
+  return [entry.id, entry.name + tech, cls, entry.pg ? `PG ${entry.pg}` : null].filter(Boolean).join(", ");
+}
+
+export function ergGuide(guide: number, table: HazmatTable = HAZMAT_TABLE): ErgGuide | null {
+  return table.ergGuides[String(guide)] ?? null;
+}
+
+/** ERG card for an identification number, or null when it isn't in the table. */
+export function ergCard(
+  id: string | null | undefined,
+  opts: { name?: string | null; pg?: PackingGroup | null } = {},
+  table: HazmatTable = HAZMAT_TABLE
+): ErgCard | null {
+  const entry = hazmatEntry(id, opts, table);
+  const guide = entry ? ergGuide(entry.erg, table) : null;
+  if (!entry || !guide) return null;
+  return { id: entry.id, guide: entry.erg, name: entry.name, shipping: basicDescription(entry), ...guide };
+}
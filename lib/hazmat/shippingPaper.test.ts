@@ -0,0 +1,81 @@
+import { PDFDocument } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import { buildShippingPaper, shippingPaperHtml } from "./shippingPaper";
+import type { ShippingPaperInput, ShippingPaperLine } from "./shippingPaper";
+import { shippingPaperPdf } from "./shippingPaperPdf";
+
+const line = (comp_number: number, product_name: string, un_number: string | null, extra: Partial<ShippingPaperLine> = {}): ShippingPaperLine =>
+  ({ comp_number, product_name, un_number, gallons: 2000, ...extra });
+
+const input = (lines: ShippingPaperLine[], extra: Partial<ShippingPaperInput> = {}): ShippingPaperInput => ({
+  loadId: "0f3c2a1b-0000-4000-8000-000000000000",
+  bolNumber: "BOL-1001",
+  shippedAt: "2026-10-19T14:30:00Z",
+  shipper: { name: "Test Terminal", address: "Tulsa, OK" },
+  carrier: { name: "Test Carrier", vehicle: "Tractor 12 / Trailer 40" },
+  emergency: { phone: "800-555-0100", contract: "CHEMTREC CCN 12345" },
+  actuals: true,
+  lines,
+  residue: [],
+  ...extra,
+});
+
+describe("buildShippingPaper", () => {
+  it("describes diesel on the Diesel fuel row, PG III", () => {
+    const paper = buildShippingPaper(input([line(1, "ULSD #2", "UN1993"), line(2, "Dyed Diesel", "UN1993")]));
+    expect(paper.entries.map((e) => e.description)).toEqual(["UN1993, Diesel fuel, 3, PG III"]);
+    expect(paper.entries[0].compartments).toEqual([1, 2]);
+    expect(paper.entries[0].gallons).toBe(4000);
+    expect(paper.warnings).toEqual([]);
+  });
+
+  it("warns once when it has to guess the packing group", () => {
+    const paper = buildShippingPaper(input([line(1, "Jet A", "UN1863"), line(2, "Jet A", "UN1863")]));
+    expect(paper.warnings).toHaveLength(1);
+    expect(paper.warnings[0]).toMatch(/^UN1863 \(Jet A\) has 3 table entries/);
+  });
+
+  it("takes the product's packing group", () => {
+    const paper = buildShippingPaper(input([line(1, "Jet A", "UN1863", { packing_group: "III" })]));
+    expect(paper.entries[0].description).toMatch(/PG III$/);
+    expect(paper.warnings).toEqual([]);
+  });
+
+  it("flags an ID missing from the table", () => {
+    const paper = buildShippingPaper(input([line(1, "Mystery", "UN9999")]));
+    expect(paper.entries[0].hm).toBe(false);
+    expect(paper.warnings[0]).toMatch(/UN9999 \(Mystery\) is not in the/);
+  });
+
+  it("describes residue as last contained, without gallons", () => {
+    const paper = buildShippingPaper(input([line(1, "Gasoline", "UN1203")], {
+      residue: [{ comp_number: 2, product_name: "ULSD #2", un_number: "UN1993", packing_group: null }],
+    }));
+    const residue = paper.entries.find((e) => e.residue)!;
+    expect(residue.gallons).toBeNull();
+    expect(residue.description).toContain("Diesel fuel");
+    expect(paper.totalGallons).toBe(2000);
+  });
+});
+
+describe("shippingPaperHtml", () => {
+  it("escapes product names", () => {
+    const html = shippingPaperHtml(buildShippingPaper(input([line(1, "<b>Unregulated</b>", null)])));
+    expect(html).toContain("&lt;b&gt;Unregulated&lt;/b&gt;");
+  });
+});
+
+describe("shippingPaperPdf", () => {
+  it("renders a PDF", async () => {
+    const bytes = await shippingPaperPdf(buildShippingPaper(input([line(1, "Jet A", "UN1863")])));
+    expect(new TextDecoder().decode(bytes.slice(0, 5))).toBe("%PDF-");
+  });
+
+  it("runs a long load onto more pages", async () => {
+    const lines = Array.from({ length: 40 }, (_, i) => line(i + 1, `Product ${i + 1}`, null));
+    const one = await shippingPaperPdf(buildShippingPaper(input(lines.slice(0, 1))));
+    const many = await shippingPaperPdf(buildShippingPaper(input(lines)));
+    expect((await PDFDocument.load(one)).getPageCount()).toBe(1);
+    expect((await PDFDocument.load(many)).getPageCount()).toBeGreaterThan(1);
+  });
+});
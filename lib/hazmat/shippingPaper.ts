@@ -0,0 +1,257 @@
+// lib/hazmat/shippingPaper.ts
+// Hazmat shipping paper for a load (49 CFR 172.200–172.205, 172.602, 172.604)
+// — pure, safe on client and server.
+//
+// buildShippingPaper() turns the load's compartments into shipping
+// description entries; shippingPaperHtml() renders them as a print-ready
+// letter page, and shippingPaperPdf() (shippingPaperPdf.ts) as a PDF file.
+//
+// Rules applied:
+//   - one entry per basic description, compartments of the same material summed
+//   - hazardous materials first, marked "X" in the HM column (172.201(a)(1))
+//   - basic description in 172.202(b) order, technical name for G entries (172.203(k))
+//   - quantity: one cargo tank, total gallons, compartments listed (172.202(a)(5), (7))
+//   - emptied compartments: "RESIDUE: Last Contained …" (172.203(e))
+//   - ERG guide per entry (172.602), 24-hour emergency phone (172.604)
+//   - shipper's certification (172.204(a))
+
+import { basicDescription, ergGuide, hazmatMatch, normalizeHazmatId, HAZMAT_TABLE } from "./index";
+import type { HazmatEntry, HazmatTable, PackingGroup } from "./types";
+
+export type ShippingPaperLine = {
+  comp_number: number;
+  product_name: string | null;
+  un_number: string | null;
+  packing_group?: PackingGroup | null;  // the product's, when the ID has rows for several
+  gallons: number | null;        // actual when loaded, else planned
+};
+
+export type ShippingPaperResidue = {
+  comp_number: number;
+  product_name: string | null;
+  un_number: string | null;
+  packing_group?: PackingGroup | null;
+};
+
+export type ShippingPaperInput = {
+  loadId: string;
+  bolNumber: string | null;
+  shippedAt: string;             // ISO timestamp
+  shipper: { name: string; address: string | null };
+  carrier: { name: string; vehicle: string | null };
+  emergency: { phone: string | null; contract: string | null };
+  actuals: boolean;              // gallons are loaded actuals, not the plan
+  lines: ShippingPaperLine[];
+  residue: ShippingPaperResidue[];
+};
+
+export type ShippingPaperEntry = {
+  hm: boolean;
+  residue: boolean;
+  description: string;
+  gallons: number | null;        // null for residue
+  compartments: number[];
+  products: string[];
+  erg: number | null;
+  entry: HazmatEntry | null;
+};
+
+export type ShippingPaper = {
+  input: ShippingPaperInput;
+  entries: ShippingPaperEntry[];
+  ergGuides: { guide: number; title: string }[];
+  totalGallons: number;
+  warnings: string[];            // things that keep this paper from being compliant
+  tableVersion: string;
+  ergEdition: string;
+};
+
+export const SHIPPER_CERTIFICATION =
+  "This is to certify that the above-named materials are properly classified, described, packaged, " +
+  "marked and labeled, and are in proper condition for transportation according to the applicable " +
+  "regulations of the Department of Transportation.";
+
+const byNumber = (a: number, b: number) => a - b;
+
+export function buildShippingPaper(input: ShippingPaperInput, table: HazmatTable = HAZMAT_TABLE): ShippingPaper {
+  const warnings: string[] = [];
+  const groups = new Map<string, ShippingPaperEntry>();
+
+  const warn = (w: string) => { if (!warnings.includes(w)) warnings.push(w); };
+
+  const describe = (productName: string | null, unNumber: string | null, pg: PackingGroup | null | undefined) => {
+    const un = normalizeHazmatId(unNumber);
+    const match = un ? hazmatMatch(un, { name: productName, pg }, table) : null;
+    const entry = match?.entry ?? null;
+    const what = productName ?? "unnamed product";
+    if (un && !entry) warn(`${un} (${what}) is not in the ${table.version} table — describe it by hand.`);
+    if (match?.ambiguous) {
+      warn(`${un} (${what}) has ${match.candidates.length} table entries — printed "${match.entry.name}"${match.entry.pg ? `, PG ${match.entry.pg}` : ""}. `
+        + "Set the product's packing group, or name it by its proper shipping name, to confirm.");
+    }
+    return { entry, description: entry ? basicDescription(entry, productName) : (productName ?? "Unnamed product") };
+  };
+
+  for (const l of input.lines) {
+    const { entry, description } = describe(l.product_name, l.un_number, l.packing_group);
+    const key = `L|${description}`;
+    const g = groups.get(key) ?? {
+      hm: entry != null, residue: false, description, gallons: 0, compartments: [], products: [],
+      erg: entry?.erg ?? null, entry,
+    };
+    g.gallons = (g.gallons ?? 0) + Math.max(0, Number(l.gallons ?? 0));
+    g.compartments.push(l.comp_number);
+    if (l.product_name && !g.products.includes(l.product_name)) g.products.push(l.product_name);
+    groups.set(key, g);
+  }
+
+  for (const r of input.residue) {
+    const { entry, description } = describe(r.product_name, r.un_number, r.packing_group);
+    if (!entry) continue;   // residue of an unregulated product needs no description
+    const key = `R|${description}`;
+    const g = groups.get(key) ?? {
+      hm: true, residue: true, description: `RESIDUE: Last Contained ${description}`, gallons: null,
+      compartments: [], products: [], erg: entry.erg, entry,
+    };
+    g.compartments.push(r.comp_number);
+    if (r.product_name && !g.products.includes(r.product_name)) g.products.push(r.product_name);
+    groups.set(key, g);
+  }
+
+  const rank = (e: ShippingPaperEntry) => (e.hm ? (e.residue ? 1 : 0) : 2);
+  const entries = [...groups.values()]
+    .map((e) => ({ ...e, compartments: [...e.compartments].sort(byNumber) }))
+    .sort((a, b) => rank(a) - rank(b) || a.compartments[0] - b.compartments[0]);
+
+  const guides = [...new Set(entries.map((e) => e.erg).filter((g): g is number => g != null))].sort(byNumber);
+  const ergGuides = guides.map((g) => ({ guide: g, title: ergGuide(g, table)?.title ?? "" }));
+
+  if (entries.some((e) => e.hm) && !input.emergency.phone?.trim()) {
+    warnings.push("No 24-hour emergency response phone on file for the carrier (172.604) — add one in Admin.");
+  }
+  if (!input.actuals) warnings.push("Quantities are planned gallons — the load has not been completed.");
+
+  return {
+    input,
+    entries,
+    ergGuides,
+    totalGallons: entries.reduce((s, e) => s + (e.gallons ?? 0), 0),
+    warnings,
+    tableVersion: table.version,
+    ergEdition: table.ergEdition,
+  };
+}
+
+// ─── HTML ─────────────────────────────────────────────────────────────────────
+
+const ESC: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+const esc = (s: string | number | null | undefined) => String(s ?? "").replace(/[&<>"']/g, (c) => ESC[c]);
+
+// Shared with the PDF renderer (shippingPaperPdf.ts), so both read the same
+export const fmtGal = (n: number) => `${Math.round(n).toLocaleString("en-US")} GAL`;
+
+export function fmtDate(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("en-US", { month: "2-digit", day: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit", hour12: false });
+}
+
+export function compsLabel(comps: number[]): string {
+  return `${comps.length === 1 ? "Comp" : "Comps"} ${comps.join(", ")}`;
+}
+
+/** Full HTML document, letter size, black on white. */
+export function shippingPaperHtml(paper: ShippingPaper): string {
+  const { input } = paper;
+  const title = `Shipping paper ${input.bolNumber ?? input.loadId.slice(0, 8)}`;
+
+  const rows = paper.entries.map((e) => `
+      <tr${e.hm ? ' class="hm"' : ""}>
+        <td class="c">${e.hm ? "X" : ""}</td>
+        <td class="c">1 CT</td>
+        <td>
+          <div class="desc">${esc(e.description)}</div>
+          <div class="sub">${esc(compsLabel(e.compartments))}${e.products.length ? ` · ${esc(e.products.join(", "))}` : ""}</div>
+        </td>
+        <td class="r">${e.gallons == null ? "—" : esc(fmtGal(e.gallons))}</td>
+        <td class="c">${e.erg ?? ""}</td>
+      </tr>`).join("");
+
+  const warnings = paper.warnings.length
+    ? `<div class="warn">${paper.warnings.map((w) => `<div>⚠ ${esc(w)}</div>`).join("")}</div>`
+    : "";
+
+  const guides = paper.ergGuides.length
+    ? `<div class="box"><div class="lbl">Emergency response information (172.602) — ${esc(paper.ergEdition)}</div>
+        ${paper.ergGuides.map((g) => `<div>Guide ${g.guide} — ${esc(g.title)}</div>`).join("")}
+        <div class="sub">The ERG guide pages for these numbers must be in the cab, within reach of the driver.</div>
+      </div>`
+    : "";
+
+  const phone = input.emergency.phone?.trim();
+  const emergency = `<div class="box em">
+      <div class="lbl">24-hour emergency response telephone (172.604)</div>
+      <div class="phone">${phone ? esc(phone) : "NOT ON FILE"}</div>
+      ${input.emergency.contract?.trim() ? `<div>Contract holder: ${esc(input.emergency.contract.trim())}</div>` : ""}
+    </div>`;
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${esc(title)}</title>
+<style>
+  @page { size: letter; margin: 0.5in; }
+  * { box-sizing: border-box; }
+  body { font: 11pt/1.35 Arial, Helvetica, sans-serif; color: #000; background: #fff; margin: 0; }
+  h1 { font-size: 16pt; margin: 0 0 2pt; letter-spacing: 0.5pt; }
+  .head { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #000; padding-bottom: 6pt; margin-bottom: 8pt; }
+  .meta { text-align: right; font-size: 10pt; }
+  .parties { display: grid; grid-template-columns: 1fr 1fr; gap: 8pt; margin-bottom: 8pt; }
+  .box { border: 1px solid #000; padding: 6pt 8pt; margin-bottom: 8pt; }
+  .lbl { font-size: 8pt; font-weight: 700; text-transform: uppercase; letter-spacing: 0.4pt; margin-bottom: 2pt; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 8pt; }
+  th, td { border: 1px solid #000; padding: 4pt 6pt; vertical-align: top; }
+  th { font-size: 8pt; text-transform: uppercase; background: #eee; }
+  tr.hm .desc { font-weight: 700; }
+  .c { text-align: center; width: 0; white-space: nowrap; }
+  .r { text-align: right; white-space: nowrap; }
+  .sub { font-size: 9pt; color: #333; }
+  .em .phone { font-size: 16pt; font-weight: 700; }
+  .warn { border: 2px solid #000; padding: 6pt 8pt; margin-bottom: 8pt; font-weight: 700; }
+  .sign { display: grid; grid-template-columns: 2fr 1fr; gap: 16pt; margin-top: 18pt; }
+  .line { border-top: 1px solid #000; padding-top: 2pt; font-size: 8pt; }
+  .foot { margin-top: 10pt; font-size: 8pt; color: #333; }
+  @media screen { body { max-width: 8.5in; margin: 0.25in auto; padding: 0.5in; box-shadow: 0 0 8px rgba(0,0,0,0.3); } }
+</style></head>
+<body>
+  <div class="head">
+    <div><h1>SHIPPING PAPER — HAZARDOUS MATERIALS</h1><div>Bulk cargo tank · 49 CFR 172.202</div></div>
+    <div class="meta">
+      <div><b>BOL</b> ${esc(input.bolNumber ?? "—")}</div>
+      <div><b>Date</b> ${esc(fmtDate(input.shippedAt))}</div>
+      <div><b>Load</b> ${esc(input.loadId.slice(0, 8))}</div>
+      <div>Page 1 of 1</div>
+    </div>
+  </div>
+  ${warnings}
+  <div class="parties">
+    <div class="box"><div class="lbl">Shipper / origin</div><div><b>${esc(input.shipper.name)}</b></div>${input.shipper.address ? `<div>${esc(input.shipper.address)}</div>` : ""}</div>
+    <div class="box"><div class="lbl">Carrier</div><div><b>${esc(input.carrier.name)}</b></div>${input.carrier.vehicle ? `<div>${esc(input.carrier.vehicle)}</div>` : ""}</div>
+  </div>
+  <table>
+    <thead><tr><th>HM</th><th>Pkgs</th><th>Basic description</th><th>Total quantity</th><th>ERG</th></tr></thead>
+    <tbody>${rows}</tbody>
+    <tfoot><tr><td></td><td></td><td class="r"><b>Total</b></td><td class="r"><b>${esc(fmtGal(paper.totalGallons))}</b></td><td></td></tr></tfoot>
+  </table>
+  ${emergency}
+  ${guides}
+  <div class="box"><div class="lbl">Shipper's certification (172.204)</div>${esc(SHIPPER_CERTIFICATION)}</div>
+  <div class="sign">
+    <div class="line">Shipper signature</div>
+    <div class="line">Date</div>
+  </div>
+  <div class="sign">
+    <div class="line">Driver signature</div>
+    <div class="line">Date</div>
+  </div>
+  <div class="foot">1 CT = one cargo tank. Quantities are gross gallons${input.actuals ? " as loaded" : " as planned"}. Descriptions from the Hazardous Materials Table ${esc(paper.tableVersion)}.</div>
+</body></html>`;
+}
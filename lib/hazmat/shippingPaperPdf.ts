@@ -0,0 +1,221 @@
+// lib/hazmat/shippingPaperPdf.ts
+// The shipping paper as a PDF file — same content and order as
+// shippingPaperHtml(), drawn with pdf-lib so it downloads without a print
+// dialog. Pure, safe on client and server; import it lazily on the client.
+//
+// Letter, 0.5 in margins, Helvetica. Long loads run onto more pages; every
+// page carries the BOL and "Page n of N" (172.201(c)).
+
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import type { PDFFont, PDFPage } from "pdf-lib";
+import { compsLabel, fmtDate, fmtGal, SHIPPER_CERTIFICATION } from "./shippingPaper";
+import type { ShippingPaper } from "./shippingPaper";
+
+const PAGE_W = 612, PAGE_H = 792, M = 36;
+const W = PAGE_W - 2 * M;
+const BLACK = rgb(0, 0, 0), GREY = rgb(0.2, 0.2, 0.2), SHADE = rgb(0.93, 0.93, 0.93);
+
+// Table columns: HM, Pkgs, Basic description, Total quantity, ERG
+const COLS = [28, 40, W - 28 - 40 - 92 - 36, 92, 36];
+
+// The standard fonts only encode WinAnsi; anything else would throw
+const WIN_ANSI_EXTRA = new Set("€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ");
+const winAnsi = (s: string) =>
+  [...s].map((ch) => (ch.charCodeAt(0) < 256 || WIN_ANSI_EXTRA.has(ch) ? ch : ch === "⚠" ? "!" : "?")).join("");
+
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const para of winAnsi(text).split("\n")) {
+    let line = "";
+    for (const word of para.split(/\s+/)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(next, size) > width) { lines.push(line); line = word; }
+      else line = next;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** PDF bytes for a shipping paper built by buildShippingPaper(). */
+export async function shippingPaperPdf(paper: ShippingPaper): Promise<Uint8Array> {
+  const { input } = paper;
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const bol = input.bolNumber ?? input.loadId.slice(0, 8);
+  doc.setTitle(`Shipping paper ${bol}`);
+  doc.setSubject("Hazardous materials shipping paper, 49 CFR 172.202");
+
+  let page: PDFPage = doc.addPage([PAGE_W, PAGE_H]);
+  let y = PAGE_H - M;   // top of the next thing drawn
+
+  const text = (s: string, x: number, size: number, font = regular, color = BLACK) =>
+    page.drawText(winAnsi(s), { x, y: y - size, size, font, color });
+  const textRight = (s: string, right: number, size: number, font = regular) =>
+    text(s, right - font.widthOfTextAtSize(winAnsi(s), size), size, font);
+  const rule = (thickness = 1) => page.drawLine({ start: { x: M, y }, end: { x: M + W, y }, thickness, color: BLACK });
+
+  // ── Header, full on page 1, one line after ───────────────────────────────
+  const header = (first: boolean) => {
+    if (first) {
+      text("SHIPPING PAPER — HAZARDOUS MATERIALS", M, 16, bold);
+      const meta = [`BOL ${input.bolNumber ?? "—"}`, `Date ${fmtDate(input.shippedAt)}`, `Load ${input.loadId.slice(0, 8)}`];
+      meta.forEach((m, i) => { const top = y; y -= i * 12; textRight(m, M + W, 10); y = top; });
+      y -= 20;
+      text("Bulk cargo tank · 49 CFR 172.202", M, 10);
+      y -= 28;
+    } else {
+      text(`SHIPPING PAPER — HAZARDOUS MATERIALS (continued) · BOL ${input.bolNumber ?? "—"}`, M, 10, bold);
+      y -= 16;
+    }
+    rule(2);
+    y -= 8;
+  };
+  header(true);
+
+  const ensure = (h: number) => {
+    if (y - h >= M + 14) return;
+    page = doc.addPage([PAGE_W, PAGE_H]);
+    y = PAGE_H - M;
+    header(false);
+  };
+
+  /** Bordered box with a small caps label and wrapped lines. */
+  const box = (label: string, lines: { s: string; size?: number; font?: PDFFont }[], x = M, width = W, draw = true, border = 1) => {
+    const body = lines.flatMap((l) => wrap(l.s, l.font ?? regular, l.size ?? 10, width - 16)
+      .map((s) => ({ s, size: l.size ?? 10, font: l.font ?? regular })));
+    const h = 6 + (label ? 11 : 0) + body.reduce((t, l) => t + l.size + 3, 0) + 5;
+    if (!draw) return h;
+    const top = y;
+    page.drawRectangle({ x, y: top - h, width, height: h, borderColor: BLACK, borderWidth: border });
+    y -= 6;
+    if (label) { text(label.toUpperCase(), x + 8, 7, bold); y -= 11; }
+    for (const l of body) { text(l.s, x + 8, l.size, l.font); y -= l.size + 3; }
+    y = top - h - 8;
+    return h;
+  };
+
+  // ── Warnings ───────────────────────────────────────────────────────────────
+  if (paper.warnings.length) {
+    const lines = paper.warnings.map((w) => ({ s: `! ${w}`, font: bold }));
+    ensure(box("", lines, M, W, false));
+    box("", lines, M, W, true, 2);
+  }
+
+  // ── Shipper / carrier ──────────────────────────────────────────────────────
+  const half = (W - 8) / 2;
+  const shipper = [{ s: input.shipper.name, font: bold }, ...(input.shipper.address ? [{ s: input.shipper.address }] : [])];
+  const carrier = [{ s: input.carrier.name, font: bold }, ...(input.carrier.vehicle ? [{ s: input.carrier.vehicle }] : [])];
+  const partiesH = Math.max(box("Shipper / origin", shipper, M, half, false), box("Carrier", carrier, M, half, false));
+  ensure(partiesH);
+  {
+    const top = y;
+    for (const [label, lines, x] of [["Shipper / origin", shipper, M], ["Carrier", carrier, M + half + 8]] as const) {
+      y = top;
+      page.drawRectangle({ x, y: top - partiesH, width: half, height: partiesH, borderColor: BLACK, borderWidth: 1 });
+      y -= 6;
+      text(label.toUpperCase(), x + 8, 7, bold);
+      y -= 11;
+      for (const l of lines) for (const s of wrap(l.s, l.font ?? regular, 10, half - 16)) { text(s, x + 8, 10, l.font ?? regular); y -= 13; }
+    }
+    y = top - partiesH - 8;
+  }
+
+  // ── Entries ────────────────────────────────────────────────────────────────
+  const colX = COLS.map((_, i) => M + COLS.slice(0, i).reduce((a, b) => a + b, 0));
+  const row = (cells: { s: string; font?: PDFFont; size?: number; align?: "c" | "r"; sub?: string }[], shade = false) => {
+    const lines = cells.map((c, i) => ({
+      ...c,
+      main: wrap(c.s, c.font ?? regular, c.size ?? 10, COLS[i] - 8),
+      sub: c.sub ? wrap(c.sub, regular, 8.5, COLS[i] - 8) : [],
+    }));
+    const h = 8 + Math.max(...lines.map((l) => l.main.length * ((l.size ?? 10) + 3) + l.sub.length * 11));
+    ensure(h);
+    const top = y;
+    lines.forEach((l, i) => {
+      page.drawRectangle({ x: colX[i], y: top - h, width: COLS[i], height: h, borderColor: BLACK, borderWidth: 1, color: shade ? SHADE : undefined });
+      y = top - 4;
+      const size = l.size ?? 10;
+      for (const s of l.main) {
+        const font = l.font ?? regular;
+        const w = font.widthOfTextAtSize(s, size);
+        const x = l.align === "c" ? colX[i] + (COLS[i] - w) / 2 : l.align === "r" ? colX[i] + COLS[i] - 4 - w : colX[i] + 4;
+        text(s, x, size, font);
+        y -= size + 3;
+      }
+      for (const s of l.sub) { text(s, colX[i] + 4, 8.5, regular, GREY); y -= 11; }
+    });
+    y = top - h;
+  };
+
+  const th = (s: string, align?: "c" | "r") => ({ s: s.toUpperCase(), font: bold, size: 7.5, align });
+  row([th("HM", "c"), th("Pkgs", "c"), th("Basic description"), th("Total quantity", "r"), th("ERG", "c")], true);
+  for (const e of paper.entries) {
+    row([
+      { s: e.hm ? "X" : "", align: "c", font: bold },
+      { s: "1 CT", align: "c" },
+      {
+        s: e.description,
+        font: e.hm ? bold : regular,
+        sub: compsLabel(e.compartments) + (e.products.length ? ` · ${e.products.join(", ")}` : ""),
+      },
+      { s: e.gallons == null ? "—" : fmtGal(e.gallons), align: "r" },
+      { s: e.erg == null ? "" : String(e.erg), align: "c" },
+    ]);
+  }
+  row([{ s: "" }, { s: "" }, { s: "Total", font: bold, align: "r" }, { s: fmtGal(paper.totalGallons), font: bold, align: "r" }, { s: "" }]);
+  y -= 8;
+
+  // ── Emergency response, ERG guides, certification ─────────────────────────
+  const phone = input.emergency.phone?.trim();
+  const emergency = [
+    { s: phone || "NOT ON FILE", size: 16, font: bold },
+    ...(input.emergency.contract?.trim() ? [{ s: `Contract holder: ${input.emergency.contract.trim()}` }] : []),
+  ];
+  ensure(box("24-hour emergency response telephone (172.604)", emergency, M, W, false));
+  box("24-hour emergency response telephone (172.604)", emergency);
+
+  if (paper.ergGuides.length) {
+    const label = `Emergency response information (172.602) — ${paper.ergEdition}`;
+    const lines = [
+      ...paper.ergGuides.map((g) => ({ s: `Guide ${g.guide} — ${g.title}` })),
+      { s: "The ERG guide pages for these numbers must be in the cab, within reach of the driver.", size: 8.5 },
+    ];
+    ensure(box(label, lines, M, W, false));
+    box(label, lines);
+  }
+
+  const cert = [{ s: SHIPPER_CERTIFICATION }];
+  ensure(box("Shipper's certification (172.204)", cert, M, W, false));
+  box("Shipper's certification (172.204)", cert);
+
+  // ── Signatures, footer ─────────────────────────────────────────────────────
+  const signW = (W - 16) * 2 / 3;
+  for (const who of ["Shipper", "Driver"]) {
+    ensure(44);
+    y -= 26;
+    page.drawLine({ start: { x: M, y }, end: { x: M + signW, y }, thickness: 1, color: BLACK });
+    page.drawLine({ start: { x: M + signW + 16, y }, end: { x: M + W, y }, thickness: 1, color: BLACK });
+    y -= 2;
+    text(`${who} signature`, M, 7);
+    text("Date", M + signW + 16, 7);
+    y -= 10;
+  }
+
+  const foot = `1 CT = one cargo tank. Quantities are gross gallons${input.actuals ? " as loaded" : " as planned"}. `
+    + `Descriptions from the Hazardous Materials Table ${paper.tableVersion}.`;
+  const footLines = wrap(foot, regular, 7.5, W);
+  ensure(footLines.length * 10 + 6);
+  y -= 6;
+  for (const l of footLines) { text(l, M, 7.5, regular, GREY); y -= 10; }
+
+  // ── Page n of N ────────────────────────────────────────────────────────────
+  const pages = doc.getPages();
+  pages.forEach((p, i) => {
+    const s = `Page ${i + 1} of ${pages.length}`;
+    p.drawText(s, { x: M + W - regular.widthOfTextAtSize(s, 8), y: M - 14, size: 8, font: regular, color: BLACK });
+  });
+
+  return doc.save();
+}
@@ -0,0 +1,61 @@
+// lib/hazmat/types.ts
+// Shapes for the 49 CFR 172.101 Hazardous Materials Table and the ERG guides
+// that go with it. Shared by placards, ERG cards and shipping papers.
+
+/** Column 3. "COMBUSTIBLE" is the domestic "Combustible liquid" class (173.120(b)). */
+export type HazmatClass =
+  | "2.1" | "2.2" | "2.3" | "3" | "COMBUSTIBLE" | "4.1" | "4.2" | "4.3"
+  | "5.1" | "5.2" | "6.1" | "8" | "9";
+
+/** Column 5, as printed. */
+export type PackingGroup = "I" | "II" | "III";
+
+/**
+ * Column 1 symbols used here:
+ *   D — domestic only (NA numbers)
+ *   G — generic/n.o.s.: a technical name goes in parentheses after the PSN (172.203(k))
+ *   +, I, A, W — kept as printed when present
+ */
+export type HazmatSymbol = "D" | "G" | "+" | "I" | "A" | "W";
+
+/** One row of the table. An identification number can have several rows (names / packing groups). */
+export type HazmatEntry = {
+  id: string;                   // column 4, e.g. "UN1203", "NA1993"
+  name: string;                 // column 2, proper shipping name
+  class: HazmatClass;           // column 3
+  pg: PackingGroup | null;      // column 5; null for gases
+  labels: string[];             // column 6 — primary first, subsidiaries after; [] = "None"
+  sp: string[];                 // column 7, special provisions
+  erg: number;                  // ERG guide number
+  symbols?: HazmatSymbol[];     // column 1
+};
+
+export type ErgGuide = {
+  title: string;
+  fire: string;
+  health: string;
+  isolation: string;            // immediate precautionary measure
+  largeSpill: string;
+};
+
+/** The versioned data file, as loaded. */
+export type HazmatTable = {
+  version: string;
+  source: string;
+  ergEdition: string;
+  entries: HazmatEntry[];
+  ergGuides: Record<string, ErgGuide>;
+};
+
+/** What the ERG card in the planner shows for one identification number. */
+export type ErgCard = {
+  id: string;
+  guide: number;
+  name: string;
+  shipping: string;             // basic description, 172.202(b) order
+  title: string;
+  fire: string;
+  health: string;
+  isolation: string;
+  largeSpill: string;
+};
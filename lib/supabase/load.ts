@@ -6,6 +6,8 @@ export type BeginLoadLine = {
   product_id: string;
   planned_gallons: number | null;
   planned_lbs: number | null;
+  planned_net_gallons: number | null;  // 60°F; planned_gallons is gross at temp_f
+  planned_vcf: number | null;
   temp_f: number | null;
 };
 
@@ -27,6 +29,9 @@ export type BeginLoadPayload = {
 
   planned_snapshot?: unknown;
   lines: BeginLoadLine[];
+
+  // Switch-loading warnings the driver accepted (CompatAcknowledgement[])
+  compat_acknowledgements?: unknown[];
 };
 
 export async function beginLoad(payload: BeginLoadPayload) {
@@ -40,6 +45,8 @@ export type CompleteLoadLine = {
   comp_number: number;
   actual_gallons: number | null;
   actual_lbs: number | null;
+  actual_net_gallons: number | null;   // 60°F; actual_gallons is gross at temp_f
+  actual_vcf: number | null;
   temp_f: number | null;
 };
 
@@ -53,6 +60,19 @@ export type CompleteLoadPayload = {
     product_id: string;
     api: number;
     temp_f: number | null;
+    api_temp_f?: number;            // temp the API was read at — 60 for BOL values, observed for the driver's
+    source?: "bol" | "driver";
+  }>;
+  bol_number?: string | null;
+  actuals_source?: "bol" | "driver";
+  bol_discrepancies?: Array<{
+    product_id: string;
+    comp_number: number | null;
+    field: string;
+    expected: number;
+    bol: number;
+    severity: "warn" | "error";
+    message: string;
   }>;
 };
 
@@ -71,4 +91,49 @@ export async function completeLoad(payload: CompleteLoadPayload) {
   return data as CompleteLoadResult;
 }
 
+// Post-scale: certified weights + per-axle detail
+export type ScaleTicketPayload = {
+  load_id: string;
+  weighed_at: string; // ISO timestamp
+  scale_location: string | null;
+  gross_lbs: number;
+  steer_lbs: number | null;
+  drive_lbs: number | null;
+  trailer_lbs: number | null;
+  detail: unknown;    // per-axle comparison + offload proposal, stored as jsonb
+};
+
+export type ScaleTicketResult = {
+  ok: boolean;
+  load_id: string;
+  planned_gross_lbs: number | null;
+  scale_gross_lbs: number;
+  diff_lbs: number | null;
+};
+
+export async function recordScaleTicket(payload: ScaleTicketPayload) {
+  const { data, error } = await supabase.rpc("record_scale_ticket", { payload });
+  if (error) throw error;
+  return data as ScaleTicketResult;
+}
+
+
+
+// Compartment cleaned / purged — clears residue in trailer_compartment_state
+export type CleanMethod = "cleaned" | "purged";
 
+export type CompartmentsCleanedResult = {
+  ok: boolean;
+  trailer_id: string;
+  compartments: number;
+};
+
+export async function markCompartmentsCleaned(trailerId: string, compNumbers: number[], method: CleanMethod = "cleaned") {
+  const { data, error } = await supabase.rpc("mark_compartments_cleaned", {
+    p_trailer_id: trailerId,
+    p_comp_numbers: compNumbers,
+    p_method: method,
+  });
+  if (error) throw error;
+  return data as CompartmentsCleanedResult;
+}
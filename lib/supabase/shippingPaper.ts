@@ -0,0 +1,142 @@
+// lib/supabase/shippingPaper.ts
+// Everything a shipping paper needs for one load: load_log (+ planned_snapshot),
+// load_lines, the origin terminal, and the carrier's emergency contact.
+import { supabase } from "@/lib/supabase/client";
+import { buildShippingPaper, shippingPaperHtml } from "@/lib/hazmat/shippingPaper";
+import { downloadFile, openPrintWindow, printHtml } from "@/lib/ui/print";
+import type { PackingGroup } from "@/lib/hazmat";
+import type { ShippingPaperInput, ShippingPaperLine, ShippingPaperResidue } from "@/lib/hazmat/shippingPaper";
+
+type LoadRow = {
+  load_id: string;
+  started_at: string | null;
+  loaded_at: string | null;
+  completed_at: string | null;
+  bol_number: string | null;
+  combo_id: string | null;
+  planned_snapshot: {
+    lines?: { comp_number: number; product_name?: string | null; un_number?: string | null }[];
+    residue?: { comp_number: number; product_id?: string | null; product_name?: string | null; un_number?: string | null }[];
+  } | null;
+  terminals: { terminal_name: string | null; city: string | null; state: string | null } | null;
+};
+
+type LineRow = {
+  comp_number: number;
+  planned_gallons: number | null;
+  actual_gallons: number | null;
+  products: { product_name: string | null; display_name: string | null; un_number: string | null; packing_group: PackingGroup | null } | null;
+};
+
+export async function fetchShippingPaperInput(loadId: string): Promise<ShippingPaperInput> {
+  const { data: load, error: loadErr } = await supabase
+    .from("load_log")
+    .select("load_id, started_at, loaded_at, completed_at, bol_number, combo_id, planned_snapshot, terminals(terminal_name, city, state)")
+    .eq("load_id", loadId)
+    .maybeSingle();
+  if (loadErr) throw loadErr;
+  if (!load) throw new Error("Load not found.");
+  const row = load as unknown as LoadRow;
+
+  const { data: lineData, error: lineErr } = await supabase
+    .from("load_lines")
+    .select("comp_number, planned_gallons, actual_gallons, products(product_name, display_name, un_number, packing_group)")
+    .eq("load_id", loadId)
+    .order("comp_number", { ascending: true });
+  if (lineErr) throw lineErr;
+  const lineRows = (lineData ?? []) as unknown as LineRow[];
+
+  let vehicle: string | null = null;
+  let carrier = { name: "", phone: null as string | null, contract: null as string | null };
+  if (row.combo_id) {
+    const { data: combo } = await supabase
+      .from("equipment_combos")
+      .select("combo_name, company_id")
+      .eq("combo_id", row.combo_id)
+      .maybeSingle();
+    vehicle = combo?.combo_name ?? null;
+    if (combo?.company_id) {
+      const { data: company } = await supabase
+        .from("companies")
+        .select("company_name, emergency_response_phone, emergency_response_contract")
+        .eq("company_id", combo.company_id)
+        .maybeSingle();
+      if (company) {
+        carrier = {
+          name: company.company_name ?? "",
+          phone: company.emergency_response_phone ?? null,
+          contract: company.emergency_response_contract ?? null,
+        };
+      }
+    }
+  }
+
+  // load_lines carries the gallons; the snapshot keeps the UN number the plan used
+  const snapByComp = new Map((row.planned_snapshot?.lines ?? []).map((l) => [Number(l.comp_number), l]));
+  const actuals = lineRows.length > 0 && lineRows.every((l) => l.actual_gallons != null);
+  const lines: ShippingPaperLine[] = lineRows.map((l) => {
+    const snap = snapByComp.get(Number(l.comp_number));
+    return {
+      comp_number: Number(l.comp_number),
+      product_name: l.products?.product_name ?? l.products?.display_name ?? snap?.product_name ?? null,
+      un_number: l.products?.un_number ?? snap?.un_number ?? null,
+      packing_group: l.products?.packing_group ?? null,
+      gallons: Number((actuals ? l.actual_gallons : l.planned_gallons) ?? 0),
+    };
+  });
+  const loaded = new Set(lines.map((l) => l.comp_number));
+  const residueSnap = (row.planned_snapshot?.residue ?? []).filter((r) => !loaded.has(Number(r.comp_number)));
+
+  // The snapshot keeps no packing group; read the residue products' from products
+  const residueIds = [...new Set(residueSnap.map((r) => r.product_id).filter((id): id is string => !!id))];
+  const pgById = new Map<string, PackingGroup | null>();
+  if (residueIds.length) {
+    const { data: prods } = await supabase.from("products").select("product_id, packing_group").in("product_id", residueIds);
+    for (const p of prods ?? []) pgById.set(p.product_id, (p.packing_group ?? null) as PackingGroup | null);
+  }
+  const residue: ShippingPaperResidue[] = residueSnap.map((r) => ({
+    comp_number: Number(r.comp_number),
+    product_name: r.product_name ?? null,
+    un_number: r.un_number ?? null,
+    packing_group: r.product_id ? pgById.get(r.product_id) ?? null : null,
+  }));
+
+  const t = row.terminals;
+  return {
+    loadId: row.load_id,
+    bolNumber: row.bol_number ?? null,
+    shippedAt: row.loaded_at ?? row.completed_at ?? row.started_at ?? new Date().toISOString(),
+    shipper: {
+      name: t?.terminal_name ?? "Terminal",
+      address: [t?.city, t?.state].filter(Boolean).join(", ") || null,
+    },
+    carrier: { name: carrier.name || "Carrier", vehicle },
+    emergency: { phone: carrier.phone, contract: carrier.contract },
+    actuals,
+    lines,
+    residue,
+  };
+}
+
+/** Click handler body: opens the tab, then fetches, renders and prints. */
+export async function printShippingPaper(loadId: string) {
+  const win = openPrintWindow();
+  if (!win) throw new Error("Allow pop-ups to print the shipping paper.");
+  try {
+    const input = await fetchShippingPaperInput(loadId);
+    printHtml(win, shippingPaperHtml(buildShippingPaper(input)));
+  } catch (e) {
+    win.close();
+    throw e;
+  }
+}
+
+/** Fetch, render to PDF and download — the file to keep or email, no print dialog. */
+export async function downloadShippingPaperPdf(loadId: string) {
+  const input = await fetchShippingPaperInput(loadId);
+  // pdf-lib is large; load it only when someone asks for a PDF
+  const { shippingPaperPdf } = await import("@/lib/hazmat/shippingPaperPdf");
+  const bytes = await shippingPaperPdf(buildShippingPaper(input));
+  const name = (input.bolNumber ?? input.loadId.slice(0, 8)).replace(/[^\w.-]+/g, "_");
+  downloadFile(bytes, `shipping-paper-${name}.pdf`, "application/pdf");
+}
@@ -0,0 +1,38 @@
+// lib/ui/print.ts
+// Print-ready documents (shipping papers, placards) in a new tab, and file
+// downloads for documents rendered straight to PDF.
+
+/**
+ * Open the tab first — inside the click handler, before any await — or
+ * popup blockers eat it. Null when the browser blocked it anyway.
+ */
+export function openPrintWindow(): Window | null {
+  if (typeof window === "undefined") return null;
+  const win = window.open("", "_blank");
+  if (win) win.document.write("<!doctype html><title>Preparing…</title><p style=\"font-family:sans-serif\">Preparing…</p>");
+  return win;
+}
+
+/** Replace the tab's content with `html` and open the print dialog once it has laid out. */
+export function printHtml(win: Window, html: string) {
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Let fonts and SVG settle; print() on an unpainted document prints blank on some browsers
+  win.setTimeout(() => win.print(), 250);
+}
+
+/** Save `bytes` as a file through a temporary object URL. */
+export function downloadFile(bytes: Uint8Array, filename: string, type: string) {
+  if (typeof window === "undefined") return;
+  const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Revoking right away cancels the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
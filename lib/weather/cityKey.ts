@@ -0,0 +1,6 @@
+// lib/weather/cityKey.ts
+
+// Normalize city/state into a stable cache key
+export function makeCityKey(city: string, state: string): string {
+  return `${city.trim().toLowerCase().replace(/\s+/g, "_")}|${state.trim().toLowerCase()}`;
+}
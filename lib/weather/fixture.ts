@@ -0,0 +1,66 @@
+// lib/weather/fixture.ts
+// File-backed WeatherProvider for offline runs of the whole prediction path.
+//
+// The file holds one or more named scenarios keyed by city key ("tampa|fl")
+// with a "default" fallback. Hours are offsets from the current hour, so a
+// fixture never goes stale; negative offsets stand in for the lookback a live
+// provider gets from weather_hourly:
+//
+//   { "default": { "lat": 27.95, "lon": -82.46, "ambientF": 78,
+//                  "hourly": [{ "h": 0, "tempF": 78, "windMph": 6, "cloudPct": 20 }, …] } }
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { HourlyWx } from "@/lib/fuelTempPredictor";
+import { makeCityKey } from "./cityKey";
+import type { AmbientWx, Coords, WeatherProvider } from "./types";
+
+export const DEFAULT_FIXTURE_PATH = "lib/weather/fixtures/default.json";
+
+type Scenario = {
+  lat: number;
+  lon: number;
+  ambientF: number;
+  hourly: Array<{ h: number; tempF: number; windMph?: number; cloudPct?: number }>;
+};
+
+type FixtureFile = Record<string, Scenario>;
+
+export function fixtureProvider(filePath: string = DEFAULT_FIXTURE_PATH): WeatherProvider {
+  let loaded: Promise<FixtureFile> | null = null;
+  const load = () =>
+    (loaded ??= readFile(path.resolve(process.cwd(), filePath), "utf8").then((raw) => JSON.parse(raw) as FixtureFile));
+
+  // Nearest scenario by coordinates — ambient/hourly only get a point.
+  async function near({ lat, lon }: Coords): Promise<Scenario> {
+    const all = Object.values(await load());
+    if (all.length === 0) throw new Error(`Weather fixture ${filePath} is empty.`);
+    return all.reduce((best, s) =>
+      (s.lat - lat) ** 2 + (s.lon - lon) ** 2 < (best.lat - lat) ** 2 + (best.lon - lon) ** 2 ? s : best);
+  }
+
+  return {
+    name: "fixture",
+    live: false,
+
+    async geocode(city: string, state: string): Promise<Coords | null> {
+      const file = await load();
+      const s = file[makeCityKey(city, state)] ?? file.default;
+      return s ? { lat: s.lat, lon: s.lon } : null;
+    },
+
+    async ambient(at: Coords): Promise<AmbientWx> {
+      return { ...at, tempF: (await near(at)).ambientF };
+    },
+
+    async hourly(at: Coords): Promise<HourlyWx[]> {
+      const hour0 = Math.floor(Date.now() / 3_600_000) * 3600;
+      return (await near(at)).hourly.map((p) => ({
+        ts: hour0 + p.h * 3600,
+        tempF: p.tempF,
+        windMph: p.windMph ?? 0,
+        cloudPct: p.cloudPct ?? 0,
+      }));
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// lib/weather/index.ts
+// Server-side provider selection. WEATHER_PROVIDER picks the source:
+//   openweather — OPENWEATHER_API_KEY (default when the key is set)
+//   nws         — api.weather.gov, NWS_USER_AGENT recommended (default otherwise)
+//   fixture     — WEATHER_FIXTURE_PATH, defaults to lib/weather/fixtures/default.json
+
+import { fixtureProvider } from "./fixture";
+import { nwsProvider } from "./nws";
+import { openWeatherProvider } from "./openWeather";
+import type { WeatherProvider } from "./types";
+
+export type { AmbientWx, Coords, WeatherProvider } from "./types";
+
+export function getWeatherProvider(): WeatherProvider {
+  const owKey = (process.env.OPENWEATHER_API_KEY ?? "").trim();
+  const choice = (process.env.WEATHER_PROVIDER ?? (owKey ? "openweather" : "nws")).trim().toLowerCase();
+
+  switch (choice) {
+    case "openweather":
+      if (!owKey) throw new Error("OPENWEATHER_API_KEY not set.");
+      return openWeatherProvider(owKey);
+    case "nws":
+      return nwsProvider(process.env.NWS_USER_AGENT?.trim() || "proTankr");
+    case "fixture":
+      return fixtureProvider(process.env.WEATHER_FIXTURE_PATH?.trim() || undefined);
+    default:
+      throw new Error(`Unknown WEATHER_PROVIDER "${choice}".`);
+  }
+}
@@ -0,0 +1,133 @@
+// lib/weather/nws.ts
+// National Weather Service (api.weather.gov) WeatherProvider. US only, no key.
+//
+// NWS has no geocoder, so callers must already know coordinates (terminals
+// back-fill theirs on first use). The hourly forecast has no cloud cover
+// field; it is inferred from the short forecast text, which is coarse but
+// enough for the solar term.
+
+import type { HourlyWx } from "@/lib/fuelTempPredictor";
+import type { AmbientWx, Coords, WeatherProvider } from "./types";
+
+const BASE = "https://api.weather.gov";
+
+type PointResponse = { properties?: { forecastHourly?: string; observationStations?: string } };
+type HourlyResponse = {
+  properties?: {
+    periods?: Array<{ startTime: string; temperature: number; temperatureUnit: string; windSpeed?: string; shortForecast?: string }>;
+  };
+};
+type StationsResponse = { features?: Array<{ properties?: { stationIdentifier?: string } }> };
+type Observation = {
+  timestamp?: string;
+  textDescription?: string;
+  temperature?: { value: number | null };
+  windSpeed?: { value: number | null };   // km/h
+  cloudLayers?: Array<{ amount?: string }> | null;
+};
+type ObservationResponse = { properties?: Observation };
+type ObservationsResponse = { features?: Array<{ properties?: Observation }> };
+
+// METAR sky cover → percent; the most covered layer wins.
+const SKY_COVER: Record<string, number> = { SKC: 0, CLR: 0, FEW: 20, SCT: 40, BKN: 75, OVC: 100, VV: 100 };
+
+// Ordered: first match wins ("Mostly Sunny" before "Sunny").
+const SKY_WORDS: Array<[RegExp, number]> = [
+  [/mostly (sunny|clear)/i, 25],
+  [/partly (sunny|cloudy)/i, 50],
+  [/mostly cloudy/i, 75],
+  [/(sunny|clear)/i, 5],
+  [/(cloudy|overcast|rain|showers|storm|snow|drizzle|fog)/i, 95],
+];
+
+function cloudPctFromText(text: string | undefined): number {
+  for (const [re, pct] of SKY_WORDS) if (re.test(text ?? "")) return pct;
+  return 50;
+}
+
+/** "10 mph" / "5 to 15 mph" → upper figure. */
+function windMphFromText(text: string | undefined): number {
+  const nums = (text ?? "").match(/\d+(\.\d+)?/g);
+  return nums ? Number(nums[nums.length - 1]) : 0;
+}
+
+export function nwsProvider(userAgent: string): WeatherProvider {
+  const headers = { "User-Agent": userAgent, Accept: "application/geo+json" };
+
+  async function get<T>(url: string): Promise<T> {
+    const res = await fetch(url, { headers, cache: "no-store" });
+    if (!res.ok) throw new Error(`NWS error: ${res.status}`);
+    return (await res.json()) as T;
+  }
+
+  const point = ({ lat, lon }: Coords) =>
+    get<PointResponse>(`${BASE}/points/${lat.toFixed(4)},${lon.toFixed(4)}`);
+
+  async function stationId(at: Coords): Promise<string | null> {
+    const stationsUrl = (await point(at)).properties?.observationStations;
+    if (!stationsUrl) return null;
+    return (await get<StationsResponse>(stationsUrl)).features?.[0]?.properties?.stationIdentifier ?? null;
+  }
+
+  async function hourly(at: Coords): Promise<HourlyWx[]> {
+    const url = (await point(at)).properties?.forecastHourly;
+    if (!url) throw new Error("NWS has no hourly forecast for this point.");
+    const periods = ((await get<HourlyResponse>(url)).properties?.periods ?? []).slice(0, 30);
+    if (periods.length < 6) throw new Error("NWS hourly data missing/too short.");
+    return periods.map((p) => ({
+      ts: Math.floor(new Date(p.startTime).getTime() / 1000),
+      tempF: p.temperatureUnit === "C" ? p.temperature * 1.8 + 32 : p.temperature,
+      windMph: windMphFromText(p.windSpeed),
+      cloudPct: cloudPctFromText(p.shortForecast),
+    }));
+  }
+
+  return {
+    name: "nws",
+    live: true,
+
+    geocode: async () => null,
+
+    async ambient(at: Coords): Promise<AmbientWx> {
+      // Latest station observation; stations often report a null temp, so
+      // fall back to the current forecast hour.
+      try {
+        const id = await stationId(at);
+        if (id) {
+          const c = (await get<ObservationResponse>(`${BASE}/stations/${id}/observations/latest`)).properties?.temperature?.value;
+          if (typeof c === "number") return { ...at, tempF: Math.round((c * 1.8 + 32) * 10) / 10 };
+        }
+      } catch {}
+      const first = (await hourly(at))[0];
+      return { ...at, tempF: first.tempF };
+    },
+
+    hourly,
+
+    // The nearest station's observations, one per hour (stations also file
+    // specials between the hourly reports). Reports without a temp are skipped.
+    async recent(at: Coords, hours: number): Promise<HourlyWx[]> {
+      const id = await stationId(at);
+      if (!id) return [];
+      const start = new Date(Date.now() - hours * 3_600_000).toISOString();
+      const url = `${BASE}/stations/${id}/observations?start=${encodeURIComponent(start)}`;
+      const byHour = new Map<number, HourlyWx>();
+      for (const f of (await get<ObservationsResponse>(url)).features ?? []) {
+        const o = f.properties;
+        const c = o?.temperature?.value;
+        const ts = o?.timestamp ? Math.floor(new Date(o.timestamp).getTime() / 1000) : NaN;
+        if (typeof c !== "number" || !Number.isFinite(ts)) continue;
+        const hour = Math.floor(ts / 3600) * 3600;
+        if (byHour.has(hour)) continue;
+        const layers = (o?.cloudLayers ?? []).map((l) => SKY_COVER[l.amount ?? ""]).filter((v) => v != null);
+        byHour.set(hour, {
+          ts: hour,
+          tempF: Math.round((c * 1.8 + 32) * 10) / 10,
+          windMph: Math.round(Number(o?.windSpeed?.value ?? 0) * 0.621371 * 10) / 10,
+          cloudPct: layers.length ? Math.max(...layers) : cloudPctFromText(o?.textDescription),
+        });
+      }
+      return [...byHour.values()].sort((a, b) => a.ts - b.ts);
+    },
+  };
+}
@@ -1,7 +1,11 @@
 // lib/weather/openWeather.ts
-// OpenWeather hourly fetch helper.
-// NOTE: This uses One Call 3.0. If your plan uses a different endpoint,
-// swap the URL/shape but keep the returned mapping.
+// OpenWeather hourly fetch helper + WeatherProvider.
+// NOTE: Hourly and history use One Call 3.0; current temp and geocoding use the
+// 2.5 / geo 1.0 endpoints. If your plan uses a different endpoint, swap the URL/shape
+// but keep the returned mapping.
+
+import type { HourlyWx } from "@/lib/fuelTempPredictor";
+import type { AmbientWx, Coords, WeatherProvider } from "./types";
 
 export type OpenWeatherHourly = {
   dt: number; // unix seconds
@@ -15,6 +19,10 @@ export type OneCallResponse = {
   current?: { dt: number; temp: number; wind_speed?: number; clouds?: number };
 };
 
+type TimeMachineResponse = { data?: OpenWeatherHourly[] };
+type CurrentResponse = { main?: { temp?: number }; coord?: { lat?: number; lon?: number } };
+type GeoResponse = Array<{ lat?: number; lon?: number }>;
+
 export async function fetchHourlyWeather24h(params: {
   lat: number;
   lon: number;
@@ -38,3 +46,62 @@ export async function fetchHourlyWeather24h(params: {
     cloudPct: Number(h.clouds ?? 0),
   }));
 }
+
+/** One Call 3.0 bills per request, so history is sampled every few hours. */
+const RECENT_STEP_HOURS = 3;
+
+export function openWeatherProvider(apiKey: string): WeatherProvider {
+  const key = encodeURIComponent(apiKey);
+
+  return {
+    name: "openweather",
+    live: true,
+
+    async geocode(city: string, state: string): Promise<Coords | null> {
+      const q = `${encodeURIComponent(city.trim())},${encodeURIComponent(state.trim())},US`;
+      const res = await fetch(`https://api.openweathermap.org/geo/1.0/direct?q=${q}&limit=1&appid=${key}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`OpenWeather geocode error: ${res.status}`);
+      const item = ((await res.json()) as GeoResponse)[0];
+      const lat = Number(item?.lat);
+      const lon = Number(item?.lon);
+      return Number.isFinite(lat) && Number.isFinite(lon) ? { lat, lon } : null;
+    },
+
+    async ambient({ lat, lon }: Coords): Promise<AmbientWx> {
+      const res = await fetch(
+        `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lon}&units=imperial&appid=${key}`,
+        { cache: "no-store" }
+      );
+      if (!res.ok) throw new Error(`OpenWeather error: ${res.status}`);
+      const tempF = Number(((await res.json()) as CurrentResponse).main?.temp);
+      if (!Number.isFinite(tempF)) throw new Error("OpenWeather current temp missing.");
+      return { lat, lon, tempF };
+    },
+
+    hourly: ({ lat, lon }: Coords) => fetchHourlyWeather24h({ lat, lon, apiKey }),
+
+    async recent({ lat, lon }: Coords, hours: number): Promise<HourlyWx[]> {
+      const hour0 = Math.floor(Date.now() / 3_600_000) * 3600;
+      const times: number[] = [];
+      for (let h = Math.ceil(hours / RECENT_STEP_HOURS) * RECENT_STEP_HOURS; h > 0; h -= RECENT_STEP_HOURS) {
+        times.push(hour0 - h * 3600);
+      }
+      const points = await Promise.all(times.map(async (dt) => {
+        const res = await fetch(
+          `https://api.openweathermap.org/data/3.0/onecall/timemachine?lat=${lat}&lon=${lon}&dt=${dt}&units=imperial&appid=${key}`,
+          { cache: "no-store" }
+        );
+        if (!res.ok) throw new Error(`OpenWeather history error: ${res.status}`);
+        return ((await res.json()) as TimeMachineResponse).data?.[0] ?? null;
+      }));
+      return points
+        .filter((h): h is OpenWeatherHourly => h != null && Number.isFinite(Number(h.temp)))
+        .map((h) => ({
+          ts: Number(h.dt),
+          tempF: Number(h.temp),
+          windMph: Number(h.wind_speed ?? 0),
+          cloudPct: Number(h.clouds ?? 0),
+        }));
+    },
+  };
+}
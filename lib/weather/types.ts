@@ -0,0 +1,36 @@
+// lib/weather/types.ts
+// Weather source contract shared by the fuel temp and ambient API routes.
+// Server-side only — providers may read keys from env or files from disk.
+
+import type { HourlyWx } from "@/lib/fuelTempPredictor";
+
+export type Coords = { lat: number; lon: number };
+
+export type AmbientWx = Coords & { tempF: number };
+
+export interface WeatherProvider {
+  /** "openweather" | "nws" | "fixture" — echoed in API responses. */
+  readonly name: string;
+
+  /**
+   * False for canned data. Routes skip the city cache and the calibration
+   * history for non-live providers so fixture runs can't pollute either.
+   */
+  readonly live: boolean;
+
+  /** City/state → coordinates. Null when the provider has no geocoder or no match. */
+  geocode(city: string, state: string): Promise<Coords | null>;
+
+  /** Current air temp at a point. */
+  ambient(at: Coords): Promise<AmbientWx>;
+
+  /** Hourly points starting at the current hour, ~30 h ahead. Fixtures may start earlier. */
+  hourly(at: Coords): Promise<HourlyWx[]>;
+
+  /**
+   * Observed conditions over the last `hours`, oldest first — fills the
+   * lookback when weather_hourly has no recent hours for a city. Points may
+   * be sparser than hourly. Omitted by providers without history.
+   */
+  recent?(at: Coords, hours: number): Promise<HourlyWx[]>;
+}
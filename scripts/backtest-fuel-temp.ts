@@ -0,0 +1,187 @@
+// scripts/backtest-fuel-temp.ts
+// Backtest the fuel temp predictor against recorded load temps.
+//
+//   npm run backtest:fuel-temp -- [--candidate <spec>]… [--days 365] [--terminal <id>]
+//                                  [--snapshots <file.json>]… [--json]
+//
+// <spec> is a tank preset ("large"), explicit params ("k0=0.05,beta=1.5"), or
+// "fitted" for each terminal's stored calibration. Default: large + fitted.
+//
+// Weather comes from weather_hourly, the current fuel_temp_cache row, and any
+// snapshot files ([{ "city_key": "tampa|fl", "hourly": [{ ts, tempF, windMph, cloudPct }] }]).
+// Needs NEXT_PUBLIC_SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY (.env.local is read).
+
+import { readFileSync } from "node:fs";
+import { config } from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+import type { HourlyWx, PredictorParams } from "../lib/fuelTempPredictor";
+import { CALIBRATION_LOOKBACK_HOURS } from "../lib/fuelTempCalibration";
+import {
+  parseCandidateSpec, runBacktest,
+  type BacktestCandidate, type BacktestObservation, type BacktestReport, type BacktestStats,
+} from "../lib/fuelTempBacktest";
+import { makeCityKey } from "../lib/weather/cityKey";
+
+config({ path: [".env.local", ".env"], quiet: true });
+
+const PAGE = 1000;
+
+type Args = { candidates: string[]; days: number; terminal: string | null; snapshots: string[]; json: boolean };
+
+type LoadRow = {
+  loaded_at: string | null;
+  completed_at: string | null;
+  load_lines: { actual_temp_f: number | null }[] | null;
+};
+
+type WxRow = { ts: string; temp_f: number; wind_mph: number; cloud_pct: number };
+type Snapshot = { city_key: string; hourly: HourlyWx[] };
+
+function parseArgs(argv: string[]): Args {
+  const a: Args = { candidates: [], days: 365, terminal: null, snapshots: [], json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const next = () => {
+      const v = argv[++i];
+      if (v == null) throw new Error(`${flag} needs a value`);
+      return v;
+    };
+    if (flag === "--candidate") a.candidates.push(next());
+    else if (flag === "--days") a.days = Number(next());
+    else if (flag === "--terminal") a.terminal = next();
+    else if (flag === "--snapshots") a.snapshots.push(next());
+    else if (flag === "--json") a.json = true;
+    else throw new Error(`Unknown argument ${flag}`);
+  }
+  if (a.candidates.length === 0) a.candidates = ["large", "fitted"];
+  return a;
+}
+
+const toTs = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+function table(title: string, rows: BacktestStats[]): string {
+  const head = `  ${title.padEnd(28)}${"n".padStart(6)}${"MAE °F".padStart(9)}${"bias °F".padStart(9)}${"RMSE °F".padStart(9)}`;
+  const body = rows.map((r) =>
+    `  ${r.key.slice(0, 27).padEnd(28)}${String(r.n).padStart(6)}${r.maeF.toFixed(2).padStart(9)}` +
+    `${(r.biasF > 0 ? "+" : "") + r.biasF.toFixed(2)}`.padStart(9) + `${r.rmseF.toFixed(2).padStart(9)}`);
+  return [head, ...body].join("\n");
+}
+
+function printReport(r: BacktestReport) {
+  console.log(`\n═══ ${r.candidate} ═══`);
+  console.log(table("Overall", [r.overall]));
+  console.log(table("Terminal", r.byTerminal));
+  console.log(table("Season", r.bySeason));
+  console.log(table("Confidence", r.byConfidence));
+  if (r.skipped) console.log(`  (${r.skipped} loads skipped — under 6 h of weather before them)`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) throw new Error("NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.");
+  const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+  const snapshots: Snapshot[] = args.snapshots.flatMap((f) => JSON.parse(readFileSync(f, "utf8")) as Snapshot[]);
+  const sinceIso = new Date(Date.now() - args.days * 86_400_000).toISOString();
+
+  let tq = supabase
+    .from("terminals")
+    .select("terminal_id, terminal_name, city, state, lat, lon")
+    .not("lat", "is", null)
+    .not("lon", "is", null);
+  if (args.terminal) tq = tq.eq("terminal_id", args.terminal);
+  const { data: terminals, error: tErr } = await tq;
+  if (tErr) throw tErr;
+
+  const observations: BacktestObservation[] = [];
+  for (const t of terminals ?? []) {
+    // Paged like weather_hourly below — the API caps a single response
+    const loads: LoadRow[] = [];
+    for (let from = 0; ; from += PAGE) {
+      const { data: rows, error: lErr } = await supabase
+        .from("load_log")
+        .select("loaded_at, completed_at, load_lines(actual_temp_f)")
+        .eq("terminal_id", t.terminal_id)
+        .in("status", ["loaded", "completed"])
+        .gte("completed_at", sinceIso)
+        .order("completed_at")
+        .order("load_id")
+        .range(from, from + PAGE - 1);
+      if (lErr) throw lErr;
+      loads.push(...((rows ?? []) as LoadRow[]));
+      if (!rows || rows.length < PAGE) break;
+    }
+
+    const points = loads.flatMap((l) => {
+      const at = l.loaded_at ?? l.completed_at;
+      const temps = (l.load_lines ?? []).map((x) => Number(x.actual_temp_f)).filter((x) => x > -60 && x < 200);
+      if (!at || temps.length === 0) return [];
+      return [{ ts: toTs(at), actualTempF: temps.reduce((s, x) => s + x, 0) / temps.length }];
+    });
+    if (points.length === 0) continue;
+
+    // Weather by hour: snapshots, then the live cache, then the archive — later sources win.
+    const cityKey = makeCityKey(t.city ?? "", t.state ?? "");
+    const byTs = new Map<number, HourlyWx>();
+    for (const s of snapshots.filter((s) => s.city_key === cityKey)) for (const h of s.hourly) byTs.set(h.ts, h);
+
+    const { data: cached } = await supabase.from("fuel_temp_cache").select("hourly").eq("city_key", cityKey).maybeSingle();
+    for (const h of (cached?.hourly ?? []) as HourlyWx[]) byTs.set(h.ts, h);
+
+    const fromIso = new Date((Math.min(...points.map((p) => p.ts)) - CALIBRATION_LOOKBACK_HOURS * 3600) * 1000).toISOString();
+    for (let from = 0; ; from += PAGE) {
+      const { data: rows, error: wErr } = await supabase
+        .from("weather_hourly")
+        .select("ts, temp_f, wind_mph, cloud_pct")
+        .eq("city_key", cityKey)
+        .gte("ts", fromIso)
+        .order("ts")
+        .range(from, from + PAGE - 1);
+      if (wErr) throw wErr;
+      for (const r of (rows ?? []) as WxRow[]) {
+        const ts = toTs(r.ts);
+        byTs.set(ts, { ts, tempF: Number(r.temp_f), windMph: Number(r.wind_mph), cloudPct: Number(r.cloud_pct) });
+      }
+      if (!rows || rows.length < PAGE) break;
+    }
+    const wx = [...byTs.values()].sort((a, b) => a.ts - b.ts);
+
+    for (const p of points) {
+      observations.push({
+        terminalId: t.terminal_id,
+        terminalName: t.terminal_name,
+        lat: Number(t.lat),
+        lon: Number(t.lon),
+        ...p,
+        hourlies: wx.filter((h) => h.ts >= p.ts - CALIBRATION_LOOKBACK_HOURS * 3600 && h.ts <= p.ts + 3600),
+      });
+    }
+  }
+
+  // Stored calibrations, for the "fitted" candidate
+  const { data: fits } = await supabase.from("terminal_temp_params").select("terminal_id, k0, beta_sun");
+  const fitted = new Map<string, PredictorParams>(
+    (fits ?? []).map((f) => [f.terminal_id as string, { k0: Number(f.k0), betaSun: Number(f.beta_sun) }]));
+
+  const candidates: BacktestCandidate[] = args.candidates.map((spec) =>
+    spec === "fitted"
+      ? { label: "fitted (large where uncalibrated)", paramsFor: (id) => fitted.get(id) ?? { tankPreset: "large" } }
+      : { label: spec, paramsFor: () => parseCandidateSpec(spec) });
+
+  const reports = candidates.map((c) => runBacktest(observations, c));
+
+  if (args.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    console.log(`${observations.length} loads across ${new Set(observations.map((o) => o.terminalId)).size} terminals, last ${args.days} days`);
+    reports.forEach(printReport);
+  }
+}
+
+main().catch((e: unknown) => {
+  console.error((e as { message?: string })?.message ?? String(e));
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+// scripts/import-hmt.ts
+// Regenerate the Hazardous Materials Table data file from the published tables.
+//
+//   npm run import:hmt -- --hmt <172.101.csv> --erg <erg-index.csv> --version <2025.1>
+//                         [--base lib/hazmat/data/hmt-2024.json] [--out <file.json>]
+//                         [--classes 2.1,2.2,2.3,3,COMBUSTIBLE,4.3,6.1,8,9]
+//                         [--source "<text>"] [--erg-edition "ERG 2024"]
+//
+// --hmt is 49 CFR 172.101 exported to CSV (columns 1–7 with their headers);
+// --erg is the ERG's ID index (id, guide, optional name). See
+// lib/hazmat/importHmt.ts for the formats. The output is validated with
+// parseHazmatTable before it's written; point lib/hazmat/index.ts at it.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { formatHazmatTable, importHmt, HAULED_CLASSES } from "../lib/hazmat/importHmt";
+import type { HazmatClass, HazmatTable } from "../lib/hazmat/types";
+
+type Args = {
+  hmt: string; erg: string; version: string; base: string; out: string | null;
+  classes: HazmatClass[]; source: string | null; ergEdition: string | null;
+};
+
+function parseArgs(argv: string[]): Args {
+  const a: Partial<Args> = { base: "lib/hazmat/data/hmt-2024.json", out: null, classes: HAULED_CLASSES, source: null, ergEdition: null };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const next = () => {
+      const v = argv[++i];
+      if (v == null) throw new Error(`${flag} needs a value`);
+      return v;
+    };
+    if (flag === "--hmt") a.hmt = next();
+    else if (flag === "--erg") a.erg = next();
+    else if (flag === "--version") a.version = next();
+    else if (flag === "--base") a.base = next();
+    else if (flag === "--out") a.out = next();
+    else if (flag === "--classes") a.classes = next().split(",").map((c) => c.trim()) as HazmatClass[];
+    else if (flag === "--source") a.source = next();
+    else if (flag === "--erg-edition") a.ergEdition = next();
+    else throw new Error(`Unknown argument ${flag}`);
+  }
+  if (!a.hmt || !a.erg || !a.version) throw new Error("--hmt, --erg and --version are required");
+  return a as Args;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const base = JSON.parse(readFileSync(args.base, "utf8")) as HazmatTable;
+  const { table, skipped } = importHmt({
+    hmtCsv: readFileSync(args.hmt, "utf8"),
+    ergCsv: readFileSync(args.erg, "utf8"),
+    base,
+    version: args.version,
+    source: args.source ?? `49 CFR 172.101 Hazardous Materials Table — classes ${args.classes.join(", ")}`,
+    ergEdition: args.ergEdition ?? undefined,
+    classes: args.classes,
+  });
+
+  const out = args.out ?? `lib/hazmat/data/hmt-${args.version.split(".")[0]}.json`;
+  writeFileSync(out, formatHazmatTable(table));
+  console.log(`${table.entries.length} entries, ${new Set(table.entries.map((e) => e.id)).size} IDs → ${out}`);
+  if (skipped.length) {
+    console.log(`${skipped.length} rows skipped:`);
+    for (const s of skipped) console.log(`  ${s}`);
+  }
+}
+
+try {
+  main();
+} catch (e: unknown) {
+  console.error((e as { message?: string })?.message ?? String(e));
+  process.exit(1);
+}
@@ -0,0 +1,25 @@
+-- Axle geometry + per-axle tare for per-axle weight prediction.
+-- Distances are inches. Truck datum = steer axle centerline; trailer datum = kingpin.
+
+alter table "public"."trucks"
+  add column if not exists "drive_axle_in" numeric(6,1),
+  add column if not exists "fifth_wheel_in" numeric(6,1),
+  add column if not exists "drive_axle_count" integer not null default 2,
+  add column if not exists "steer_limit_lbs" numeric(12,2);
+
+alter table "public"."trailers"
+  add column if not exists "trailer_axle_in" numeric(6,1),
+  add column if not exists "trailer_axle_count" integer not null default 2,
+  add column if not exists "tank_front_in" numeric(6,1),
+  add column if not exists "tank_rear_in" numeric(6,1);
+
+alter table "public"."equipment_combos"
+  add column if not exists "tare_steer_lbs" numeric(12,2),
+  add column if not exists "tare_drive_lbs" numeric(12,2),
+  add column if not exists "tare_trailer_lbs" numeric(12,2);
+
+comment on column "public"."trucks"."drive_axle_in"        is 'Steer axle → drive group center, inches';
+comment on column "public"."trucks"."fifth_wheel_in"       is 'Steer axle → fifth wheel pivot, inches';
+comment on column "public"."trailers"."trailer_axle_in"    is 'Kingpin → trailer axle group center, inches';
+comment on column "public"."trailers"."tank_front_in"      is 'Kingpin → front tank head, inches';
+comment on column "public"."trailers"."tank_rear_in"       is 'Kingpin → rear tank head, inches';
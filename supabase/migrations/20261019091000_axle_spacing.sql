@@ -0,0 +1,9 @@
+-- First → last axle spread within the drive and trailer groups, inches.
+-- Used with the group centers for the Federal Bridge Formula.
+-- Null = planner assumes 52" tandem / 104" tridem.
+
+alter table "public"."trucks"
+  add column if not exists "drive_spread_in" numeric(6,1);
+
+alter table "public"."trailers"
+  add column if not exists "trailer_spread_in" numeric(6,1);
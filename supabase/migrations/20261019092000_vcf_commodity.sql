@@ -0,0 +1,10 @@
+-- API MPMS 11.1 commodity group used for volume correction.
+-- crude = Table 5A/6A, refined = 5B/6B, lube = 5D/6D.
+-- Existing rows default to refined products (gasoline / distillate / jet).
+
+alter table "public"."products"
+  add column if not exists "vcf_commodity" text not null default 'refined';
+
+alter table "public"."products"
+  add constraint "products_vcf_commodity_check"
+  check (vcf_commodity in ('crude', 'refined', 'lube'));
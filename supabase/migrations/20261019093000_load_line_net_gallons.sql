@@ -0,0 +1,259 @@
+-- Net (60°F) vs gross gallons on every load line.
+-- planned_gallons / actual_gallons stay gross at load temp; the *_net_gallons
+-- columns are corrected to 60°F with the VCF recorded alongside them.
+-- Null on loads made before this migration.
+
+alter table "public"."load_lines"
+  add column if not exists "planned_net_gallons" numeric(12,2),
+  add column if not exists "planned_vcf" numeric(7,5),
+  add column if not exists "actual_net_gallons" numeric(12,2),
+  add column if not exists "actual_vcf" numeric(7,5);
+
+-- begin_load: store planned net gallons + VCF per line.
+CREATE OR REPLACE FUNCTION public.begin_load(payload jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_user_id     uuid := auth.uid();
+  v_load_id     uuid;
+  v_combo       record;
+  v_lines_count int;
+BEGIN
+  IF v_user_id IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+
+  IF (payload ? 'combo_id') IS FALSE OR (payload ? 'terminal_id') IS FALSE THEN
+    RAISE EXCEPTION 'Missing combo_id or terminal_id';
+  END IF;
+
+  -- Fetch combo — target_weight replaces gross_limit_lbs, buffer_lbs removed
+  SELECT combo_id, tare_lbs, target_weight, active
+    INTO v_combo
+    FROM public.equipment_combos
+   WHERE combo_id = (payload->>'combo_id')::uuid;
+
+  IF v_combo.combo_id IS NULL THEN RAISE EXCEPTION 'Invalid combo_id'; END IF;
+  IF v_combo.active IS NOT TRUE THEN RAISE EXCEPTION 'Equipment combo is not active'; END IF;
+
+  -- Insert load_log row.
+  -- load_log.gross_limit_lbs still exists as a historical snapshot column —
+  -- we store target_weight into it so old load reports still read correctly.
+  -- load_log.buffer_lbs still exists — store 0 (concept removed).
+  INSERT INTO public.load_log (
+    user_id, combo_id, terminal_id, state_code, city_id,
+    cg_bias,
+    ambient_temp_f,
+    product_temp_f,
+    planned_snapshot,
+    tare_lbs,
+    gross_limit_lbs,
+    buffer_lbs,
+    planned_total_gal,
+    planned_total_lbs,
+    planned_gross_lbs,
+    status,
+    started_at
+  ) VALUES (
+    v_user_id,
+    (payload->>'combo_id')::uuid,
+    (payload->>'terminal_id')::uuid,
+    NULLIF(payload->>'state_code', ''),
+    CASE WHEN payload ? 'city_id' THEN (payload->>'city_id')::uuid ELSE NULL END,
+    CASE WHEN payload ? 'cg_bias'        THEN (payload->>'cg_bias')::numeric        ELSE NULL END,
+    CASE WHEN payload ? 'ambient_temp_f' THEN (payload->>'ambient_temp_f')::numeric ELSE NULL END,
+    CASE WHEN payload ? 'product_temp_f' THEN (payload->>'product_temp_f')::numeric ELSE NULL END,
+    payload->'planned_snapshot',
+    v_combo.tare_lbs,
+    v_combo.target_weight,  -- maps into gross_limit_lbs snapshot column
+    0,                       -- buffer_lbs removed; store 0
+    (payload->'planned_totals'->>'planned_total_gal')::numeric,
+    (payload->'planned_totals'->>'planned_total_lbs')::numeric,
+    (payload->'planned_totals'->>'planned_gross_lbs')::numeric,
+    'planned',
+    now()
+  ) RETURNING load_id INTO v_load_id;
+
+  -- Insert one row per compartment
+  INSERT INTO public.load_lines (
+    load_id, comp_number, product_id, planned_gallons, planned_lbs, temp_f,
+    planned_net_gallons, planned_vcf
+  )
+  SELECT
+    v_load_id,
+    (x->>'comp_number')::int,
+    (x->>'product_id')::uuid,
+    CASE WHEN x ? 'planned_gallons' THEN (x->>'planned_gallons')::numeric ELSE NULL END,
+    CASE WHEN x ? 'planned_lbs'     THEN (x->>'planned_lbs')::numeric     ELSE NULL END,
+    CASE WHEN x ? 'temp_f'          THEN (x->>'temp_f')::numeric          ELSE NULL END,
+    CASE WHEN x ? 'planned_net_gallons' THEN (x->>'planned_net_gallons')::numeric ELSE NULL END,
+    CASE WHEN x ? 'planned_vcf'         THEN (x->>'planned_vcf')::numeric         ELSE NULL END
+  FROM jsonb_array_elements(COALESCE(payload->'lines', '[]'::jsonb)) x;
+
+  GET DIAGNOSTICS v_lines_count = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'load_id',        v_load_id,
+    'lines_inserted', v_lines_count
+  );
+END;
+$function$
+;
+
+-- complete_load: store actual net gallons + VCF per line.
+CREATE OR REPLACE FUNCTION public.complete_load(payload jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_load_id        uuid;
+  v_completed_at   timestamptz;
+  v_user_id        uuid;
+  v_status         text;
+  v_terminal_id    uuid;
+  v_planned_lbs    numeric;
+  v_actual_total   numeric := 0;
+  v_diff_lbs       numeric;
+  v_line           jsonb;
+  v_update         jsonb;
+  v_comp           int;
+  v_actual_gallons numeric;
+  v_actual_lbs     numeric;
+  v_actual_net     numeric;
+  v_actual_vcf     numeric;
+  v_actual_temp    numeric;
+  v_actual_api     numeric;
+  v_product_id     uuid;
+BEGIN
+
+  -- ── Parse top-level scalars from payload ────────────────────────────────────
+  v_load_id      := (payload->>'load_id')::uuid;
+  v_completed_at := COALESCE(
+                      (payload->>'completed_at')::timestamptz,
+                      (payload->>'loaded_at')::timestamptz,
+                      now()
+                    );
+
+
+  -- ── 1. Auth + state check ───────────────────────────────────────────────────
+  SELECT user_id, status, terminal_id
+    INTO v_user_id, v_status, v_terminal_id
+    FROM load_log
+   WHERE load_id = v_load_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'load_not_found: %', v_load_id;
+  END IF;
+
+  IF v_user_id != auth.uid() THEN
+    RAISE EXCEPTION 'unauthorized: load does not belong to current user';
+  END IF;
+
+  IF v_status = 'loaded' THEN
+    RAISE EXCEPTION 'already_completed: load % is already loaded', v_load_id;
+  END IF;
+
+
+  -- ── 2a. Per-compartment actuals (from payload.lines) ────────────────────────
+  FOR v_line IN SELECT * FROM jsonb_array_elements(payload->'lines')
+  LOOP
+    v_comp           := (v_line->>'comp_number')::int;
+    v_actual_gallons := (v_line->>'actual_gallons')::numeric;
+    v_actual_lbs     := (v_line->>'actual_lbs')::numeric;
+    v_actual_temp    := (v_line->>'temp_f')::numeric;
+    v_actual_net     := (v_line->>'actual_net_gallons')::numeric;
+    v_actual_vcf     := (v_line->>'actual_vcf')::numeric;
+
+    UPDATE load_lines
+       SET actual_gallons     = v_actual_gallons,
+           actual_lbs         = v_actual_lbs,
+           actual_temp_f      = v_actual_temp,
+           actual_net_gallons = v_actual_net,
+           actual_vcf         = v_actual_vcf,
+           updated_at     = now()
+     WHERE load_id    = v_load_id
+       AND comp_number = v_comp;
+  END LOOP;
+
+
+  -- ── 2b. Per-product actual API (from payload.product_updates) ───────────────
+  -- Joins on product_id — all compartments of the same product get the same
+  -- observed API.  actual_temp_f from step 2a (comp-level) takes precedence;
+  -- product-level temp only fills gaps.
+  FOR v_update IN SELECT * FROM jsonb_array_elements(payload->'product_updates')
+  LOOP
+    v_product_id := (v_update->>'product_id')::uuid;
+    v_actual_api := (v_update->>'api')::numeric;
+    v_actual_temp:= (v_update->>'temp_f')::numeric;
+
+    UPDATE load_lines
+       SET actual_api    = v_actual_api,
+           actual_temp_f = COALESCE(actual_temp_f, v_actual_temp),
+           updated_at    = now()
+     WHERE load_id    = v_load_id
+       AND product_id::text = v_update->>'product_id';
+  END LOOP;
+
+
+  -- ── 3. Compute diff and close load_log ──────────────────────────────────────
+  -- Re-sum from DB to be authoritative
+  SELECT COALESCE(SUM(actual_lbs), 0)
+    INTO v_actual_total
+    FROM load_lines
+   WHERE load_id = v_load_id
+     AND actual_lbs IS NOT NULL;
+
+  SELECT COALESCE(planned_total_lbs, 0)
+    INTO v_planned_lbs
+    FROM load_log
+   WHERE load_id = v_load_id;
+
+  v_diff_lbs := v_actual_total - v_planned_lbs;
+
+  UPDATE load_log
+     SET status           = 'loaded',
+         completed_at     = v_completed_at,
+         actual_total_lbs = v_actual_total,
+         diff_lbs         = v_diff_lbs,
+         updated_at       = now()
+   WHERE load_id = v_load_id;
+
+
+  -- ── 4. Update terminal_products.last_api ────────────────────────────────────
+  -- Writes the observed API back to the specific terminal+product record so the
+  -- planner pre-fills the correct API for this terminal on the next load.
+  -- Different terminals carry the same product at different API values.
+  FOR v_update IN SELECT * FROM jsonb_array_elements(payload->'product_updates')
+  LOOP
+    v_product_id := (v_update->>'product_id')::uuid;
+    v_actual_api := (v_update->>'api')::numeric;
+
+    IF v_actual_api IS NOT NULL AND v_actual_api > 0 THEN
+      UPDATE terminal_products
+         SET last_api   = v_actual_api,
+             updated_at = now()
+       WHERE terminal_id = v_terminal_id
+         AND product_id::text = v_update->>'product_id';
+    END IF;
+  END LOOP;
+
+
+  -- ── 5. Return summary ────────────────────────────────────────────────────────
+  RETURN jsonb_build_object(
+    'ok',               true,
+    'load_id',          v_load_id,
+    'planned_lbs',      v_planned_lbs,
+    'actual_lbs',       v_actual_total,
+    'diff_lbs',         v_diff_lbs,
+    'completed_at',     v_completed_at
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE;
+END;
+$function$
+;
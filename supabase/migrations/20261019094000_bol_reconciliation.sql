@@ -0,0 +1,184 @@
+-- Bill of Lading reconciliation.
+-- When the driver enters the BOL, its gallons / API / temp are the load's
+-- actuals and its API (at 60°F) replaces the driver's reading as last_api.
+
+alter table "public"."load_log"
+  add column if not exists "bol_number" text,
+  add column if not exists "actuals_source" text not null default 'driver',
+  add column if not exists "bol_discrepancies" jsonb not null default '[]'::jsonb;
+
+alter table "public"."load_log"
+  add constraint "load_log_actuals_source_check"
+  check (actuals_source in ('driver', 'bol'));
+
+-- complete_load: BOL fields on load_log, BOL API back to terminal_products.
+CREATE OR REPLACE FUNCTION public.complete_load(payload jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_load_id        uuid;
+  v_completed_at   timestamptz;
+  v_user_id        uuid;
+  v_status         text;
+  v_terminal_id    uuid;
+  v_planned_lbs    numeric;
+  v_actual_total   numeric := 0;
+  v_diff_lbs       numeric;
+  v_line           jsonb;
+  v_update         jsonb;
+  v_comp           int;
+  v_actual_gallons numeric;
+  v_actual_lbs     numeric;
+  v_actual_net     numeric;
+  v_actual_vcf     numeric;
+  v_actual_temp    numeric;
+  v_actual_api     numeric;
+  v_product_id     uuid;
+  v_api_temp       numeric;
+BEGIN
+
+  -- ── Parse top-level scalars from payload ────────────────────────────────────
+  v_load_id      := (payload->>'load_id')::uuid;
+  v_completed_at := COALESCE(
+                      (payload->>'completed_at')::timestamptz,
+                      (payload->>'loaded_at')::timestamptz,
+                      now()
+                    );
+
+
+  -- ── 1. Auth + state check ───────────────────────────────────────────────────
+  SELECT user_id, status, terminal_id
+    INTO v_user_id, v_status, v_terminal_id
+    FROM load_log
+   WHERE load_id = v_load_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'load_not_found: %', v_load_id;
+  END IF;
+
+  IF v_user_id != auth.uid() THEN
+    RAISE EXCEPTION 'unauthorized: load does not belong to current user';
+  END IF;
+
+  IF v_status = 'loaded' THEN
+    RAISE EXCEPTION 'already_completed: load % is already loaded', v_load_id;
+  END IF;
+
+
+  -- ── 2a. Per-compartment actuals (from payload.lines) ────────────────────────
+  FOR v_line IN SELECT * FROM jsonb_array_elements(payload->'lines')
+  LOOP
+    v_comp           := (v_line->>'comp_number')::int;
+    v_actual_gallons := (v_line->>'actual_gallons')::numeric;
+    v_actual_lbs     := (v_line->>'actual_lbs')::numeric;
+    v_actual_temp    := (v_line->>'temp_f')::numeric;
+    v_actual_net     := (v_line->>'actual_net_gallons')::numeric;
+    v_actual_vcf     := (v_line->>'actual_vcf')::numeric;
+
+    UPDATE load_lines
+       SET actual_gallons     = v_actual_gallons,
+           actual_lbs         = v_actual_lbs,
+           actual_temp_f      = v_actual_temp,
+           actual_net_gallons = v_actual_net,
+           actual_vcf         = v_actual_vcf,
+           updated_at     = now()
+     WHERE load_id    = v_load_id
+       AND comp_number = v_comp;
+  END LOOP;
+
+
+  -- ── 2b. Per-product actual API (from payload.product_updates) ───────────────
+  -- Joins on product_id — all compartments of the same product get the same
+  -- observed API.  actual_temp_f from step 2a (comp-level) takes precedence;
+  -- product-level temp only fills gaps.
+  FOR v_update IN SELECT * FROM jsonb_array_elements(payload->'product_updates')
+  LOOP
+    v_product_id := (v_update->>'product_id')::uuid;
+    v_actual_api := (v_update->>'api')::numeric;
+    v_actual_temp:= (v_update->>'temp_f')::numeric;
+
+    UPDATE load_lines
+       SET actual_api    = v_actual_api,
+           actual_temp_f = COALESCE(actual_temp_f, v_actual_temp),
+           updated_at    = now()
+     WHERE load_id    = v_load_id
+       AND product_id::text = v_update->>'product_id';
+  END LOOP;
+
+
+  -- ── 3. Compute diff and close load_log ──────────────────────────────────────
+  -- Re-sum from DB to be authoritative
+  SELECT COALESCE(SUM(actual_lbs), 0)
+    INTO v_actual_total
+    FROM load_lines
+   WHERE load_id = v_load_id
+     AND actual_lbs IS NOT NULL;
+
+  SELECT COALESCE(planned_total_lbs, 0)
+    INTO v_planned_lbs
+    FROM load_log
+   WHERE load_id = v_load_id;
+
+  v_diff_lbs := v_actual_total - v_planned_lbs;
+
+  UPDATE load_log
+     SET status            = 'loaded',
+         completed_at      = v_completed_at,
+         actual_total_lbs  = v_actual_total,
+         diff_lbs          = v_diff_lbs,
+         bol_number        = NULLIF(payload->>'bol_number', ''),
+         actuals_source    = COALESCE(payload->>'actuals_source', 'driver'),
+         bol_discrepancies = COALESCE(payload->'bol_discrepancies', '[]'::jsonb),
+         updated_at        = now()
+   WHERE load_id = v_load_id;
+
+
+  -- ── 4. Update terminal_products.last_api ────────────────────────────────────
+  -- Writes the observed API back to the specific terminal+product record so the
+  -- planner pre-fills the correct API for this terminal on the next load.
+  -- Different terminals carry the same product at different API values.
+  -- api_temp_f is the temperature the API was read at and becomes last_temp_f:
+  -- the load's observed temp (the app forward-corrects BOL API to the BOL
+  -- temp), or 60 for a BOL API with no temp so it isn't back-corrected twice.
+  -- last_loaded_at marks last_temp_f as a real load temperature; the planner
+  -- only offers it as a default while that is recent.
+  FOR v_update IN SELECT * FROM jsonb_array_elements(payload->'product_updates')
+  LOOP
+    v_product_id := (v_update->>'product_id')::uuid;
+    v_actual_api := (v_update->>'api')::numeric;
+    v_api_temp   := (v_update->>'api_temp_f')::numeric;
+
+    IF v_actual_api IS NOT NULL AND v_actual_api > 0 THEN
+      UPDATE terminal_products
+         SET last_api                = v_actual_api,
+             last_temp_f             = COALESCE(v_api_temp, last_temp_f),
+             last_api_updated_at     = CASE WHEN v_api_temp IS NOT NULL THEN now() ELSE last_api_updated_at END,
+             last_loaded_at          = CASE WHEN v_api_temp IS NOT NULL AND v_update->>'temp_f' IS NOT NULL
+                                            THEN v_completed_at ELSE last_loaded_at END,
+             last_updated_by_load_id = CASE WHEN v_api_temp IS NOT NULL THEN v_load_id ELSE last_updated_by_load_id END,
+             updated_at              = now()
+       WHERE terminal_id = v_terminal_id
+         AND product_id::text = v_update->>'product_id';
+    END IF;
+  END LOOP;
+
+
+  -- ── 5. Return summary ────────────────────────────────────────────────────────
+  RETURN jsonb_build_object(
+    'ok',               true,
+    'load_id',          v_load_id,
+    'planned_lbs',      v_planned_lbs,
+    'actual_lbs',       v_actual_total,
+    'diff_lbs',         v_diff_lbs,
+    'completed_at',     v_completed_at
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE;
+END;
+$function$
+;
@@ -0,0 +1,72 @@
+-- Post-scale: certified scale weights per load.
+-- diff_lbs becomes scale gross - planned_gross_lbs once a ticket is recorded;
+-- scale_detail keeps the per-axle comparison and any offload proposal.
+
+alter table "public"."load_log"
+  add column if not exists "scale_gross_lbs" numeric(10,0),
+  add column if not exists "scale_steer_lbs" numeric(10,0),
+  add column if not exists "scale_drive_lbs" numeric(10,0),
+  add column if not exists "scale_trailer_lbs" numeric(10,0),
+  add column if not exists "scale_location" text,
+  add column if not exists "scaled_at" timestamp with time zone,
+  add column if not exists "scale_detail" jsonb;
+
+CREATE OR REPLACE FUNCTION public.record_scale_ticket(payload jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_load_id      uuid;
+  v_user_id      uuid;
+  v_planned      numeric;
+  v_gross        numeric;
+  v_diff         numeric;
+BEGIN
+  IF auth.uid() IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+
+  v_load_id := (payload->>'load_id')::uuid;
+  v_gross   := (payload->>'gross_lbs')::numeric;
+
+  IF v_gross IS NULL OR v_gross <= 0 THEN
+    RAISE EXCEPTION 'Missing gross_lbs';
+  END IF;
+
+  SELECT user_id, planned_gross_lbs
+    INTO v_user_id, v_planned
+    FROM load_log
+   WHERE load_id = v_load_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'load_not_found: %', v_load_id;
+  END IF;
+
+  IF v_user_id != auth.uid() THEN
+    RAISE EXCEPTION 'unauthorized: load does not belong to current user';
+  END IF;
+
+  v_diff := CASE WHEN v_planned IS NULL THEN NULL ELSE v_gross - v_planned END;
+
+  UPDATE load_log
+     SET scale_gross_lbs   = v_gross,
+         scale_steer_lbs   = (payload->>'steer_lbs')::numeric,
+         scale_drive_lbs   = (payload->>'drive_lbs')::numeric,
+         scale_trailer_lbs = (payload->>'trailer_lbs')::numeric,
+         scale_location    = NULLIF(payload->>'scale_location', ''),
+         scaled_at         = COALESCE((payload->>'weighed_at')::timestamptz, now()),
+         scale_detail      = payload->'detail',
+         diff_lbs          = COALESCE(v_diff, diff_lbs),
+         updated_at        = now()
+   WHERE load_id = v_load_id;
+
+  RETURN jsonb_build_object(
+    'ok',                true,
+    'load_id',           v_load_id,
+    'planned_gross_lbs', v_planned,
+    'scale_gross_lbs',   v_gross,
+    'diff_lbs',          v_diff
+  );
+END;
+$function$
+;
@@ -0,0 +1,52 @@
+-- Self-calibrating tare: recent scaled loads for a combo.
+-- load_log is select-own under RLS, so admins read other drivers' tickets
+-- through this function. Only company admins of the combo's company may call it.
+
+CREATE OR REPLACE FUNCTION public.get_combo_tare_samples(p_combo_id uuid, p_limit integer DEFAULT 20)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_company_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+
+  SELECT company_id INTO v_company_id
+    FROM equipment_combos
+   WHERE combo_id = p_combo_id;
+
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'Combo not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_companies
+     WHERE user_id = auth.uid()
+       AND company_id = v_company_id
+       AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(s ORDER BY s.at DESC)
+      FROM (
+        SELECT load_id,
+               COALESCE(scaled_at, completed_at) AS at,
+               scale_gross_lbs,
+               actual_total_lbs,
+               tare_lbs
+          FROM load_log
+         WHERE combo_id = p_combo_id
+           AND status IN ('loaded', 'completed')
+           AND scale_gross_lbs IS NOT NULL
+           AND actual_total_lbs IS NOT NULL
+         ORDER BY COALESCE(scaled_at, completed_at) DESC
+         LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 20), 100))
+      ) s
+  ), '[]'::jsonb);
+END;
+$function$
+;
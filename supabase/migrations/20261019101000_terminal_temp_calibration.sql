@@ -0,0 +1,50 @@
+-- Fuel temp calibration per terminal.
+-- weather_hourly keeps every hourly point /api/fuel-temp fetches, so completed
+-- loads can be replayed against the weather that preceded them.
+-- terminal_temp_params holds the fitted tank model and its error; written by
+-- /api/fuel-temp/calibrate with the service role.
+
+  create table "public"."weather_hourly" (
+    "city_key" text not null,
+    "ts" timestamp with time zone not null,
+    "temp_f" numeric(6,2) not null,
+    "wind_mph" numeric(6,2) not null default 0,
+    "cloud_pct" numeric(5,1) not null default 0,
+    "updated_at" timestamp with time zone not null default now()
+      );
+
+
+alter table "public"."weather_hourly" enable row level security;
+
+CREATE UNIQUE INDEX weather_hourly_pkey ON public.weather_hourly USING btree (city_key, ts);
+
+alter table "public"."weather_hourly" add constraint "weather_hourly_pkey" PRIMARY KEY using index "weather_hourly_pkey";
+
+
+  create table "public"."terminal_temp_params" (
+    "terminal_id" uuid not null,
+    "k0" numeric(8,4) not null,
+    "beta_sun" numeric(8,3) not null,
+    "n_obs" integer not null,
+    "rmse_f" numeric(6,2) not null,
+    "bias_f" numeric(6,2) not null,
+    "baseline_rmse_f" numeric(6,2) not null,
+    "fitted_at" timestamp with time zone not null default now()
+      );
+
+
+alter table "public"."terminal_temp_params" enable row level security;
+
+CREATE UNIQUE INDEX terminal_temp_params_pkey ON public.terminal_temp_params USING btree (terminal_id);
+
+alter table "public"."terminal_temp_params" add constraint "terminal_temp_params_pkey" PRIMARY KEY using index "terminal_temp_params_pkey";
+
+alter table "public"."terminal_temp_params" add constraint "terminal_temp_params_terminal_id_fkey" FOREIGN KEY (terminal_id) REFERENCES public.terminals(terminal_id) ON DELETE CASCADE;
+
+
+  create policy "terminal_temp_params_read_auth"
+  on "public"."terminal_temp_params"
+  as permissive
+  for select
+  to authenticated
+using (true);
@@ -0,0 +1,73 @@
+-- Storage tank profile per product at a terminal, for the fuel temp predictor.
+-- Kept apart from terminal_products, which the admin page rewrites on save.
+
+  create table "public"."terminal_product_tanks" (
+    "terminal_id" uuid not null,
+    "product_id" uuid not null,
+    "tank_color" text not null default 'white'::text,
+    "insulated" boolean not null default false,
+    "underground" boolean not null default false,
+    "turnover_days" numeric(6,1),
+    "updated_at" timestamp with time zone not null default now()
+      );
+
+
+alter table "public"."terminal_product_tanks" enable row level security;
+
+CREATE UNIQUE INDEX terminal_product_tanks_pkey ON public.terminal_product_tanks USING btree (terminal_id, product_id);
+
+alter table "public"."terminal_product_tanks" add constraint "terminal_product_tanks_pkey" PRIMARY KEY using index "terminal_product_tanks_pkey";
+
+alter table "public"."terminal_product_tanks" add constraint "terminal_product_tanks_terminal_id_fkey" FOREIGN KEY (terminal_id) REFERENCES public.terminals(terminal_id) ON DELETE CASCADE;
+
+alter table "public"."terminal_product_tanks" add constraint "terminal_product_tanks_product_id_fkey" FOREIGN KEY (product_id) REFERENCES public.products(product_id) ON DELETE CASCADE;
+
+alter table "public"."terminal_product_tanks" add constraint "terminal_product_tanks_color_check"
+  CHECK (tank_color IN ('white', 'light_gray', 'aluminum', 'dark'));
+
+alter table "public"."terminal_product_tanks" add constraint "terminal_product_tanks_turnover_check"
+  CHECK (turnover_days IS NULL OR turnover_days > 0);
+
+
+  create policy "terminal_product_tanks_read_auth"
+  on "public"."terminal_product_tanks"
+  as permissive
+  for select
+  to authenticated
+using (true);
+
+
+-- Admins edit tanks only at terminals their company works: ones a member of
+-- the company is carded at or has on their terminal list. terminal_access and
+-- my_terminals are select-own under RLS, so the check runs as definer.
+CREATE OR REPLACE FUNCTION public.is_company_admin_for_terminal(p_terminal_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1
+      FROM user_companies admin_uc
+      JOIN user_companies member_uc ON member_uc.company_id = admin_uc.company_id
+     WHERE admin_uc.user_id = auth.uid()
+       AND admin_uc.role = 'admin'
+       AND (
+         EXISTS (SELECT 1 FROM terminal_access ta
+                  WHERE ta.user_id = member_uc.user_id AND ta.terminal_id = p_terminal_id)
+         OR EXISTS (SELECT 1 FROM my_terminals mt
+                  WHERE mt.user_id = member_uc.user_id AND mt.terminal_id = p_terminal_id)
+       )
+  );
+$function$
+;
+
+
+  create policy "terminal_product_tanks_write_admin"
+  on "public"."terminal_product_tanks"
+  as permissive
+  for all
+  to authenticated
+using (public.is_company_admin_for_terminal(terminal_id))
+with check (public.is_company_admin_for_terminal(terminal_id));
@@ -0,0 +1,324 @@
+-- Compartment state per trailer: what each compartment last held and whether
+-- it has been cleaned or purged since. Residue placarding reads this instead
+-- of the last load's snapshot, so it survives other devices and slip-seating.
+-- Written only by complete_load and mark_compartments_cleaned; read by members
+-- of the trailer's company.
+
+  create table "public"."trailer_compartment_state" (
+    "trailer_id" uuid not null,
+    "comp_number" integer not null,
+    "product_id" uuid,
+    "un_number" text,
+    "load_id" uuid,
+    "loaded_at" timestamp with time zone,
+    "cleaned_at" timestamp with time zone,
+    "clean_method" text,
+    "updated_by" uuid,
+    "updated_at" timestamp with time zone not null default now()
+      );
+
+
+alter table "public"."trailer_compartment_state" enable row level security;
+
+CREATE UNIQUE INDEX trailer_compartment_state_pkey ON public.trailer_compartment_state USING btree (trailer_id, comp_number);
+
+alter table "public"."trailer_compartment_state" add constraint "trailer_compartment_state_pkey" PRIMARY KEY using index "trailer_compartment_state_pkey";
+
+alter table "public"."trailer_compartment_state" add constraint "trailer_compartment_state_trailer_id_fkey" FOREIGN KEY (trailer_id) REFERENCES public.trailers(trailer_id) ON DELETE CASCADE;
+
+alter table "public"."trailer_compartment_state" add constraint "trailer_compartment_state_product_id_fkey" FOREIGN KEY (product_id) REFERENCES public.products(product_id) ON DELETE SET NULL;
+
+alter table "public"."trailer_compartment_state" add constraint "trailer_compartment_state_load_id_fkey" FOREIGN KEY (load_id) REFERENCES public.load_log(load_id) ON DELETE SET NULL;
+
+alter table "public"."trailer_compartment_state" add constraint "trailer_compartment_state_clean_method_check"
+  CHECK (clean_method IS NULL OR clean_method IN ('cleaned', 'purged'));
+
+
+  create policy "trailer_compartment_state_read_company"
+  on "public"."trailer_compartment_state"
+  as permissive
+  for select
+  to authenticated
+using ((trailer_id IN ( SELECT t.trailer_id
+   FROM public.trailers t
+  WHERE (t.company_id IN ( SELECT user_companies.company_id
+           FROM public.user_companies
+          WHERE (user_companies.user_id = auth.uid()))))));
+
+
+-- Seed from history: each compartment's most recent completed load.
+INSERT INTO public.trailer_compartment_state (trailer_id, comp_number, product_id, un_number, load_id, loaded_at)
+SELECT DISTINCT ON (ec.trailer_id, l.comp_number)
+       ec.trailer_id, l.comp_number, l.product_id, p.un_number, ll.load_id,
+       COALESCE(ll.completed_at, ll.started_at)
+  FROM public.load_lines l
+  JOIN public.load_log ll ON ll.load_id = l.load_id
+  JOIN public.equipment_combos ec ON ec.combo_id = ll.combo_id
+  LEFT JOIN public.products p ON p.product_id = l.product_id
+ WHERE ll.status IN ('loaded', 'completed')
+   AND l.product_id IS NOT NULL
+   AND COALESCE(l.actual_gallons, l.planned_gallons, 0) > 0
+ ORDER BY ec.trailer_id, l.comp_number, COALESCE(ll.completed_at, ll.started_at) DESC
+ON CONFLICT (trailer_id, comp_number) DO NOTHING;
+
+
+-- complete_load: as before, plus compartment state (step 2c).
+CREATE OR REPLACE FUNCTION public.complete_load(payload jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_load_id        uuid;
+  v_completed_at   timestamptz;
+  v_user_id        uuid;
+  v_status         text;
+  v_terminal_id    uuid;
+  v_planned_lbs    numeric;
+  v_actual_total   numeric := 0;
+  v_diff_lbs       numeric;
+  v_line           jsonb;
+  v_update         jsonb;
+  v_comp           int;
+  v_actual_gallons numeric;
+  v_actual_lbs     numeric;
+  v_actual_net     numeric;
+  v_actual_vcf     numeric;
+  v_actual_temp    numeric;
+  v_actual_api     numeric;
+  v_product_id     uuid;
+  v_api_temp       numeric;
+  v_trailer_id     uuid;
+BEGIN
+
+  -- ── Parse top-level scalars from payload ────────────────────────────────────
+  v_load_id      := (payload->>'load_id')::uuid;
+  v_completed_at := COALESCE(
+                      (payload->>'completed_at')::timestamptz,
+                      (payload->>'loaded_at')::timestamptz,
+                      now()
+                    );
+
+
+  -- ── 1. Auth + state check ───────────────────────────────────────────────────
+  SELECT user_id, status, terminal_id
+    INTO v_user_id, v_status, v_terminal_id
+    FROM load_log
+   WHERE load_id = v_load_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'load_not_found: %', v_load_id;
+  END IF;
+
+  IF v_user_id != auth.uid() THEN
+    RAISE EXCEPTION 'unauthorized: load does not belong to current user';
+  END IF;
+
+  IF v_status = 'loaded' THEN
+    RAISE EXCEPTION 'already_completed: load % is already loaded', v_load_id;
+  END IF;
+
+
+  -- ── 2a. Per-compartment actuals (from payload.lines) ────────────────────────
+  FOR v_line IN SELECT * FROM jsonb_array_elements(payload->'lines')
+  LOOP
+    v_comp           := (v_line->>'comp_number')::int;
+    v_actual_gallons := (v_line->>'actual_gallons')::numeric;
+    v_actual_lbs     := (v_line->>'actual_lbs')::numeric;
+    v_actual_temp    := (v_line->>'temp_f')::numeric;
+    v_actual_net     := (v_line->>'actual_net_gallons')::numeric;
+    v_actual_vcf     := (v_line->>'actual_vcf')::numeric;
+
+    UPDATE load_lines
+       SET actual_gallons     = v_actual_gallons,
+           actual_lbs         = v_actual_lbs,
+           actual_temp_f      = v_actual_temp,
+           actual_net_gallons = v_actual_net,
+           actual_vcf         = v_actual_vcf,
+           updated_at     = now()
+     WHERE load_id    = v_load_id
+       AND comp_number = v_comp;
+  END LOOP;
+
+
+  -- ── 2b. Per-product actual API (from payload.product_updates) ───────────────
+  -- Joins on product_id — all compartments of the same product get the same
+  -- observed API.  actual_temp_f from step 2a (comp-level) takes precedence;
+  -- product-level temp only fills gaps.
+  FOR v_update IN SELECT * FROM jsonb_array_elements(payload->'product_updates')
+  LOOP
+    v_product_id := (v_update->>'product_id')::uuid;
+    v_actual_api := (v_update->>'api')::numeric;
+    v_actual_temp:= (v_update->>'temp_f')::numeric;
+
+    UPDATE load_lines
+       SET actual_api    = v_actual_api,
+           actual_temp_f = COALESCE(actual_temp_f, v_actual_temp),
+           updated_at    = now()
+     WHERE load_id    = v_load_id
+       AND product_id::text = v_update->>'product_id';
+  END LOOP;
+
+
+  -- ── 2c. Compartment state ───────────────────────────────────────────────────
+  -- Every compartment this load filled now holds its product (and, once
+  -- emptied, its residue). A load completed late never overwrites a newer
+  -- load or a later clean.
+  SELECT ec.trailer_id
+    INTO v_trailer_id
+    FROM load_log ll
+    JOIN equipment_combos ec ON ec.combo_id = ll.combo_id
+   WHERE ll.load_id = v_load_id;
+
+  IF v_trailer_id IS NOT NULL THEN
+    INSERT INTO trailer_compartment_state AS s
+           (trailer_id, comp_number, product_id, un_number, load_id, loaded_at,
+            cleaned_at, clean_method, updated_by, updated_at)
+    SELECT v_trailer_id, l.comp_number, l.product_id, p.un_number, v_load_id, v_completed_at,
+           NULL, NULL, auth.uid(), now()
+      FROM load_lines l
+      LEFT JOIN products p ON p.product_id = l.product_id
+     WHERE l.load_id = v_load_id
+       AND l.product_id IS NOT NULL
+       AND COALESCE(l.actual_gallons, l.planned_gallons, 0) > 0
+    ON CONFLICT (trailer_id, comp_number) DO UPDATE
+       SET product_id   = EXCLUDED.product_id,
+           un_number    = EXCLUDED.un_number,
+           load_id      = EXCLUDED.load_id,
+           loaded_at    = EXCLUDED.loaded_at,
+           cleaned_at   = NULL,
+           clean_method = NULL,
+           updated_by   = EXCLUDED.updated_by,
+           updated_at   = now()
+     WHERE (s.loaded_at IS NULL OR s.loaded_at <= EXCLUDED.loaded_at)
+       AND (s.cleaned_at IS NULL OR s.cleaned_at <= EXCLUDED.loaded_at);
+  END IF;
+
+
+  -- ── 3. Compute diff and close load_log ──────────────────────────────────────
+  -- Re-sum from DB to be authoritative
+  SELECT COALESCE(SUM(actual_lbs), 0)
+    INTO v_actual_total
+    FROM load_lines
+   WHERE load_id = v_load_id
+     AND actual_lbs IS NOT NULL;
+
+  SELECT COALESCE(planned_total_lbs, 0)
+    INTO v_planned_lbs
+    FROM load_log
+   WHERE load_id = v_load_id;
+
+  v_diff_lbs := v_actual_total - v_planned_lbs;
+
+  UPDATE load_log
+     SET status            = 'loaded',
+         completed_at      = v_completed_at,
+         actual_total_lbs  = v_actual_total,
+         diff_lbs          = v_diff_lbs,
+         bol_number        = NULLIF(payload->>'bol_number', ''),
+         actuals_source    = COALESCE(payload->>'actuals_source', 'driver'),
+         bol_discrepancies = COALESCE(payload->'bol_discrepancies', '[]'::jsonb),
+         updated_at        = now()
+   WHERE load_id = v_load_id;
+
+
+  -- ── 4. Update terminal_products.last_api ────────────────────────────────────
+  -- Writes the observed API back to the specific terminal+product record so the
+  -- planner pre-fills the correct API for this terminal on the next load.
+  -- Different terminals carry the same product at different API values.
+  -- api_temp_f is the temperature the API was read at and becomes last_temp_f:
+  -- the load's observed temp (the app forward-corrects BOL API to the BOL
+  -- temp), or 60 for a BOL API with no temp so it isn't back-corrected twice.
+  -- last_loaded_at marks last_temp_f as a real load temperature; the planner
+  -- only offers it as a default while that is recent.
+  FOR v_update IN SELECT * FROM jsonb_array_elements(payload->'product_updates')
+  LOOP
+    v_product_id := (v_update->>'product_id')::uuid;
+    v_actual_api := (v_update->>'api')::numeric;
+    v_api_temp   := (v_update->>'api_temp_f')::numeric;
+
+    IF v_actual_api IS NOT NULL AND v_actual_api > 0 THEN
+      UPDATE terminal_products
+         SET last_api                = v_actual_api,
+             last_temp_f             = COALESCE(v_api_temp, last_temp_f),
+             last_api_updated_at     = CASE WHEN v_api_temp IS NOT NULL THEN now() ELSE last_api_updated_at END,
+             last_loaded_at          = CASE WHEN v_api_temp IS NOT NULL AND v_update->>'temp_f' IS NOT NULL
+                                            THEN v_completed_at ELSE last_loaded_at END,
+             last_updated_by_load_id = CASE WHEN v_api_temp IS NOT NULL THEN v_load_id ELSE last_updated_by_load_id END,
+             updated_at              = now()
+       WHERE terminal_id = v_terminal_id
+         AND product_id::text = v_update->>'product_id';
+    END IF;
+  END LOOP;
+
+
+  -- ── 5. Return summary ────────────────────────────────────────────────────────
+  RETURN jsonb_build_object(
+    'ok',               true,
+    'load_id',          v_load_id,
+    'planned_lbs',      v_planned_lbs,
+    'actual_lbs',       v_actual_total,
+    'diff_lbs',         v_diff_lbs,
+    'completed_at',     v_completed_at
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE;
+END;
+$function$
+;
+
+
+-- Driver marks compartments cleaned or purged. The last product stays on the
+-- row for the record; cleaned_at clears the residue. Members of the trailer's
+-- company only.
+CREATE OR REPLACE FUNCTION public.mark_compartments_cleaned(p_trailer_id uuid, p_comp_numbers integer[], p_method text DEFAULT 'cleaned'::text)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_company_id uuid;
+  v_count      int;
+BEGIN
+  IF auth.uid() IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+
+  IF p_method NOT IN ('cleaned', 'purged') THEN
+    RAISE EXCEPTION 'Unknown clean method: %', p_method;
+  END IF;
+
+  SELECT company_id INTO v_company_id
+    FROM trailers
+   WHERE trailer_id = p_trailer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trailer not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_companies
+     WHERE user_id = auth.uid()
+       AND company_id = v_company_id
+  ) THEN
+    RAISE EXCEPTION 'unauthorized: trailer belongs to another company';
+  END IF;
+
+  INSERT INTO trailer_compartment_state AS s
+         (trailer_id, comp_number, cleaned_at, clean_method, updated_by, updated_at)
+  SELECT p_trailer_id, c, now(), p_method, auth.uid(), now()
+    FROM unnest(p_comp_numbers) AS c
+  ON CONFLICT (trailer_id, comp_number) DO UPDATE
+     SET cleaned_at   = now(),
+         clean_method = p_method,
+         updated_by   = auth.uid(),
+         updated_at   = now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('ok', true, 'trailer_id', p_trailer_id, 'compartments', v_count);
+END;
+$function$
+;
@@ -0,0 +1,110 @@
+-- Product compatibility / switch loading.
+-- product_family and dyed drive the per-compartment residue checks; null
+-- family falls back to a guess from the product name and UN number.
+-- load_log keeps the warnings the driver accepted at begin_load.
+
+alter table "public"."products"
+  add column if not exists "product_family" text,
+  add column if not exists "dyed" boolean;
+
+alter table "public"."products"
+  add constraint "products_product_family_check"
+  check (product_family is null or product_family in
+    ('gasoline', 'avgas', 'ethanol', 'jet', 'kerosene', 'diesel', 'biodiesel', 'fuel_oil', 'other'));
+
+alter table "public"."load_log"
+  add column if not exists "compat_acknowledgements" jsonb not null default '[]'::jsonb;
+
+-- begin_load: as before, plus compat_acknowledgements.
+CREATE OR REPLACE FUNCTION public.begin_load(payload jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_user_id     uuid := auth.uid();
+  v_load_id     uuid;
+  v_combo       record;
+  v_lines_count int;
+BEGIN
+  IF v_user_id IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+
+  IF (payload ? 'combo_id') IS FALSE OR (payload ? 'terminal_id') IS FALSE THEN
+    RAISE EXCEPTION 'Missing combo_id or terminal_id';
+  END IF;
+
+  -- Fetch combo — target_weight replaces gross_limit_lbs, buffer_lbs removed
+  SELECT combo_id, tare_lbs, target_weight, active
+    INTO v_combo
+    FROM public.equipment_combos
+   WHERE combo_id = (payload->>'combo_id')::uuid;
+
+  IF v_combo.combo_id IS NULL THEN RAISE EXCEPTION 'Invalid combo_id'; END IF;
+  IF v_combo.active IS NOT TRUE THEN RAISE EXCEPTION 'Equipment combo is not active'; END IF;
+
+  -- Insert load_log row.
+  -- load_log.gross_limit_lbs still exists as a historical snapshot column —
+  -- we store target_weight into it so old load reports still read correctly.
+  -- load_log.buffer_lbs still exists — store 0 (concept removed).
+  INSERT INTO public.load_log (
+    user_id, combo_id, terminal_id, state_code, city_id,
+    cg_bias,
+    ambient_temp_f,
+    product_temp_f,
+    planned_snapshot,
+    tare_lbs,
+    gross_limit_lbs,
+    buffer_lbs,
+    planned_total_gal,
+    planned_total_lbs,
+    planned_gross_lbs,
+    compat_acknowledgements,
+    status,
+    started_at
+  ) VALUES (
+    v_user_id,
+    (payload->>'combo_id')::uuid,
+    (payload->>'terminal_id')::uuid,
+    NULLIF(payload->>'state_code', ''),
+    CASE WHEN payload ? 'city_id' THEN (payload->>'city_id')::uuid ELSE NULL END,
+    CASE WHEN payload ? 'cg_bias'        THEN (payload->>'cg_bias')::numeric        ELSE NULL END,
+    CASE WHEN payload ? 'ambient_temp_f' THEN (payload->>'ambient_temp_f')::numeric ELSE NULL END,
+    CASE WHEN payload ? 'product_temp_f' THEN (payload->>'product_temp_f')::numeric ELSE NULL END,
+    payload->'planned_snapshot',
+    v_combo.tare_lbs,
+    v_combo.target_weight,  -- maps into gross_limit_lbs snapshot column
+    0,                       -- buffer_lbs removed; store 0
+    (payload->'planned_totals'->>'planned_total_gal')::numeric,
+    (payload->'planned_totals'->>'planned_total_lbs')::numeric,
+    (payload->'planned_totals'->>'planned_gross_lbs')::numeric,
+    COALESCE(payload->'compat_acknowledgements', '[]'::jsonb),
+    'planned',
+    now()
+  ) RETURNING load_id INTO v_load_id;
+
+  -- Insert one row per compartment
+  INSERT INTO public.load_lines (
+    load_id, comp_number, product_id, planned_gallons, planned_lbs, temp_f,
+    planned_net_gallons, planned_vcf
+  )
+  SELECT
+    v_load_id,
+    (x->>'comp_number')::int,
+    (x->>'product_id')::uuid,
+    CASE WHEN x ? 'planned_gallons' THEN (x->>'planned_gallons')::numeric ELSE NULL END,
+    CASE WHEN x ? 'planned_lbs'     THEN (x->>'planned_lbs')::numeric     ELSE NULL END,
+    CASE WHEN x ? 'temp_f'          THEN (x->>'temp_f')::numeric          ELSE NULL END,
+    CASE WHEN x ? 'planned_net_gallons' THEN (x->>'planned_net_gallons')::numeric ELSE NULL END,
+    CASE WHEN x ? 'planned_vcf'         THEN (x->>'planned_vcf')::numeric         ELSE NULL END
+  FROM jsonb_array_elements(COALESCE(payload->'lines', '[]'::jsonb)) x;
+
+  GET DIAGNOSTICS v_lines_count = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'load_id',        v_load_id,
+    'lines_inserted', v_lines_count
+  );
+END;
+$function$
+;
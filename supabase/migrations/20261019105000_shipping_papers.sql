@@ -0,0 +1,8 @@
+-- Hazmat shipping papers.
+-- 172.604: every shipping paper carries a 24-hour emergency response number,
+-- either the carrier's own or that of an ERI provider it has a contract
+-- with (the contract holder is named on the paper). Set per company in Admin.
+
+alter table "public"."companies"
+  add column if not exists "emergency_response_phone" text,
+  add column if not exists "emergency_response_contract" text;
@@ -0,0 +1,11 @@
+-- Hazardous Materials Table row per product.
+-- An ID like UN1863 or UN1268 has a row per packing group; the product's
+-- packing group picks one. Null falls back to the product name (proper
+-- shipping name or a known trade name), then to the table's first row.
+
+alter table "public"."products"
+  add column if not exists "packing_group" text;
+
+alter table "public"."products"
+  add constraint "products_packing_group_check"
+  check (packing_group is null or packing_group in ('I', 'II', 'III'));